@@ -14,7 +14,8 @@ const withNextIntl = createNextIntlPlugin("./src/i18n/request.ts");
 
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  /* config options here */
+  // sql.js 运行时从包目录加载 wasm 文件，不能被打包
+  serverExternalPackages: ["sql.js"],
 };
 
 // 组合插件: MDX -> NextIntl -> NextConfig
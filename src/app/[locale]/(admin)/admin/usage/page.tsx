@@ -0,0 +1,199 @@
+import { Coins, Cpu, DollarSign, TrendingUp } from "lucide-react";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getUsageReconciliationReport } from "@/features/flashcards/usage";
+import { cn } from "@/lib/utils";
+
+/** 报表统计天数 */
+const REPORT_DAYS = 30;
+
+/**
+ * 格式化美元金额
+ */
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+/**
+ * 管理员 - LLM 用量对账页面
+ *
+ * 按模型对比已确认的积分收入与实际供应商支出
+ */
+export default async function AdminUsagePage() {
+  const since = new Date();
+  since.setDate(since.getDate() - REPORT_DAYS);
+
+  const report = await getUsageReconciliationReport(since);
+
+  const totals = report.models.reduce(
+    (acc, m) => ({
+      calls: acc.calls + m.calls,
+      costUsd: acc.costUsd + m.costUsd,
+      creditsCharged: acc.creditsCharged + m.creditsCharged,
+      revenueUsd: acc.revenueUsd + m.revenueUsd,
+      unpricedCalls: acc.unpricedCalls + m.unpricedCalls,
+    }),
+    {
+      calls: 0,
+      costUsd: 0,
+      creditsCharged: 0,
+      revenueUsd: 0,
+      unpricedCalls: 0,
+    }
+  );
+  const margin = totals.revenueUsd - totals.costUsd;
+
+  return (
+    <div className="space-y-6">
+      {/* 页面标题 */}
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight">用量对账</h2>
+        <p className="text-muted-foreground">
+          最近 {REPORT_DAYS} 天已确认积分与实际 LLM 供应商支出对比（积分按
+          {formatUsd(report.creditValueUsd)} / 积分折算）
+        </p>
+      </div>
+
+      {/* 汇总卡片 */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">LLM 调用</CardTitle>
+            <Cpu className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {totals.calls.toLocaleString()}
+            </div>
+            {totals.unpricedCalls > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {totals.unpricedCalls} 次调用的模型未定价
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">供应商支出</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">
+              {formatUsd(totals.costUsd)}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">已确认积分</CardTitle>
+            <Coins className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-yellow-600">
+              {totals.creditsCharged.toFixed(2)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              折合 {formatUsd(totals.revenueUsd)}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">毛利</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div
+              className={cn(
+                "text-2xl font-bold",
+                margin >= 0 ? "text-green-600" : "text-red-600"
+              )}
+            >
+              {formatUsd(margin)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* 按模型明细 */}
+      <Card>
+        <CardHeader>
+          <CardTitle>按模型明细</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report.models.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              暂无用量记录
+            </div>
+          ) : (
+            <div className="relative overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs uppercase bg-muted/50">
+                  <tr>
+                    <th className="px-4 py-3">模型</th>
+                    <th className="px-4 py-3 text-right">调用次数</th>
+                    <th className="px-4 py-3 text-right">输入 tokens</th>
+                    <th className="px-4 py-3 text-right">输出 tokens</th>
+                    <th className="px-4 py-3 text-right">供应商支出</th>
+                    <th className="px-4 py-3 text-right">已确认积分</th>
+                    <th className="px-4 py-3 text-right">折合收入</th>
+                    <th className="px-4 py-3 text-right">毛利</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.models.map((m) => {
+                    const modelMargin = m.revenueUsd - m.costUsd;
+                    return (
+                      <tr
+                        key={`${m.provider}:${m.model}`}
+                        className="border-b hover:bg-muted/50"
+                      >
+                        <td className="px-4 py-3">
+                          <div className="font-medium">{m.model}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {m.provider}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {m.calls.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {m.promptTokens.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {m.completionTokens.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {m.unpricedCalls === m.calls
+                            ? "未定价"
+                            : formatUsd(m.costUsd)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {m.creditsCharged.toFixed(2)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {formatUsd(m.revenueUsd)}
+                        </td>
+                        <td
+                          className={cn(
+                            "px-4 py-3 text-right font-medium",
+                            modelMargin >= 0 ? "text-green-600" : "text-red-600"
+                          )}
+                        >
+                          {formatUsd(modelMargin)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
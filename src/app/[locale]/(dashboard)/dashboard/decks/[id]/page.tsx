@@ -1,5 +1,14 @@
 import { and, asc, eq } from "drizzle-orm";
-import { ArrowLeft, File, FileText, Globe, Layers, Video } from "lucide-react";
+import {
+  ArrowLeft,
+  BarChart3,
+  File,
+  FileText,
+  GraduationCap,
+  Globe,
+  Layers,
+  Video,
+} from "lucide-react";
 import { headers } from "next/headers";
 import Link from "next/link";
 import { notFound, redirect } from "next/navigation";
@@ -12,6 +21,7 @@ import { AddCardForm } from "@/features/decks/components/add-card-form";
 import { CardEditor } from "@/features/decks/components/card-editor";
 import { DeleteDeckButton } from "@/features/decks/components/delete-deck-button";
 import { ExportMenu } from "@/features/decks/components/export-menu";
+import { ImportCardsDialog } from "@/features/decks/components/import-cards-dialog";
 import { auth } from "@/lib/auth";
 
 const sourceTypeConfig: Record<
@@ -86,6 +96,24 @@ export default async function DeckDetailPage({
 
         {/* Actions */}
         <div className="flex items-center gap-2">
+          {cards.length > 0 && (
+            <Button size="sm" asChild>
+              <Link href={`/dashboard/decks/${deckData.id}/study`}>
+                <GraduationCap />
+                Study
+              </Link>
+            </Button>
+          )}
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/dashboard/decks/${deckData.id}/stats`}>
+              <BarChart3 />
+              Stats
+            </Link>
+          </Button>
+          <ImportCardsDialog
+            deckId={deckData.id}
+            existingFronts={cards.map((c) => c.front)}
+          />
           <ExportMenu deckId={deckData.id} deckTitle={deckData.title} />
           <DeleteDeckButton deckId={deckData.id} deckTitle={deckData.title} />
         </div>
@@ -105,7 +133,17 @@ export default async function DeckDetailPage({
           </div>
         ) : (
           cards.map((c) => (
-            <CardEditor key={c.id} card={c} deckId={deckData.id} />
+            <CardEditor
+              key={c.id}
+              card={c}
+              deckId={deckData.id}
+              videoUrl={
+                deckData.sourceType === "video" ? deckData.sourceUrl : null
+              }
+              pageUrl={
+                deckData.sourceType === "url" ? deckData.sourceUrl : null
+              }
+            />
           ))
         )}
 
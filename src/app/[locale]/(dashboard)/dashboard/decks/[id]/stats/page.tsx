@@ -0,0 +1,78 @@
+import { and, eq } from "drizzle-orm";
+import { ArrowLeft } from "lucide-react";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { db } from "@/db";
+import { deck } from "@/db/schema";
+import {
+  DueForecastCard,
+  HardestCardsCard,
+  RetentionCard,
+  ReviewHeatmapCard,
+} from "@/features/dashboard/components";
+import { getLearningStats } from "@/features/decks/stats";
+import { auth } from "@/lib/auth";
+
+export default async function DeckStatsPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session?.user) {
+    redirect("/sign-in");
+  }
+
+  const deckData = await db.query.deck.findFirst({
+    where: and(eq(deck.id, id), eq(deck.userId, session.user.id)),
+  });
+
+  if (!deckData) {
+    notFound();
+  }
+
+  const stats = await getLearningStats(session.user.id, deckData.id);
+
+  return (
+    <div className="container mx-auto space-y-6 py-6 px-4 md:px-6">
+      {/* Back button */}
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href={`/dashboard/decks/${deckData.id}`}>
+            <ArrowLeft />
+            Back to Deck
+          </Link>
+        </Button>
+      </div>
+
+      {/* Header */}
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold tracking-tight">
+          {deckData.title} Statistics
+        </h1>
+        <p className="text-muted-foreground">
+          Retention, review history and upcoming workload for this deck.
+        </p>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <RetentionCard
+          retention={stats.retention}
+          reviewsToday={stats.reviewsToday}
+          dueNow={stats.dueNow}
+        />
+        <div className="lg:col-span-2">
+          <ReviewHeatmapCard data={stats.heatmap} />
+        </div>
+      </div>
+      <div className="grid gap-4 lg:grid-cols-2">
+        <DueForecastCard data={stats.forecast} />
+        <HardestCardsCard cards={stats.hardestCards} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { and, eq } from "drizzle-orm";
+import { ArrowLeft } from "lucide-react";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { db } from "@/db";
+import { deck } from "@/db/schema";
+import { StudySession } from "@/features/decks/components/study-session";
+import { auth } from "@/lib/auth";
+
+export default async function DeckStudyPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session?.user) {
+    redirect("/sign-in");
+  }
+
+  const deckData = await db.query.deck.findFirst({
+    where: and(eq(deck.id, id), eq(deck.userId, session.user.id)),
+  });
+
+  if (!deckData) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto py-6 px-4 md:px-6">
+      {/* Back button */}
+      <div className="mb-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href={`/dashboard/decks/${deckData.id}`}>
+            <ArrowLeft />
+            Back to Deck
+          </Link>
+        </Button>
+      </div>
+
+      {/* Header */}
+      <div className="mb-6 space-y-1">
+        <h1 className="text-2xl font-bold tracking-tight">{deckData.title}</h1>
+        <p className="text-sm text-muted-foreground">
+          Space to reveal · 1-4 to grade · U to undo
+        </p>
+      </div>
+
+      <StudySession deckId={deckData.id} deckTitle={deckData.title} />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { ArrowLeft } from "lucide-react";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { AnkiImportForm } from "@/features/decks/components/anki-import-form";
+import { auth } from "@/lib/auth";
+
+export default async function ImportDeckPage() {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session?.user) {
+    redirect("/sign-in");
+  }
+
+  return (
+    <div className="container mx-auto max-w-2xl space-y-6 py-6 px-4 md:px-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/dashboard/decks">
+            <ArrowLeft />
+            Back to Decks
+          </Link>
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Import from Anki</h1>
+        <p className="text-muted-foreground">
+          Import notes from an Anki package. Each note becomes one card, and
+          subdecks are imported as separate decks.
+        </p>
+      </div>
+
+      <AnkiImportForm />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { desc, eq } from "drizzle-orm";
-import { Layers, Plus } from "lucide-react";
+import { Layers, Plus, Upload } from "lucide-react";
 import { headers } from "next/headers";
+import Link from "next/link";
 import { redirect } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { db } from "@/db";
@@ -27,12 +28,20 @@ export default async function DecksPage() {
           <h1 className="text-2xl font-bold tracking-tight">My Decks</h1>
           <p className="text-muted-foreground">Manage your flashcard decks</p>
         </div>
-        <CreateDeckDialog>
-          <Button>
-            <Plus />
-            Create Deck
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/decks/import">
+              <Upload />
+              Import
+            </Link>
           </Button>
-        </CreateDeckDialog>
+          <CreateDeckDialog>
+            <Button>
+              <Plus />
+              Create Deck
+            </Button>
+          </CreateDeckDialog>
+        </div>
       </div>
 
       {decks.length === 0 ? (
@@ -23,8 +23,17 @@ import {
   deck,
   generationTask,
 } from "@/db/schema";
+import {
+  DueForecastCard,
+  HardestCardsCard,
+  RetentionCard,
+  ReviewHeatmapCard,
+} from "@/features/dashboard/components";
+import { getLearningStats } from "@/features/decks/stats";
 import { TaskCard } from "@/features/flashcards/components/task-card";
 import type { TaskListItem } from "@/features/flashcards/actions/tasks";
+import { getGeneratedChapters } from "@/features/flashcards/chapters";
+import { getTaskUsageSummaries } from "@/features/flashcards/usage";
 import { auth } from "@/lib/auth";
 
 export default async function DashboardPage() {
@@ -36,28 +45,31 @@ export default async function DashboardPage() {
   const userId = session.user.id;
 
   // Fetch stats in parallel
-  const [decksData, cardsData, balanceData, tasksData] = await Promise.all([
-    // Total decks count
-    db
-      .select({ count: count() })
-      .from(deck)
-      .where(eq(deck.userId, userId)),
-    // Total cards count (via decks)
-    db
-      .select({ total: sql<number>`COALESCE(SUM(${deck.cardCount}), 0)` })
-      .from(deck)
-      .where(eq(deck.userId, userId)),
-    // Credits balance
-    db.query.creditsBalance.findFirst({
-      where: eq(creditsBalance.userId, userId),
-    }),
-    // Recent tasks (last 5)
-    db.query.generationTask.findMany({
-      where: eq(generationTask.userId, userId),
-      orderBy: [desc(generationTask.createdAt)],
-      limit: 5,
-    }),
-  ]);
+  const [decksData, cardsData, balanceData, tasksData, learningStats] =
+    await Promise.all([
+      // Total decks count
+      db
+        .select({ count: count() })
+        .from(deck)
+        .where(eq(deck.userId, userId)),
+      // Total cards count (via decks)
+      db
+        .select({ total: sql<number>`COALESCE(SUM(${deck.cardCount}), 0)` })
+        .from(deck)
+        .where(eq(deck.userId, userId)),
+      // Credits balance
+      db.query.creditsBalance.findFirst({
+        where: eq(creditsBalance.userId, userId),
+      }),
+      // Recent tasks (last 5)
+      db.query.generationTask.findMany({
+        where: eq(generationTask.userId, userId),
+        orderBy: [desc(generationTask.createdAt)],
+        limit: 5,
+      }),
+      // Learning analytics across all decks
+      getLearningStats(userId),
+    ]);
 
   const totalDecks = decksData[0]?.count ?? 0;
   const totalCards = Number(cardsData[0]?.total ?? 0);
@@ -82,6 +94,14 @@ export default async function DashboardPage() {
     }
   }
 
+  // LLM usage per task (cost breakdown)
+  const usageMap = await getTaskUsageSummaries(tasksData.map((t) => t.id));
+
+  // Chapters already generated for documents that can take more chapters
+  const generatedMap = await getGeneratedChapters(
+    tasksData.filter((t) => !t.parentTaskId && t.documentText).map((t) => t.id)
+  );
+
   // Transform tasks to TaskListItem format
   const recentTasks: TaskListItem[] = tasksData.map((task) => ({
     id: task.id,
@@ -98,7 +118,14 @@ export default async function DashboardPage() {
     documentOutline: task.documentOutline as TaskListItem["documentOutline"],
     totalChunks: task.totalChunks,
     completedChunks: task.completedChunks,
+    failedChunks: task.failedChunks,
+    parentTaskId: task.parentTaskId,
+    generatedChapters:
+      !task.parentTaskId && task.documentText
+        ? (generatedMap.get(task.id) ?? [])
+        : null,
     deck: task.deckId ? decksMap.get(task.deckId) ?? null : null,
+    usage: usageMap.get(task.id) ?? null,
   }));
 
   return (
@@ -184,6 +211,25 @@ export default async function DashboardPage() {
         </Button>
       </div>
 
+      {/* Learning Analytics */}
+      <div className="space-y-4">
+        <h2 className="text-lg font-semibold">Learning Analytics</h2>
+        <div className="grid gap-4 lg:grid-cols-3">
+          <RetentionCard
+            retention={learningStats.retention}
+            reviewsToday={learningStats.reviewsToday}
+            dueNow={learningStats.dueNow}
+          />
+          <div className="lg:col-span-2">
+            <ReviewHeatmapCard data={learningStats.heatmap} />
+          </div>
+        </div>
+        <div className="grid gap-4 lg:grid-cols-2">
+          <DueForecastCard data={learningStats.forecast} />
+          <HardestCardsCard cards={learningStats.hardestCards} showDeck />
+        </div>
+      </div>
+
       {/* Recent Tasks */}
       <div>
         <div className="mb-4 flex items-center justify-between">
@@ -8,6 +8,8 @@ import { db } from "@/db";
 import { generationTask } from "@/db/schema";
 import { TaskCard } from "@/features/flashcards/components/task-card";
 import type { TaskListItem } from "@/features/flashcards/actions/tasks";
+import { getGeneratedChapters } from "@/features/flashcards/chapters";
+import { getTaskUsageSummaries } from "@/features/flashcards/usage";
 import type { DocumentOutline } from "@/lib/ai/outline";
 import { auth } from "@/lib/auth";
 
@@ -42,6 +44,14 @@ export default async function TasksPage() {
 
   const deckMap = new Map(decks.map((d) => [d.id, d]));
 
+  // 获取各任务的 LLM 用量
+  const usageMap = await getTaskUsageSummaries(tasks.map((t) => t.id));
+
+  // 可追加生成的原分析任务已生成的章节
+  const generatedMap = await getGeneratedChapters(
+    tasks.filter((t) => !t.parentTaskId && t.documentText).map((t) => t.id)
+  );
+
   // 组装任务列表数据
   const taskList: TaskListItem[] = tasks.map((task) => ({
     id: task.id,
@@ -58,12 +68,19 @@ export default async function TasksPage() {
     documentOutline: task.documentOutline as DocumentOutline | null,
     totalChunks: task.totalChunks,
     completedChunks: task.completedChunks,
+    failedChunks: task.failedChunks,
+    parentTaskId: task.parentTaskId,
+    generatedChapters:
+      !task.parentTaskId && task.documentText
+        ? (generatedMap.get(task.id) ?? [])
+        : null,
     deck: task.deckId
       ? {
           id: task.deckId,
           title: deckMap.get(task.deckId)?.title ?? "Untitled Deck",
         }
       : null,
+    usage: usageMap.get(task.id) ?? null,
   }));
 
   // 按状态分组统计
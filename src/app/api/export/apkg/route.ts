@@ -1,16 +1,36 @@
-import { NextRequest, NextResponse } from "next/server";
+import { type NextRequest, NextResponse } from "next/server";
 import { eq, and } from "drizzle-orm";
 import { db } from "@/db";
 import { deck, card } from "@/db/schema";
+import { isFigureImage, isProxyableImage } from "@/features/storage/figures";
+import { getStorageProvider } from "@/features/storage/providers";
+import {
+  type ApkgMedia,
+  cardToApkgNote,
+  extractImageSources,
+  formatAnkiTags,
+  getMediaFilename,
+  replaceImageSources,
+  rewriteImageSources,
+  writeApkg,
+} from "@/lib/anki";
 import { auth } from "@/lib/auth";
+import { type CardContent, toAnkiNote } from "@/lib/cards";
+
+/** 单个媒体文件大小上限 */
+const MAX_MEDIA_BYTES = 10 * 1024 * 1024;
+
+/** 媒体文件总大小上限 */
+const MAX_TOTAL_MEDIA_BYTES = 100 * 1024 * 1024;
 
 /**
  * 导出牌组为 Anki .apkg 格式
  *
  * GET /api/export/apkg?deckId=xxx
+ * GET /api/export/apkg?deckId=xxx&format=tsv
  *
- * 使用 anki-apkg-export 库生成 .apkg 文件
- * 降级方案：生成 TSV 格式（Anki 也支持导入）
+ * 默认生成 .apkg（含笔记模板、标签和图片）；format=tsv 时生成 Anki 可导入的文本
+ * （文本不能携带媒体文件，文档插图只能通过 .apkg 导出）
  */
 export async function GET(request: NextRequest) {
   try {
@@ -61,25 +81,30 @@ export async function GET(request: NextRequest) {
       .replace(/[^a-zA-Z0-9\u4e00-\u9fff]/g, "_")
       .slice(0, 50);
 
-    // 尝试生成 .apkg，降级为 TSV
     if (format === "apkg") {
-      try {
-        const apkgBuffer = await generateApkg(deckData.title, cards);
-        return new NextResponse(new Uint8Array(apkgBuffer), {
-          status: 200,
-          headers: {
-            "Content-Type": "application/octet-stream",
-            "Content-Disposition": `attachment; filename="${safeName}.apkg"`,
-          },
-        });
-      } catch {
-        // apkg 生成失败，降级为 TSV
-        console.warn("APKG generation failed, falling back to TSV");
-      }
+      const apkgBuffer = await generateApkg(
+        deckData.title,
+        cards,
+        session.user.id
+      );
+      return new NextResponse(new Uint8Array(apkgBuffer), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Disposition": `attachment; filename="${safeName}.apkg"`,
+        },
+      });
+    }
+
+    if (format !== "tsv") {
+      return NextResponse.json(
+        { error: "format must be apkg or tsv" },
+        { status: 400 }
+      );
     }
 
     // TSV 格式（Anki 支持导入）
-    const tsv = generateTsv(cards);
+    const tsv = generateTsv(cards, request.nextUrl.origin);
     return new NextResponse(tsv, {
       status: 200,
       headers: {
@@ -98,51 +123,132 @@ export async function GET(request: NextRequest) {
 
 /**
  * 生成 .apkg 文件
+ *
+ * 引用存储中图片（/image-proxy/{bucket}/{key}）的卡片会把图片打包为媒体文件；
+ * 外部图片 URL 保持不变，由 Anki 在线加载
  */
 async function generateApkg(
   deckTitle: string,
-  cards: Array<{ front: string; back: string }>
+  cards: Array<CardContent & { id: string; tags: string[] | null }>,
+  userId: string
 ): Promise<Buffer> {
-  // 动态导入（CommonJS 模块）
-  // eslint-disable-next-line @typescript-eslint/no-require-imports
-  const AnkiExport = require("anki-apkg-export").default;
+  const notes = cards.map((c) => cardToApkgNote(c, deckTitle, c.tags ?? []));
 
-  const apkg = AnkiExport(deckTitle);
+  const sources = new Set(
+    notes.flatMap((note) => note.fields.flatMap(extractImageSources))
+  );
+  const { media, replacements } = await collectMedia([...sources], userId);
 
-  for (const c of cards) {
-    apkg.addCard(c.front, c.back);
+  if (replacements.size > 0) {
+    for (const note of notes) {
+      note.fields = note.fields.map((field) =>
+        replaceImageSources(field, replacements)
+      );
+    }
   }
 
-  const zip = await apkg.save();
+  return writeApkg({ notes, media });
+}
+
+/**
+ * 从存储读取卡片引用的图片
+ *
+ * 只处理 image-proxy 允许当前用户访问的路径（头像、自己的文档插图）；
+ * 卡片内容可以被编辑，引用其他用户插图的图片不会打包。读取失败或超出大小限制的图片跳过
+ */
+async function collectMedia(
+  sources: string[],
+  userId: string
+): Promise<{
+  media: ApkgMedia[];
+  replacements: Map<string, string>;
+}> {
+  const media: ApkgMedia[] = [];
+  const replacements = new Map<string, string>();
+  let totalBytes = 0;
+
+  for (const source of sources) {
+    const { bucket, key } = parseProxySource(source) ?? {};
+    if (!bucket || !key || !isProxyableImage(bucket, key, userId)) continue;
+
+    try {
+      const data = await getStorageProvider().getObject(key, bucket);
+      if (
+        data.byteLength > MAX_MEDIA_BYTES ||
+        totalBytes + data.byteLength > MAX_TOTAL_MEDIA_BYTES
+      ) {
+        console.warn(`[Export] Skipping oversized media: ${key}`);
+        continue;
+      }
 
-  // zip 可能是 ArrayBuffer 或 Buffer
-  if (Buffer.isBuffer(zip)) {
-    return zip;
+      const filename = getMediaFilename(key);
+      totalBytes += data.byteLength;
+      media.push({ filename, data: new Uint8Array(data) });
+      replacements.set(source, filename);
+    } catch (error) {
+      console.warn(`[Export] Failed to read media ${key}:`, error);
+    }
   }
 
-  return Buffer.from(zip);
+  return { media, replacements };
 }
 
 /**
  * 生成 TSV 格式（Anki 可导入）
  *
- * 格式：front\tback\n
- * Anki 导入时选择 "Tab" 分隔符即可
+ * 格式：front\tback\tnotetype\ttags\n
+ * Anki 导入时选择 "Tab" 分隔符即可，第三列指定笔记模板，第四列为空格分隔的标签
+ *
+ * 文本无法携带媒体文件：image-proxy 图片改为绝对地址（Anki 在线加载）；
+ * 文档插图需要登录才能访问，Anki 无法加载，直接移除
+ *
+ * @param origin - 站点地址（用于生成图片绝对地址）
  */
 function generateTsv(
-  cards: Array<{ front: string; back: string }>
+  cards: Array<CardContent & { tags: string[] | null }>,
+  origin: string
 ): string {
   // 添加 Anki 导入提示标签
   let tsv = "#separator:tab\n";
   tsv += "#html:true\n";
-  tsv += "#columns:Front\tBack\n";
+  tsv += "#notetype column:3\n";
+  tsv += "#tags column:4\n";
+  tsv += "#columns:Front\tBack\tNotetype\tTags\n";
 
   for (const c of cards) {
+    const note = toAnkiNote(c);
     // 转义制表符和换行符
-    const front = c.front.replace(/\t/g, " ").replace(/\n/g, "<br>");
-    const back = c.back.replace(/\t/g, " ").replace(/\n/g, "<br>");
-    tsv += `${front}\t${back}\n`;
+    const [front, back] = note.fields.map((field) =>
+      rewriteImageSources(field, (src) => resolveTextImageSource(src, origin))
+        .replace(/^(?:<br>)+|(?:<br>)+$/g, "")
+        .replace(/\t/g, " ")
+        .replace(/\n/g, "<br>")
+    );
+    const tags = formatAnkiTags(c.tags ?? []).trim();
+    tsv += `${front}\t${back}\t${note.model}\t${tags}\n`;
   }
 
   return tsv;
 }
+
+/**
+ * 解析 image-proxy 地址（/image-proxy/{bucket}/{key}）
+ */
+function parseProxySource(
+  source: string
+): { bucket: string; key: string } | null {
+  const match = source.match(/^\/image-proxy\/([^/]+)\/(.+)$/);
+  if (!match?.[1] || !match[2]) return null;
+  return { bucket: match[1], key: decodeURIComponent(match[2]) };
+}
+
+/**
+ * 纯文本导出中的图片地址
+ *
+ * 文档插图返回 null（移除）；其他 image-proxy 图片改为绝对地址；外部图片不变
+ */
+function resolveTextImageSource(src: string, origin: string): string | null {
+  const proxied = parseProxySource(src);
+  if (!proxied) return src;
+  return isFigureImage(proxied.bucket, proxied.key) ? null : `${origin}${src}`;
+}
@@ -1,8 +1,9 @@
-import { NextRequest, NextResponse } from "next/server";
+import { type NextRequest, NextResponse } from "next/server";
 import { eq, and } from "drizzle-orm";
 import { db } from "@/db";
 import { deck, card } from "@/db/schema";
 import { auth } from "@/lib/auth";
+import { getChoiceOptions, renderCloze } from "@/lib/cards";
 
 /**
  * 导出牌组为 Markdown 格式
@@ -60,8 +61,24 @@ export async function GET(request: NextRequest) {
 
     cards.forEach((c, index) => {
       markdown += `## Card ${index + 1}\n\n`;
-      markdown += `**Q:** ${c.front}\n\n`;
-      markdown += `**A:** ${c.back}\n\n`;
+
+      if (c.cardType === "cloze") {
+        // 填空卡：问题面隐藏所有填空，答案面显示完整文本
+        markdown += `**Q:** ${renderCloze(c.front, null, false)}\n\n`;
+        markdown += `**A:** ${renderCloze(c.front, null, true)}\n\n`;
+        if (c.back) {
+          markdown += `${c.back}\n\n`;
+        }
+      } else {
+        markdown += `**Q:** ${c.front}\n\n`;
+        if (c.cardType === "multiple_choice") {
+          for (const option of getChoiceOptions(c)) {
+            markdown += `- ${option}\n`;
+          }
+          markdown += "\n";
+        }
+        markdown += `**A:** ${c.back}\n\n`;
+      }
 
       if (index < cards.length - 1) {
         markdown += `---\n\n`;
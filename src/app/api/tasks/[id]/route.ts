@@ -1,81 +1,41 @@
-import { eq } from "drizzle-orm";
 import { type NextRequest, NextResponse } from "next/server";
-import { db } from "@/db";
-import { card, deck, generationTask } from "@/db/schema";
+import {
+  getTaskStatusSnapshot,
+  getUserTask,
+} from "@/features/flashcards/task-status";
+import { auth } from "@/lib/auth";
 
 /**
  * 任务状态查询 API
  *
- * 用于前端轮询任务进度
+ * 用于前端轮询任务进度（SSE 不可用时的回退方式）
  * GET /api/tasks/[id]
+ *
+ * 只能查询自己的任务
  */
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { id } = await params;
-
-    // 查询任务状态
-    const task = await db.query.generationTask.findFirst({
-      where: eq(generationTask.id, id),
+    const session = await auth.api.getSession({
+      headers: request.headers,
     });
 
-    if (!task) {
-      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // 如果任务完成，返回牌组和卡片信息
-    let deckData = null;
-    let cards: Array<{
-      id: string;
-      front: string;
-      back: string;
-      sortIndex: number;
-    }> = [];
-
-    if (task.status === "completed" && task.deckId) {
-      deckData = await db.query.deck.findFirst({
-        where: eq(deck.id, task.deckId),
-      });
+    const { id } = await params;
 
-      const cardResults = await db.query.card.findMany({
-        where: eq(card.deckId, task.deckId),
-        orderBy: (card, { asc }) => [asc(card.sortIndex)],
-      });
+    // 查询任务状态（不属于当前用户的任务按不存在处理）
+    const task = await getUserTask(id, session.user.id);
 
-      cards = cardResults.map((c) => ({
-        id: c.id,
-        front: c.front,
-        back: c.back,
-        sortIndex: c.sortIndex,
-      }));
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
 
-    return NextResponse.json({
-      id: task.id,
-      status: task.status,
-      sourceType: task.sourceType,
-      sourceFilename: task.sourceFilename,
-      cardCount: task.cardCount,
-      creditsCost: task.creditsCost,
-      errorMessage: task.errorMessage,
-      createdAt: task.createdAt,
-      startedAt: task.startedAt,
-      completedAt: task.completedAt,
-      // 大文件优化字段
-      documentOutline: task.documentOutline,
-      totalChunks: task.totalChunks,
-      completedChunks: task.completedChunks,
-      deck: deckData
-        ? {
-            id: deckData.id,
-            title: deckData.title,
-            description: deckData.description,
-          }
-        : null,
-      cards,
-    });
+    return NextResponse.json(await getTaskStatusSnapshot(task));
   } catch (error) {
     console.error("Error fetching task:", error);
     return NextResponse.json(
@@ -0,0 +1,157 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  getChunkPreviews,
+  getTaskStatusSnapshot,
+  getUserTask,
+  SETTLED_TASK_STATUSES,
+} from "@/features/flashcards/task-status";
+import type { TaskChunkPreview } from "@/features/flashcards/types";
+import { auth } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+/** 服务端检查任务变化的间隔（毫秒） */
+const POLL_INTERVAL_MS = 1000;
+
+/** 心跳间隔（毫秒），防止代理断开空闲连接 */
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/** 单个连接最长持续时间（毫秒），之后由浏览器 EventSource 自动重连 */
+const MAX_STREAM_DURATION_MS = 4 * 60 * 1000;
+
+/** 客户端重连等待时间（毫秒） */
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * 任务进度推送 API（Server-Sent Events）
+ *
+ * GET /api/tasks/[id]/stream
+ *
+ * 事件：
+ * - status: 状态变化 { status, errorMessage }
+ * - progress: 分块进度 { completedChunks, totalChunks }
+ * - chunk: 分块完成，附带卡片预览（TaskChunkPreview）
+ * - done: 任务结束或等待用户操作，附带完整任务状态后关闭连接
+ * - stream-error: 推送出错后关闭连接（客户端改为轮询）
+ *
+ * 只能订阅自己的任务
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const userId = session.user.id;
+
+  const initialTask = await getUserTask(id, userId);
+  if (!initialTask) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  // 客户端断开时停止检查
+  let closed = false;
+  request.signal.addEventListener("abort", () => {
+    closed = true;
+  });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: string, data: unknown) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      const startedAt = Date.now();
+      let lastHeartbeat = startedAt;
+      let lastStatus: string | null = null;
+      let lastProgress: string | null = null;
+      // 分块序号 → 已推送的状态（失败分块重试成功后再次推送）
+      const sentChunks = new Map<number, TaskChunkPreview["status"]>();
+
+      try {
+        let task = initialTask;
+        while (!closed) {
+          if (task.status !== lastStatus) {
+            lastStatus = task.status;
+            send("status", {
+              status: task.status,
+              errorMessage: task.errorMessage,
+            });
+          }
+
+          const progress = `${task.completedChunks ?? 0}/${task.totalChunks ?? 0}`;
+          if (task.totalChunks && progress !== lastProgress) {
+            lastProgress = progress;
+            send("progress", {
+              completedChunks: task.completedChunks ?? 0,
+              totalChunks: task.totalChunks,
+            });
+          }
+
+          if (task.totalChunks) {
+            for (const chunk of await getChunkPreviews(task.id, sentChunks)) {
+              sentChunks.set(chunk.chunkIndex, chunk.status);
+              send("chunk", chunk);
+            }
+          }
+
+          if (SETTLED_TASK_STATUSES.includes(task.status)) {
+            send("done", await getTaskStatusSnapshot(task));
+            break;
+          }
+
+          const now = Date.now();
+          if (now - startedAt > MAX_STREAM_DURATION_MS) {
+            break;
+          }
+          if (now - lastHeartbeat > HEARTBEAT_INTERVAL_MS) {
+            lastHeartbeat = now;
+            write(": heartbeat\n\n");
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+
+          const latest = await getUserTask(id, userId);
+          if (!latest) {
+            send("stream-error", { error: "Task not found" });
+            break;
+          }
+          task = latest;
+        }
+      } catch (error) {
+        console.error("Error streaming task:", error);
+        send("stream-error", { error: "Internal server error" });
+      }
+
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
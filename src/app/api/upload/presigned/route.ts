@@ -2,8 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { nanoid } from "nanoid";
-import { getFileTypeFromName } from "@/lib/parsers";
+import { isAnkiPackageFilename } from "@/lib/anki";
+import {
+  DOCUMENT_EXTENSIONS,
+  getFileTypeFromName,
+  resolveUploadContentType,
+} from "@/lib/parsers/file-types";
 import { auth } from "@/lib/auth";
+import { CAPTION_EXTENSIONS, isCaptionFilename } from "@/lib/transcripts";
 
 /**
  * S3/R2 客户端配置
@@ -20,11 +26,16 @@ const s3Client = new S3Client({
 const BUCKET_NAME = process.env.STORAGE_BUCKET_NAME || "ankigenix-uploads";
 
 /**
- * 允许的文件类型和大小限制
+ * 文档大小限制（允许的扩展名见 DOCUMENT_FILE_TYPES）
  */
-const ALLOWED_EXTENSIONS = [".pdf", ".docx", ".doc", ".md", ".txt"];
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
+/**
+ * Anki 牌组导入（.apkg / .colpkg）的大小限制
+ */
+const ANKI_PACKAGE_EXTENSIONS = [".apkg", ".colpkg"];
+const MAX_ANKI_PACKAGE_SIZE = 200 * 1024 * 1024; // 200MB
+
 /**
  * 获取预签名上传 URL
  *
@@ -60,19 +71,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 验证文件类型
+    // 验证文件类型（文档、Anki 牌组包或视频字幕）
+    const isAnkiPackage = isAnkiPackageFilename(filename);
     const fileType = getFileTypeFromName(filename);
-    if (!fileType) {
+    if (!fileType && !isAnkiPackage && !isCaptionFilename(filename)) {
+      const allowed = new Set([
+        ...DOCUMENT_EXTENSIONS,
+        ...ANKI_PACKAGE_EXTENSIONS,
+        ...CAPTION_EXTENSIONS,
+      ]);
       return NextResponse.json(
-        { error: `Unsupported file type. Allowed: ${ALLOWED_EXTENSIONS.join(", ")}` },
+        {
+          error: `Unsupported file type. Allowed: ${[...allowed].join(", ")}`,
+        },
         { status: 400 }
       );
     }
 
     // 验证文件大小
-    if (fileSize > MAX_FILE_SIZE) {
+    const maxSize = isAnkiPackage ? MAX_ANKI_PACKAGE_SIZE : MAX_FILE_SIZE;
+    if (fileSize > maxSize) {
       return NextResponse.json(
-        { error: `File too large. Maximum size: ${MAX_FILE_SIZE / 1024 / 1024}MB` },
+        { error: `File too large. Maximum size: ${maxSize / 1024 / 1024}MB` },
         { status: 400 }
       );
     }
@@ -81,11 +101,11 @@ export async function POST(request: NextRequest) {
     const fileExtension = filename.match(/\.[^.]+$/)?.[0] || "";
     const fileKey = `uploads/${session.user.id}/${nanoid()}${fileExtension}`;
 
-    // 创建预签名 URL
+    // 创建预签名 URL（Content-Type 须与客户端上传时一致）
     const command = new PutObjectCommand({
       Bucket: BUCKET_NAME,
       Key: fileKey,
-      ContentType: contentType,
+      ContentType: resolveUploadContentType(filename, contentType),
     });
 
     const presignedUrl = await getSignedUrl(s3Client, command, {
@@ -5,40 +5,34 @@
  * 路由: /image-proxy/{bucket}/{key}
  *
  * 示例: /image-proxy/avatars/user-123-1234567890.jpg
+ *
+ * 头像公开访问并允许 CDN 缓存；文档插图需要登录且只有所有者可以访问，不允许共享缓存
  */
 
 import { type NextRequest, NextResponse } from "next/server";
 
+import { isFigureImage, isProxyableImage } from "@/features/storage/figures";
 import { getStorageProvider } from "@/features/storage/providers";
 import { DEFAULT_SIGNED_URL_EXPIRES } from "@/features/storage/types";
+import { auth } from "@/lib/auth";
 
 // ============================================
 // 配置
 // ============================================
 
 /**
- * 获取允许的存储桶白名单
+ * 缓存时间 (秒)
  *
- * 安全措施：只允许代理访问预定义的存储桶
+ * 与签名 URL 有效期保持一致
  */
-function getAllowedBuckets(): string[] {
-  const avatarsBucket = process.env.NEXT_PUBLIC_AVATARS_BUCKET_NAME;
-
-  const buckets: string[] = [];
-
-  if (avatarsBucket) {
-    buckets.push(avatarsBucket);
-  }
-
-  return buckets;
-}
+const CACHE_MAX_AGE = DEFAULT_SIGNED_URL_EXPIRES;
 
 /**
- * 缓存时间 (秒)
+ * 插图缓存时间 (秒)
  *
- * 与签名 URL 有效期保持一致
+ * 插图只允许浏览器私有缓存，签名 URL 同样短期有效
  */
-const CACHE_MAX_AGE = DEFAULT_SIGNED_URL_EXPIRES;
+const FIGURE_CACHE_MAX_AGE = 300;
 
 // ============================================
 // 路由处理器
@@ -49,11 +43,11 @@ const CACHE_MAX_AGE = DEFAULT_SIGNED_URL_EXPIRES;
  *
  * 代理图片请求，生成签名 URL 并重定向
  *
- * @param _request - Next.js 请求对象 (未使用)
+ * @param request - Next.js 请求对象 (插图需要读取登录状态)
  * @param params - 路由参数 (path 数组)
  */
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ path: string[] }> }
 ) {
   try {
@@ -70,16 +64,6 @@ export async function GET(
     const [bucket, ...keyParts] = path;
     const key = keyParts.join("/");
 
-    // 安全检查：验证存储桶在白名单中
-    const allowedBuckets = getAllowedBuckets();
-    if (!bucket || !allowedBuckets.includes(bucket)) {
-      console.warn(`[Image Proxy] 拒绝访问未授权的存储桶: ${bucket}`);
-      return NextResponse.json(
-        { error: "Bucket not allowed" },
-        { status: 403 }
-      );
-    }
-
     // 验证文件键名不为空
     if (!key) {
       return NextResponse.json(
@@ -88,14 +72,43 @@ export async function GET(
       );
     }
 
+    // 插图只有所有者可以访问
+    const isFigure = !!bucket && isFigureImage(bucket, key);
+    let userId: string | null = null;
+    if (isFigure) {
+      const session = await auth.api.getSession({ headers: request.headers });
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      userId = session.user.id;
+    }
+
+    // 安全检查：只允许代理访问头像存储桶和当前用户的插图
+    if (!bucket || !isProxyableImage(bucket, key, userId)) {
+      console.warn(`[Image Proxy] 拒绝访问未授权的路径: ${bucket}/${key}`);
+      return NextResponse.json(
+        { error: isFigure ? "Forbidden" : "Bucket not allowed" },
+        { status: 403 }
+      );
+    }
+
     // 生成签名 URL
     const provider = getStorageProvider();
     const signedUrl = await provider.getSignedUrl(
       key,
       bucket,
-      CACHE_MAX_AGE
+      isFigure ? FIGURE_CACHE_MAX_AGE : CACHE_MAX_AGE
     );
 
+    if (isFigure) {
+      return NextResponse.redirect(signedUrl, {
+        status: 302,
+        headers: {
+          "Cache-Control": `private, max-age=${FIGURE_CACHE_MAX_AGE}`,
+        },
+      });
+    }
+
     // 重定向到签名 URL
     // 设置缓存头，让浏览器/CDN 缓存响应
     return NextResponse.redirect(signedUrl, {
@@ -8,6 +8,7 @@ import {
   LayoutDashboard,
   type LucideIcon,
   Palette,
+  Receipt,
   Rocket,
   Search,
   ShieldCheck,
@@ -226,6 +227,11 @@ export const adminNav: NavGroup[] = [
         href: "/admin/tickets",
         icon: Ticket,
       },
+      {
+        title: "用量对账",
+        href: "/admin/usage",
+        icon: Receipt,
+      },
     ],
   },
 ];
@@ -37,6 +37,44 @@ export const CREDIT_COSTS_BY_SOURCE = {
   video: 5,
 } as const;
 
+// ============================================
+// 单卡 AI 改写
+// ============================================
+
+/**
+ * 单张卡片改写（改写、拆分、补充示例、转填空、翻译）的固定积分消耗
+ */
+export const CARD_REFINEMENT_COST = 0.1;
+
+/**
+ * 从来源段落扩展生成卡片时每张卡片的积分消耗
+ */
+export const CARD_EXPANSION_COST_PER_CARD = 0.05;
+
+// ============================================
+// LLM 供应商成本（对账用，不影响扣费）
+// ============================================
+
+/**
+ * 模型价格（美元 / 百万 tokens）
+ */
+export interface LLMModelPrice {
+  inputPer1M: number;
+  outputPer1M: number;
+}
+
+/**
+ * 各模型的供应商价格（美元 / 百万 tokens）
+ *
+ * 用于对比实际供应商支出与积分收入，未列出的模型不计算成本
+ */
+export const LLM_MODEL_PRICES: Record<string, LLMModelPrice> = {
+  "gpt-4o-mini": { inputPer1M: 0.15, outputPer1M: 0.6 },
+  "gpt-4o": { inputPer1M: 2.5, outputPer1M: 10 },
+  "deepseek-chat": { inputPer1M: 0.28, outputPer1M: 0.42 },
+  "mimo-v2-flash": { inputPer1M: 0.1, outputPer1M: 0.3 },
+};
+
 // ============================================
 // 通用规则
 // ============================================
@@ -112,6 +150,22 @@ export function calculateCreationCost(selectedTokens: number): number {
   return Math.max(MIN_CREDITS_COST, truncateToTwoDecimals(cost));
 }
 
+/**
+ * 计算单卡 AI 改写费
+ *
+ * @param expansionCards - 扩展生成的卡片数（非扩展操作为 null）
+ * @returns 积分消耗量（两位小数，扩展生成最低 CARD_REFINEMENT_COST）
+ */
+export function calculateCardRefinementCost(
+  expansionCards: number | null = null
+): number {
+  if (expansionCards === null) {
+    return CARD_REFINEMENT_COST;
+  }
+  const cost = expansionCards * CARD_EXPANSION_COST_PER_CARD;
+  return Math.max(CARD_REFINEMENT_COST, truncateToTwoDecimals(cost));
+}
+
 /**
  * 估算文本输入的积分消耗（客户端实时预估）
  *
@@ -122,3 +176,27 @@ export function estimateTextCredits(text: string): number {
   const estimatedTokens = estimateTokensFromText(text);
   return calculateCreationCost(estimatedTokens);
 }
+
+/**
+ * 计算一次 LLM 调用的供应商成本
+ *
+ * @param model - 模型名称
+ * @param promptTokens - 输入 tokens
+ * @param completionTokens - 输出 tokens
+ * @param price - 提供商自定义价格（默认按 LLM_MODEL_PRICES）
+ * @returns 成本（美元），模型未定价时返回 null
+ */
+export function calculateLLMCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  price: LLMModelPrice | null | undefined = LLM_MODEL_PRICES[model]
+): number | null {
+  if (!price) {
+    return null;
+  }
+  return (
+    (promptTokens / 1_000_000) * price.inputPer1M +
+    (completionTokens / 1_000_000) * price.outputPer1M
+  );
+}
@@ -1,6 +1,13 @@
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import type { GenerationOptions } from "@/lib/ai/generation-options";
+import type { PageRange } from "@/lib/ai/outline-structure";
+import type { AnkiImportReport } from "@/lib/anki/import";
+import type { CardContent, CardImage, CardSourceRef } from "@/lib/cards";
 import {
+  type AnyPgColumn,
   boolean,
+  check,
+  index,
   integer,
   json,
   pgEnum,
@@ -8,6 +15,7 @@ import {
   real,
   text,
   timestamp,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 
 /**
@@ -246,6 +254,15 @@ export const creditsTransactionTypeEnum = pgEnum("credits_transaction_type", [
   "refund",
 ]);
 
+/**
+ * 积分预扣状态枚举
+ */
+export const creditsHoldStatusEnum = pgEnum("credits_hold_status", [
+  "held",
+  "captured",
+  "released",
+]);
+
 // ============================================
 // 积分余额表 (Credits Balances)
 // ============================================
@@ -347,6 +364,45 @@ export const creditsTransaction = pgTable("credits_transaction", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// ============================================
+// 积分预扣表 (Credits Holds)
+// ============================================
+/**
+ * 积分预扣表 - 后台任务的预扣积分
+ *
+ * 任务开始时按 FIFO 从批次中扣除并记录消费交易（held），
+ * 成功后确认（captured），失败时退回原批次并记录退款交易（released）
+ *
+ * @field id - 预扣唯一标识符
+ * @field userId - 关联的用户 ID
+ * @field reference - 业务引用（如 "task_xxx:generation"，唯一，保证重试幂等）
+ * @field amount - 预扣数量
+ * @field status - 预扣状态 (held/captured/released)
+ * @field serviceName - 服务名称
+ * @field consumedBatches - 扣除的批次明细 (JSON，退回时按此恢复)
+ * @field transactionId - 预扣时的消费交易 ID
+ * @field metadata - 元数据（如 taskId）
+ * @field createdAt - 预扣时间
+ * @field settledAt - 确认或退回时间
+ */
+export const creditsHold = pgTable("credits_hold", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  reference: text("reference").notNull().unique(),
+  amount: real("amount").notNull(),
+  status: creditsHoldStatusEnum("status").notNull().default("held"),
+  serviceName: text("service_name").notNull(),
+  consumedBatches: json("consumed_batches")
+    .$type<Array<{ batchId: string; consumedFromBatch: number }>>()
+    .notNull(),
+  transactionId: text("transaction_id").notNull(),
+  metadata: json("metadata").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  settledAt: timestamp("settled_at"),
+});
+
 // ============================================
 // 积分系统类型导出
 // ============================================
@@ -360,6 +416,9 @@ export type NewCreditsBatch = typeof creditsBatch.$inferInsert;
 export type CreditsTransaction = typeof creditsTransaction.$inferSelect;
 export type NewCreditsTransaction = typeof creditsTransaction.$inferInsert;
 
+export type CreditsHold = typeof creditsHold.$inferSelect;
+export type NewCreditsHold = typeof creditsHold.$inferInsert;
+
 /** 积分账户状态类型 */
 export type CreditsBalanceStatus =
   (typeof creditsBalanceStatusEnum.enumValues)[number];
@@ -376,6 +435,10 @@ export type CreditsBatchSource =
 export type CreditsTransactionType =
   (typeof creditsTransactionTypeEnum.enumValues)[number];
 
+/** 积分预扣状态类型 */
+export type CreditsHoldStatus =
+  (typeof creditsHoldStatusEnum.enumValues)[number];
+
 // ============================================
 // Newsletter 订阅表
 // ============================================
@@ -555,6 +618,50 @@ export const taskStatusEnum = pgEnum("task_status", [
   "failed",
 ]);
 
+/**
+ * 卡片学习状态枚举（FSRS）
+ * - new: 从未学习
+ * - learning: 初次学习中
+ * - review: 长期复习
+ * - relearning: 遗忘后重学
+ */
+export const cardStateEnum = pgEnum("card_state", [
+  "new",
+  "learning",
+  "review",
+  "relearning",
+]);
+
+/**
+ * 卡片类型枚举
+ * - basic: 问答卡
+ * - basic_reverse: 正反双向卡
+ * - cloze: 填空卡 ({{c1::...}} 语法)
+ * - multiple_choice: 选择题
+ * - type_answer: 输入答案卡
+ */
+export const cardTypeEnum = pgEnum("card_type", [
+  "basic",
+  "basic_reverse",
+  "cloze",
+  "multiple_choice",
+  "type_answer",
+]);
+
+/**
+ * 复习评分枚举
+ * - again: 忘记
+ * - hard: 困难
+ * - good: 良好
+ * - easy: 简单
+ */
+export const reviewRatingEnum = pgEnum("review_rating", [
+  "again",
+  "hard",
+  "good",
+  "easy",
+]);
+
 // ============================================
 // 牌组表 (Deck)
 // ============================================
@@ -593,8 +700,14 @@ export const deck = pgTable("deck", {
  *
  * @field id - 卡片唯一标识符
  * @field deckId - 关联的牌组 ID
- * @field front - 卡片正面内容 (问题/概念)
- * @field back - 卡片背面内容 (答案/解释)
+ * @field cardType - 卡片类型 (basic/basic_reverse/cloze/multiple_choice/type_answer)
+ * @field front - 卡片正面内容 (问题/概念；填空卡为含 {{c1::...}} 的文本)
+ * @field back - 卡片背面内容 (答案/解释；填空卡为补充说明，可为空)
+ * @field options - 选择题干扰项 (JSON 数组，其他类型为空)
+ * @field tags - 标签 (JSON 数组，导出到 Anki 时写入笔记标签)
+ * @field sourceTimestamp - 来源视频中的时间（秒，仅视频生成的卡片）
+ * @field sourceRef - 来源原文段落引用（AI 生成的卡片，用于"查看原文"）
+ * @field image - 卡片图片（从文档中提取的插图，显示在正面或背面）
  * @field sortIndex - 排序索引 (用于自定义卡片顺序)
  * @field createdAt - 创建时间
  * @field updatedAt - 更新时间
@@ -604,13 +717,111 @@ export const card = pgTable("card", {
   deckId: text("deck_id")
     .notNull()
     .references(() => deck.id, { onDelete: "cascade" }),
+  cardType: cardTypeEnum("card_type").notNull().default("basic"),
   front: text("front").notNull(),
   back: text("back").notNull(),
+  options: json("options").$type<string[]>(),
+  tags: json("tags").$type<string[]>(),
+  sourceTimestamp: integer("source_timestamp"),
+  sourceRef: json("source_ref").$type<CardSourceRef>(),
+  image: json("image").$type<CardImage>(),
   sortIndex: integer("sort_index").notNull().default(0),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// ============================================
+// 卡片调度状态表 (CardSchedule)
+// ============================================
+/**
+ * 卡片调度状态表 - 存储每个用户每张卡片的 FSRS 间隔重复状态
+ *
+ * 未学习过的卡片没有记录，视为 new 状态
+ *
+ * @field id - 记录唯一标识符
+ * @field userId - 学习者用户 ID
+ * @field cardId - 关联的卡片 ID
+ * @field state - 学习状态 (new/learning/review/relearning)
+ * @field stability - 记忆稳定性（天）
+ * @field difficulty - 记忆难度（1-10）
+ * @field due - 下次复习时间
+ * @field lastReview - 上次复习时间
+ * @field elapsedDays - 上次复习时距前一次复习的天数
+ * @field scheduledDays - 当前安排的间隔天数
+ * @field reps - 复习次数
+ * @field lapses - 遗忘次数
+ * @field createdAt - 创建时间
+ * @field updatedAt - 更新时间
+ */
+export const cardSchedule = pgTable(
+  "card_schedule",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    cardId: text("card_id")
+      .notNull()
+      .references(() => card.id, { onDelete: "cascade" }),
+    state: cardStateEnum("state").notNull().default("new"),
+    stability: real("stability").notNull().default(0),
+    difficulty: real("difficulty").notNull().default(0),
+    due: timestamp("due").notNull().defaultNow(),
+    lastReview: timestamp("last_review"),
+    elapsedDays: integer("elapsed_days").notNull().default(0),
+    scheduledDays: integer("scheduled_days").notNull().default(0),
+    reps: integer("reps").notNull().default(0),
+    lapses: integer("lapses").notNull().default(0),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (t) => [uniqueIndex("card_schedule_user_card_idx").on(t.userId, t.cardId)]
+);
+
+// ============================================
+// 复习记录表 (ReviewLog)
+// ============================================
+/**
+ * 复习记录表 - 记录每一次评分，用于撤销和学习统计
+ *
+ * @field id - 记录唯一标识符
+ * @field userId - 学习者用户 ID
+ * @field cardId - 关联的卡片 ID
+ * @field deckId - 关联的牌组 ID (冗余，便于按牌组统计)
+ * @field rating - 评分 (again/hard/good/easy)
+ * @field state - 评分前的学习状态
+ * @field elapsedDays - 距上次复习的天数
+ * @field lastScheduledDays - 评分前的间隔天数
+ * @field scheduledDays - 评分后的新间隔天数
+ * @field stability - 评分后的记忆稳定性
+ * @field difficulty - 评分后的记忆难度
+ * @field durationMs - 作答耗时（毫秒）
+ * @field previousSchedule - 评分前的调度状态快照 (JSON，用于撤销；新卡为空)
+ * @field reviewedAt - 评分时间
+ */
+export const reviewLog = pgTable("review_log", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  cardId: text("card_id")
+    .notNull()
+    .references(() => card.id, { onDelete: "cascade" }),
+  deckId: text("deck_id")
+    .notNull()
+    .references(() => deck.id, { onDelete: "cascade" }),
+  rating: reviewRatingEnum("rating").notNull(),
+  state: cardStateEnum("state").notNull(),
+  elapsedDays: integer("elapsed_days").notNull().default(0),
+  lastScheduledDays: integer("last_scheduled_days").notNull().default(0),
+  scheduledDays: integer("scheduled_days").notNull().default(0),
+  stability: real("stability").notNull(),
+  difficulty: real("difficulty").notNull(),
+  durationMs: integer("duration_ms"),
+  previousSchedule: json("previous_schedule").$type<Record<string, unknown>>(),
+  reviewedAt: timestamp("reviewed_at").notNull().defaultNow(),
+});
+
 // ============================================
 // 生成任务表 (GenerationTask)
 // ============================================
@@ -622,7 +833,8 @@ export const card = pgTable("card", {
  *
  * @field id - 任务唯一标识符
  * @field userId - 关联的用户 ID
- * @field deckId - 生成完成后关联的牌组 ID (可为空，任务完成后设置)
+ * @field deckId - 生成完成后关联的牌组 ID (可为空，任务完成后设置；追加生成时为目标牌组)
+ * @field parentTaskId - 追加生成时的原分析任务 ID (复用其缓存的文档全文和大纲)
  * @field status - 任务状态 (pending/processing/completed/failed)
  * @field sourceType - 内容来源类型
  * @field sourceContent - 原始输入内容 (文本类型时存储)
@@ -634,8 +846,11 @@ export const card = pgTable("card", {
  * @field documentOutline - 文档大纲 (JSON, 大文件优化)
  * @field documentText - 缓存的文档全文 (大文件优化)
  * @field selectedChapters - 用户选择的章节索引 (JSON数组, 大文件优化)
+ * @field selectedPages - 用户选择的页码范围 (JSON数组, 按页选择时使用，此时章节为空)
+ * @field generationOptions - 生成选项 (JSON: 卡片数量、难度、类型、语言、侧重、自定义指令)
  * @field totalChunks - 总分块数 (大文件并行生成)
  * @field completedChunks - 已完成分块数 (进度追踪)
+ * @field failedChunks - 重试耗尽仍失败的分块数 (可单独重新生成)
  * @field createdAt - 创建时间
  * @field startedAt - 开始处理时间
  * @field completedAt - 完成时间
@@ -646,6 +861,10 @@ export const generationTask = pgTable("generation_task", {
     .notNull()
     .references(() => user.id, { onDelete: "cascade" }),
   deckId: text("deck_id").references(() => deck.id, { onDelete: "set null" }),
+  parentTaskId: text("parent_task_id").references(
+    (): AnyPgColumn => generationTask.id,
+    { onDelete: "set null" }
+  ),
   status: taskStatusEnum("status").notNull().default("pending"),
   sourceType: sourceTypeEnum("source_type").notNull(),
   sourceContent: text("source_content"),
@@ -661,8 +880,184 @@ export const generationTask = pgTable("generation_task", {
   documentOutline: json("document_outline"),
   documentText: text("document_text"),
   selectedChapters: json("selected_chapters").$type<number[]>(),
+  selectedPages: json("selected_pages").$type<PageRange[]>(),
+  generationOptions:
+    json("generation_options").$type<Partial<GenerationOptions>>(),
   totalChunks: integer("total_chunks"),
   completedChunks: integer("completed_chunks").default(0),
+  failedChunks: integer("failed_chunks").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+// ============================================
+// 生成分块结果表 (GenerationChunk)
+// ============================================
+/**
+ * 生成分块结果表 - 大文件并行生成时每个分块的结果
+ *
+ * 分块完成即写入，用于实时推送进度和卡片预览；
+ * 失败分块保留记录，重新生成失败分块时跳过已完成的分块
+ *
+ * @field id - 唯一标识符
+ * @field taskId - 关联的生成任务 ID
+ * @field chunkIndex - 分块序号
+ * @field status - 分块状态 (completed/failed)
+ * @field cardCount - 生成的卡片数量
+ * @field cards - 生成的卡片 (JSON)
+ * @field errorMessage - 失败时的错误信息
+ * @field createdAt - 完成时间
+ */
+export const generationChunk = pgTable(
+  "generation_chunk",
+  {
+    id: text("id").primaryKey(),
+    taskId: text("task_id")
+      .notNull()
+      .references(() => generationTask.id, { onDelete: "cascade" }),
+    chunkIndex: integer("chunk_index").notNull(),
+    status: taskStatusEnum("status").notNull(),
+    cardCount: integer("card_count").notNull().default(0),
+    cards: json("cards").$type<CardContent[]>(),
+    errorMessage: text("error_message"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (t) => [
+    uniqueIndex("generation_chunk_task_index_idx").on(t.taskId, t.chunkIndex),
+  ]
+);
+
+// ============================================
+// LLM 用量表 (LlmUsage)
+// ============================================
+/**
+ * LLM 用量表 - 每次 LLM 调用的实际 token 消耗
+ *
+ * 记录供应商返回的 usage，用于任务成本明细和积分收入与供应商支出对账
+ *
+ * @field id - 唯一标识符
+ * @field userId - 关联的用户 ID
+ * @field taskId - 关联的生成任务 ID（任务删除后保留用量；单卡改写为空）
+ * @field operation - 调用用途 (outline/flashcards/refinement)
+ * @field provider - AI 提供商
+ * @field model - 模型名称
+ * @field promptTokens - 输入 tokens
+ * @field completionTokens - 输出 tokens
+ * @field totalTokens - 总 tokens
+ * @field costUsd - 供应商成本（美元，模型未定价时为空）
+ * @field createdAt - 调用时间
+ */
+export const llmUsage = pgTable(
+  "llm_usage",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    taskId: text("task_id").references(() => generationTask.id, {
+      onDelete: "set null",
+    }),
+    operation: text("operation").$type<LlmUsageOperation>().notNull(),
+    provider: text("provider").notNull(),
+    model: text("model").notNull(),
+    promptTokens: integer("prompt_tokens").notNull(),
+    completionTokens: integer("completion_tokens").notNull(),
+    totalTokens: integer("total_tokens").notNull(),
+    costUsd: real("cost_usd"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (t) => [index("llm_usage_task_idx").on(t.taskId)]
+);
+
+// ============================================
+// LLM 提供商表 (LlmProvider)
+// ============================================
+/**
+ * LLM 提供商表 - 数据库中配置的 OpenAI 兼容提供商
+ *
+ * 与环境变量中的内置提供商合并，同 ID 时覆盖内置配置
+ * 未设置 AI_PROVIDER_ORDER 时，启用的提供商按 priority 升序作为回退链
+ * 密钥不入库，只保存存放密钥的环境变量名（只允许 *_API_KEY，读取时同样校验）
+ *
+ * @field id - 提供商 ID（如 openai、ollama）
+ * @field name - 显示名称
+ * @field baseUrl - API 地址（空则使用 OpenAI 官方地址）
+ * @field apiKeyEnv - 存放 API Key 的环境变量名（本地服务可为空）
+ * @field model - 模型名称
+ * @field contextLimit - 上下文窗口（tokens，空则按 MODEL_TOKEN_LIMITS）
+ * @field inputPricePer1M - 输入价格（美元/百万 tokens，空则按 LLM_MODEL_PRICES）
+ * @field outputPricePer1M - 输出价格（美元/百万 tokens）
+ * @field structuredOutputs - 是否支持 JSON Schema 结构化输出（否则使用 JSON 模式）
+ * @field priority - 回退顺序（越小越优先）
+ * @field enabled - 是否启用
+ * @field createdAt - 创建时间
+ * @field updatedAt - 更新时间
+ */
+export const llmProvider = pgTable(
+  "llm_provider",
+  {
+    id: text("id").primaryKey(),
+    name: text("name").notNull(),
+    baseUrl: text("base_url"),
+    apiKeyEnv: text("api_key_env"),
+    model: text("model").notNull(),
+    contextLimit: integer("context_limit"),
+    inputPricePer1M: real("input_price_per_1m"),
+    outputPricePer1M: real("output_price_per_1m"),
+    structuredOutputs: boolean("structured_outputs").notNull().default(false),
+    priority: integer("priority").notNull().default(0),
+    enabled: boolean("enabled").notNull().default(true),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (t) => [
+    check(
+      "llm_provider_api_key_env_check",
+      sql`${t.apiKeyEnv} ~ '^[A-Z][A-Z0-9_]*_API_KEY$'`
+    ),
+  ]
+);
+
+// ============================================
+// 牌组导入任务表 (DeckImport)
+// ============================================
+/**
+ * 牌组导入任务表 - Anki .apkg/.colpkg 导入的进度和结果报告
+ *
+ * 由 Inngest 后台解析，前端轮询状态
+ *
+ * @field id - 导入任务唯一标识符
+ * @field userId - 关联的用户 ID
+ * @field status - 任务状态 (pending/processing/completed/failed)
+ * @field sourceFilename - 原始文件名
+ * @field fileKey - 文件在存储中的键名
+ * @field includeScheduling - 是否保留调度状态和复习记录
+ * @field deckIds - 创建的牌组 ID (JSON 数组)
+ * @field noteCount - 包内笔记总数
+ * @field cardCount - 导入的卡片数
+ * @field skippedCount - 跳过的笔记数
+ * @field report - 导入报告 (JSON: 牌组、跳过原因、不支持的模板、媒体)
+ * @field errorMessage - 失败时的错误信息
+ * @field createdAt - 创建时间
+ * @field startedAt - 开始处理时间
+ * @field completedAt - 完成时间
+ */
+export const deckImport = pgTable("deck_import", {
+  id: text("id").primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  status: taskStatusEnum("status").notNull().default("pending"),
+  sourceFilename: text("source_filename").notNull(),
+  fileKey: text("file_key").notNull(),
+  includeScheduling: boolean("include_scheduling").notNull().default(false),
+  deckIds: json("deck_ids").$type<string[]>(),
+  noteCount: integer("note_count").notNull().default(0),
+  cardCount: integer("card_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0),
+  report: json("report").$type<AnkiImportReport>(),
+  errorMessage: text("error_message"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
@@ -678,15 +1073,45 @@ export type NewDeck = typeof deck.$inferInsert;
 export type Card = typeof card.$inferSelect;
 export type NewCard = typeof card.$inferInsert;
 
+export type CardSchedule = typeof cardSchedule.$inferSelect;
+export type NewCardSchedule = typeof cardSchedule.$inferInsert;
+
+export type ReviewLog = typeof reviewLog.$inferSelect;
+export type NewReviewLog = typeof reviewLog.$inferInsert;
+
 export type GenerationTask = typeof generationTask.$inferSelect;
 export type NewGenerationTask = typeof generationTask.$inferInsert;
 
+export type GenerationChunk = typeof generationChunk.$inferSelect;
+export type NewGenerationChunk = typeof generationChunk.$inferInsert;
+
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type NewLlmUsage = typeof llmUsage.$inferInsert;
+
+/** LLM 调用用途 */
+export type LlmUsageOperation = "outline" | "flashcards" | "refinement";
+
+export type LlmProvider = typeof llmProvider.$inferSelect;
+export type NewLlmProvider = typeof llmProvider.$inferInsert;
+
+export type DeckImport = typeof deckImport.$inferSelect;
+export type NewDeckImport = typeof deckImport.$inferInsert;
+
 /** 内容来源类型 */
 export type SourceType = (typeof sourceTypeEnum.enumValues)[number];
 
 /** 任务状态类型 */
 export type TaskStatus = (typeof taskStatusEnum.enumValues)[number];
 
+/** 卡片学习状态类型 */
+export type CardState = (typeof cardStateEnum.enumValues)[number];
+
+/** 卡片类型 */
+export type CardType = (typeof cardTypeEnum.enumValues)[number];
+
+/** 复习评分类型 */
+export type ReviewRating = (typeof reviewRatingEnum.enumValues)[number];
+
 // ============================================
 // Ankigenix 表关系定义
 // ============================================
@@ -709,26 +1134,109 @@ export const deckRelations = relations(deck, ({ one, many }) => ({
 /**
  * 卡片关系
  * - 属于一个牌组
+ * - 每个学习者有一条调度状态
  */
-export const cardRelations = relations(card, ({ one }) => ({
+export const cardRelations = relations(card, ({ one, many }) => ({
   deck: one(deck, {
     fields: [card.deckId],
     references: [deck.id],
   }),
+  schedules: many(cardSchedule),
+  reviewLogs: many(reviewLog),
+}));
+
+/**
+ * 卡片调度状态关系
+ * - 属于一个用户
+ * - 属于一张卡片
+ */
+export const cardScheduleRelations = relations(cardSchedule, ({ one }) => ({
+  user: one(user, {
+    fields: [cardSchedule.userId],
+    references: [user.id],
+  }),
+  card: one(card, {
+    fields: [cardSchedule.cardId],
+    references: [card.id],
+  }),
+}));
+
+/**
+ * 复习记录关系
+ * - 属于一个用户
+ * - 属于一张卡片
+ */
+export const reviewLogRelations = relations(reviewLog, ({ one }) => ({
+  user: one(user, {
+    fields: [reviewLog.userId],
+    references: [user.id],
+  }),
+  card: one(card, {
+    fields: [reviewLog.cardId],
+    references: [card.id],
+  }),
 }));
 
 /**
  * 生成任务关系
  * - 属于一个用户
  * - 可关联一个牌组（完成后）
+ * - 包含多个分块结果
+ * - 包含多条 LLM 用量记录
+ */
+export const generationTaskRelations = relations(
+  generationTask,
+  ({ one, many }) => ({
+    user: one(user, {
+      fields: [generationTask.userId],
+      references: [user.id],
+    }),
+    deck: one(deck, {
+      fields: [generationTask.deckId],
+      references: [deck.id],
+    }),
+    chunks: many(generationChunk),
+    usage: many(llmUsage),
+  })
+);
+
+/**
+ * LLM 用量关系
+ * - 属于一个用户
+ * - 可关联一个生成任务
  */
-export const generationTaskRelations = relations(generationTask, ({ one }) => ({
+export const llmUsageRelations = relations(llmUsage, ({ one }) => ({
   user: one(user, {
-    fields: [generationTask.userId],
+    fields: [llmUsage.userId],
     references: [user.id],
   }),
-  deck: one(deck, {
-    fields: [generationTask.deckId],
-    references: [deck.id],
+  task: one(generationTask, {
+    fields: [llmUsage.taskId],
+    references: [generationTask.id],
+  }),
+}));
+
+/**
+ * 生成分块结果关系
+ * - 属于一个生成任务
+ */
+export const generationChunkRelations = relations(
+  generationChunk,
+  ({ one }) => ({
+    task: one(generationTask, {
+      fields: [generationChunk.taskId],
+      references: [generationTask.id],
+    }),
+  })
+);
+
+/**
+ * 牌组导入任务关系
+ * - 属于一个用户
+ */
+export const deckImportRelations = relations(deckImport, ({ one }) => ({
+  user: one(user, {
+    fields: [deckImport.userId],
+    references: [user.id],
   }),
 }));
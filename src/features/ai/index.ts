@@ -4,4 +4,4 @@
  * 导出所有 AI 相关的模型和工具
  */
 
-export * from "./models/openai";
+export * from "./models/chat";
@@ -0,0 +1,183 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import { FAKE_PROVIDER_ID, fakeFetch } from "@/lib/ai/fake";
+import {
+  getProviderChain,
+  LOCAL_API_KEY_PLACEHOLDER,
+  type LLMProviderConfig,
+  reportProviderError,
+} from "@/lib/ai/providers";
+
+/** AI SDK 的语言模型（v3 规范） */
+type ChatLanguageModel = Extract<LanguageModel, { specificationVersion: "v3" }>;
+type ChatCallOptions = Parameters<ChatLanguageModel["doStream"]>[0];
+type ChatStreamResult = Awaited<ReturnType<ChatLanguageModel["doStream"]>>;
+type ChatStreamPart =
+  ChatStreamResult["stream"] extends ReadableStream<infer Part> ? Part : never;
+
+/**
+ * 回退链中的一个聊天模型
+ */
+export interface ChatModelCandidate {
+  provider: LLMProviderConfig;
+  model: ChatLanguageModel;
+}
+
+/** 开始输出前的元数据片段（收到其他片段才算开始输出） */
+const PRELUDE_PART_TYPES = new Set<ChatStreamPart["type"]>([
+  "stream-start",
+  "response-metadata",
+  "raw",
+]);
+
+/**
+ * 创建提供商的聊天模型
+ *
+ * 通过 Chat Completions 接口调用以兼容 Ollama、llama.cpp 等本地服务
+ */
+function createProviderChatModel(
+  provider: LLMProviderConfig
+): ChatLanguageModel {
+  const sdk = createOpenAI({
+    name: provider.id,
+    apiKey: provider.apiKey ?? LOCAL_API_KEY_PLACEHOLDER,
+    ...(provider.baseURL && { baseURL: provider.baseURL }),
+    ...(provider.id === FAKE_PROVIDER_ID && { fetch: fakeFetch }),
+  });
+  return sdk.chat(provider.model);
+}
+
+/**
+ * 按回退链调用，失败时尝试下一个模型
+ *
+ * 用户取消请求时直接抛出；全部失败时抛出最后一个错误
+ */
+async function runWithFallback<T>(
+  candidates: ChatModelCandidate[],
+  options: ChatCallOptions,
+  run: (candidate: ChatModelCandidate) => PromiseLike<T>
+): Promise<T> {
+  let lastError: unknown;
+
+  for (const candidate of candidates) {
+    try {
+      return await run(candidate);
+    } catch (error) {
+      if (options.abortSignal?.aborted) {
+        throw error;
+      }
+      reportProviderError(candidate.provider.id, error);
+      console.warn(
+        `AI provider ${candidate.provider.name} failed before responding, trying next provider`
+      );
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * 读取到第一个输出片段后返回流
+ *
+ * 开始输出前出错时抛出（由调用方切换提供商）；
+ * 开始输出后的错误原样传递，并让该提供商进入冷却
+ */
+async function startStream(
+  provider: LLMProviderConfig,
+  stream: ReadableStream<ChatStreamPart>
+): Promise<ReadableStream<ChatStreamPart>> {
+  const reader = stream.getReader();
+  const buffered: ChatStreamPart[] = [];
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (value.type === "error") throw value.error;
+      buffered.push(value);
+      if (!PRELUDE_PART_TYPES.has(value.type)) break;
+    }
+  } catch (error) {
+    reader.cancel(error).catch(() => undefined);
+    throw error;
+  }
+
+  return new ReadableStream<ChatStreamPart>({
+    async pull(controller) {
+      const part = buffered.shift();
+      if (part) {
+        controller.enqueue(part);
+        return;
+      }
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        if (value.type === "error") {
+          reportProviderError(provider.id, value.error);
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        reportProviderError(provider.id, error);
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * 创建按回退链调用的聊天模型
+ *
+ * 提供商在输出任何内容前失败（限流、故障、鉴权失败等）时改用下一个提供商，
+ * 与 withProviderFallback 一致；流式响应开始输出后无法再切换
+ *
+ * @param candidates - 按优先级排列的模型
+ */
+export function createFallbackChatModel(
+  candidates: ChatModelCandidate[]
+): ChatLanguageModel {
+  const [first] = candidates;
+  if (!first) {
+    throw new Error("No AI provider configured");
+  }
+
+  return {
+    specificationVersion: "v3",
+    provider: first.model.provider,
+    modelId: first.model.modelId,
+    supportedUrls: first.model.supportedUrls,
+    doGenerate: (options) =>
+      runWithFallback(candidates, options, ({ model }) =>
+        model.doGenerate(options)
+      ),
+    doStream: (options) =>
+      runWithFallback(candidates, options, async ({ provider, model }) => {
+        const result = await model.doStream(options);
+        return {
+          ...result,
+          stream: await startStream(provider, result.stream),
+        };
+      }),
+  };
+}
+
+/**
+ * 获取聊天模型
+ *
+ * 按 LLM 提供商注册表的回退链调用（冷却中的提供商排在最后）
+ */
+export async function getChatModel(): Promise<LanguageModel> {
+  const chain = await getProviderChain();
+  return createFallbackChatModel(
+    chain.map((provider) => ({
+      provider,
+      model: createProviderChatModel(provider),
+    }))
+  );
+}
@@ -10,8 +10,10 @@ import { db } from "@/db";
 import {
   creditsBalance,
   creditsBatch,
+  creditsHold,
   creditsTransaction,
   type CreditsBatchSource,
+  type CreditsHoldStatus,
   type CreditsTransactionType,
 } from "@/db/schema";
 
@@ -78,6 +80,31 @@ export interface ConsumeCreditsResult {
   }>;
 }
 
+/**
+ * 预扣积分参数
+ */
+export interface ReserveCreditsParams extends ConsumeCreditsParams {
+  /** 业务引用（唯一，同一引用重复预扣时返回已有预扣） */
+  reference: string;
+}
+
+/**
+ * 积分预扣结果
+ */
+export interface CreditsHoldResult {
+  /** 预扣 ID */
+  holdId: string;
+  /** 预扣数量 */
+  amount: number;
+  /** 预扣状态 */
+  status: CreditsHoldStatus;
+  /** 预扣时的消费交易 ID */
+  transactionId: string;
+}
+
+/** 数据库事务 */
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 /**
  * 积分余额错误
  */
@@ -327,132 +354,302 @@ export async function grantCredits(params: GrantCreditsParams) {
  */
 export async function consumeCredits(
   params: ConsumeCreditsParams
+): Promise<ConsumeCreditsResult> {
+  if (params.amount <= 0) {
+    throw new Error("消费数量必须大于 0");
+  }
+
+  return await db.transaction((tx) => consumeInTransaction(tx, params));
+}
+
+/**
+ * 在事务中按 FIFO 扣除积分并记录消费交易
+ *
+ * consumeCredits 和 reserveCredits 共用
+ */
+async function consumeInTransaction(
+  tx: Transaction,
+  params: ConsumeCreditsParams
 ): Promise<ConsumeCreditsResult> {
   const { userId, amount, serviceName, description, metadata } = params;
 
+  // 1. 检查用户账户状态和余额（锁定余额行，避免并发扣除超额）
+  const [balanceRecord] = await tx
+    .select()
+    .from(creditsBalance)
+    .where(eq(creditsBalance.userId, userId))
+    .limit(1)
+    .for("update");
+
+  if (!balanceRecord) {
+    throw new InsufficientCreditsError(amount, 0);
+  }
+
+  if (balanceRecord.status === "frozen") {
+    throw new AccountFrozenError(userId);
+  }
+
+  if (balanceRecord.balance < amount) {
+    throw new InsufficientCreditsError(amount, balanceRecord.balance);
+  }
+
+  // 2. 获取所有活跃批次（FIFO 排序）
+  // 排序规则：有过期时间的按过期时间升序，无过期时间的放最后
+  const now = new Date();
+  const activeBatches = await tx
+    .select()
+    .from(creditsBatch)
+    .where(
+      and(
+        eq(creditsBatch.userId, userId),
+        eq(creditsBatch.status, "active"),
+        gt(creditsBatch.remaining, 0),
+        // 过滤掉已过期的批次
+        or(
+          isNull(creditsBatch.expiresAt),
+          gt(creditsBatch.expiresAt, now)
+        )
+      )
+    )
+    .orderBy(
+      // FIFO: 先过期的优先，无过期时间的按发放时间排序
+      asc(creditsBatch.expiresAt),
+      asc(creditsBatch.issuedAt)
+    );
+
+  // 3. FIFO 消费逻辑
+  let remainingToConsume = amount;
+  const consumedBatches: Array<{
+    batchId: string;
+    consumedFromBatch: number;
+  }> = [];
+
+  for (const batch of activeBatches) {
+    if (remainingToConsume <= 0) break;
+
+    const consumeFromThisBatch = Math.min(batch.remaining, remainingToConsume);
+    const newRemaining = batch.remaining - consumeFromThisBatch;
+
+    // 更新批次
+    await tx
+      .update(creditsBatch)
+      .set({
+        remaining: newRemaining,
+        status: newRemaining === 0 ? "consumed" : "active",
+        updatedAt: new Date(),
+      })
+      .where(eq(creditsBatch.id, batch.id));
+
+    consumedBatches.push({
+      batchId: batch.id,
+      consumedFromBatch: consumeFromThisBatch,
+    });
+
+    remainingToConsume -= consumeFromThisBatch;
+  }
+
+  // 验证是否完全消费
+  if (remainingToConsume > 0) {
+    // 这不应该发生，因为我们已经检查了余额
+    throw new InsufficientCreditsError(amount, amount - remainingToConsume);
+  }
+
+  // 4. 记录交易（双重记账）
+  const transactionId = crypto.randomUUID();
+  const debitAccount = `WALLET:${userId}`;
+  const creditAccount = `SERVICE:${serviceName}`;
+
+  await tx.insert(creditsTransaction).values({
+    id: transactionId,
+    userId,
+    type: "consumption",
+    amount,
+    debitAccount,
+    creditAccount,
+    description: description ?? `消费于 ${serviceName}`,
+    metadata: {
+      ...metadata,
+      serviceName,
+      consumedBatches,
+    },
+  });
+
+  // 5. 更新余额
+  const newBalance = balanceRecord.balance - amount;
+  await tx
+    .update(creditsBalance)
+    .set({
+      balance: newBalance,
+      totalSpent: sql`${creditsBalance.totalSpent} + ${amount}`,
+      updatedAt: new Date(),
+    })
+    .where(eq(creditsBalance.userId, userId));
+
+  return {
+    success: true,
+    consumedAmount: amount,
+    remainingBalance: newBalance,
+    transactionId,
+    consumedBatches,
+  };
+}
+
+/**
+ * 预扣积分
+ *
+ * 后台任务开始时调用：按 FIFO 扣除并记录消费交易，
+ * 任务成功后 captureCredits 确认，失败时 releaseCredits 退回
+ *
+ * 同一 reference 只预扣一次，重试时返回已有预扣
+ */
+export async function reserveCredits(
+  params: ReserveCreditsParams
+): Promise<CreditsHoldResult> {
+  const { userId, amount, serviceName, reference, metadata } = params;
+
   if (amount <= 0) {
-    throw new Error("消费数量必须大于 0");
+    throw new Error("预扣数量必须大于 0");
   }
 
   return await db.transaction(async (tx) => {
-    // 1. 检查用户账户状态和余额
-    const [balanceRecord] = await tx
+    const [existing] = await tx
       .select()
-      .from(creditsBalance)
-      .where(eq(creditsBalance.userId, userId))
+      .from(creditsHold)
+      .where(eq(creditsHold.reference, reference))
       .limit(1);
 
-    if (!balanceRecord) {
-      throw new InsufficientCreditsError(amount, 0);
+    if (existing) {
+      return {
+        holdId: existing.id,
+        amount: existing.amount,
+        status: existing.status,
+        transactionId: existing.transactionId,
+      };
     }
 
-    if (balanceRecord.status === "frozen") {
-      throw new AccountFrozenError(userId);
-    }
+    const result = await consumeInTransaction(tx, {
+      ...params,
+      metadata: { ...metadata, holdReference: reference },
+    });
 
-    if (balanceRecord.balance < amount) {
-      throw new InsufficientCreditsError(amount, balanceRecord.balance);
-    }
+    const holdId = crypto.randomUUID();
+    await tx.insert(creditsHold).values({
+      id: holdId,
+      userId,
+      reference,
+      amount,
+      status: "held",
+      serviceName,
+      consumedBatches: result.consumedBatches,
+      transactionId: result.transactionId,
+      metadata: metadata ?? null,
+    });
 
-    // 2. 获取所有活跃批次（FIFO 排序）
-    // 排序规则：有过期时间的按过期时间升序，无过期时间的放最后
-    const now = new Date();
-    const activeBatches = await tx
+    return {
+      holdId,
+      amount,
+      status: "held" as const,
+      transactionId: result.transactionId,
+    };
+  });
+}
+
+/**
+ * 确认预扣（任务成功）
+ *
+ * @returns 是否确认成功（预扣不存在或已结算时返回 false）
+ */
+export async function captureCredits(reference: string): Promise<boolean> {
+  const captured = await db
+    .update(creditsHold)
+    .set({ status: "captured", settledAt: new Date() })
+    .where(
+      and(eq(creditsHold.reference, reference), eq(creditsHold.status, "held"))
+    )
+    .returning({ id: creditsHold.id });
+
+  return captured.length > 0;
+}
+
+/**
+ * 退回预扣（任务失败或无产出）
+ *
+ * 在事务中执行：
+ * 1. 将预扣数量退回原批次（已过期的批次由过期任务重新处理）
+ * 2. 记录退款交易（引用原消费交易和业务引用）
+ * 3. 恢复余额并冲减累计消费
+ *
+ * @param reference - 业务引用
+ * @param reason - 退款原因
+ * @returns 退款交易 ID；预扣不存在或已结算时返回 null
+ */
+export async function releaseCredits(
+  reference: string,
+  reason?: string
+): Promise<string | null> {
+  return await db.transaction(async (tx) => {
+    const [hold] = await tx
       .select()
-      .from(creditsBatch)
+      .from(creditsHold)
       .where(
         and(
-          eq(creditsBatch.userId, userId),
-          eq(creditsBatch.status, "active"),
-          gt(creditsBatch.remaining, 0),
-          // 过滤掉已过期的批次
-          or(
-            isNull(creditsBatch.expiresAt),
-            gt(creditsBatch.expiresAt, now)
-          )
+          eq(creditsHold.reference, reference),
+          eq(creditsHold.status, "held")
         )
       )
-      .orderBy(
-        // FIFO: 先过期的优先，无过期时间的按发放时间排序
-        asc(creditsBatch.expiresAt),
-        asc(creditsBatch.issuedAt)
-      );
-
-    // 3. FIFO 消费逻辑
-    let remainingToConsume = amount;
-    const consumedBatches: Array<{
-      batchId: string;
-      consumedFromBatch: number;
-    }> = [];
-
-    for (const batch of activeBatches) {
-      if (remainingToConsume <= 0) break;
-
-      const consumeFromThisBatch = Math.min(batch.remaining, remainingToConsume);
-      const newRemaining = batch.remaining - consumeFromThisBatch;
-
-      // 更新批次
+      .limit(1)
+      .for("update");
+
+    if (!hold) {
+      return null;
+    }
+
+    // 1. 退回原批次
+    for (const { batchId, consumedFromBatch } of hold.consumedBatches) {
       await tx
         .update(creditsBatch)
         .set({
-          remaining: newRemaining,
-          status: newRemaining === 0 ? "consumed" : "active",
+          remaining: sql`${creditsBatch.remaining} + ${consumedFromBatch}`,
+          status: "active",
           updatedAt: new Date(),
         })
-        .where(eq(creditsBatch.id, batch.id));
-
-      consumedBatches.push({
-        batchId: batch.id,
-        consumedFromBatch: consumeFromThisBatch,
-      });
-
-      remainingToConsume -= consumeFromThisBatch;
+        .where(eq(creditsBatch.id, batchId));
     }
 
-    // 验证是否完全消费
-    if (remainingToConsume > 0) {
-      // 这不应该发生，因为我们已经检查了余额
-      throw new InsufficientCreditsError(amount, amount - remainingToConsume);
-    }
-
-    // 4. 记录交易（双重记账）
+    // 2. 记录退款交易（双重记账，冲销预扣时的消费）
     const transactionId = crypto.randomUUID();
-    const debitAccount = `WALLET:${userId}`;
-    const creditAccount = `SERVICE:${serviceName}`;
-
     await tx.insert(creditsTransaction).values({
       id: transactionId,
-      userId,
-      type: "consumption",
-      amount,
-      debitAccount,
-      creditAccount,
-      description: description ?? `消费于 ${serviceName}`,
+      userId: hold.userId,
+      type: "refund",
+      amount: hold.amount,
+      debitAccount: `SERVICE:${hold.serviceName}`,
+      creditAccount: `WALLET:${hold.userId}`,
+      description: reason ? `退款: ${reason}` : `退款于 ${hold.serviceName}`,
       metadata: {
-        ...metadata,
-        serviceName,
-        consumedBatches,
+        ...hold.metadata,
+        holdReference: reference,
+        refundedTransactionId: hold.transactionId,
+        consumedBatches: hold.consumedBatches,
       },
     });
 
-    // 5. 更新余额
-    const newBalance = balanceRecord.balance - amount;
+    // 3. 恢复余额
     await tx
       .update(creditsBalance)
       .set({
-        balance: newBalance,
-        totalSpent: sql`${creditsBalance.totalSpent} + ${amount}`,
+        balance: sql`${creditsBalance.balance} + ${hold.amount}`,
+        totalSpent: sql`${creditsBalance.totalSpent} - ${hold.amount}`,
         updatedAt: new Date(),
       })
-      .where(eq(creditsBalance.userId, userId));
+      .where(eq(creditsBalance.userId, hold.userId));
 
-    return {
-      success: true,
-      consumedAmount: amount,
-      remainingBalance: newBalance,
-      transactionId,
-      consumedBatches,
-    };
+    await tx
+      .update(creditsHold)
+      .set({ status: "released", settledAt: new Date() })
+      .where(eq(creditsHold.id, hold.id));
+
+    return transactionId;
   });
 }
 
@@ -0,0 +1,62 @@
+"use client";
+
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { DailyCount } from "@/lib/srs";
+
+interface DueForecastCardProps {
+  data: DailyCount[];
+}
+
+/**
+ * 未来到期卡片预测
+ */
+export function DueForecastCard({ data }: DueForecastCardProps) {
+  const total = data.reduce((sum, d) => sum + d.count, 0);
+  const chartData = data.map((d) => ({
+    day: d.date.slice(5),
+    due: d.count,
+  }));
+
+  return (
+    <Card className="rounded-xl">
+      <CardHeader>
+        <CardTitle className="text-base">Upcoming Reviews</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {total} card{total === 1 ? "" : "s"} due in the next {data.length}{" "}
+          days.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="h-[200px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <XAxis
+                dataKey="day"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fontSize: 12 }}
+                tickMargin={8}
+                interval="preserveStartEnd"
+              />
+              <Tooltip
+                cursor={{ fill: "hsl(var(--muted))" }}
+                contentStyle={{
+                  backgroundColor: "hsl(var(--card))",
+                  border: "1px solid hsl(var(--border))",
+                  borderRadius: "8px",
+                }}
+              />
+              <Bar
+                dataKey="due"
+                name="Due"
+                fill="hsl(var(--primary))"
+                radius={[4, 4, 0, 0]}
+              />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { HardestCard } from "@/features/decks/stats";
+
+interface HardestCardsCardProps {
+  cards: HardestCard[];
+  /** 是否显示所属牌组（跨牌组统计时使用） */
+  showDeck?: boolean;
+}
+
+/**
+ * 最难记住的卡片（按遗忘次数、难度排序）
+ */
+export function HardestCardsCard({
+  cards,
+  showDeck = false,
+}: HardestCardsCardProps) {
+  return (
+    <Card className="rounded-xl">
+      <CardHeader>
+        <CardTitle className="text-base">Hardest Cards</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Cards you forget most often.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {cards.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No reviews yet. Study a deck to see your trouble spots.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {cards.map((c) => (
+              <li
+                key={c.cardId}
+                className="flex items-start justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm">{c.front}</p>
+                  {showDeck && (
+                    <Link
+                      href={`/dashboard/decks/${c.deckId}`}
+                      className="text-xs text-muted-foreground hover:underline"
+                    >
+                      {c.deckTitle}
+                    </Link>
+                  )}
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Badge variant="destructive">
+                    {c.lapses} lapse{c.lapses === 1 ? "" : "s"}
+                  </Badge>
+                  <Badge variant="outline">D {c.difficulty.toFixed(1)}</Badge>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
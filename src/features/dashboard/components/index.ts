@@ -5,9 +5,13 @@ export { DashboardMainWrapper } from "./main-wrapper";
 // 卡片组件
 export { AuthCard } from "./auth-card";
 export { CookieSettingsCard } from "./cookie-settings-card";
-export { ExerciseChartCard } from "./exercise-chart-card";
 export { GoalCard } from "./goal-card";
-export { RepoCard } from "./repo-card";
 export { ShareDocumentCard } from "./share-document-card";
 export { StatsChartCard } from "./stats-chart-card";
 export { SubscriptionFormCard } from "./subscription-form-card";
+
+// 学习统计组件
+export { DueForecastCard } from "./due-forecast-card";
+export { HardestCardsCard } from "./hardest-cards-card";
+export { RetentionCard } from "./retention-card";
+export { ReviewHeatmapCard } from "./review-heatmap-card";
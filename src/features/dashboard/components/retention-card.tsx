@@ -0,0 +1,48 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { RetentionStats } from "@/lib/srs";
+
+interface RetentionCardProps {
+  retention: RetentionStats;
+  reviewsToday: number;
+  dueNow: number;
+}
+
+/**
+ * 保持率与今日学习概况
+ */
+export function RetentionCard({
+  retention,
+  reviewsToday,
+  dueNow,
+}: RetentionCardProps) {
+  return (
+    <Card className="rounded-xl">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">
+          Retention (30 days)
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">
+          {retention.rate === null
+            ? "—"
+            : `${(retention.rate * 100).toFixed(1)}%`}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {retention.passed} of {retention.total} mature review
+          {retention.total === 1 ? "" : "s"} recalled
+        </p>
+        <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-lg font-semibold">{reviewsToday}</p>
+            <p className="text-xs text-muted-foreground">Reviewed today</p>
+          </div>
+          <div>
+            <p className="text-lg font-semibold">{dueNow}</p>
+            <p className="text-xs text-muted-foreground">Due now</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
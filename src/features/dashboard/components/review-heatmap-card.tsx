@@ -0,0 +1,88 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { type DailyCount, toDateKey } from "@/lib/srs";
+
+interface ReviewHeatmapCardProps {
+  data: DailyCount[];
+}
+
+/** 一天的毫秒数 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 根据复习数返回色阶（相对最大值分 4 档）
+ */
+function getLevelClass(count: number, max: number): string {
+  if (count === 0) return "bg-muted";
+  const ratio = count / max;
+  if (ratio > 0.75) return "bg-primary";
+  if (ratio > 0.5) return "bg-primary/75";
+  if (ratio > 0.25) return "bg-primary/50";
+  return "bg-primary/25";
+}
+
+/**
+ * 每日复习热力图（按周分列，每列 7 天）
+ */
+export function ReviewHeatmapCard({ data }: ReviewHeatmapCardProps) {
+  const max = Math.max(1, ...data.map((d) => d.count));
+  const total = data.reduce((sum, d) => sum + d.count, 0);
+  const activeDays = data.filter((d) => d.count > 0).length;
+
+  // 按周 (UTC 周日开始) 对齐，首列前补空位（以空位对应的日期作为 key）
+  const start = data[0] ? new Date(data[0].date).getTime() : 0;
+  const padding = data[0] ? new Date(start).getUTCDay() : 0;
+  const cells: { date: string; day: DailyCount | null }[] = [
+    ...Array.from({ length: padding }, (_, i) => ({
+      date: toDateKey(new Date(start - (padding - i) * DAY_MS)),
+      day: null,
+    })),
+    ...data.map((day) => ({ date: day.date, day })),
+  ];
+  const weeks: (typeof cells)[] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+
+  return (
+    <Card className="rounded-xl">
+      <CardHeader>
+        <CardTitle className="text-base">Review Activity</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {total} review{total === 1 ? "" : "s"} on {activeDays} day
+          {activeDays === 1 ? "" : "s"} in the last{" "}
+          {Math.round(data.length / 7)} weeks.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-1 overflow-x-auto pb-1">
+          {weeks.map((week) => (
+            <div key={week[0]?.date} className="grid grid-rows-7 gap-1">
+              {week.map(({ date, day }) =>
+                day ? (
+                  <div
+                    key={date}
+                    className={`h-3 w-3 rounded-sm ${getLevelClass(day.count, max)}`}
+                    title={`${day.date}: ${day.count} review${day.count === 1 ? "" : "s"}`}
+                  />
+                ) : (
+                  <div key={date} className="h-3 w-3" />
+                )
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="mt-3 flex items-center justify-end gap-1 text-xs text-muted-foreground">
+          Less
+          <span className="h-3 w-3 rounded-sm bg-muted" />
+          <span className="h-3 w-3 rounded-sm bg-primary/25" />
+          <span className="h-3 w-3 rounded-sm bg-primary/50" />
+          <span className="h-3 w-3 rounded-sm bg-primary/75" />
+          <span className="h-3 w-3 rounded-sm bg-primary" />
+          More
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+"use server";
+
+import { and, eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import { db } from "@/db";
+import { deckImport } from "@/db/schema";
+import { inngest } from "@/inngest";
+import { isAnkiPackageFilename } from "@/lib/anki";
+import { protectedAction } from "@/lib/safe-action";
+
+// ============================================
+// Anki Import Actions
+// ============================================
+
+const importAnkiPackageSchema = z.object({
+  /** 文件在存储中的键名（预签名上传返回） */
+  fileKey: z.string().min(1),
+  /** 原始文件名 */
+  sourceFilename: z
+    .string()
+    .min(1)
+    .refine(
+      isAnkiPackageFilename,
+      "Only .apkg and .colpkg files can be imported"
+    ),
+  /** 是否保留调度状态和复习记录 */
+  includeScheduling: z.boolean().default(false),
+});
+
+/**
+ * 导入 Anki 牌组
+ *
+ * 文件先通过 /api/upload/presigned 上传，解析在 Inngest 后台完成
+ */
+export const importAnkiPackageAction = protectedAction
+  .schema(importAnkiPackageSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const { fileKey, sourceFilename, includeScheduling } = parsedInput;
+    const userId = ctx.user.id;
+
+    // 只能导入自己上传的文件
+    if (!fileKey.startsWith(`uploads/${userId}/`)) {
+      throw new Error("File not found");
+    }
+
+    const importId = nanoid();
+    await db.insert(deckImport).values({
+      id: importId,
+      userId,
+      sourceFilename,
+      fileKey,
+      includeScheduling,
+    });
+
+    await inngest.send({
+      name: "deck/import-anki",
+      data: {
+        importId,
+        userId,
+        fileKey,
+        sourceFilename,
+        includeScheduling,
+      },
+    });
+
+    return { success: true, importId };
+  });
+
+/**
+ * 获取导入任务状态和报告
+ */
+export const getDeckImportAction = protectedAction
+  .schema(z.object({ importId: z.string() }))
+  .action(async ({ parsedInput, ctx }) => {
+    const importTask = await db.query.deckImport.findFirst({
+      where: and(
+        eq(deckImport.id, parsedInput.importId),
+        eq(deckImport.userId, ctx.user.id)
+      ),
+    });
+
+    if (!importTask) {
+      throw new Error("Import not found");
+    }
+
+    return {
+      id: importTask.id,
+      status: importTask.status,
+      sourceFilename: importTask.sourceFilename,
+      includeScheduling: importTask.includeScheduling,
+      noteCount: importTask.noteCount,
+      cardCount: importTask.cardCount,
+      skippedCount: importTask.skippedCount,
+      report: importTask.report,
+      errorMessage: importTask.errorMessage,
+    };
+  });
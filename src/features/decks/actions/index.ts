@@ -6,6 +6,12 @@ import { eq, desc, and } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 import { db } from "@/db";
 import { deck, card } from "@/db/schema";
+import {
+  cardContentSchema,
+  cardWithTagsSchema,
+  MAX_CARDS_PER_BATCH,
+} from "@/features/decks/schemas";
+import { validateCardContent } from "@/lib/cards";
 import { protectedAction } from "@/lib/safe-action";
 
 // ============================================
@@ -153,11 +159,11 @@ export const deleteDeckAction = protectedAction
  */
 export const addCardAction = protectedAction
   .schema(
-    z.object({
-      deckId: z.string(),
-      front: z.string().min(1, "Front content is required"),
-      back: z.string().min(1, "Back content is required"),
-    })
+    cardContentSchema.and(
+      z.object({
+        deckId: z.string(),
+      })
+    )
   )
   .action(async ({ parsedInput, ctx }) => {
     // 验证牌组所有权
@@ -185,8 +191,10 @@ export const addCardAction = protectedAction
     await db.insert(card).values({
       id: cardId,
       deckId: parsedInput.deckId,
+      cardType: parsedInput.cardType,
       front: parsedInput.front,
       back: parsedInput.back,
+      options: parsedInput.options ?? null,
       sortIndex,
     });
 
@@ -211,8 +219,10 @@ export const updateCardAction = protectedAction
   .schema(
     z.object({
       cardId: z.string(),
+      cardType: cardContentSchema.shape.cardType.optional(),
       front: z.string().min(1).optional(),
-      back: z.string().min(1).optional(),
+      back: z.string().optional(),
+      options: cardContentSchema.shape.options,
     })
   )
   .action(async ({ parsedInput, ctx }) => {
@@ -236,11 +246,28 @@ export const updateCardAction = protectedAction
       throw new Error("Unauthorized");
     }
 
+    // 合并后按卡片类型校验
+    const merged = {
+      cardType: parsedInput.cardType ?? cardData.cardType,
+      front: parsedInput.front ?? cardData.front,
+      back: parsedInput.back ?? cardData.back,
+      options:
+        parsedInput.options !== undefined
+          ? parsedInput.options
+          : cardData.options,
+    };
+    const validationError = validateCardContent(merged);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
     await db
       .update(card)
       .set({
-        ...(parsedInput.front && { front: parsedInput.front }),
-        ...(parsedInput.back && { back: parsedInput.back }),
+        cardType: merged.cardType,
+        front: merged.front,
+        back: merged.back,
+        options: merged.cardType === "multiple_choice" ? merged.options : null,
         updatedAt: new Date(),
       })
       .where(eq(card.id, parsedInput.cardId));
@@ -379,17 +406,14 @@ export const moveCardAction = protectedAction
 
 /**
  * 批量添加卡片
+ *
+ * 每次最多 MAX_CARDS_PER_BATCH 张，更多卡片由调用方分批提交
  */
 export const addCardsAction = protectedAction
   .schema(
     z.object({
       deckId: z.string(),
-      cards: z.array(
-        z.object({
-          front: z.string().min(1),
-          back: z.string().min(1),
-        })
-      ),
+      cards: z.array(cardWithTagsSchema).min(1).max(MAX_CARDS_PER_BATCH),
     })
   )
   .action(async ({ parsedInput, ctx }) => {
@@ -417,8 +441,11 @@ export const addCardsAction = protectedAction
     const cardValues = parsedInput.cards.map((c) => ({
       id: nanoid(),
       deckId: parsedInput.deckId,
+      cardType: c.cardType,
       front: c.front,
       back: c.back,
+      options: c.options ?? null,
+      tags: c.tags?.length ? c.tags : null,
       sortIndex: sortIndex++,
     }));
 
@@ -0,0 +1,297 @@
+"use server";
+
+import { and, desc, eq, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { db } from "@/db";
+import { card, creditsHold, deck } from "@/db/schema";
+import { calculateCardRefinementCost } from "@/config/pricing";
+import {
+  captureCredits,
+  InsufficientCreditsError,
+  releaseCredits,
+  reserveCredits,
+} from "@/features/credits/core";
+import {
+  signRefinementResult,
+  verifyRefinementResult,
+} from "@/features/decks/refinement-token";
+import { cardContentSchema } from "@/features/decks/schemas";
+import { recordTaskUsage } from "@/features/flashcards/usage";
+import { refineFlashcard } from "@/lib/ai/refine";
+import {
+  CARD_REFINEMENT_LABELS,
+  CARD_REFINEMENTS,
+  DEFAULT_EXPANSION_CARDS,
+  MAX_EXPANSION_CARDS,
+  MAX_SPLIT_CARDS,
+  refinementReplacesCard,
+} from "@/lib/ai/refinement-options";
+import type { CardContent } from "@/lib/cards";
+import { protectedAction } from "@/lib/safe-action";
+
+// ============================================
+// Card AI Refinement Actions
+// ============================================
+
+/** 单卡改写记录到账本的服务名 */
+const CARD_REFINEMENT_SERVICE = "card_refinement";
+
+/**
+ * 获取卡片并验证牌组所有权
+ */
+async function getOwnedCard(cardId: string, userId: string) {
+  const cardData = await db.query.card.findFirst({
+    where: eq(card.id, cardId),
+  });
+
+  if (!cardData) {
+    throw new Error("Card not found");
+  }
+
+  const deckData = await db.query.deck.findFirst({
+    where: and(eq(deck.id, cardData.deckId), eq(deck.userId, userId)),
+  });
+
+  if (!deckData) {
+    throw new Error("Unauthorized");
+  }
+
+  return { cardData, deckData };
+}
+
+/**
+ * 用 AI 改写卡片，返回候选卡片（不保存）
+ *
+ * 调用前预扣积分，成功后确认，失败时退回；
+ * 候选卡片连同签名凭证返回，用户确认后由 applyCardRefinementAction 凭凭证保存
+ */
+export const refineCardAction = protectedAction
+  .schema(
+    z.object({
+      cardId: z.string(),
+      refinement: z.enum(CARD_REFINEMENTS),
+      /** 翻译目标语言（translate） */
+      language: z.string().trim().min(1).max(50).optional(),
+      /** 扩展生成的卡片数（expand） */
+      count: z.number().int().min(1).max(MAX_EXPANSION_CARDS).optional(),
+    })
+  )
+  .action(async ({ parsedInput, ctx }) => {
+    const { cardId, refinement, language } = parsedInput;
+    const userId = ctx.user.id;
+    const { cardData } = await getOwnedCard(cardId, userId);
+
+    const sourcePassage = cardData.sourceRef?.snippet ?? null;
+    if (refinement === "expand" && !sourcePassage) {
+      throw new Error("This card has no source passage to generate more from");
+    }
+    if (refinement === "translate" && !language) {
+      throw new Error("Choose a language to translate to");
+    }
+
+    const count =
+      refinement === "expand"
+        ? (parsedInput.count ?? DEFAULT_EXPANSION_CARDS)
+        : null;
+    const creditsCost = calculateCardRefinementCost(count);
+
+    // 预扣积分（生成失败时退回）
+    const reference = `card-refinement:${nanoid()}`;
+    try {
+      await reserveCredits({
+        userId,
+        amount: creditsCost,
+        serviceName: CARD_REFINEMENT_SERVICE,
+        reference,
+        description: `${CARD_REFINEMENT_LABELS[refinement]} (card ${cardId})`,
+        metadata: { cardId, refinement },
+      });
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        throw new Error(
+          `Insufficient credits. Required: ${error.required}, Available: ${error.available}`
+        );
+      }
+      throw error;
+    }
+
+    let proposals: CardContent[];
+    try {
+      const cards = await refineFlashcard(
+        cardData,
+        refinement,
+        { language, count: count ?? undefined, sourcePassage },
+        recordTaskUsage(null, userId, "refinement")
+      );
+      proposals = cards.map(({ cardType, front, back, options }) => ({
+        cardType,
+        front,
+        back,
+        options: cardType === "multiple_choice" ? (options ?? null) : null,
+      }));
+    } catch (error) {
+      console.error(`Card refinement failed (${refinement}):`, error);
+      await releaseCredits(reference, "Card refinement failed");
+      throw new Error("AI refinement failed. Your credits have been refunded.");
+    }
+
+    // 确认失败时退回，避免预扣一直处于 held 状态
+    try {
+      await captureCredits(reference);
+    } catch (error) {
+      console.error("Failed to capture card refinement credits:", error);
+      await releaseCredits(reference, "Failed to capture credits");
+      throw new Error("Failed to charge credits. Please try again.");
+    }
+
+    const replacesCard = refinementReplacesCard(refinement);
+    return {
+      proposals,
+      replacesCard,
+      token: signRefinementResult({
+        cardId,
+        userId,
+        cardUpdatedAt: cardData.updatedAt.getTime(),
+        reference,
+        replacesCard,
+        proposals,
+      }),
+      creditsCharged: creditsCost,
+    };
+  });
+
+/** 改写结果中的候选卡片（保存前按卡片规则重新校验） */
+const proposalsSchema = z
+  .array(cardContentSchema)
+  .max(Math.max(MAX_SPLIT_CARDS, MAX_EXPANSION_CARDS) + 1);
+
+/**
+ * 保存用户确认的改写结果
+ *
+ * 只能保存 refineCardAction 签名的候选卡片，客户端只传选中的索引；
+ * 卡片在改写后被修改过或凭证已使用过时拒绝：
+ * - 覆盖原卡片的改写中，第一张候选卡片覆盖原卡片
+ * - 其余候选卡片新增到牌组末尾（继承原卡片的来源引用）
+ */
+export const applyCardRefinementAction = protectedAction
+  .schema(
+    z.object({
+      cardId: z.string(),
+      /** refineCardAction 返回的凭证 */
+      token: z.string().min(1),
+      /** 选中保存的候选卡片索引 */
+      selected: z.array(z.number().int().nonnegative()),
+    })
+  )
+  .action(async ({ parsedInput, ctx }) => {
+    const { cardId, token } = parsedInput;
+    const { cardData } = await getOwnedCard(cardId, ctx.user.id);
+
+    const result = verifyRefinementResult(token);
+    if (!result || result.cardId !== cardId || result.userId !== ctx.user.id) {
+      throw new Error(
+        "This refinement has expired. Please refine the card again."
+      );
+    }
+    if (result.cardUpdatedAt !== cardData.updatedAt.getTime()) {
+      throw new Error(
+        "This card has changed since it was refined. Please refine it again."
+      );
+    }
+
+    const parsed = proposalsSchema.safeParse(result.proposals);
+    if (!parsed.success) {
+      throw new Error("The refined cards are invalid");
+    }
+
+    const selected = new Set(parsedInput.selected);
+    const [first, ...rest] = parsed.data;
+    const replacement =
+      result.replacesCard && first && selected.has(0) ? first : null;
+    const additions = (result.replacesCard ? rest : parsed.data).filter(
+      (_, index) => selected.has(result.replacesCard ? index + 1 : index)
+    );
+
+    if (!replacement && additions.length === 0) {
+      throw new Error("Nothing to apply");
+    }
+
+    await db.transaction(async (tx) => {
+      // 在预扣记录上标记凭证已使用（重复提交同一凭证时不再保存）
+      const [applied] = await tx
+        .update(creditsHold)
+        .set({
+          metadata: sql`(coalesce(${creditsHold.metadata}::jsonb, '{}'::jsonb) || ${JSON.stringify({ appliedAt: new Date().toISOString() })}::jsonb)::json`,
+        })
+        .where(
+          and(
+            eq(creditsHold.reference, result.reference),
+            eq(creditsHold.userId, ctx.user.id),
+            sql`${creditsHold.metadata}->>'appliedAt' is null`
+          )
+        )
+        .returning({ id: creditsHold.id });
+      if (!applied) {
+        throw new Error("This refinement has already been applied");
+      }
+
+      if (replacement) {
+        await tx
+          .update(card)
+          .set({
+            cardType: replacement.cardType,
+            front: replacement.front,
+            back: replacement.back,
+            options:
+              replacement.cardType === "multiple_choice"
+                ? (replacement.options ?? null)
+                : null,
+            updatedAt: new Date(),
+          })
+          .where(eq(card.id, cardId));
+      }
+
+      if (additions.length === 0) {
+        return;
+      }
+
+      // 获取当前最大 sortIndex
+      const [lastCard] = await tx
+        .select({ sortIndex: card.sortIndex })
+        .from(card)
+        .where(eq(card.deckId, cardData.deckId))
+        .orderBy(desc(card.sortIndex))
+        .limit(1);
+
+      let sortIndex = (lastCard?.sortIndex ?? -1) + 1;
+
+      await tx.insert(card).values(
+        additions.map((c) => ({
+          id: nanoid(),
+          deckId: cardData.deckId,
+          cardType: c.cardType,
+          front: c.front,
+          back: c.back,
+          options:
+            c.cardType === "multiple_choice" ? (c.options ?? null) : null,
+          sourceRef: cardData.sourceRef,
+          sortIndex: sortIndex++,
+        }))
+      );
+
+      // 更新牌组卡片数量
+      await tx
+        .update(deck)
+        .set({
+          cardCount: sql`${deck.cardCount} + ${additions.length}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(deck.id, cardData.deckId));
+    });
+
+    revalidatePath(`/dashboard/decks/${cardData.deckId}`);
+
+    return { updated: replacement !== null, added: additions.length };
+  });
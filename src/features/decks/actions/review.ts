@@ -0,0 +1,315 @@
+"use server";
+
+import { and, asc, desc, eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { db } from "@/db";
+import { card, cardSchedule, deck, reviewLog } from "@/db/schema";
+import type { CardSchedule } from "@/db/schema";
+import { protectedAction } from "@/lib/safe-action";
+import {
+  createEmptySchedulingState,
+  GRADES,
+  type SchedulingState,
+  scheduleCard,
+} from "@/lib/srs";
+
+/**
+ * 数据库记录转换为调度状态
+ */
+function toSchedulingState(row: CardSchedule | null): SchedulingState {
+  if (!row) {
+    return createEmptySchedulingState();
+  }
+  return {
+    state: row.state,
+    stability: row.stability,
+    difficulty: row.difficulty,
+    due: row.due,
+    lastReview: row.lastReview,
+    elapsedDays: row.elapsedDays,
+    scheduledDays: row.scheduledDays,
+    reps: row.reps,
+    lapses: row.lapses,
+  };
+}
+
+/**
+ * 调度状态快照（JSON 存储，日期为 ISO 字符串）
+ */
+type ScheduleSnapshot = Omit<SchedulingState, "due" | "lastReview"> & {
+  due: string;
+  lastReview: string | null;
+};
+
+/**
+ * 调度状态转换为可存储的快照
+ */
+function toSnapshot(state: SchedulingState): ScheduleSnapshot {
+  return {
+    ...state,
+    due: state.due.toISOString(),
+    lastReview: state.lastReview ? state.lastReview.toISOString() : null,
+  };
+}
+
+/**
+ * 快照还原为调度状态
+ */
+function fromSnapshot(snapshot: ScheduleSnapshot): SchedulingState {
+  return {
+    ...snapshot,
+    due: new Date(snapshot.due),
+    lastReview: snapshot.lastReview ? new Date(snapshot.lastReview) : null,
+  };
+}
+
+// ============================================
+// Review Actions
+// ============================================
+
+/**
+ * 获取牌组的待复习队列
+ *
+ * 队列顺序：学习中/重学中 → 到期复习 → 新卡（按 sortIndex，受 newLimit 限制）
+ */
+export const getDueCardsAction = protectedAction
+  .schema(
+    z.object({
+      deckId: z.string(),
+      /** 每次最多引入的新卡数量 */
+      newLimit: z.number().int().min(0).max(500).default(20),
+      /** 每次最多复习的到期卡数量 */
+      reviewLimit: z.number().int().min(0).max(2000).default(200),
+    })
+  )
+  .action(async ({ parsedInput, ctx }) => {
+    const deckData = await db.query.deck.findFirst({
+      where: and(
+        eq(deck.id, parsedInput.deckId),
+        eq(deck.userId, ctx.user.id)
+      ),
+    });
+
+    if (!deckData) {
+      throw new Error("Deck not found");
+    }
+
+    const rows = await db
+      .select({ card, schedule: cardSchedule })
+      .from(card)
+      .leftJoin(
+        cardSchedule,
+        and(
+          eq(cardSchedule.cardId, card.id),
+          eq(cardSchedule.userId, ctx.user.id)
+        )
+      )
+      .where(eq(card.deckId, parsedInput.deckId))
+      .orderBy(asc(card.sortIndex));
+
+    const now = new Date();
+    const learning: typeof rows = [];
+    const review: typeof rows = [];
+    const fresh: typeof rows = [];
+
+    for (const row of rows) {
+      const state = row.schedule?.state ?? "new";
+      if (state === "new") {
+        fresh.push(row);
+      } else if (row.schedule && row.schedule.due <= now) {
+        if (state === "review") {
+          review.push(row);
+        } else {
+          learning.push(row);
+        }
+      }
+    }
+
+    const byDue = (a: (typeof rows)[number], b: (typeof rows)[number]) =>
+      (a.schedule?.due.getTime() ?? 0) - (b.schedule?.due.getTime() ?? 0);
+    learning.sort(byDue);
+    review.sort(byDue);
+
+    const queue = [
+      ...learning,
+      ...review.slice(0, parsedInput.reviewLimit),
+      ...fresh.slice(0, parsedInput.newLimit),
+    ].map((row) => ({
+      card: {
+        id: row.card.id,
+        cardType: row.card.cardType,
+        front: row.card.front,
+        back: row.card.back,
+        options: row.card.options,
+        image: row.card.image,
+        sortIndex: row.card.sortIndex,
+        sourceRef: row.card.sourceRef,
+      },
+      schedule: toSchedulingState(row.schedule),
+    }));
+
+    return {
+      deck: { id: deckData.id, title: deckData.title },
+      queue,
+      counts: {
+        learning: learning.length,
+        review: review.length,
+        new: fresh.length,
+      },
+    };
+  });
+
+/**
+ * 提交卡片评分（Again/Hard/Good/Easy）
+ *
+ * 使用 FSRS 计算新的调度状态并写入 card_schedule，同时记录一条 review_log
+ */
+export const submitReviewAction = protectedAction
+  .schema(
+    z.object({
+      cardId: z.string(),
+      grade: z.enum(["again", "hard", "good", "easy"]),
+      /** 作答耗时（毫秒） */
+      durationMs: z.number().int().min(0).optional(),
+    })
+  )
+  .action(async ({ parsedInput, ctx }) => {
+    // 获取卡片和牌组验证所有权
+    const cardData = await db.query.card.findFirst({
+      where: eq(card.id, parsedInput.cardId),
+    });
+
+    if (!cardData) {
+      throw new Error("Card not found");
+    }
+
+    const deckData = await db.query.deck.findFirst({
+      where: and(
+        eq(deck.id, cardData.deckId),
+        eq(deck.userId, ctx.user.id)
+      ),
+    });
+
+    if (!deckData) {
+      throw new Error("Unauthorized");
+    }
+
+    const existing = await db.query.cardSchedule.findFirst({
+      where: and(
+        eq(cardSchedule.cardId, parsedInput.cardId),
+        eq(cardSchedule.userId, ctx.user.id)
+      ),
+    });
+
+    const now = new Date();
+    const previous = toSchedulingState(existing ?? null);
+    const { next, elapsedDays, previousScheduledDays } = scheduleCard(
+      previous,
+      GRADES[parsedInput.grade],
+      now
+    );
+
+    const reviewLogId = nanoid();
+
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(cardSchedule)
+        .values({
+          id: nanoid(),
+          userId: ctx.user.id,
+          cardId: parsedInput.cardId,
+          ...next,
+        })
+        .onConflictDoUpdate({
+          target: [cardSchedule.userId, cardSchedule.cardId],
+          set: { ...next, updatedAt: now },
+        });
+
+      await tx.insert(reviewLog).values({
+        id: reviewLogId,
+        userId: ctx.user.id,
+        cardId: parsedInput.cardId,
+        deckId: cardData.deckId,
+        rating: parsedInput.grade,
+        state: previous.state,
+        elapsedDays,
+        lastScheduledDays: previousScheduledDays,
+        scheduledDays: next.scheduledDays,
+        stability: next.stability,
+        difficulty: next.difficulty,
+        durationMs: parsedInput.durationMs,
+        previousSchedule: existing ? toSnapshot(previous) : null,
+        reviewedAt: now,
+      });
+    });
+
+    revalidatePath(`/dashboard/decks/${cardData.deckId}`);
+
+    return { cardId: parsedInput.cardId, schedule: next, reviewLogId };
+  });
+
+/**
+ * 撤销最近一次评分
+ *
+ * 只允许撤销该卡片的最新一条记录：还原评分前的调度状态（新卡则删除调度记录），并删除该记录
+ */
+export const undoReviewAction = protectedAction
+  .schema(
+    z.object({
+      reviewLogId: z.string(),
+    })
+  )
+  .action(async ({ parsedInput, ctx }) => {
+    const logData = await db.query.reviewLog.findFirst({
+      where: and(
+        eq(reviewLog.id, parsedInput.reviewLogId),
+        eq(reviewLog.userId, ctx.user.id)
+      ),
+    });
+
+    if (!logData) {
+      throw new Error("Review not found");
+    }
+
+    const latest = await db.query.reviewLog.findFirst({
+      where: and(
+        eq(reviewLog.cardId, logData.cardId),
+        eq(reviewLog.userId, ctx.user.id)
+      ),
+      orderBy: [desc(reviewLog.reviewedAt)],
+    });
+
+    if (latest?.id !== logData.id) {
+      throw new Error("Only the latest review can be undone");
+    }
+
+    const snapshot = logData.previousSchedule as ScheduleSnapshot | null;
+    const restored = snapshot ? fromSnapshot(snapshot) : null;
+
+    await db.transaction(async (tx) => {
+      const scheduleWhere = and(
+        eq(cardSchedule.cardId, logData.cardId),
+        eq(cardSchedule.userId, ctx.user.id)
+      );
+
+      if (restored) {
+        await tx
+          .update(cardSchedule)
+          .set({ ...restored, updatedAt: new Date() })
+          .where(scheduleWhere);
+      } else {
+        await tx.delete(cardSchedule).where(scheduleWhere);
+      }
+
+      await tx.delete(reviewLog).where(eq(reviewLog.id, logData.id));
+    });
+
+    revalidatePath(`/dashboard/decks/${logData.deckId}`);
+
+    return {
+      cardId: logData.cardId,
+      schedule: restored ?? createEmptySchedulingState(),
+    };
+  });
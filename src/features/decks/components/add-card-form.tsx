@@ -5,33 +5,46 @@ import { useAction } from "next-safe-action/hooks";
 import { useState } from "react";
 
 import { Button } from "@/components/ui/button";
-import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { addCardAction } from "@/features/decks/actions";
+import {
+  CardFields,
+  getCleanOptions,
+} from "@/features/decks/components/card-fields";
+import { type CardContent, validateCardContent } from "@/lib/cards";
 
 interface AddCardFormProps {
   deckId: string;
 }
 
+const EMPTY_CARD: CardContent = {
+  cardType: "basic",
+  front: "",
+  back: "",
+  options: null,
+};
+
 export function AddCardForm({ deckId }: AddCardFormProps) {
-  const [front, setFront] = useState("");
-  const [back, setBack] = useState("");
+  const [content, setContent] = useState<CardContent>(EMPTY_CARD);
 
   const { execute, isExecuting, result } = useAction(addCardAction, {
     onSuccess: () => {
-      setFront("");
-      setBack("");
+      // 保留卡片类型，方便连续添加同类卡片
+      setContent((prev) => ({ ...EMPTY_CARD, cardType: prev.cardType }));
     },
   });
 
+  const cleaned: CardContent = {
+    cardType: content.cardType,
+    front: content.front.trim(),
+    back: content.back.trim(),
+    options: getCleanOptions(content),
+  };
+  const isValid = validateCardContent(cleaned) === null;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!front.trim() || !back.trim()) return;
-    execute({
-      deckId,
-      front: front.trim(),
-      back: back.trim(),
-    });
+    if (!isValid) return;
+    execute({ deckId, ...cleaned });
   };
 
   return (
@@ -40,39 +53,20 @@ export function AddCardForm({ deckId }: AddCardFormProps) {
       className="rounded-lg border border-dashed bg-muted/50 p-4"
     >
       <h3 className="font-medium mb-3">Add New Card</h3>
-      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-        <div className="space-y-2">
-          <Label htmlFor="add-front">Front</Label>
-          <Textarea
-            id="add-front"
-            placeholder="Question or concept..."
-            value={front}
-            onChange={(e) => setFront(e.target.value)}
-            disabled={isExecuting}
-            rows={3}
-            className="resize-none bg-background"
-          />
-        </div>
-        <div className="space-y-2">
-          <Label htmlFor="add-back">Back</Label>
-          <Textarea
-            id="add-back"
-            placeholder="Answer or explanation..."
-            value={back}
-            onChange={(e) => setBack(e.target.value)}
-            disabled={isExecuting}
-            rows={3}
-            className="resize-none bg-background"
-          />
-        </div>
-      </div>
+      <CardFields
+        idPrefix="add"
+        value={content}
+        onChange={setContent}
+        disabled={isExecuting}
+        textareaClassName="resize-none bg-background"
+      />
       {result.serverError && (
         <p className="text-sm text-destructive mt-2">{result.serverError}</p>
       )}
       <div className="mt-4 flex justify-end">
         <Button
           type="submit"
-          disabled={isExecuting || !front.trim() || !back.trim()}
+          disabled={isExecuting || !isValid}
         >
           {isExecuting ? <Loader2 className="animate-spin" /> : <Plus />}
           Add Card
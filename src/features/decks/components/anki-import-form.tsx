@@ -0,0 +1,257 @@
+"use client";
+
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Layers,
+  Loader2,
+  XCircle,
+} from "lucide-react";
+import Link from "next/link";
+import { useAction } from "next-safe-action/hooks";
+import { useState } from "react";
+import useSWR from "swr";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  getDeckImportAction,
+  importAnkiPackageAction,
+} from "@/features/decks/actions/import";
+import { FileUpload } from "@/features/flashcards/components/file-upload";
+
+const ANKI_EXTENSIONS = [".apkg", ".colpkg"];
+const MAX_ANKI_PACKAGE_SIZE = 200 * 1024 * 1024; // 200MB
+
+/**
+ * 获取导入任务状态
+ */
+async function fetchImport(importId: string) {
+  const result = await getDeckImportAction({ importId });
+  if (!result?.data) {
+    throw new Error(result?.serverError || "Failed to fetch import status");
+  }
+  return result.data;
+}
+
+export function AnkiImportForm() {
+  const [file, setFile] = useState<{ key: string; filename: string } | null>(
+    null
+  );
+  const [includeScheduling, setIncludeScheduling] = useState(false);
+  const [importId, setImportId] = useState<string | null>(null);
+
+  const { execute, isExecuting, result } = useAction(importAnkiPackageAction, {
+    onSuccess: ({ data }) => {
+      if (data?.importId) {
+        setImportId(data.importId);
+      }
+    },
+  });
+
+  // 仅在导入未结束时轮询
+  const { data: importTask, error } = useSWR(
+    importId ? ["deck-import", importId] : null,
+    ([, id]) => fetchImport(id),
+    {
+      refreshInterval: (latest) =>
+        latest?.status === "completed" || latest?.status === "failed"
+          ? 0
+          : 2000,
+      revalidateOnFocus: false,
+    }
+  );
+
+  const handleImport = () => {
+    if (!file) return;
+    execute({
+      fileKey: file.key,
+      sourceFilename: file.filename,
+      includeScheduling,
+    });
+  };
+
+  const handleReset = () => {
+    setFile(null);
+    setImportId(null);
+    setIncludeScheduling(false);
+  };
+
+  if (importId) {
+    if (error) {
+      return (
+        <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4">
+          <div className="flex items-center gap-3">
+            <XCircle className="size-5 text-destructive" />
+            <p className="flex-1 text-sm text-destructive">{error.message}</p>
+            <Button variant="outline" size="sm" onClick={handleReset}>
+              Start Over
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (importTask?.status === "failed") {
+      return (
+        <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4">
+          <div className="flex items-center gap-3">
+            <XCircle className="size-5 text-destructive" />
+            <div className="flex-1">
+              <p className="text-sm font-medium text-destructive">
+                Import failed
+              </p>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {importTask.errorMessage || "Unknown error occurred"}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleReset}>
+              Try Again
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (importTask?.status === "completed" && importTask.report) {
+      const { report } = importTask;
+      return (
+        <div className="space-y-4">
+          <div className="rounded-lg border border-emerald-200 bg-emerald-50/50 p-4 dark:border-emerald-800 dark:bg-emerald-950/30">
+            <div className="flex items-center gap-3">
+              <CheckCircle2 className="size-5 text-emerald-600 dark:text-emerald-400" />
+              <div className="flex-1">
+                <p className="text-sm font-medium">Import complete</p>
+                <p className="text-xs text-muted-foreground">
+                  {importTask.cardCount} cards imported from{" "}
+                  {importTask.noteCount} notes
+                  {importTask.includeScheduling &&
+                    ` · ${report.scheduledCards} with scheduling, ${report.reviewLogs} review logs`}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Decks created</p>
+            <ul className="divide-y rounded-lg border">
+              {report.decks.map((d) => (
+                <li
+                  key={d.deckId}
+                  className="flex items-center justify-between gap-3 p-3"
+                >
+                  <div className="flex min-w-0 items-center gap-2">
+                    <Layers className="size-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate text-sm">{d.title}</span>
+                    <Badge variant="secondary">{d.cardCount} cards</Badge>
+                  </div>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/dashboard/decks/${d.deckId}`}>Open</Link>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {(importTask.skippedCount > 0 || report.mediaSkipped > 0) && (
+            <div className="space-y-2 rounded-lg border border-amber-200 bg-amber-50/50 p-4 dark:border-amber-800 dark:bg-amber-950/30">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="size-4 text-amber-600 dark:text-amber-400" />
+                <p className="text-sm font-medium">Not imported</p>
+              </div>
+              {report.mediaSkipped > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {report.mediaSkipped} media files were not imported.
+                </p>
+              )}
+              {report.unsupportedModels.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Unsupported note types:{" "}
+                  {report.unsupportedModels
+                    .map((m) => `${m.name} (${m.count})`)
+                    .join(", ")}
+                </p>
+              )}
+              {report.skipped.length > 0 && (
+                <ul className="max-h-60 space-y-1 overflow-y-auto text-xs">
+                  {report.skipped.map((s) => (
+                    <li key={s.noteId} className="text-muted-foreground">
+                      <span className="text-foreground">
+                        {s.preview || `Note ${s.noteId}`}
+                      </span>{" "}
+                      — {s.reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {importTask.skippedCount > report.skipped.length && (
+                <p className="text-xs text-muted-foreground">
+                  and {importTask.skippedCount - report.skipped.length} more
+                  skipped notes
+                </p>
+              )}
+            </div>
+          )}
+
+          <Button variant="outline" onClick={handleReset}>
+            Import Another Package
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center gap-3 rounded-lg border bg-muted/30 p-4">
+        <Loader2 className="size-5 animate-spin text-primary" />
+        <div className="flex-1">
+          <p className="text-sm font-medium">Importing</p>
+          <p className="text-xs text-muted-foreground">
+            Reading notes from {importTask?.sourceFilename ?? "your package"}...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <FileUpload
+        onUploadComplete={(_url, filename, key) => setFile({ key, filename })}
+        onRemove={() => setFile(null)}
+        disabled={isExecuting}
+        allowedExtensions={ANKI_EXTENSIONS}
+        maxFileSize={MAX_ANKI_PACKAGE_SIZE}
+        hint="Anki package (.apkg or .colpkg, max 200MB)"
+      />
+
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="include-scheduling"
+          checked={includeScheduling}
+          onCheckedChange={(checked) => setIncludeScheduling(checked === true)}
+          disabled={isExecuting}
+        />
+        <div className="grid gap-1">
+          <Label htmlFor="include-scheduling">
+            Preserve scheduling and review history
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            Keep due dates and past reviews from Anki. Otherwise all cards start
+            as new.
+          </p>
+        </div>
+      </div>
+
+      {result.serverError && (
+        <p className="text-sm text-destructive">{result.serverError}</p>
+      )}
+
+      <Button onClick={handleImport} disabled={!file || isExecuting}>
+        {isExecuting && <Loader2 className="animate-spin" />}
+        Import
+      </Button>
+    </div>
+  );
+}
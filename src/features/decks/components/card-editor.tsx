@@ -1,6 +1,6 @@
 "use client";
 
-import { Check, Loader2, Pencil, Trash2, X } from "lucide-react";
+import { Check, Loader2, Pencil, PlayCircle, Trash2, X } from "lucide-react";
 import { useAction } from "next-safe-action/hooks";
 import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
@@ -14,23 +14,57 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Textarea } from "@/components/ui/textarea";
 import { deleteCardAction, updateCardAction } from "@/features/decks/actions";
+import { CardFace } from "@/features/decks/components/card-face";
+import { CardRefineMenu } from "@/features/decks/components/card-refine-menu";
+import { SourceReference } from "@/features/decks/components/source-reference";
+import {
+  CardFields,
+  getCleanOptions,
+} from "@/features/decks/components/card-fields";
+import {
+  CARD_TYPE_LABELS,
+  type CardContent,
+  type CardImage,
+  type CardSourceRef,
+  type CardType,
+  validateCardContent,
+} from "@/lib/cards";
+import {
+  buildTimestampUrl,
+  formatTimestamp,
+} from "@/lib/transcripts/video-url";
 
 interface CardEditorProps {
   card: {
     id: string;
+    cardType: CardType;
     front: string;
     back: string;
+    options: string[] | null;
+    /** 卡片图片 */
+    image?: CardImage | null | undefined;
     sortIndex: number;
+    /** 来源视频中的时间（秒） */
+    sourceTimestamp?: number | null | undefined;
+    /** 来源原文段落 */
+    sourceRef?: CardSourceRef | null | undefined;
   };
   deckId: string;
+  /** 来源视频链接（视频牌组时用于跳转到卡片时间戳） */
+  videoUrl?: string | null | undefined;
+  /** 来源网页链接（URL 牌组时用于跳转到引用位置） */
+  pageUrl?: string | null | undefined;
 }
 
-export function CardEditor({ card, deckId: _deckId }: CardEditorProps) {
+export function CardEditor({
+  card,
+  deckId: _deckId,
+  videoUrl,
+  pageUrl,
+}: CardEditorProps) {
   const [isEditing, setIsEditing] = useState(false);
-  const [front, setFront] = useState(card.front);
-  const [back, setBack] = useState(card.back);
+  const [content, setContent] = useState<CardContent>(card);
   const [deleteOpen, setDeleteOpen] = useState(false);
 
   const { execute: executeUpdate, isExecuting: isUpdating } = useAction(
@@ -51,25 +85,60 @@ export function CardEditor({ card, deckId: _deckId }: CardEditorProps) {
     }
   );
 
+  const cleaned: CardContent = {
+    cardType: content.cardType,
+    front: content.front.trim(),
+    back: content.back.trim(),
+    options: getCleanOptions(content),
+  };
+  const isValid = validateCardContent(cleaned) === null;
+
   const handleSave = () => {
-    if (!front.trim() || !back.trim()) return;
-    executeUpdate({
-      cardId: card.id,
-      front: front.trim(),
-      back: back.trim(),
-    });
+    if (!isValid) return;
+    executeUpdate({ cardId: card.id, ...cleaned });
+  };
+
+  // 进入编辑时以最新卡片内容为准（AI 修改后 card 已更新）
+  const handleEdit = () => {
+    setContent(card);
+    setIsEditing(true);
   };
 
   const handleCancel = () => {
-    setFront(card.front);
-    setBack(card.back);
+    setContent(card);
     setIsEditing(false);
   };
 
   return (
     <div className="rounded-lg border bg-card p-4">
       <div className="flex items-center justify-between mb-3">
-        <Badge variant="outline">#{card.sortIndex + 1}</Badge>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">#{card.sortIndex + 1}</Badge>
+          {card.cardType !== "basic" && (
+            <Badge variant="secondary">{CARD_TYPE_LABELS[card.cardType]}</Badge>
+          )}
+          {card.sourceTimestamp != null &&
+            (videoUrl ? (
+              <Badge variant="outline" asChild>
+                <a
+                  href={buildTimestampUrl(videoUrl, card.sourceTimestamp)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title="Open the video at this moment"
+                >
+                  <PlayCircle className="size-3" />
+                  {formatTimestamp(card.sourceTimestamp)}
+                </a>
+              </Badge>
+            ) : (
+              <Badge variant="outline">
+                {formatTimestamp(card.sourceTimestamp)}
+              </Badge>
+            ))}
+          {card.sourceRef && (
+            <SourceReference sourceRef={card.sourceRef} pageUrl={pageUrl} />
+          )}
+        </div>
         <div className="flex items-center gap-1">
           {isEditing ? (
             <>
@@ -85,7 +154,7 @@ export function CardEditor({ card, deckId: _deckId }: CardEditorProps) {
                 variant="ghost"
                 size="icon-sm"
                 onClick={handleSave}
-                disabled={isUpdating || !front.trim() || !back.trim()}
+                disabled={isUpdating || !isValid}
               >
                 {isUpdating ? (
                   <Loader2 className="size-4 animate-spin" />
@@ -96,10 +165,11 @@ export function CardEditor({ card, deckId: _deckId }: CardEditorProps) {
             </>
           ) : (
             <>
+              <CardRefineMenu card={card} disabled={isDeleting} />
               <Button
                 variant="ghost"
                 size="icon-sm"
-                onClick={() => setIsEditing(true)}
+                onClick={handleEdit}
               >
                 <Pencil className="size-4" />
               </Button>
@@ -141,38 +211,29 @@ export function CardEditor({ card, deckId: _deckId }: CardEditorProps) {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-        <div>
-          <p className="text-xs font-medium text-muted-foreground mb-1">
-            Front
-          </p>
-          {isEditing ? (
-            <Textarea
-              value={front}
-              onChange={(e) => setFront(e.target.value)}
-              disabled={isUpdating}
-              rows={3}
-              className="resize-none"
-            />
-          ) : (
-            <p className="text-sm whitespace-pre-wrap">{card.front}</p>
-          )}
+      {isEditing ? (
+        <CardFields
+          idPrefix={`card-${card.id}`}
+          value={content}
+          onChange={setContent}
+          disabled={isUpdating}
+        />
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">
+              {card.cardType === "cloze" ? "Text" : "Front"}
+            </p>
+            <CardFace card={card} side="front" className="text-sm" />
+          </div>
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1">
+              Back
+            </p>
+            <CardFace card={card} side="back" className="text-sm" />
+          </div>
         </div>
-        <div>
-          <p className="text-xs font-medium text-muted-foreground mb-1">Back</p>
-          {isEditing ? (
-            <Textarea
-              value={back}
-              onChange={(e) => setBack(e.target.value)}
-              disabled={isUpdating}
-              rows={3}
-              className="resize-none"
-            />
-          ) : (
-            <p className="text-sm whitespace-pre-wrap">{card.back}</p>
-          )}
-        </div>
-      </div>
+      )}
     </div>
   );
 }
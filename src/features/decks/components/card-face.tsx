@@ -0,0 +1,165 @@
+import Image from "next/image";
+import {
+  type CardContent,
+  type CardImage,
+  getChoiceOptions,
+  parseClozeSegments,
+  type StudyVariant,
+} from "@/lib/cards";
+import { cn } from "@/lib/utils";
+
+interface CardFaceProps {
+  card: CardContent;
+  side: "front" | "back";
+  /** 学习变体（反向 / 填空编号），不传时按默认方向显示 */
+  variant?: StudyVariant;
+  /** 正面是否显示选择题选项 */
+  showOptions?: boolean;
+  className?: string;
+}
+
+const CHOICE_LETTERS = "ABCDEFGH";
+
+/**
+ * 填空文本渲染
+ *
+ * 问题面遮挡当前编号（ordinal 为 null 时遮挡全部），答案面高亮被考察的填空
+ */
+function ClozeText({
+  text,
+  ordinal,
+  revealed,
+}: {
+  text: string;
+  ordinal: number | null;
+  revealed: boolean;
+}) {
+  return (
+    <>
+      {parseClozeSegments(text).map((segment, i) => {
+        const key = `${segment.type}-${i}`;
+        if (segment.type === "text") {
+          return <span key={key}>{segment.text}</span>;
+        }
+        const isTarget = ordinal === null || segment.ordinal === ordinal;
+        if (!isTarget) {
+          return <span key={key}>{segment.answer}</span>;
+        }
+        return revealed ? (
+          <span key={key} className="font-semibold text-primary">
+            {segment.answer}
+          </span>
+        ) : (
+          <span key={key} className="font-semibold text-primary">
+            {segment.hint ? `[${segment.hint}]` : "[...]"}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * 卡片图片（从文档中提取的插图）
+ *
+ * image-proxy 重定向到签名地址，不经过 Next.js 图片优化
+ */
+function FaceImage({ image }: { image: CardImage }) {
+  return (
+    <Image
+      src={image.src}
+      alt={image.alt}
+      width={0}
+      height={0}
+      sizes="100vw"
+      unoptimized
+      className="h-auto max-h-72 w-auto max-w-full rounded-md border bg-white object-contain"
+    />
+  );
+}
+
+/**
+ * 按卡片类型渲染卡片的一面
+ *
+ * 卡片图片显示在其所在的一面（反向学习时随文字一起交换）
+ */
+export function CardFace(props: CardFaceProps) {
+  const { card, side, variant } = props;
+  const face = <CardFaceText {...props} />;
+  if (!card.image) {
+    return face;
+  }
+
+  // 填空卡的背面同时显示正面文本
+  const reversed = variant?.reversed ?? false;
+  const showsFront =
+    card.cardType === "cloze" || (side === "front") !== reversed;
+  const showsImage =
+    card.image.side === "front" ? showsFront : (side === "back") !== reversed;
+  if (!showsImage) {
+    return face;
+  }
+
+  return (
+    <div className="space-y-3">
+      {face}
+      <FaceImage image={card.image} />
+    </div>
+  );
+}
+
+/**
+ * 按卡片类型渲染卡片一面的文字
+ */
+function CardFaceText({
+  card,
+  side,
+  variant,
+  showOptions = true,
+  className,
+}: CardFaceProps) {
+  const base = cn("whitespace-pre-wrap", className);
+
+  if (card.cardType === "cloze") {
+    const ordinal = variant?.clozeOrdinal ?? null;
+    if (side === "front") {
+      return (
+        <p className={base}>
+          <ClozeText text={card.front} ordinal={ordinal} revealed={false} />
+        </p>
+      );
+    }
+    return (
+      <div className="space-y-2">
+        <p className={base}>
+          <ClozeText text={card.front} ordinal={ordinal} revealed />
+        </p>
+        {card.back && (
+          <p className="text-sm whitespace-pre-wrap text-muted-foreground">
+            {card.back}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const reversed = variant?.reversed ?? false;
+  const text = (side === "front") !== reversed ? card.front : card.back;
+
+  if (card.cardType === "multiple_choice" && side === "front" && showOptions) {
+    return (
+      <div className="space-y-2">
+        <p className={base}>{text}</p>
+        <ol className="space-y-1 text-sm text-muted-foreground">
+          {getChoiceOptions(card).map((option, i) => (
+            <li key={option}>
+              {CHOICE_LETTERS[i]}. {option}
+            </li>
+          ))}
+        </ol>
+      </div>
+    );
+  }
+
+  return <p className={base}>{text}</p>;
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  CARD_TYPE_LABELS,
+  CARD_TYPES,
+  type CardContent,
+  type CardType,
+} from "@/lib/cards";
+
+interface CardFieldsProps {
+  /** 表单元素 ID 前缀 */
+  idPrefix: string;
+  value: CardContent;
+  onChange: (value: CardContent) => void;
+  disabled?: boolean;
+  /** 输入框附加样式 */
+  textareaClassName?: string;
+}
+
+/** 各类型的正面 / 背面输入提示 */
+const FIELD_HINTS: Record<
+  CardType,
+  { front: string; back: string; backLabel: string }
+> = {
+  basic: {
+    front: "Question or concept...",
+    back: "Answer or explanation...",
+    backLabel: "Back",
+  },
+  basic_reverse: {
+    front: "Term...",
+    back: "Definition...",
+    backLabel: "Back",
+  },
+  cloze: {
+    front: "The capital of France is {{c1::Paris}}.",
+    back: "Optional extra context...",
+    backLabel: "Extra",
+  },
+  multiple_choice: {
+    front: "Question...",
+    back: "Correct answer...",
+    backLabel: "Correct Answer",
+  },
+  type_answer: {
+    front: "Question with a short exact answer...",
+    back: "Exact answer...",
+    backLabel: "Answer",
+  },
+};
+
+/**
+ * 选择题干扰项（编辑时保留空行，提交时再过滤）
+ */
+export function getCleanOptions(content: CardContent): string[] | null {
+  if (content.cardType !== "multiple_choice") return null;
+  return (content.options ?? []).map((o) => o.trim()).filter(Boolean);
+}
+
+/**
+ * 卡片内容输入字段（类型选择 + 正面 / 背面 + 选择题干扰项）
+ */
+export function CardFields({
+  idPrefix,
+  value,
+  onChange,
+  disabled = false,
+  textareaClassName = "resize-none",
+}: CardFieldsProps) {
+  const hints = FIELD_HINTS[value.cardType];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-type`}>Type</Label>
+        <Select
+          value={value.cardType}
+          onValueChange={(cardType) =>
+            onChange({ ...value, cardType: cardType as CardType })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${idPrefix}-type`} className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CARD_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {CARD_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-front`}>
+            {value.cardType === "cloze" ? "Text" : "Front"}
+          </Label>
+          <Textarea
+            id={`${idPrefix}-front`}
+            placeholder={hints.front}
+            value={value.front}
+            onChange={(e) => onChange({ ...value, front: e.target.value })}
+            disabled={disabled}
+            rows={3}
+            className={textareaClassName}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-back`}>{hints.backLabel}</Label>
+          <Textarea
+            id={`${idPrefix}-back`}
+            placeholder={hints.back}
+            value={value.back}
+            onChange={(e) => onChange({ ...value, back: e.target.value })}
+            disabled={disabled}
+            rows={3}
+            className={textareaClassName}
+          />
+        </div>
+      </div>
+
+      {value.cardType === "multiple_choice" && (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-options`}>
+            Wrong Options (one per line)
+          </Label>
+          <Textarea
+            id={`${idPrefix}-options`}
+            placeholder={"Distractor 1\nDistractor 2\nDistractor 3"}
+            value={(value.options ?? []).join("\n")}
+            onChange={(e) =>
+              onChange({ ...value, options: e.target.value.split("\n") })
+            }
+            disabled={disabled}
+            rows={3}
+            className={textareaClassName}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
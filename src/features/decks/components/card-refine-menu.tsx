@@ -0,0 +1,380 @@
+"use client";
+
+import { Loader2, Sparkles } from "lucide-react";
+import { nanoid } from "nanoid";
+import { useAction } from "next-safe-action/hooks";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { calculateCardRefinementCost } from "@/config/pricing";
+import {
+  applyCardRefinementAction,
+  refineCardAction,
+} from "@/features/decks/actions/refine";
+import { OUTPUT_LANGUAGES } from "@/lib/ai/generation-options";
+import {
+  CARD_REFINEMENT_LABELS,
+  type CardRefinement,
+} from "@/lib/ai/refinement-options";
+import {
+  CARD_TYPE_LABELS,
+  type CardContent,
+  type CardSourceRef,
+  diffText,
+  type TextDiffSegment,
+} from "@/lib/cards";
+import { cn } from "@/lib/utils";
+
+/** 直接执行的改写操作（无需额外参数） */
+const SIMPLE_REFINEMENTS: CardRefinement[] = [
+  "rewrite",
+  "split",
+  "example",
+  "cloze",
+];
+
+/** 扩展生成的可选卡片数 */
+const EXPANSION_COUNTS = [3, 5, 10];
+
+interface CardRefineMenuProps {
+  card: CardContent & {
+    id: string;
+    /** 来源原文段落（扩展生成需要） */
+    sourceRef?: CardSourceRef | null | undefined;
+  };
+  disabled?: boolean;
+}
+
+/**
+ * 为差异片段附上在合并文本中的起始位置（作为渲染 key）
+ */
+function withOffsets(segments: TextDiffSegment[]) {
+  let offset = 0;
+  return segments.map((segment) => {
+    const start = offset;
+    offset += segment.text.length;
+    return { segment, offset: start };
+  });
+}
+
+/**
+ * 显示两段文本的逐词差异
+ */
+function TextDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {withOffsets(diffText(before, after)).map(({ segment, offset }) => (
+        <span
+          key={`${segment.type}-${offset}`}
+          className={cn(
+            segment.type === "removed" &&
+              "bg-destructive/15 text-destructive line-through",
+            segment.type === "added" &&
+              "bg-emerald-500/15 text-emerald-700 dark:text-emerald-400"
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+/**
+ * 候选卡片内容
+ */
+function ProposalFields({
+  card,
+  original,
+}: {
+  card: CardContent;
+  /** 对比的原卡片（新增卡片时为 null） */
+  original: CardContent | null;
+}) {
+  const fields: { label: string; before: string; after: string }[] = [
+    {
+      label: card.cardType === "cloze" ? "Text" : "Front",
+      before: original?.front ?? "",
+      after: card.front,
+    },
+    { label: "Back", before: original?.back ?? "", after: card.back },
+  ];
+  if (card.cardType === "multiple_choice" || original?.options?.length) {
+    fields.push({
+      label: "Options",
+      before: (original?.options ?? []).join("\n"),
+      after: (card.options ?? []).join("\n"),
+    });
+  }
+
+  return (
+    <div className="space-y-2">
+      {original && original.cardType !== card.cardType && (
+        <p className="text-xs text-muted-foreground">
+          {CARD_TYPE_LABELS[original.cardType]} →{" "}
+          {CARD_TYPE_LABELS[card.cardType]}
+        </p>
+      )}
+      {fields.map((field) => (
+        <div key={field.label}>
+          <p className="text-xs font-medium text-muted-foreground mb-1">
+            {field.label}
+          </p>
+          {original ? (
+            <TextDiff before={field.before} after={field.after} />
+          ) : (
+            <p className="text-sm whitespace-pre-wrap break-words">
+              {field.after}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * 单卡 AI 改写菜单
+ *
+ * 选择改写操作后扣费生成候选卡片，以差异形式展示，
+ * 用户确认后才覆盖原卡片或添加新卡片
+ */
+export function CardRefineMenu({ card, disabled }: CardRefineMenuProps) {
+  const [refinement, setRefinement] = useState<CardRefinement | null>(null);
+  /** 候选卡片（id 仅用于列表渲染） */
+  const [proposals, setProposals] = useState<
+    { id: string; content: CardContent }[] | null
+  >(null);
+  const [replacesCard, setReplacesCard] = useState(true);
+  /** 改写结果凭证（保存候选卡片时需要） */
+  const [token, setToken] = useState<string | null>(null);
+  /** 选中保存的候选卡片索引 */
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const close = () => {
+    setRefinement(null);
+    setProposals(null);
+    setToken(null);
+    setSelected(new Set());
+  };
+
+  const { execute: executeRefine, isExecuting: isRefining } = useAction(
+    refineCardAction,
+    {
+      onSuccess: ({ data }) => {
+        setProposals(
+          data.proposals.map((content) => ({ id: nanoid(), content }))
+        );
+        setReplacesCard(data.replacesCard);
+        setToken(data.token);
+        setSelected(new Set(data.proposals.map((_, index) => index)));
+      },
+      onError: ({ error }) => {
+        toast.error("AI refinement failed", {
+          description: error.serverError || "Unknown error occurred",
+        });
+        close();
+      },
+    }
+  );
+
+  const { execute: executeApply, isExecuting: isApplying } = useAction(
+    applyCardRefinementAction,
+    {
+      onSuccess: ({ data }) => {
+        toast.success(
+          data.added > 0
+            ? `Added ${data.added} card${data.added === 1 ? "" : "s"}`
+            : "Card updated"
+        );
+        close();
+      },
+      onError: ({ error }) => {
+        toast.error("Failed to save changes", {
+          description: error.serverError || "Unknown error occurred",
+        });
+      },
+    }
+  );
+
+  const run = (
+    action: CardRefinement,
+    params: { language?: string; count?: number } = {}
+  ) => {
+    setRefinement(action);
+    setProposals(null);
+    setToken(null);
+    executeRefine({ cardId: card.id, refinement: action, ...params });
+  };
+
+  const handleAccept = () => {
+    if (!proposals || !token) return;
+    executeApply({ cardId: card.id, token, selected: [...selected] });
+  };
+
+  const toggle = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const refinementCost = calculateCardRefinementCost();
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            disabled={disabled || isRefining}
+            title="Refine with AI"
+          >
+            {isRefining ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <Sparkles className="size-4" />
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuLabel>Refine with AI</DropdownMenuLabel>
+          {SIMPLE_REFINEMENTS.map((action) => (
+            <DropdownMenuItem
+              key={action}
+              onSelect={() => run(action)}
+              disabled={action === "cloze" && card.cardType === "cloze"}
+            >
+              {CARD_REFINEMENT_LABELS[action]}
+              <span className="ml-auto text-xs text-muted-foreground">
+                {refinementCost}
+              </span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              {CARD_REFINEMENT_LABELS.translate}
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {OUTPUT_LANGUAGES.filter(({ value }) => value !== "auto").map(
+                ({ value, label }) => (
+                  <DropdownMenuItem
+                    key={value}
+                    onSelect={() => run("translate", { language: value })}
+                  >
+                    {label}
+                  </DropdownMenuItem>
+                )
+              )}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSeparator />
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger disabled={!card.sourceRef}>
+              {CARD_REFINEMENT_LABELS.expand}
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {EXPANSION_COUNTS.map((count) => (
+                <DropdownMenuItem
+                  key={count}
+                  onSelect={() => run("expand", { count })}
+                >
+                  {count} more cards
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {calculateCardRefinementCost(count)}
+                  </span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={proposals !== null}
+        onOpenChange={(open) => {
+          if (!open && !isApplying) close();
+        }}
+      >
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>
+              {refinement ? CARD_REFINEMENT_LABELS[refinement] : "Refine"}
+            </DialogTitle>
+            <DialogDescription>
+              Review the suggested changes. Nothing is saved until you accept.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+            {proposals?.map(({ id, content }, index) => {
+              const isReplacement = replacesCard && index === 0;
+              return (
+                <div
+                  key={id}
+                  className={cn(
+                    "flex gap-3 rounded-lg border p-3",
+                    !selected.has(index) && "opacity-50"
+                  )}
+                >
+                  <Checkbox
+                    checked={selected.has(index)}
+                    onCheckedChange={() => toggle(index)}
+                    disabled={isApplying}
+                    aria-label="Include this card"
+                  />
+                  <div className="flex-1 space-y-2">
+                    <Badge variant={isReplacement ? "secondary" : "outline"}>
+                      {isReplacement ? "Replaces card" : "New card"}
+                    </Badge>
+                    <ProposalFields
+                      card={content}
+                      original={isReplacement ? card : null}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={close} disabled={isApplying}>
+              Reject
+            </Button>
+            <Button
+              onClick={handleAccept}
+              disabled={isApplying || selected.size === 0}
+            >
+              {isApplying && <Loader2 className="animate-spin" />}
+              Accept
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { Download, FileDown, FileText } from "lucide-react";
+import { Download, FileDown, FileText, Table } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -16,16 +16,23 @@ interface ExportMenuProps {
 }
 
 export function ExportMenu({ deckId, deckTitle }: ExportMenuProps) {
-  const handleExport = (format: "apkg" | "markdown") => {
+  const handleExport = (format: "apkg" | "tsv" | "markdown") => {
     const endpoint =
       format === "apkg"
         ? `/api/export/apkg?deckId=${deckId}`
-        : `/api/export/markdown?deckId=${deckId}`;
+        : format === "tsv"
+          ? `/api/export/apkg?deckId=${deckId}&format=tsv`
+          : `/api/export/markdown?deckId=${deckId}`;
 
     // Create a temporary anchor element to trigger download
     const link = document.createElement("a");
     link.href = endpoint;
-    link.download = format === "apkg" ? `${deckTitle}.apkg` : `${deckTitle}.md`;
+    link.download =
+      format === "apkg"
+        ? `${deckTitle}.apkg`
+        : format === "tsv"
+          ? `${deckTitle}.txt`
+          : `${deckTitle}.md`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -44,6 +51,10 @@ export function ExportMenu({ deckId, deckTitle }: ExportMenuProps) {
           <FileDown />
           Export as Anki (.apkg)
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("tsv")}>
+          <Table />
+          Export as Anki text (.txt, no figures)
+        </DropdownMenuItem>
         <DropdownMenuItem onClick={() => handleExport("markdown")}>
           <FileText />
           Export as Markdown (.md)
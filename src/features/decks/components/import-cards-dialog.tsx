@@ -0,0 +1,431 @@
+"use client";
+
+import { FileUp, Loader2, Upload } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { addCardsAction } from "@/features/decks/actions";
+import { MAX_CARDS_PER_BATCH } from "@/features/decks/schemas";
+// 直接引用 text 模块，避免客户端打包 .apkg 读写依赖
+import {
+  type ColumnMapping,
+  guessColumnMapping,
+  mapRowsToCards,
+  parseDelimitedText,
+  type TextSeparator,
+} from "@/lib/anki/text";
+import { CARD_TYPE_LABELS } from "@/lib/cards";
+
+/** 预览的卡片数量 */
+const PREVIEW_ROW_COUNT = 5;
+
+/** 列出的错误行数量 */
+const MAX_LISTED_ERRORS = 5;
+
+const SEPARATOR_LABELS: Record<TextSeparator | "auto", string> = {
+  auto: "Auto-detect",
+  tab: "Tab",
+  comma: "Comma",
+  semicolon: "Semicolon",
+  pipe: "Pipe (|)",
+};
+
+const MAPPING_FIELDS: Array<{
+  key: keyof ColumnMapping;
+  label: string;
+  optional: boolean;
+}> = [
+  { key: "front", label: "Front", optional: false },
+  { key: "back", label: "Back", optional: false },
+  { key: "tags", label: "Tags", optional: true },
+  { key: "notetype", label: "Note type", optional: true },
+];
+
+interface ImportCardsDialogProps {
+  deckId: string;
+  /** 牌组中已有卡片的正面（用于重复检测） */
+  existingFronts: string[];
+}
+
+/**
+ * 从 CSV / TSV / 粘贴文本批量导入卡片
+ *
+ * 预览后可调整分隔符和列映射，默认跳过与牌组已有卡片重复的行
+ */
+export function ImportCardsDialog({
+  deckId,
+  existingFronts,
+}: ImportCardsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [separator, setSeparator] = useState<TextSeparator | "auto">("auto");
+  const [hasHeaderRow, setHasHeaderRow] = useState<boolean | undefined>();
+  const [mappingOverride, setMappingOverride] = useState<
+    Partial<ColumnMapping>
+  >({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(
+    () =>
+      text.trim()
+        ? parseDelimitedText(text, {
+            separator: separator === "auto" ? undefined : separator,
+            hasHeaderRow,
+          })
+        : null,
+    [text, separator, hasHeaderRow]
+  );
+
+  const mapping = useMemo(
+    () =>
+      parsed ? { ...guessColumnMapping(parsed), ...mappingOverride } : null,
+    [parsed, mappingOverride]
+  );
+
+  const result = useMemo(
+    () =>
+      parsed && mapping
+        ? mapRowsToCards(parsed, mapping, existingFronts)
+        : { cards: [], errors: [] },
+    [parsed, mapping, existingFronts]
+  );
+
+  const columnCount = Math.max(
+    0,
+    ...(parsed?.rows.slice(0, 50).map((row) => row.length) ?? [])
+  );
+  const duplicateCount = result.cards.filter((c) => c.duplicate).length;
+  const cardsToImport = skipDuplicates
+    ? result.cards.filter((c) => !c.duplicate)
+    : result.cards;
+
+  // 列选项：优先显示列名，否则显示首行示例
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => {
+    const name = parsed?.columns?.[index];
+    const sample = parsed?.rows[0]?.[index]?.slice(0, 24);
+    return {
+      value: String(index),
+      label: name || `Column ${index + 1}${sample ? ` (${sample})` : ""}`,
+    };
+  });
+
+  const reset = () => {
+    setText("");
+    setSeparator("auto");
+    setHasHeaderRow(undefined);
+    setMappingOverride({});
+    setSkipDuplicates(true);
+  };
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setHasHeaderRow(undefined);
+    setMappingOverride({});
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    handleTextChange(await file.text());
+  };
+
+  const handleImport = async () => {
+    if (cardsToImport.length === 0) return;
+
+    setIsImporting(true);
+    let imported = 0;
+    try {
+      for (let i = 0; i < cardsToImport.length; i += MAX_CARDS_PER_BATCH) {
+        const batch = cardsToImport.slice(i, i + MAX_CARDS_PER_BATCH);
+        const response = await addCardsAction({
+          deckId,
+          cards: batch.map((c) => ({ ...c.content, tags: c.tags })),
+        });
+        if (!response?.data) {
+          throw new Error(
+            response?.serverError ||
+              (response?.validationErrors
+                ? "Some cards failed validation"
+                : "Unknown error occurred")
+          );
+        }
+        imported += response.data.count;
+      }
+
+      toast.success(`Imported ${imported} cards`);
+      setOpen(false);
+      reset();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      toast.error("Import failed", {
+        description:
+          imported > 0
+            ? `${imported} cards were imported before the error. ${message}`
+            : message,
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (isImporting) return;
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Cards</DialogTitle>
+          <DialogDescription>
+            Paste CSV, TSV or Quizlet-style &quot;term, tab, definition&quot;
+            text, or choose a file. Anki text exports keep their note types and
+            tags.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="import-text">Content</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isImporting}
+              >
+                <FileUp />
+                Choose File
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt"
+                onChange={handleFileChange}
+                className="sr-only"
+              />
+            </div>
+            <Textarea
+              id="import-text"
+              placeholder={"front\tback\nbonjour\thello"}
+              value={text}
+              onChange={(e) => handleTextChange(e.target.value)}
+              disabled={isImporting}
+              className="min-h-32 font-mono text-xs"
+            />
+          </div>
+
+          {parsed && mapping && (
+            <>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="import-separator">Separator</Label>
+                  <Select
+                    value={separator}
+                    onValueChange={(v) => {
+                      setSeparator(v as TextSeparator | "auto");
+                      setMappingOverride({});
+                    }}
+                    disabled={isImporting}
+                  >
+                    <SelectTrigger id="import-separator" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SEPARATOR_LABELS).map(([key, label]) => (
+                        <SelectItem key={key} value={key}>
+                          {key === "auto" && separator === "auto"
+                            ? `${label} (${SEPARATOR_LABELS[parsed.separator]})`
+                            : label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-end gap-2 pb-2">
+                  <Checkbox
+                    id="import-header-row"
+                    checked={hasHeaderRow ?? parsed.columns !== null}
+                    onCheckedChange={(checked) => {
+                      setHasHeaderRow(checked === true);
+                      setMappingOverride({});
+                    }}
+                    disabled={isImporting}
+                  />
+                  <Label htmlFor="import-header-row">
+                    First row is a header
+                  </Label>
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-4">
+                {MAPPING_FIELDS.map((field) => (
+                  <div key={field.key} className="grid gap-2">
+                    <Label htmlFor={`import-map-${field.key}`}>
+                      {field.label}
+                    </Label>
+                    <Select
+                      value={String(mapping[field.key] ?? "none")}
+                      onValueChange={(v) =>
+                        setMappingOverride((prev) => ({
+                          ...prev,
+                          [field.key]: v === "none" ? null : Number(v),
+                        }))
+                      }
+                      disabled={isImporting}
+                    >
+                      <SelectTrigger
+                        id={`import-map-${field.key}`}
+                        className="w-full"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {field.optional && (
+                          <SelectItem value="none">
+                            Don&apos;t import
+                          </SelectItem>
+                        )}
+                        {columnOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {/* Preview */}
+              {result.cards.length > 0 && (
+                <div className="overflow-x-auto rounded-lg border">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50 text-left text-xs text-muted-foreground">
+                      <tr>
+                        <th className="p-2 font-medium">Front</th>
+                        <th className="p-2 font-medium">Back</th>
+                        <th className="p-2 font-medium">Type</th>
+                        <th className="p-2 font-medium">Tags</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {result.cards.slice(0, PREVIEW_ROW_COUNT).map((c) => (
+                        <tr key={c.row} className="align-top">
+                          <td className="max-w-48 truncate p-2">
+                            {c.content.front}
+                            {c.duplicate && (
+                              <Badge variant="outline" className="ml-2">
+                                Duplicate
+                              </Badge>
+                            )}
+                          </td>
+                          <td className="max-w-48 truncate p-2">
+                            {c.content.back}
+                          </td>
+                          <td className="whitespace-nowrap p-2">
+                            {CARD_TYPE_LABELS[c.content.cardType]}
+                          </td>
+                          <td className="p-2 text-xs text-muted-foreground">
+                            {c.tags.join(", ")}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="space-y-2 text-sm">
+                <p>
+                  {result.cards.length} cards found
+                  {result.cards.length > PREVIEW_ROW_COUNT &&
+                    ` (showing first ${PREVIEW_ROW_COUNT})`}
+                </p>
+                {duplicateCount > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="import-skip-duplicates"
+                      checked={skipDuplicates}
+                      onCheckedChange={(checked) =>
+                        setSkipDuplicates(checked === true)
+                      }
+                      disabled={isImporting}
+                    />
+                    <Label htmlFor="import-skip-duplicates">
+                      Skip {duplicateCount} duplicate
+                      {duplicateCount === 1 ? "" : "s"}
+                    </Label>
+                  </div>
+                )}
+                {result.errors.length > 0 && (
+                  <div className="text-xs text-destructive">
+                    <p>{result.errors.length} rows will be skipped:</p>
+                    <ul className="mt-1 list-disc pl-4">
+                      {result.errors.slice(0, MAX_LISTED_ERRORS).map((e) => (
+                        <li key={e.row}>
+                          Row {e.row}: {e.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isImporting}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={isImporting || cardsToImport.length === 0}
+          >
+            {isImporting && <Loader2 className="animate-spin" />}
+            Import {cardsToImport.length} Cards
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,16 @@
 // Deck Components
 
 export { AddCardForm } from "./add-card-form";
+export { AnkiImportForm } from "./anki-import-form";
 export { CardEditor } from "./card-editor";
+export { CardFace } from "./card-face";
+export { CardFields } from "./card-fields";
+export { CardRefineMenu } from "./card-refine-menu";
 export { CreateDeckDialog } from "./create-deck-dialog";
 export { DeckCard } from "./deck-card";
 export { DeleteDeckButton } from "./delete-deck-button";
 export { ExportMenu } from "./export-menu";
+export { ImportCardsDialog } from "./import-cards-dialog";
+export { SourceReference } from "./source-reference";
+export { StudyCard } from "./study-card";
+export { StudySession } from "./study-session";
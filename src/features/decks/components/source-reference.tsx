@@ -0,0 +1,83 @@
+"use client";
+
+import { BookOpen, ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import type { CardSourceRef } from "@/lib/cards";
+
+/** 文本片段链接中引用的首尾词数 */
+const FRAGMENT_WORDS = 6;
+
+/**
+ * 构建跳转到网页中引用位置的链接（Text Fragment）
+ *
+ * 长段落使用 `text=开头,结尾` 形式匹配
+ */
+function buildTextFragmentUrl(url: string, snippet: string): string {
+  const encode = (text: string) =>
+    encodeURIComponent(text).replace(/-/g, "%2D");
+  const words = snippet.trim().split(/\s+/);
+  const fragment =
+    words.length > FRAGMENT_WORDS * 2
+      ? `${encode(words.slice(0, FRAGMENT_WORDS).join(" "))},${encode(
+          words.slice(-FRAGMENT_WORDS).join(" ")
+        )}`
+      : encode(words.join(" "));
+  return `${url.split("#")[0]}#:~:text=${fragment}`;
+}
+
+interface SourceReferenceProps {
+  sourceRef: CardSourceRef;
+  /** 来源网页（URL 牌组时可跳转到引用位置） */
+  pageUrl?: string | null | undefined;
+}
+
+/**
+ * 卡片来源引用
+ *
+ * 点击后显示生成该卡片的原文段落（章节、页码），用于核对答案
+ */
+export function SourceReference({ sourceRef, pageUrl }: SourceReferenceProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Badge variant="outline" asChild>
+          <button type="button" title="View in source">
+            <BookOpen className="size-3" />
+            {sourceRef.page !== null ? `p. ${sourceRef.page}` : "Source"}
+          </button>
+        </Badge>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-2 text-sm">
+        <div className="space-y-0.5">
+          <p className="font-medium">
+            {sourceRef.chapterTitle ?? "Source passage"}
+          </p>
+          {sourceRef.page !== null && (
+            <p className="text-xs text-muted-foreground">
+              Around page {sourceRef.page}
+            </p>
+          )}
+        </div>
+        <blockquote className="max-h-60 overflow-y-auto border-l-2 pl-3 text-muted-foreground whitespace-pre-wrap">
+          {sourceRef.snippet}
+        </blockquote>
+        {pageUrl && (
+          <a
+            href={buildTextFragmentUrl(pageUrl, sourceRef.snippet)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-xs underline-offset-2 hover:underline"
+          >
+            <ExternalLink className="size-3" />
+            Open in page
+          </a>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CardFace } from "@/features/decks/components/card-face";
+import { SourceReference } from "@/features/decks/components/source-reference";
+import {
+  type CardContent,
+  type CardSourceRef,
+  isAnswerCorrect,
+  type StudyVariant,
+} from "@/lib/cards";
+import { cn } from "@/lib/utils";
+
+interface StudyCardProps {
+  card: CardContent & { sourceRef?: CardSourceRef | null | undefined };
+  variant: StudyVariant;
+  revealed: boolean;
+  /** 选择题：打乱后的选项 */
+  choices: string[];
+  /** 选择题：已选择的选项 */
+  selectedChoice: string | null;
+  onSelectChoice: (choice: string) => void;
+  /** 输入答案卡：当前输入 */
+  typedAnswer: string;
+  onTypedAnswerChange: (value: string) => void;
+  /** 提交答案（显示背面） */
+  onSubmit: () => void;
+}
+
+/**
+ * 学习卡片
+ *
+ * - 选择题在显示答案前展示可点击选项（数字键选择）
+ * - 输入答案卡在显示答案前展示输入框，回车提交并比对
+ */
+export function StudyCard({
+  card,
+  variant,
+  revealed,
+  choices,
+  selectedChoice,
+  onSelectChoice,
+  typedAnswer,
+  onTypedAnswerChange,
+  onSubmit,
+}: StudyCardProps) {
+  const isTyped = card.cardType === "type_answer";
+  const typedCorrect = isTyped && isAnswerCorrect(typedAnswer, card.back);
+
+  return (
+    <div className="min-h-[280px] rounded-lg border bg-card p-6">
+      <p className="text-xs font-medium text-muted-foreground mb-2">Question</p>
+      <CardFace
+        card={card}
+        side="front"
+        variant={variant}
+        showOptions={false}
+        className="text-lg"
+      />
+
+      {/* Multiple choice */}
+      {card.cardType === "multiple_choice" && (
+        <div className="mt-4 grid gap-2">
+          {choices.map((choice, i) => {
+            const isAnswer = choice === card.back;
+            const isSelected = choice === selectedChoice;
+            return (
+              <Button
+                key={choice}
+                variant="outline"
+                className={cn(
+                  "h-auto justify-start whitespace-normal py-2 text-left",
+                  revealed &&
+                    isAnswer &&
+                    "border-green-500 bg-green-500/10 text-green-700 dark:text-green-400",
+                  revealed &&
+                    isSelected &&
+                    !isAnswer &&
+                    "border-destructive bg-destructive/10 text-destructive"
+                )}
+                onClick={() => onSelectChoice(choice)}
+                disabled={revealed}
+              >
+                <span className="text-xs opacity-70">{i + 1}</span>
+                {choice}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Type the answer */}
+      {isTyped && (
+        <form
+          className="mt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSubmit();
+          }}
+        >
+          <Input
+            value={typedAnswer}
+            onChange={(e) => onTypedAnswerChange(e.target.value)}
+            placeholder="Type your answer and press Enter..."
+            disabled={revealed}
+            autoFocus
+            className={cn(
+              revealed &&
+                (typedCorrect
+                  ? "border-green-500 text-green-700 dark:text-green-400"
+                  : "border-destructive text-destructive")
+            )}
+          />
+        </form>
+      )}
+
+      {revealed && (
+        <>
+          <div className="my-6 border-t" />
+          <div className="mb-2 flex items-center gap-2">
+            <p className="text-xs font-medium text-muted-foreground">Answer</p>
+            {isTyped && typedAnswer.trim() && (
+              <span
+                className={cn(
+                  "flex items-center gap-1 text-xs",
+                  typedCorrect ? "text-green-600" : "text-destructive"
+                )}
+              >
+                {typedCorrect ? (
+                  <Check className="size-3" />
+                ) : (
+                  <X className="size-3" />
+                )}
+                {typedCorrect ? "Correct" : "Incorrect"}
+              </span>
+            )}
+          </div>
+          <CardFace
+            card={card}
+            side="back"
+            variant={variant}
+            className="text-lg"
+          />
+          {card.sourceRef && (
+            <div className="mt-4">
+              <SourceReference sourceRef={card.sourceRef} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
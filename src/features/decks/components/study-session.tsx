@@ -0,0 +1,491 @@
+"use client";
+
+import {
+  ArrowLeft,
+  Loader2,
+  PartyPopper,
+  RotateCcw,
+  Undo2,
+} from "lucide-react";
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  getDueCardsAction,
+  submitReviewAction,
+  undoReviewAction,
+} from "@/features/decks/actions/review";
+import { StudyCard } from "@/features/decks/components/study-card";
+import {
+  type CardImage,
+  type CardSourceRef,
+  type CardType,
+  getChoiceOptions,
+  getStudyVariant,
+} from "@/lib/cards";
+import {
+  type GradeName,
+  previewSchedule,
+  type SchedulingState,
+} from "@/lib/srs";
+
+interface StudySessionProps {
+  deckId: string;
+  deckTitle: string;
+}
+
+interface QueueItem {
+  card: {
+    id: string;
+    cardType: CardType;
+    front: string;
+    back: string;
+    options: string[] | null;
+    image: CardImage | null;
+    sortIndex: number;
+    sourceRef: CardSourceRef | null;
+  };
+  schedule: SchedulingState;
+}
+
+interface HistoryEntry {
+  position: number;
+  queueLength: number;
+  grade: GradeName;
+  durationMs: number;
+  /** 提交结果（review_log ID），撤销时需要等待提交完成 */
+  reviewLogId: Promise<string | null>;
+}
+
+type GradeCounts = Record<GradeName, number>;
+
+const GRADE_BUTTONS: {
+  grade: GradeName;
+  label: string;
+  shortcut: string;
+  variant: "destructive" | "outline" | "default" | "secondary";
+}[] = [
+  { grade: "again", label: "Again", shortcut: "1", variant: "destructive" },
+  { grade: "hard", label: "Hard", shortcut: "2", variant: "outline" },
+  { grade: "good", label: "Good", shortcut: "3", variant: "default" },
+  { grade: "easy", label: "Easy", shortcut: "4", variant: "secondary" },
+];
+
+const EMPTY_COUNTS: GradeCounts = { again: 0, hard: 0, good: 0, easy: 0 };
+
+/**
+ * 格式化下次复习间隔（用于评分按钮提示）
+ */
+function formatInterval(next: SchedulingState, now: Date): string {
+  if (next.scheduledDays <= 0) {
+    const minutes = Math.max(
+      1,
+      Math.round((next.due.getTime() - now.getTime()) / 60000)
+    );
+    return minutes < 60 ? `${minutes}m` : `${Math.round(minutes / 60)}h`;
+  }
+  if (next.scheduledDays < 30) return `${next.scheduledDays}d`;
+  if (next.scheduledDays < 365) {
+    return `${(next.scheduledDays / 30).toFixed(1)}mo`;
+  }
+  return `${(next.scheduledDays / 365).toFixed(1)}y`;
+}
+
+/**
+ * 格式化学习时长
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+/**
+ * 学习会话
+ *
+ * 功能：
+ * - 加载牌组到期队列（学习中 → 到期复习 → 新卡）
+ * - 空格显示答案，1-4 评分（显示答案后空格等同 Good）
+ * - 选择题显示答案前数字键选择选项，输入答案卡回车提交
+ * - U / Ctrl+Z 撤销上一次评分
+ * - 学习中/重学中的卡片在本次会话末尾重新出现
+ * - 结束后显示本次学习总结
+ */
+export function StudySession({ deckId, deckTitle }: StudySessionProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [position, setPosition] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [counts, setCounts] = useState<GradeCounts>(EMPTY_COUNTS);
+  const [totalMs, setTotalMs] = useState(0);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [selectedChoice, setSelectedChoice] = useState<string | null>(null);
+  const [typedAnswer, setTypedAnswer] = useState("");
+  const shownAtRef = useRef(Date.now());
+  // 每张卡片最近一次评分的提交，同一张卡片的评分按顺序提交
+  const pendingSubmitsRef = useRef(new Map<string, Promise<string | null>>());
+
+  const current = queue[position];
+  const variant = useMemo(
+    () =>
+      current
+        ? getStudyVariant(current.card, current.schedule.reps)
+        : { reversed: false, clozeOrdinal: null },
+    [current]
+  );
+  // 选择题选项每次出现时重新打乱
+  const choices = useMemo(
+    () =>
+      current?.card.cardType === "multiple_choice"
+        ? getChoiceOptions(current.card)
+            .map((choice) => ({ choice, sort: Math.random() }))
+            .sort((a, b) => a.sort - b.sort)
+            .map((item) => item.choice)
+        : [],
+    [current]
+  );
+  const isFinished = !isLoading && position >= queue.length;
+  const reviewedCount = history.length;
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getDueCardsAction({ deckId });
+      if (result?.data) {
+        setQueue(result.data.queue);
+      } else {
+        toast.error("Failed to load cards", {
+          description: result?.serverError || "Unknown error occurred",
+        });
+        setQueue([]);
+      }
+    } catch (error) {
+      toast.error("Failed to load cards", {
+        description:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      });
+      setQueue([]);
+    }
+    setPosition(0);
+    setRevealed(false);
+    setSelectedChoice(null);
+    setTypedAnswer("");
+    setHistory([]);
+    setCounts(EMPTY_COUNTS);
+    setTotalMs(0);
+    shownAtRef.current = Date.now();
+    setIsLoading(false);
+  }, [deckId]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const reveal = useCallback(() => {
+    if (current && !revealed) {
+      setRevealed(true);
+    }
+  }, [current, revealed]);
+
+  const selectChoice = useCallback(
+    (choice: string) => {
+      if (revealed) return;
+      setSelectedChoice(choice);
+      setRevealed(true);
+    },
+    [revealed]
+  );
+
+  const grade = useCallback(
+    (gradeName: GradeName) => {
+      if (!current || !revealed || isUndoing) return;
+
+      const now = new Date();
+      const durationMs = now.getTime() - shownAtRef.current;
+      const next = previewSchedule(current.schedule, now)[gradeName];
+
+      // 仍处于学习阶段的卡片在会话末尾重新出现
+      const requeue = next.state === "learning" || next.state === "relearning";
+
+      // 重新出现的卡片要等上一次评分保存后再提交，否则调度状态可能被旧评分覆盖
+      const cardId = current.card.id;
+      const pendingSubmits = pendingSubmitsRef.current;
+      const reviewLogId = (pendingSubmits.get(cardId) ?? Promise.resolve(null))
+        .then(() =>
+          submitReviewAction({ cardId, grade: gradeName, durationMs })
+        )
+        .then((result) => {
+          if (!result?.data) {
+            toast.error("Failed to save review", {
+              description: result?.serverError || "Unknown error occurred",
+            });
+            return null;
+          }
+          return result.data.reviewLogId;
+        })
+        .catch((error: unknown) => {
+          toast.error("Failed to save review", {
+            description:
+              error instanceof Error ? error.message : "Unknown error occurred",
+          });
+          return null;
+        });
+      pendingSubmits.set(cardId, reviewLogId);
+      reviewLogId.then(() => {
+        if (pendingSubmits.get(cardId) === reviewLogId) {
+          pendingSubmits.delete(cardId);
+        }
+      });
+
+      setHistory((prev) => [
+        ...prev,
+        {
+          position,
+          queueLength: queue.length,
+          grade: gradeName,
+          durationMs,
+          reviewLogId,
+        },
+      ]);
+      if (requeue) {
+        setQueue((prev) => [...prev, { card: current.card, schedule: next }]);
+      }
+      setCounts((prev) => ({ ...prev, [gradeName]: prev[gradeName] + 1 }));
+      setTotalMs((prev) => prev + durationMs);
+      setPosition((prev) => prev + 1);
+      setRevealed(false);
+      setSelectedChoice(null);
+      setTypedAnswer("");
+      shownAtRef.current = Date.now();
+    },
+    [current, revealed, isUndoing, position, queue.length]
+  );
+
+  const undo = useCallback(async () => {
+    const last = history[history.length - 1];
+    if (!last || isUndoing) return;
+
+    setIsUndoing(true);
+    try {
+      const reviewLogId = await last.reviewLogId;
+      if (reviewLogId) {
+        const result = await undoReviewAction({ reviewLogId });
+        if (!result?.data) {
+          toast.error("Failed to undo", {
+            description: result?.serverError || "Unknown error occurred",
+          });
+          return;
+        }
+      }
+
+      setHistory((prev) => prev.slice(0, -1));
+      setQueue((prev) => prev.slice(0, last.queueLength));
+      setCounts((prev) => ({ ...prev, [last.grade]: prev[last.grade] - 1 }));
+      setTotalMs((prev) => prev - last.durationMs);
+      setPosition(last.position);
+      setRevealed(true);
+      setSelectedChoice(null);
+      setTypedAnswer("");
+      shownAtRef.current = Date.now() - last.durationMs;
+    } catch (error) {
+      toast.error("Failed to undo", {
+        description:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    } finally {
+      setIsUndoing(false);
+    }
+  }, [history, isUndoing]);
+
+  // 键盘快捷键
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+
+      if ((event.ctrlKey || event.metaKey) && event.key === "z") {
+        event.preventDefault();
+        undo();
+        return;
+      }
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      if (event.key === " " || event.key === "Enter") {
+        event.preventDefault();
+        if (revealed) {
+          grade("good");
+        } else {
+          reveal();
+        }
+        return;
+      }
+
+      if (event.key === "u" || event.key === "U") {
+        undo();
+        return;
+      }
+
+      // 选择题显示答案前，数字键选择选项
+      if (!revealed && choices.length > 0) {
+        const choice = choices[Number(event.key) - 1];
+        if (choice) {
+          selectChoice(choice);
+        }
+        return;
+      }
+
+      const button = GRADE_BUTTONS.find((b) => b.shortcut === event.key);
+      if (button) {
+        grade(button.grade);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [choices, grade, reveal, revealed, selectChoice, undo]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="size-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (isFinished) {
+    const correct = reviewedCount - counts.again;
+    const accuracy =
+      reviewedCount > 0 ? Math.round((correct / reviewedCount) * 100) : 0;
+
+    return (
+      <div className="mx-auto flex max-w-xl flex-col items-center rounded-lg border p-8 text-center">
+        <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+          <PartyPopper className="h-8 w-8 text-muted-foreground" />
+        </div>
+        <h2 className="mt-4 text-xl font-semibold">
+          {reviewedCount === 0 ? "Nothing to study" : "Session complete"}
+        </h2>
+        <p className="mt-2 text-sm text-muted-foreground">
+          {reviewedCount === 0
+            ? `No cards in ${deckTitle} are due right now. Come back later!`
+            : `You reviewed ${reviewedCount} card${reviewedCount === 1 ? "" : "s"} in ${formatDuration(totalMs)}.`}
+        </p>
+
+        {reviewedCount > 0 && (
+          <div className="mt-6 grid w-full grid-cols-2 gap-4 sm:grid-cols-5">
+            <div className="rounded-md bg-muted p-3">
+              <p className="text-2xl font-bold">{accuracy}%</p>
+              <p className="text-xs text-muted-foreground">Accuracy</p>
+            </div>
+            {GRADE_BUTTONS.map((b) => (
+              <div key={b.grade} className="rounded-md bg-muted p-3">
+                <p className="text-2xl font-bold">{counts[b.grade]}</p>
+                <p className="text-xs text-muted-foreground">{b.label}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-6 flex items-center gap-2">
+          {reviewedCount > 0 && (
+            <Button variant="ghost" onClick={undo} disabled={isUndoing}>
+              {isUndoing ? <Loader2 className="animate-spin" /> : <Undo2 />}
+              Undo
+            </Button>
+          )}
+          <Button variant="outline" onClick={loadQueue}>
+            <RotateCcw />
+            Study again
+          </Button>
+          <Button asChild>
+            <Link href={`/dashboard/decks/${deckId}`}>
+              <ArrowLeft />
+              Back to deck
+            </Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const preview = current ? previewSchedule(current.schedule, now) : null;
+  const remaining = queue.length - position;
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-4">
+      {/* Progress */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{remaining} left</Badge>
+          {current && (
+            <Badge variant="secondary" className="capitalize">
+              {current.schedule.state}
+            </Badge>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={undo}
+          disabled={history.length === 0 || isUndoing}
+        >
+          {isUndoing ? <Loader2 className="animate-spin" /> : <Undo2 />}
+          Undo
+        </Button>
+      </div>
+      <Progress value={(position / Math.max(queue.length, 1)) * 100} />
+
+      {/* Card */}
+      {current && (
+        <StudyCard
+          card={current.card}
+          variant={variant}
+          revealed={revealed}
+          choices={choices}
+          selectedChoice={selectedChoice}
+          onSelectChoice={selectChoice}
+          typedAnswer={typedAnswer}
+          onTypedAnswerChange={setTypedAnswer}
+          onSubmit={reveal}
+        />
+      )}
+
+      {/* Controls */}
+      {revealed && preview ? (
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          {GRADE_BUTTONS.map((b) => (
+            <Button
+              key={b.grade}
+              variant={b.variant}
+              className="h-auto flex-col py-2"
+              onClick={() => grade(b.grade)}
+              disabled={isUndoing}
+            >
+              <span>{b.label}</span>
+              <span className="text-xs opacity-70">
+                {formatInterval(preview[b.grade], now)} · {b.shortcut}
+              </span>
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <Button className="w-full" onClick={reveal}>
+          Show Answer
+          <span className="text-xs opacity-70">Space</span>
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -11,3 +11,25 @@ export {
   moveCardAction,
   addCardsAction,
 } from "./actions";
+
+// Review Actions
+export {
+  getDueCardsAction,
+  submitReviewAction,
+  undoReviewAction,
+} from "./actions/review";
+
+// Refinement Actions
+export {
+  applyCardRefinementAction,
+  refineCardAction,
+} from "./actions/refine";
+
+// Import Actions
+export {
+  getDeckImportAction,
+  importAnkiPackageAction,
+} from "./actions/import";
+
+// Stats Types
+export type { HardestCard, LearningStats } from "./stats";
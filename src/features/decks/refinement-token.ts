@@ -0,0 +1,95 @@
+/**
+ * 单卡改写结果凭证
+ *
+ * 改写结果不入库：生成后连同卡片、用户和有效期一起签名返回给客户端，
+ * 保存时校验签名，只保存 AI 生成的候选卡片（客户端只能选择保存哪些）
+ *
+ * 凭证记录改写时卡片的更新时间（卡片之后被修改则作废）和扣费的预扣引用
+ * （保存时在预扣记录上标记已使用，凭证只能使用一次）
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { CardContent } from "@/lib/cards";
+
+/** 凭证有效期（毫秒） */
+const REFINEMENT_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * 签名的改写结果
+ *
+ * @field cardId - 被改写的卡片 ID
+ * @field userId - 发起改写的用户 ID
+ * @field cardUpdatedAt - 改写时卡片的更新时间（毫秒时间戳）
+ * @field reference - 改写扣费的预扣引用
+ * @field replacesCard - 第一张候选卡片是否覆盖原卡片
+ * @field proposals - 候选卡片
+ * @field expiresAt - 过期时间（毫秒时间戳）
+ */
+export interface RefinementResult {
+  cardId: string;
+  userId: string;
+  cardUpdatedAt: number;
+  reference: string;
+  replacesCard: boolean;
+  proposals: CardContent[];
+  expiresAt: number;
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.BETTER_AUTH_SECRET;
+  if (!secret) {
+    throw new Error("BETTER_AUTH_SECRET is not configured");
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSigningSecret())
+    .update(payload)
+    .digest("base64url");
+}
+
+/**
+ * 签名改写结果
+ *
+ * @returns 凭证（base64url 编码的结果 + "." + 签名）
+ */
+export function signRefinementResult(
+  result: Omit<RefinementResult, "expiresAt">,
+  now = Date.now()
+): string {
+  const payload = Buffer.from(
+    JSON.stringify({ ...result, expiresAt: now + REFINEMENT_TOKEN_TTL_MS })
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * 校验凭证并读取改写结果
+ *
+ * @returns 改写结果；签名不符、格式错误或已过期时返回 null
+ */
+export function verifyRefinementResult(
+  token: string,
+  now = Date.now()
+): RefinementResult | null {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const result = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8")
+    ) as RefinementResult;
+    return result.expiresAt > now ? result : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import {
+  CARD_TYPES,
+  MAX_CHOICE_OPTIONS,
+  validateCardContent,
+} from "@/lib/cards";
+
+/**
+ * 卡片内容 Schema
+ *
+ * 按卡片类型校验：填空卡需包含 {{c1::...}}，选择题需至少一个干扰项，
+ * 其他类型需填写背面
+ */
+export const cardContentSchema = z
+  .object({
+    /** 卡片类型 */
+    cardType: z.enum(CARD_TYPES).default("basic"),
+    /** 正面 */
+    front: z.string().min(1, "Front content is required"),
+    /** 背面（填空卡为补充说明，可为空） */
+    back: z.string().default(""),
+    /** 选择题干扰项 */
+    options: z.array(z.string()).max(MAX_CHOICE_OPTIONS).nullish(),
+  })
+  .superRefine((value, ctx) => {
+    const error = validateCardContent(value);
+    if (error) {
+      ctx.addIssue({ code: "custom", message: error });
+    }
+  });
+
+export type CardContentInput = z.input<typeof cardContentSchema>;
+
+/** 单次批量添加的卡片上限 */
+export const MAX_CARDS_PER_BATCH = 500;
+
+/**
+ * 批量添加的卡片 Schema（可附带标签，用于文本导入）
+ */
+export const cardWithTagsSchema = cardContentSchema.and(
+  z.object({
+    /** 标签 */
+    tags: z.array(z.string().trim().min(1)).nullish(),
+  })
+);
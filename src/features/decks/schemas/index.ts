@@ -0,0 +1,7 @@
+// 卡片 Schema 模块导出
+export {
+  type CardContentInput,
+  cardContentSchema,
+  cardWithTagsSchema,
+  MAX_CARDS_PER_BATCH,
+} from "./card";
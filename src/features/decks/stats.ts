@@ -0,0 +1,151 @@
+/**
+ * 学习统计查询
+ *
+ * 汇总 review_log 和 card_schedule，供仪表盘和牌组统计页使用
+ */
+
+import { and, desc, eq, gt, gte, ne } from "drizzle-orm";
+
+import { db } from "@/db";
+import { card, cardSchedule, deck, reviewLog } from "@/db/schema";
+import {
+  buildDueForecast,
+  buildReviewHeatmap,
+  computeRetention,
+  type DailyCount,
+  type RetentionStats,
+  toDateKey,
+} from "@/lib/srs";
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 热力图天数（26 周） */
+export const HEATMAP_DAYS = 182;
+
+/** 到期预测天数 */
+export const FORECAST_DAYS = 30;
+
+/** 保持率统计窗口（天） */
+export const RETENTION_WINDOW_DAYS = 30;
+
+/**
+ * 困难卡片
+ */
+export interface HardestCard {
+  cardId: string;
+  deckId: string;
+  deckTitle: string;
+  front: string;
+  lapses: number;
+  difficulty: number;
+  reps: number;
+}
+
+/**
+ * 学习统计
+ */
+export interface LearningStats {
+  /** 最近 30 天的保持率 */
+  retention: RetentionStats;
+  /** 今日复习次数 */
+  reviewsToday: number;
+  /** 当前已到期的卡片数 */
+  dueNow: number;
+  /** 每日复习数（最近 26 周） */
+  heatmap: DailyCount[];
+  /** 未来 30 天到期预测 */
+  forecast: DailyCount[];
+  /** 遗忘次数最多的卡片 */
+  hardestCards: HardestCard[];
+}
+
+// ============================================
+// 查询
+// ============================================
+
+/**
+ * 获取用户的学习统计
+ *
+ * @param userId - 用户 ID
+ * @param deckId - 牌组 ID（可选，不传则统计全部牌组）
+ * @param hardestLimit - 困难卡片数量
+ */
+export async function getLearningStats(
+  userId: string,
+  deckId?: string,
+  hardestLimit = 10
+): Promise<LearningStats> {
+  const now = new Date();
+  const heatmapStart = new Date(
+    now.getTime() - HEATMAP_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const logWhere = deckId
+    ? and(
+        eq(reviewLog.userId, userId),
+        eq(reviewLog.deckId, deckId),
+        gte(reviewLog.reviewedAt, heatmapStart)
+      )
+    : and(
+        eq(reviewLog.userId, userId),
+        gte(reviewLog.reviewedAt, heatmapStart)
+      );
+
+  const scheduleWhere = deckId
+    ? and(
+        eq(cardSchedule.userId, userId),
+        eq(card.deckId, deckId),
+        ne(cardSchedule.state, "new")
+      )
+    : and(eq(cardSchedule.userId, userId), ne(cardSchedule.state, "new"));
+
+  const [logs, schedules, hardest] = await Promise.all([
+    db
+      .select({
+        rating: reviewLog.rating,
+        state: reviewLog.state,
+        reviewedAt: reviewLog.reviewedAt,
+      })
+      .from(reviewLog)
+      .where(logWhere),
+    db
+      .select({ state: cardSchedule.state, due: cardSchedule.due })
+      .from(cardSchedule)
+      .innerJoin(card, eq(card.id, cardSchedule.cardId))
+      .where(scheduleWhere),
+    db
+      .select({
+        cardId: card.id,
+        deckId: deck.id,
+        deckTitle: deck.title,
+        front: card.front,
+        lapses: cardSchedule.lapses,
+        difficulty: cardSchedule.difficulty,
+        reps: cardSchedule.reps,
+      })
+      .from(cardSchedule)
+      .innerJoin(card, eq(card.id, cardSchedule.cardId))
+      .innerJoin(deck, eq(deck.id, card.deckId))
+      .where(and(scheduleWhere, gt(cardSchedule.reps, 0)))
+      .orderBy(desc(cardSchedule.lapses), desc(cardSchedule.difficulty))
+      .limit(hardestLimit),
+  ]);
+
+  const retentionStart =
+    now.getTime() - RETENTION_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const todayKey = toDateKey(now);
+
+  return {
+    retention: computeRetention(
+      logs.filter((log) => log.reviewedAt.getTime() >= retentionStart)
+    ),
+    reviewsToday: logs.filter((log) => toDateKey(log.reviewedAt) === todayKey)
+      .length,
+    dueNow: schedules.filter((s) => s.due <= now).length,
+    heatmap: buildReviewHeatmap(logs, HEATMAP_DAYS, now),
+    forecast: buildDueForecast(schedules, FORECAST_DAYS, now),
+    hardestCards: hardest,
+  };
+}
@@ -1,20 +1,42 @@
 "use server";
 
-import { eq } from "drizzle-orm";
+import { and, eq, ne, sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 import { db } from "@/db";
-import { creditsBalance, generationTask } from "@/db/schema";
+import { creditsBalance, deck, generationTask } from "@/db/schema";
 import {
   CREDIT_COSTS_BY_SOURCE,
   MAX_TEXT_CHARACTERS,
   MIN_CREDITS_COST,
   calculateCreationCost,
 } from "@/config/pricing";
+import {
+  InsufficientCreditsError,
+  releaseCredits,
+  reserveCredits,
+} from "@/features/credits/core";
+import { getTaskChapters } from "@/features/flashcards/chapters";
+import {
+  TASK_CREDITS_SERVICE,
+  taskCreditsReference,
+} from "@/features/flashcards/credits";
+import { generationOptionsSchema } from "@/features/flashcards/schemas";
+import { isUserUploadKey } from "@/features/storage/utils";
 import { inngest } from "@/inngest";
+import { resolveGenerationOptions } from "@/lib/ai/generation-options";
+import {
+  calculateSelectedTokens,
+  type DocumentOutline,
+  formatPageRangeTitle,
+  getSelectableChapters,
+  normalizePageRanges,
+} from "@/lib/ai/outline";
 import { countTokens } from "@/lib/ai/tokenizer";
+import { assertPublicUrl } from "@/lib/parsers";
 import { protectedAction } from "@/lib/safe-action";
+import { isCaptionFilename, parseYouTubeVideoId } from "@/lib/transcripts";
 
 /**
  * 生成闪卡 Schema
@@ -23,12 +45,32 @@ const generateFlashcardsSchema = z.object({
   sourceType: z.enum(["text", "url", "file", "video"]),
   content: z.string().optional(),
   url: z.string().url().optional(),
-  /** 文件名（文件上传时必填，用于确定解析器类型） */
+  /** 文件名（文件上传时必填，用于确定解析器类型；视频为字幕文件名） */
   filename: z.string().optional(),
-  /** 文件在存储中的键名（文件上传时必填） */
+  /** 文件在存储中的键名（文件上传时必填；视频为可选的字幕文件） */
   fileKey: z.string().optional(),
+  /** 生成选项（卡片数量、难度、类型、语言、侧重、自定义指令） */
+  options: generationOptionsSchema.optional(),
 });
 
+/**
+ * 预扣任务积分，余额不足时返回面向用户的错误信息
+ */
+async function reserveTaskCredits(
+  params: Parameters<typeof reserveCredits>[0]
+): Promise<void> {
+  try {
+    await reserveCredits(params);
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      throw new Error(
+        `Insufficient credits. Required: ${error.required}, Available: ${error.available}`
+      );
+    }
+    throw error;
+  }
+}
+
 /**
  * 从文本生成闪卡 Server Action
  *
@@ -38,6 +80,7 @@ export const generateFlashcardsAction = protectedAction
   .schema(generateFlashcardsSchema)
   .action(async ({ parsedInput, ctx }) => {
     const { sourceType, content, url, filename, fileKey } = parsedInput;
+    const options = generationOptionsSchema.parse(parsedInput.options ?? {});
     const userId = ctx.user.id;
 
     // 验证输入
@@ -45,14 +88,40 @@ export const generateFlashcardsAction = protectedAction
       throw new Error("Content is required for text input");
     }
 
-    if ((sourceType === "url" || sourceType === "video") && !url) {
-      throw new Error("URL is required for URL/video input");
+    if (sourceType === "url") {
+      if (!url) {
+        throw new Error("URL is required for URL input");
+      }
+      // 提前拒绝内网地址，避免扣费后任务才失败
+      await assertPublicUrl(url);
+    }
+
+    // 视频：YouTube 链接可自动获取字幕，其他视频需上传字幕文件
+    if (sourceType === "video") {
+      const hasCaptionFile = Boolean(fileKey && filename);
+      if (hasCaptionFile && filename && !isCaptionFilename(filename)) {
+        throw new Error("Caption file must be a .vtt or .srt file");
+      }
+      // 只能使用自己上传的字幕文件
+      if (fileKey && !isUserUploadKey(fileKey, userId)) {
+        throw new Error("File not found");
+      }
+      if (!hasCaptionFile && !(url && parseYouTubeVideoId(url))) {
+        throw new Error(
+          "Provide a YouTube link or upload a caption file (.vtt or .srt)"
+        );
+      }
     }
 
     if (sourceType === "file" && (!url || !filename)) {
       throw new Error("File URL and filename are required for file input");
     }
 
+    // 只能解析自己上传的文档
+    if (sourceType === "file" && fileKey && !isUserUploadKey(fileKey, userId)) {
+      throw new Error("File not found");
+    }
+
     // 检查文本长度限制
     if (sourceType === "text" && content) {
       if (content.length > MAX_TEXT_CHARACTERS) {
@@ -76,44 +145,52 @@ export const generateFlashcardsAction = protectedAction
       creditsCost = MIN_CREDITS_COST;
     }
 
-    // 检查用户积分余额
-    const balance = await db.query.creditsBalance.findFirst({
-      where: eq(creditsBalance.userId, userId),
-    });
-
-    if (!balance || balance.balance < creditsCost) {
-      throw new Error(
-        `Insufficient credits. Required: ${creditsCost}, Available: ${balance?.balance ?? 0}`
-      );
-    }
-
-    // 创建任务记录
+    // 预扣积分（任务失败或无产出时由 Inngest 退回）
     const taskId = nanoid();
-    await db.insert(generationTask).values({
-      id: taskId,
+    const reference = taskCreditsReference(taskId, "generation");
+    await reserveTaskCredits({
       userId,
-      status: "pending",
-      sourceType,
-      sourceContent: sourceType === "text" ? content : null,
-      sourceUrl: url || null,
-      creditsCost,
+      amount: creditsCost,
+      serviceName: TASK_CREDITS_SERVICE.generation,
+      reference,
+      description: `Flashcard generation from ${sourceType}`,
+      metadata: { taskId, sourceType },
     });
 
-    // 触发 Inngest 后台任务
-    await inngest.send({
-      name: "flashcard/generate",
-      data: {
-        taskId,
+    try {
+      // 创建任务记录
+      await db.insert(generationTask).values({
+        id: taskId,
         userId,
+        status: "pending",
         sourceType,
-        sourceContent: content,
-        sourceUrl: url,
-        sourceFilename: filename,
-        fileKey,
+        sourceContent: sourceType === "text" ? content : null,
+        sourceUrl: url || null,
+        sourceFilename: filename || null,
         creditsCost,
-        userPlan: "free", // TODO: 从用户订阅信息获取
-      },
-    });
+        generationOptions: options,
+      });
+
+      // 触发 Inngest 后台任务
+      await inngest.send({
+        name: "flashcard/generate",
+        data: {
+          taskId,
+          userId,
+          sourceType,
+          sourceContent: content,
+          sourceUrl: url,
+          sourceFilename: filename,
+          fileKey,
+          creditsCost,
+          options,
+          userPlan: "free", // TODO: 从用户订阅信息获取
+        },
+      });
+    } catch (error) {
+      await releaseCredits(reference, "Failed to start generation task");
+      throw error;
+    }
 
     revalidatePath("/dashboard");
 
@@ -131,12 +208,14 @@ export const generateFromTextAction = protectedAction
   .schema(
     z.object({
       content: z.string().min(10, "Content must be at least 10 characters"),
+      options: generationOptionsSchema.optional(),
     })
   )
   .action(async ({ parsedInput }) => {
     return generateFlashcardsAction({
       sourceType: "text",
       content: parsedInput.content,
+      ...(parsedInput.options && { options: parsedInput.options }),
     });
   });
 
@@ -154,21 +233,29 @@ const analyzeDocumentSchema = z.object({
   sourceFilename: z.string().min(1),
   /** 文件在存储中的键名 */
   fileKey: z.string().min(1),
+  /** 生成选项（Phase B 可覆盖） */
+  options: generationOptionsSchema.optional(),
 });
 
 /**
  * 分析文档生成大纲（Phase A）
  *
  * 此阶段扣除索引费（按文档 Input Tokens 计算）
- * 流程：创建任务 → 触发 Inngest 分析 → 解析后扣费 → 返回 taskId
+ * 流程：创建任务 → 触发 Inngest 分析 → 解析后预扣 → 返回 taskId
  * 用户通过轮询获取大纲后选择章节
  */
 export const analyzeDocumentAction = protectedAction
   .schema(analyzeDocumentSchema)
   .action(async ({ parsedInput, ctx }) => {
     const { sourceUrl, sourceFilename, fileKey } = parsedInput;
+    const options = generationOptionsSchema.parse(parsedInput.options ?? {});
     const userId = ctx.user.id;
 
+    // 只能解析自己上传的文档
+    if (!isUserUploadKey(fileKey, userId)) {
+      throw new Error("File not found");
+    }
+
     // 预检：确保用户至少有最低积分（实际费用在 Inngest 解析后计算）
     const balance = await db.query.creditsBalance.findFirst({
       where: eq(creditsBalance.userId, userId),
@@ -190,6 +277,7 @@ export const analyzeDocumentAction = protectedAction
       sourceUrl,
       sourceFilename,
       creditsCost: 0, // 解析后由 Inngest 更新
+      generationOptions: options,
     });
 
     // 触发 Inngest 分析任务
@@ -201,6 +289,7 @@ export const analyzeDocumentAction = protectedAction
         sourceUrl,
         sourceFilename,
         fileKey,
+        options,
         userPlan: "free", // TODO: 从用户订阅信息获取
       },
     });
@@ -214,20 +303,42 @@ export const analyzeDocumentAction = protectedAction
     };
   });
 
+/**
+ * 页码范围 Schema（从 1 开始，包含两端）
+ */
+const pageRangeSchema = z
+  .object({
+    start: z.number().int().positive(),
+    end: z.number().int().positive(),
+  })
+  .refine((range) => range.start <= range.end, "Invalid page range");
+
 /**
  * 根据大纲选择生成闪卡 Schema（Phase B）
+ *
+ * 按章节选择或按页码范围选择，二者取其一
  */
-const generateFromOutlineSchema = z.object({
-  /** 已分析完成的任务 ID */
-  taskId: z.string().min(1),
-  /** 选定的章节索引数组 */
-  selectedChapters: z.array(z.number().int().nonnegative()).min(1),
-});
+const generateFromOutlineSchema = z
+  .object({
+    /** 已分析完成的任务 ID */
+    taskId: z.string().min(1),
+    /** 选定的章节索引数组 */
+    selectedChapters: z.array(z.number().int().nonnegative()).default([]),
+    /** 选定的页码范围（仅有真实分页的 PDF） */
+    selectedPages: z.array(pageRangeSchema).max(50).optional(),
+    /** 生成选项（不传则使用 Phase A 时保存的选项） */
+    options: generationOptionsSchema.optional(),
+  })
+  .refine((input) => {
+    const hasChapters = input.selectedChapters.length > 0;
+    const hasPages = (input.selectedPages?.length ?? 0) > 0;
+    return hasChapters !== hasPages;
+  }, "Select either chapters or a page range");
 
 /**
  * 根据大纲选择生成闪卡（Phase B）
  *
- * 流程：验证任务状态 → 计算生成费 → 检查余额 → 触发生成
+ * 流程：验证任务状态 → 计算生成费 → 锁定任务并预扣积分 → 触发生成
  */
 export const generateFromOutlineAction = protectedAction
   .schema(generateFromOutlineSchema)
@@ -258,53 +369,386 @@ export const generateFromOutlineAction = protectedAction
       throw new Error("Document outline not found");
     }
 
-    // 计算选定章节的 token 数
-    const outline = task.documentOutline as {
-      chapters: Array<{ index: number; estimatedTokens: number }>;
-    };
-    const selectedTokens = outline.chapters
-      .filter((ch) => selectedChapters.includes(ch.index))
-      .reduce((sum, ch) => sum + ch.estimatedTokens, 0);
+    const outline = task.documentOutline as DocumentOutline;
+
+    // 页码范围限制在文档页数内（没有真实分页的大纲不能按页选择）
+    const selectedPages = parsedInput.selectedPages?.length
+      ? normalizePageRanges(
+          parsedInput.selectedPages,
+          outline.pages?.length ?? 0
+        )
+      : null;
+    if (selectedPages?.length === 0) {
+      throw new Error("The selected pages are not available for this document");
+    }
+
+    // 计算选定章节（有小节的章节按小节选择）或选定页的 token 数
+    const selectedTokens = calculateSelectedTokens(
+      outline,
+      selectedChapters,
+      selectedPages
+    );
+    const selectionLabel = selectedPages
+      ? formatPageRangeTitle(selectedPages).toLowerCase()
+      : `${selectedChapters.length} chapters`;
 
     // 计算生成费（Phase B: 按选中章节 Input Tokens 计算）
     const creditsCost = calculateCreationCost(selectedTokens);
 
-    // 检查用户积分余额
-    const balance = await db.query.creditsBalance.findFirst({
-      where: eq(creditsBalance.userId, userId),
+    // 生成选项：优先使用本次传入的，否则沿用 Phase A 保存的
+    const options = parsedInput.options
+      ? parsedInput.options
+      : resolveGenerationOptions(task.generationOptions);
+
+    // 锁定任务（仅 outline_ready 可进入生成），防止重复提交重复生成
+    const claimed = await db
+      .update(generationTask)
+      .set({
+        status: "generating",
+        selectedChapters,
+        selectedPages,
+        creditsCost,
+        generationOptions: options,
+      })
+      .where(
+        and(
+          eq(generationTask.id, taskId),
+          eq(generationTask.status, "outline_ready")
+        )
+      )
+      .returning({ id: generationTask.id });
+
+    if (claimed.length === 0) {
+      throw new Error("Generation has already started for this task");
+    }
+
+    // 预扣生成费（任务失败或无产出时由 Inngest 退回）
+    const reference = taskCreditsReference(taskId, "generation");
+    try {
+      await reserveTaskCredits({
+        userId,
+        amount: creditsCost,
+        serviceName: TASK_CREDITS_SERVICE.generation,
+        reference,
+        description: `Flashcard generation from file (${selectionLabel})`,
+        metadata: { taskId, selectedChapters, selectedPages },
+      });
+
+      // 触发 Inngest 生成任务
+      await inngest.send({
+        name: "flashcard/generate-from-outline",
+        data: {
+          taskId,
+          userId,
+          selectedChapters,
+          ...(selectedPages && { selectedPages }),
+          creditsCost,
+          options,
+          userPlan: "free", // TODO: 从用户订阅信息获取
+        },
+      });
+    } catch (error) {
+      // 恢复任务状态，用户可重新选择章节
+      await releaseCredits(reference, "Failed to start generation task");
+      await db
+        .update(generationTask)
+        .set({ status: "outline_ready" })
+        .where(eq(generationTask.id, taskId));
+      throw error;
+    }
+
+    revalidatePath("/dashboard");
+
+    return {
+      success: true,
+      taskId,
+      creditsCost,
+      selectedTokens,
+      message: `Generating flashcards from ${selectionLabel}...`,
+    };
+  });
+
+/**
+ * 追加生成 Schema
+ */
+const generateMoreFromOutlineSchema = z.object({
+  /** 原分析任务 ID（已完成且保留了文档全文和大纲） */
+  taskId: z.string().min(1),
+  /** 要追加的章节索引数组（已生成的章节会被跳过） */
+  selectedChapters: z.array(z.number().int().nonnegative()).min(1),
+  /** 生成选项（不传则沿用原任务的选项） */
+  options: generationOptionsSchema.optional(),
+});
+
+/**
+ * 从已分析的文档追加生成闪卡到原牌组
+ *
+ * 复用原任务缓存的文档全文和大纲，不再收取索引费；
+ * 为每次追加创建子任务（独立的进度、计费和用量记录），
+ * 生成的卡片追加到原牌组，已生成的章节和与牌组重复的卡片被跳过
+ *
+ * 流程：锁定原任务 → 计算未生成的章节 → 创建子任务 → 预扣生成费 → 触发生成
+ */
+export const generateMoreFromOutlineAction = protectedAction
+  .schema(generateMoreFromOutlineSchema)
+  .action(async ({ parsedInput, ctx }) => {
+    const userId = ctx.user.id;
+    const childTaskId = nanoid();
+
+    const { chapters, creditsCost, selectedTokens, options } =
+      await db.transaction(async (tx) => {
+        // 锁定原任务，避免并发提交重复生成同一章节
+        const [task] = await tx
+          .select({
+            id: generationTask.id,
+            userId: generationTask.userId,
+            status: generationTask.status,
+            deckId: generationTask.deckId,
+            parentTaskId: generationTask.parentTaskId,
+            sourceUrl: generationTask.sourceUrl,
+            sourceFilename: generationTask.sourceFilename,
+            documentOutline: generationTask.documentOutline,
+            selectedChapters: generationTask.selectedChapters,
+            selectedPages: generationTask.selectedPages,
+            generationOptions: generationTask.generationOptions,
+            hasDocumentText: sql<boolean>`${generationTask.documentText} is not null`,
+          })
+          .from(generationTask)
+          .where(eq(generationTask.id, parsedInput.taskId))
+          .for("update");
+
+        if (!task) {
+          throw new Error("Task not found");
+        }
+
+        if (task.userId !== userId) {
+          throw new Error("Unauthorized");
+        }
+
+        if (task.parentTaskId) {
+          throw new Error("Add chapters from the original document task");
+        }
+
+        if (task.status !== "completed") {
+          throw new Error(
+            `Invalid task status: ${task.status}. Expected: completed`
+          );
+        }
+
+        if (!task.documentOutline || !task.hasDocumentText) {
+          throw new Error("This task has no cached document to generate from");
+        }
+
+        // 目标牌组（被删除后无法追加）
+        const targetDeck = task.deckId
+          ? await tx.query.deck.findFirst({
+              where: and(eq(deck.id, task.deckId), eq(deck.userId, userId)),
+              columns: { id: true },
+            })
+          : undefined;
+
+        if (!targetDeck) {
+          throw new Error("The deck for this document no longer exists");
+        }
+
+        // 已生成（或正在生成）的章节：原任务（按页生成时为所选页覆盖的章节）和未失败的追加任务
+        const children = await tx
+          .select({ selectedChapters: generationTask.selectedChapters })
+          .from(generationTask)
+          .where(
+            and(
+              eq(generationTask.parentTaskId, task.id),
+              ne(generationTask.status, "failed")
+            )
+          );
+        const generated = new Set([
+          ...getTaskChapters(task),
+          ...children.flatMap((child) => child.selectedChapters ?? []),
+        ]);
+
+        const newChapters = getSelectableChapters(
+          task.documentOutline as DocumentOutline
+        ).filter(
+          (ch) =>
+            parsedInput.selectedChapters.includes(ch.index) &&
+            !generated.has(ch.index)
+        );
+
+        if (newChapters.length === 0) {
+          throw new Error(
+            "All selected chapters have already been generated for this deck"
+          );
+        }
+
+        const selectedTokens = newChapters.reduce(
+          (sum, ch) => sum + ch.estimatedTokens,
+          0
+        );
+        const creditsCost = calculateCreationCost(selectedTokens);
+        const options = parsedInput.options
+          ? parsedInput.options
+          : resolveGenerationOptions(task.generationOptions);
+        const chapters = newChapters.map((ch) => ch.index);
+
+        // 子任务直接进入 generating（文档全文从原任务读取，不复制）
+        await tx.insert(generationTask).values({
+          id: childTaskId,
+          userId,
+          deckId: targetDeck.id,
+          parentTaskId: task.id,
+          status: "generating",
+          sourceType: "file",
+          sourceUrl: task.sourceUrl,
+          sourceFilename: task.sourceFilename,
+          documentOutline: task.documentOutline,
+          selectedChapters: chapters,
+          creditsCost,
+          generationOptions: options,
+        });
+
+        return { chapters, creditsCost, selectedTokens, options };
+      });
+
+    // 预扣生成费（任务失败或无产出时由 Inngest 退回）
+    const reference = taskCreditsReference(childTaskId, "generation");
+    try {
+      await reserveTaskCredits({
+        userId,
+        amount: creditsCost,
+        serviceName: TASK_CREDITS_SERVICE.generation,
+        reference,
+        description: `Flashcard generation from file (${chapters.length} more chapters)`,
+        metadata: { taskId: childTaskId, selectedChapters: chapters },
+      });
+
+      await inngest.send({
+        name: "flashcard/generate-from-outline",
+        data: {
+          taskId: childTaskId,
+          userId,
+          selectedChapters: chapters,
+          creditsCost,
+          options,
+          userPlan: "free", // TODO: 从用户订阅信息获取
+        },
+      });
+    } catch (error) {
+      // 子任务标记失败，其章节可重新选择
+      await releaseCredits(reference, "Failed to start generation task");
+      await db
+        .update(generationTask)
+        .set({
+          status: "failed",
+          errorMessage:
+            error instanceof Error ? error.message : "Failed to start",
+          completedAt: new Date(),
+        })
+        .where(eq(generationTask.id, childTaskId));
+      throw error;
+    }
+
+    revalidatePath("/dashboard");
+
+    return {
+      success: true,
+      taskId: childTaskId,
+      creditsCost,
+      selectedTokens,
+      selectedChapters: chapters,
+      message: `Generating flashcards from ${chapters.length} more chapters...`,
+    };
+  });
+
+/**
+ * 重新生成失败的分块
+ *
+ * 生成费已按选定章节确认，重新生成不再扣费；
+ * 只重新生成重试耗尽仍失败的分块，卡片追加到任务的牌组
+ *
+ * 流程：验证任务 → 锁定任务（completed → generating）→ 触发生成
+ */
+export const retryFailedChunksAction = protectedAction
+  .schema(z.object({ taskId: z.string().min(1) }))
+  .action(async ({ parsedInput, ctx }) => {
+    const { taskId } = parsedInput;
+    const userId = ctx.user.id;
+
+    const task = await db.query.generationTask.findFirst({
+      where: eq(generationTask.id, taskId),
+      columns: {
+        userId: true,
+        status: true,
+        deckId: true,
+        selectedChapters: true,
+        selectedPages: true,
+        creditsCost: true,
+        failedChunks: true,
+      },
     });
 
-    if (!balance || balance.balance < creditsCost) {
+    if (!task) {
+      throw new Error("Task not found");
+    }
+
+    if (task.userId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    if (task.status !== "completed" || !task.deckId) {
       throw new Error(
-        `Insufficient credits. Required: ${creditsCost}, Available: ${balance?.balance ?? 0}`
+        `Invalid task status: ${task.status}. Expected: completed`
       );
     }
 
-    // 更新任务的积分消耗
-    await db
+    if (
+      task.failedChunks === 0 ||
+      !(task.selectedChapters?.length || task.selectedPages?.length)
+    ) {
+      throw new Error("This task has no failed chunks to retry");
+    }
+
+    // 锁定任务，防止重复提交
+    const claimed = await db
       .update(generationTask)
-      .set({ creditsCost })
-      .where(eq(generationTask.id, taskId));
+      .set({ status: "generating", errorMessage: null })
+      .where(
+        and(
+          eq(generationTask.id, taskId),
+          eq(generationTask.status, "completed")
+        )
+      )
+      .returning({ id: generationTask.id });
+
+    if (claimed.length === 0) {
+      throw new Error("This task is already being regenerated");
+    }
 
-    // 触发 Inngest 生成任务
-    await inngest.send({
-      name: "flashcard/generate-from-outline",
-      data: {
-        taskId,
-        userId,
-        selectedChapters,
-        creditsCost,
-        userPlan: "free", // TODO: 从用户订阅信息获取
-      },
-    });
+    try {
+      await inngest.send({
+        name: "flashcard/generate-from-outline",
+        data: {
+          taskId,
+          userId,
+          selectedChapters: task.selectedChapters ?? [],
+          ...(task.selectedPages && { selectedPages: task.selectedPages }),
+          creditsCost: task.creditsCost,
+          retryFailedChunks: true,
+          userPlan: "free", // TODO: 从用户订阅信息获取
+        },
+      });
+    } catch (error) {
+      await db
+        .update(generationTask)
+        .set({ status: "completed" })
+        .where(eq(generationTask.id, taskId));
+      throw error;
+    }
 
     revalidatePath("/dashboard");
 
     return {
       success: true,
       taskId,
-      creditsCost,
-      selectedTokens,
-      message: `Generating flashcards from ${selectedChapters.length} chapters...`,
+      message: `Retrying ${task.failedChunks} failed chunk${task.failedChunks === 1 ? "" : "s"}...`,
     };
   });
@@ -5,6 +5,9 @@ import { db } from "@/db";
 import { deck, generationTask } from "@/db/schema";
 import type { DocumentOutline } from "@/lib/ai/outline";
 import { protectedAction } from "@/lib/safe-action";
+import { getGeneratedChapters } from "../chapters";
+import type { TaskUsageSummary } from "../types";
+import { getTaskUsageSummaries } from "../usage";
 
 /**
  * 任务状态类型（含大文件优化新状态）
@@ -39,10 +42,22 @@ export interface TaskListItem {
   documentOutline: DocumentOutline | null;
   totalChunks: number | null;
   completedChunks: number | null;
+  /** 重试耗尽仍失败的分块数（可重新生成） */
+  failedChunks: number;
+  /** 追加生成时的原分析任务 ID */
+  parentTaskId: string | null;
+  /**
+   * 已生成（或正在生成）的章节索引（含追加生成的子任务）
+   *
+   * 仅缓存了文档全文的原分析任务有值，可继续追加其余章节
+   */
+  generatedChapters: number[] | null;
   deck: {
     id: string;
     title: string;
   } | null;
+  /** LLM 用量（无记录时为 null） */
+  usage: TaskUsageSummary | null;
 }
 
 /**
@@ -74,6 +89,14 @@ export const getUserTasksAction = protectedAction.action(
 
     const deckMap = new Map(decks.map((d) => [d.id, d]));
 
+    // 获取各任务的 LLM 用量
+    const usageMap = await getTaskUsageSummaries(tasks.map((t) => t.id));
+
+    // 可追加生成的原分析任务已生成的章节
+    const generatedMap = await getGeneratedChapters(
+      tasks.filter((t) => !t.parentTaskId && t.documentText).map((t) => t.id)
+    );
+
     // 组装返回数据
     return tasks.map((task) => ({
       id: task.id,
@@ -90,12 +113,19 @@ export const getUserTasksAction = protectedAction.action(
       documentOutline: task.documentOutline as DocumentOutline | null,
       totalChunks: task.totalChunks,
       completedChunks: task.completedChunks,
+      failedChunks: task.failedChunks,
+      parentTaskId: task.parentTaskId,
+      generatedChapters:
+        !task.parentTaskId && task.documentText
+          ? (generatedMap.get(task.id) ?? [])
+          : null,
       deck: task.deckId
         ? {
             id: task.deckId,
             title: deckMap.get(task.deckId)?.title ?? "Untitled Deck",
           }
         : null,
+      usage: usageMap.get(task.id) ?? null,
     }));
   }
 );
@@ -0,0 +1,83 @@
+/**
+ * 文档任务的章节生成记录
+ *
+ * 已分析的文档可多次追加生成：原任务和每个追加子任务各自记录选定的章节，
+ * 汇总后用于在章节选择中标出已生成的章节（原任务按页码范围生成时换算为所覆盖的章节）
+ */
+
+import { and, inArray, ne, or } from "drizzle-orm";
+import { db } from "@/db";
+import { generationTask } from "@/db/schema";
+import {
+  type DocumentOutline,
+  getChaptersInPages,
+  type PageRange,
+} from "@/lib/ai/outline-structure";
+
+/**
+ * 单个任务已生成的章节
+ *
+ * 按章节生成的任务为选定的章节；按页码范围生成的任务为所选页覆盖的章节
+ */
+export function getTaskChapters(task: {
+  selectedChapters: number[] | null;
+  selectedPages: PageRange[] | null;
+  documentOutline: unknown;
+}): number[] {
+  if (task.selectedPages?.length && task.documentOutline) {
+    return getChaptersInPages(
+      task.documentOutline as DocumentOutline,
+      task.selectedPages
+    );
+  }
+  return task.selectedChapters ?? [];
+}
+
+/**
+ * 批量获取原分析任务已生成（或正在生成）的章节
+ *
+ * 包含原任务和未失败的追加子任务（失败子任务的章节可重新选择）
+ *
+ * @param taskIds - 原分析任务 ID
+ * @returns 任务 ID → 章节索引（升序，无记录的任务不包含）
+ */
+export async function getGeneratedChapters(
+  taskIds: string[]
+): Promise<Map<string, number[]>> {
+  if (taskIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({
+      id: generationTask.id,
+      parentTaskId: generationTask.parentTaskId,
+      selectedChapters: generationTask.selectedChapters,
+      selectedPages: generationTask.selectedPages,
+      documentOutline: generationTask.documentOutline,
+    })
+    .from(generationTask)
+    .where(
+      and(
+        or(
+          inArray(generationTask.id, taskIds),
+          inArray(generationTask.parentTaskId, taskIds)
+        ),
+        ne(generationTask.status, "failed")
+      )
+    );
+
+  const chapters = new Map<string, Set<number>>();
+  for (const row of rows) {
+    const rootId = row.parentTaskId ?? row.id;
+    const set = chapters.get(rootId) ?? new Set<number>();
+    for (const index of getTaskChapters(row)) {
+      set.add(index);
+    }
+    chapters.set(rootId, set);
+  }
+
+  return new Map(
+    [...chapters].map(([id, set]) => [id, [...set].sort((a, b) => a - b)])
+  );
+}
@@ -4,15 +4,26 @@ import { File, Loader2, Upload, X } from "lucide-react";
 import { useCallback, useRef, useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import {
+  DOCUMENT_EXTENSIONS,
+  getFileTypeLabel,
+  resolveUploadContentType,
+} from "@/lib/parsers/file-types";
 import { cn } from "@/lib/utils";
 
 interface FileUploadProps {
   onUploadComplete: (fileUrl: string, filename: string, fileKey: string) => void;
   onRemove: () => void;
   disabled?: boolean;
+  /** 允许的扩展名（默认为可生成闪卡的文档类型） */
+  allowedExtensions?: string[] | undefined;
+  /** 文件大小上限（字节） */
+  maxFileSize?: number | undefined;
+  /** 上传区域的格式说明 */
+  hint?: string | undefined;
 }
 
-const ALLOWED_EXTENSIONS = [".pdf", ".docx", ".doc", ".md", ".txt"];
+const ALLOWED_EXTENSIONS = DOCUMENT_EXTENSIONS;
 const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
 
 function getFileExtension(filename: string): string {
@@ -26,17 +37,12 @@ function formatFileSize(bytes: number): string {
 }
 
 function getFileTypeBadge(filename: string): string {
-  const ext = getFileExtension(filename);
-  switch (ext) {
-    case ".pdf":
-      return "PDF";
-    case ".docx":
-    case ".doc":
-      return "Word";
-    case ".md":
-      return "Markdown";
-    case ".txt":
-      return "Text";
+  const label = getFileTypeLabel(filename);
+  if (label) return label;
+  switch (getFileExtension(filename)) {
+    case ".apkg":
+    case ".colpkg":
+      return "Anki";
     default:
       return "File";
   }
@@ -46,6 +52,9 @@ export function FileUpload({
   onUploadComplete,
   onRemove,
   disabled = false,
+  allowedExtensions = ALLOWED_EXTENSIONS,
+  maxFileSize = MAX_FILE_SIZE,
+  hint = "PDF, Word, PowerPoint, EPUB, HTML, Markdown, Text, or subtitles (max 10MB)",
 }: FileUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -55,16 +64,19 @@ export function FileUpload({
   const [uploadedUrl, setUploadedUrl] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const validateFile = useCallback((file: File): string | null => {
-    const ext = getFileExtension(file.name);
-    if (!ALLOWED_EXTENSIONS.includes(ext)) {
-      return `Invalid file type. Allowed: ${ALLOWED_EXTENSIONS.join(", ")}`;
-    }
-    if (file.size > MAX_FILE_SIZE) {
-      return `File too large. Maximum size: ${formatFileSize(MAX_FILE_SIZE)}`;
-    }
-    return null;
-  }, []);
+  const validateFile = useCallback(
+    (file: File): string | null => {
+      const ext = getFileExtension(file.name);
+      if (!allowedExtensions.includes(ext)) {
+        return `Invalid file type. Allowed: ${allowedExtensions.join(", ")}`;
+      }
+      if (file.size > maxFileSize) {
+        return `File too large. Maximum size: ${formatFileSize(maxFileSize)}`;
+      }
+      return null;
+    },
+    [allowedExtensions, maxFileSize]
+  );
 
   const uploadFile = useCallback(
     async (file: File) => {
@@ -73,13 +85,16 @@ export function FileUpload({
       setError(null);
 
       try {
+        // The upload must use the same Content-Type as the presigned request
+        const contentType = resolveUploadContentType(file.name, file.type);
+
         // Get presigned URL
         const presignedResponse = await fetch("/api/upload/presigned", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             filename: file.name,
-            contentType: file.type || "application/octet-stream",
+            contentType,
             fileSize: file.size,
           }),
         });
@@ -115,10 +130,7 @@ export function FileUpload({
           });
 
           xhr.open("PUT", presignedUrl);
-          xhr.setRequestHeader(
-            "Content-Type",
-            file.type || "application/octet-stream"
-          );
+          xhr.setRequestHeader("Content-Type", contentType);
           xhr.send(file);
         });
 
@@ -292,7 +304,7 @@ export function FileUpload({
         <input
           ref={inputRef}
           type="file"
-          accept={ALLOWED_EXTENSIONS.join(",")}
+          accept={allowedExtensions.join(",")}
           onChange={handleInputChange}
           disabled={disabled}
           className="sr-only"
@@ -308,9 +320,7 @@ export function FileUpload({
               ? "Drop file here"
               : "Drag and drop a file, or click to select"}
           </p>
-          <p className="mt-1 text-xs text-muted-foreground">
-            PDF, Word, Markdown, or Text (max 10MB)
-          </p>
+          <p className="mt-1 text-xs text-muted-foreground">{hint}</p>
         </div>
       </div>
 
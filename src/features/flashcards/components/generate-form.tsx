@@ -1,11 +1,13 @@
 "use client";
 
-import { FileText, Sparkles, Upload } from "lucide-react";
+import { FileText, Sparkles, Upload, Video } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useAction } from "next-safe-action/hooks";
 import { useCallback, useMemo, useState } from "react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import {
@@ -19,15 +21,23 @@ import {
   generateFromOutlineAction,
 } from "@/features/flashcards/actions/generate";
 import { useTaskStatus } from "@/features/flashcards/hooks/use-task-status";
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  type GenerationOptions,
+} from "@/lib/ai/generation-options";
+import type { PageRange } from "@/lib/ai/outline-structure";
+import { CAPTION_EXTENSIONS } from "@/lib/transcripts/captions";
+import { parseYouTubeVideoId } from "@/lib/transcripts/video-url";
 import { cn } from "@/lib/utils";
 import { FileUpload } from "./file-upload";
+import { GenerationOptionsPanel } from "./generation-options-panel";
 import { OutlineSelector } from "./outline-selector";
 import { TaskStatusDisplay } from "./task-status";
 
 const MAX_TEXT_LENGTH = MAX_TEXT_CHARACTERS;
 const MIN_TEXT_LENGTH = 10;
 
-type InputMode = "text" | "file";
+type InputMode = "text" | "file" | "video";
 type FileFlowPhase = "upload" | "analyzing" | "select" | "generating";
 
 interface UploadedFile {
@@ -41,10 +51,18 @@ export function GenerateForm() {
   const [activeTab, setActiveTab] = useState<InputMode>("text");
   const [textContent, setTextContent] = useState("");
   const [uploadedFile, setUploadedFile] = useState<UploadedFile | null>(null);
+  const [options, setOptions] = useState<GenerationOptions>(
+    DEFAULT_GENERATION_OPTIONS
+  );
 
   // Text flow state
   const [textTaskId, setTextTaskId] = useState<string | null>(null);
 
+  // Video flow state
+  const [videoUrl, setVideoUrl] = useState("");
+  const [captionFile, setCaptionFile] = useState<UploadedFile | null>(null);
+  const [videoTaskId, setVideoTaskId] = useState<string | null>(null);
+
   // File flow state (two-phase)
   const [fileFlowPhase, setFileFlowPhase] = useState<FileFlowPhase>("upload");
   const [fileTaskId, setFileTaskId] = useState<string | null>(null);
@@ -71,6 +89,20 @@ export function GenerateForm() {
     }
   );
 
+  // Video generation action
+  const { execute: executeVideoGenerate, isPending: isVideoPending } =
+    useAction(generateFlashcardsAction, {
+      onSuccess: ({ data }) => {
+        if (data?.success && data.taskId) {
+          setVideoTaskId(data.taskId);
+          toast.success("Generation started!");
+        }
+      },
+      onError: ({ error }) => {
+        handleActionError(error);
+      },
+    });
+
   // Phase A: Analyze document
   const { execute: executeAnalyze, isPending: isAnalyzing } = useAction(
     analyzeDocumentAction,
@@ -146,8 +178,27 @@ export function GenerateForm() {
     executeTextGenerate({
       sourceType: "text",
       content: textContent,
+      options,
+    });
+  }, [textContent, options, executeTextGenerate]);
+
+  // Video flow handlers
+  const handleVideoSubmit = useCallback(() => {
+    const url = videoUrl.trim();
+    executeVideoGenerate({
+      sourceType: "video",
+      ...(url && { url }),
+      ...(captionFile && {
+        filename: captionFile.filename,
+        fileKey: captionFile.fileKey,
+      }),
+      options,
     });
-  }, [textContent, executeTextGenerate]);
+  }, [videoUrl, captionFile, options, executeVideoGenerate]);
+
+  const handleVideoRetry = useCallback(() => {
+    setVideoTaskId(null);
+  }, []);
 
   // File flow handlers
   const handleFileAnalyze = useCallback(() => {
@@ -159,18 +210,21 @@ export function GenerateForm() {
       sourceUrl: uploadedFile.url,
       sourceFilename: uploadedFile.filename,
       fileKey: uploadedFile.fileKey,
+      options,
     });
-  }, [uploadedFile, executeAnalyze]);
+  }, [uploadedFile, options, executeAnalyze]);
 
   const handleSelectChapters = useCallback(
-    (selectedChapters: number[]) => {
+    (selectedChapters: number[], selectedPages?: PageRange[]) => {
       if (!fileTaskId) return;
       executeFromOutline({
         taskId: fileTaskId,
         selectedChapters,
+        ...(selectedPages && { selectedPages }),
+        options,
       });
     },
-    [fileTaskId, executeFromOutline]
+    [fileTaskId, options, executeFromOutline]
   );
 
   const handleUploadComplete = useCallback(
@@ -216,6 +270,20 @@ export function GenerateForm() {
   const canSubmitText = !isTextPending && !textTaskId && isTextValid;
   const canSubmitFile =
     !isAnalyzing && fileFlowPhase === "upload" && isFileValid;
+  // YouTube 链接可自动获取字幕，其他视频需上传字幕文件
+  const isVideoUrlValid = (() => {
+    if (!videoUrl.trim()) return true;
+    try {
+      new URL(videoUrl.trim());
+      return true;
+    } catch {
+      return false;
+    }
+  })();
+  const isVideoValid =
+    isVideoUrlValid &&
+    (captionFile !== null || parseYouTubeVideoId(videoUrl.trim()) !== null);
+  const canSubmitVideo = !isVideoPending && !videoTaskId && isVideoValid;
 
   // Real-time token & credit estimation for text input
   const textEstimate = useMemo(() => {
@@ -256,6 +324,24 @@ export function GenerateForm() {
     );
   }
 
+  // VIDEO FLOW: Show task status if we have a taskId
+  if (activeTab === "video" && videoTaskId) {
+    return (
+      <div className="rounded-xl border bg-card p-8">
+        <TaskStatusDisplay
+          taskId={videoTaskId}
+          onComplete={handleComplete}
+          onRetry={handleVideoRetry}
+        />
+        <div className="mt-6 flex justify-center">
+          <Button variant="outline" size="lg" onClick={handleVideoRetry}>
+            Generate Another
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   // FILE FLOW: Show appropriate phase UI
   if (activeTab === "file" && fileFlowPhase !== "upload") {
     // Phase: Analyzing or Generating - show task status
@@ -321,6 +407,10 @@ export function GenerateForm() {
               <Upload className="size-4" />
               File Upload
             </TabsTrigger>
+            <TabsTrigger value="video" className="gap-2 px-6 py-2.5 text-sm">
+              <Video className="size-4" />
+              Video
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -362,6 +452,13 @@ For example:
                 )}
               </div>
 
+              <GenerationOptionsPanel
+                value={options}
+                onChange={setOptions}
+                disabled={isTextPending}
+                estimatedTokens={textEstimate.tokens}
+              />
+
               {/* Submit Button */}
               <div className="mt-4">
                 <Button
@@ -388,18 +485,24 @@ For example:
               <div className="rounded-lg border border-dashed bg-muted/20 p-4">
                 <h4 className="text-sm font-medium">How it works</h4>
                 <ol className="mt-2 space-y-1 text-sm text-muted-foreground">
-                  <li>1. Upload your file (PDF, Word, Markdown)</li>
+                  <li>1. Upload a PDF, Word, EPUB, slide deck, or more</li>
                   <li>2. We analyze and extract the document structure</li>
                   <li>3. Select which chapters to generate cards from</li>
                   <li>4. Get your flashcards!</li>
                 </ol>
                 <p className="mt-3 text-xs text-muted-foreground">
                   <strong>Pay-per-use pricing:</strong> Small indexing fee based
-                  on document size, then generation fee only for selected
-                  chapters.
+                  on document size (free when the document has bookmarks or
+                  headings), then generation fee only for selected chapters.
                 </p>
               </div>
 
+              <GenerationOptionsPanel
+                value={options}
+                onChange={setOptions}
+                disabled={isAnalyzing}
+              />
+
               {/* Submit Button */}
               <div className="mt-4">
                 <Button
@@ -414,6 +517,65 @@ For example:
               </div>
             </div>
           </TabsContent>
+
+          <TabsContent value="video" className="mt-0">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="video-url">Video link</Label>
+                <Input
+                  id="video-url"
+                  type="url"
+                  placeholder="https://www.youtube.com/watch?v=..."
+                  value={videoUrl}
+                  onChange={(e) => setVideoUrl(e.target.value)}
+                  disabled={isVideoPending}
+                />
+                {!isVideoUrlValid && (
+                  <p className="text-xs text-destructive">
+                    Enter a valid URL
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Caption file (optional for YouTube)</Label>
+                <FileUpload
+                  onUploadComplete={(url, filename, fileKey) =>
+                    setCaptionFile({ url, filename, fileKey })
+                  }
+                  onRemove={() => setCaptionFile(null)}
+                  disabled={isVideoPending}
+                  allowedExtensions={CAPTION_EXTENSIONS}
+                  hint="WebVTT or SRT captions (max 10MB)"
+                />
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                YouTube captions are fetched automatically. For other videos,
+                upload the caption file and add the video link so each card can
+                jump back to the moment it came from.
+              </p>
+
+              <GenerationOptionsPanel
+                value={options}
+                onChange={setOptions}
+                disabled={isVideoPending}
+              />
+
+              {/* Submit Button */}
+              <div className="mt-4">
+                <Button
+                  onClick={handleVideoSubmit}
+                  disabled={!canSubmitVideo}
+                  className="w-full gap-2"
+                  size="lg"
+                >
+                  <Sparkles className="size-5" />
+                  {isVideoPending ? "Starting..." : "Generate Flashcards"}
+                </Button>
+              </div>
+            </div>
+          </TabsContent>
         </div>
       </Tabs>
     </div>
@@ -0,0 +1,309 @@
+"use client";
+
+import { ChevronDown, SlidersHorizontal } from "lucide-react";
+import { useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  type CardCountMode,
+  type DifficultyLevel,
+  GENERATION_LIMITS,
+  type GenerationFocus,
+  type GenerationOptions,
+  OUTPUT_LANGUAGES,
+  resolveCardTarget,
+} from "@/lib/ai/generation-options";
+import { CARD_TYPE_LABELS, CARD_TYPES, type CardType } from "@/lib/cards";
+import { cn } from "@/lib/utils";
+
+interface GenerationOptionsPanelProps {
+  value: GenerationOptions;
+  onChange: (value: GenerationOptions) => void;
+  disabled?: boolean;
+  /** 源内容 tokens（已知时显示预计卡片数） */
+  estimatedTokens?: number | undefined;
+}
+
+const COUNT_MODE_LABELS: Record<CardCountMode, string> = {
+  auto: "Automatic",
+  count: "Fixed number",
+  density: "Per 1k tokens",
+};
+
+const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+};
+
+const FOCUS_LABELS: Record<GenerationFocus, string> = {
+  balanced: "Balanced",
+  definitions: "Definitions",
+  concepts: "Concepts",
+  facts: "Facts & figures",
+  applications: "Applications",
+};
+
+/**
+ * 生成选项面板
+ *
+ * 可折叠，默认收起；标题行显示当前选项摘要
+ */
+export function GenerationOptionsPanel({
+  value,
+  onChange,
+  disabled = false,
+  estimatedTokens,
+}: GenerationOptionsPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  const update = <K extends keyof GenerationOptions>(
+    key: K,
+    fieldValue: GenerationOptions[K]
+  ) => onChange({ ...value, [key]: fieldValue });
+
+  const toggleCardType = (type: CardType, checked: boolean) => {
+    const next = checked
+      ? [...value.cardTypes, type]
+      : value.cardTypes.filter((t) => t !== type);
+    // 至少保留一种类型
+    if (next.length > 0) {
+      update("cardTypes", next);
+    }
+  };
+
+  const target =
+    estimatedTokens && estimatedTokens > 0
+      ? resolveCardTarget(value, estimatedTokens)
+      : null;
+
+  const summary = [
+    value.countMode === "count"
+      ? `${value.cardCount} cards`
+      : value.countMode === "density"
+        ? `${value.density} cards / 1k tokens`
+        : "Auto count",
+    DIFFICULTY_LABELS[value.difficulty],
+    value.cardTypes.map((t) => CARD_TYPE_LABELS[t]).join(", "),
+  ].join(" · ");
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="rounded-lg border">
+        <CollapsibleTrigger asChild>
+          <button
+            type="button"
+            className="flex w-full items-center justify-between gap-4 p-4 text-left"
+          >
+            <div className="flex min-w-0 items-center gap-2">
+              <SlidersHorizontal className="size-4 shrink-0 text-muted-foreground" />
+              <span className="text-sm font-medium">Generation settings</span>
+              <span className="truncate text-xs text-muted-foreground">
+                {summary}
+              </span>
+            </div>
+            <ChevronDown
+              className={cn(
+                "size-4 shrink-0 text-muted-foreground transition-transform",
+                open && "rotate-180"
+              )}
+            />
+          </button>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent>
+          <div className="space-y-5 border-t p-4">
+            {/* Card count */}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="gen-count-mode">Number of cards</Label>
+                <Select
+                  value={value.countMode}
+                  onValueChange={(v) => update("countMode", v as CardCountMode)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="gen-count-mode" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(COUNT_MODE_LABELS) as CardCountMode[]).map(
+                      (mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {COUNT_MODE_LABELS[mode]}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {value.countMode === "count" && (
+                <div className="space-y-2">
+                  <Label htmlFor="gen-card-count">Target cards</Label>
+                  <Input
+                    id="gen-card-count"
+                    type="number"
+                    min={GENERATION_LIMITS.minCardCount}
+                    max={GENERATION_LIMITS.maxCardCount}
+                    value={value.cardCount}
+                    onChange={(e) =>
+                      update("cardCount", Math.round(Number(e.target.value)))
+                    }
+                    disabled={disabled}
+                  />
+                </div>
+              )}
+
+              {value.countMode === "density" && (
+                <div className="space-y-2">
+                  <Label htmlFor="gen-density">Cards per 1k tokens</Label>
+                  <Input
+                    id="gen-density"
+                    type="number"
+                    step={0.5}
+                    min={GENERATION_LIMITS.minDensity}
+                    max={GENERATION_LIMITS.maxDensity}
+                    value={value.density}
+                    onChange={(e) => update("density", Number(e.target.value))}
+                    disabled={disabled}
+                  />
+                </div>
+              )}
+            </div>
+            {target !== null && (
+              <p className="-mt-3 text-xs text-muted-foreground">
+                About {target} card{target === 1 ? "" : "s"} for this content.
+              </p>
+            )}
+
+            {/* Difficulty / focus / language */}
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="gen-difficulty">Difficulty</Label>
+                <Select
+                  value={value.difficulty}
+                  onValueChange={(v) =>
+                    update("difficulty", v as DifficultyLevel)
+                  }
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="gen-difficulty" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DIFFICULTY_LABELS) as DifficultyLevel[]).map(
+                      (level) => (
+                        <SelectItem key={level} value={level}>
+                          {DIFFICULTY_LABELS[level]}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="gen-focus">Focus</Label>
+                <Select
+                  value={value.focus}
+                  onValueChange={(v) => update("focus", v as GenerationFocus)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="gen-focus" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FOCUS_LABELS) as GenerationFocus[]).map(
+                      (focus) => (
+                        <SelectItem key={focus} value={focus}>
+                          {FOCUS_LABELS[focus]}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="gen-language">Language</Label>
+                <Select
+                  value={value.language}
+                  onValueChange={(v) => update("language", v)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="gen-language" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OUTPUT_LANGUAGES.map((language) => (
+                      <SelectItem key={language.value} value={language.value}>
+                        {language.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Card types */}
+            <div className="space-y-2">
+              <Label>Card types</Label>
+              <div className="flex flex-wrap gap-x-6 gap-y-2">
+                {CARD_TYPES.map((type) => (
+                  <label
+                    key={type}
+                    htmlFor={`gen-type-${type}`}
+                    className="flex cursor-pointer items-center gap-2 text-sm"
+                  >
+                    <Checkbox
+                      id={`gen-type-${type}`}
+                      checked={value.cardTypes.includes(type)}
+                      onCheckedChange={(checked) =>
+                        toggleCardType(type, checked === true)
+                      }
+                      disabled={disabled}
+                    />
+                    {CARD_TYPE_LABELS[type]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Custom instructions */}
+            <div className="space-y-2">
+              <Label htmlFor="gen-instructions">Custom instructions</Label>
+              <Textarea
+                id="gen-instructions"
+                placeholder="e.g. Include the formula in every answer about equations."
+                value={value.customInstructions}
+                onChange={(e) => update("customInstructions", e.target.value)}
+                maxLength={GENERATION_LIMITS.maxCustomInstructions}
+                disabled={disabled}
+                rows={3}
+                className="resize-none"
+              />
+              <p className="text-right text-xs text-muted-foreground">
+                {value.customInstructions.length} /{" "}
+                {GENERATION_LIMITS.maxCustomInstructions}
+              </p>
+            </div>
+          </div>
+        </CollapsibleContent>
+      </div>
+    </Collapsible>
+  );
+}
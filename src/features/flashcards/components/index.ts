@@ -2,6 +2,7 @@
 export { ActiveTaskBadge } from "./active-task-badge";
 export { FileUpload } from "./file-upload";
 export { GenerateForm } from "./generate-form";
+export { GenerationOptionsPanel } from "./generation-options-panel";
 export { OutlineSelector } from "./outline-selector";
 export { TaskCard } from "./task-card";
 export { TaskStatusDisplay } from "./task-status";
@@ -11,13 +11,19 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { generateFromOutlineAction } from "../actions/generate";
+import type { PageRange } from "@/lib/ai/outline-structure";
+import {
+  generateFromOutlineAction,
+  generateMoreFromOutlineAction,
+} from "../actions/generate";
 import { OutlineSelector } from "./outline-selector";
 import type { TaskListItem } from "../actions/tasks";
 
 interface OutlineDialogProps {
   task: TaskListItem;
   children: React.ReactNode;
+  /** 追加生成：已完成的任务继续选择其余章节，卡片追加到原牌组 */
+  append?: boolean;
 }
 
 /**
@@ -25,26 +31,39 @@ interface OutlineDialogProps {
  *
  * 包装 OutlineSelector 在 Dialog 中，处理：
  * - Dialog 打开/关闭状态
- * - 调用 generateFromOutlineAction
+ * - 调用 generateFromOutlineAction（追加生成时调用 generateMoreFromOutlineAction）
  * - 成功后关闭 Dialog 并刷新页面
  * - 错误处理和 Toast 提示
  */
-export function OutlineDialog({ task, children }: OutlineDialogProps) {
+export function OutlineDialog({
+  task,
+  children,
+  append = false,
+}: OutlineDialogProps) {
   const [open, setOpen] = useState(false);
   const [isPending, startTransition] = useTransition();
   const router = useRouter();
 
-  const handleGenerate = async (selectedChapters: number[]) => {
+  const handleGenerate = async (
+    selectedChapters: number[],
+    selectedPages?: PageRange[]
+  ) => {
     startTransition(async () => {
       try {
-        const result = await generateFromOutlineAction({
-          taskId: task.id,
-          selectedChapters,
-        });
+        const result = append
+          ? await generateMoreFromOutlineAction({
+              taskId: task.id,
+              selectedChapters,
+            })
+          : await generateFromOutlineAction({
+              taskId: task.id,
+              selectedChapters,
+              ...(selectedPages && { selectedPages }),
+            });
 
         if (result?.data?.success) {
           toast.success("Generation started!", {
-            description: `Generating flashcards from ${selectedChapters.length} chapters...`,
+            description: result.data.message,
           });
           setOpen(false);
           router.refresh();
@@ -76,10 +95,13 @@ export function OutlineDialog({ task, children }: OutlineDialogProps) {
       <DialogTrigger asChild>{children}</DialogTrigger>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
         <DialogHeader>
-          <DialogTitle>Select Chapters</DialogTitle>
+          <DialogTitle>
+            {append ? "Add Chapters" : "Select Chapters"}
+          </DialogTitle>
           <DialogDescription>
-            Choose which chapters to generate flashcards from. You can select
-            all or pick specific sections.
+            {append
+              ? "Pick more chapters to generate. New cards are added to your existing deck, skipping duplicates."
+              : "Choose which chapters to generate flashcards from. You can select all or pick specific sections."}
           </DialogDescription>
         </DialogHeader>
         <div className="flex-1 overflow-y-auto pr-2 -mr-2">
@@ -88,6 +110,9 @@ export function OutlineDialog({ task, children }: OutlineDialogProps) {
             filename={task.sourceFilename}
             onGenerate={handleGenerate}
             isGenerating={isPending}
+            {...(append && {
+              generatedChapters: task.generatedChapters ?? [],
+            })}
           />
         </div>
       </DialogContent>
@@ -4,29 +4,33 @@ import { BookOpen, Coins, FileText, Sparkles } from "lucide-react";
 import { useCallback, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { calculateCreationCost } from "@/config/pricing";
+import {
+  type ChapterInfo,
+  type DocumentOutline,
+  formatPageRanges,
+  getChapterUnits,
+  getSelectableChapters,
+  getSelectedPages,
+  type PageRange,
+  parsePageRanges,
+} from "@/lib/ai/outline-structure";
 import { cn } from "@/lib/utils";
 
-interface ChapterInfo {
-  index: number;
-  title: string;
-  summary: string;
-  startPage: number;
-  endPage: number;
-  estimatedTokens: number;
-}
-
-interface DocumentOutline {
-  totalPages: number;
-  totalTokens: number;
-  chapters: ChapterInfo[];
-}
+/** 选择方式：按章节或按页码范围（仅有真实分页的 PDF） */
+type SelectionMode = "chapters" | "pages";
 
 interface OutlineSelectorProps {
   outline: DocumentOutline;
   filename?: string | null;
-  onGenerate: (selectedChapters: number[]) => void;
+  /** 按页选择时 selectedChapters 为空 */
+  onGenerate: (selectedChapters: number[], selectedPages?: PageRange[]) => void;
   isGenerating?: boolean;
+  /** 已生成的章节（追加生成时不可再选） */
+  generatedChapters?: number[];
 }
 
 /**
@@ -46,21 +50,116 @@ function estimateCards(tokens: number): { min: number; max: number } {
   return { min: Math.max(1, min), max: Math.max(1, max) };
 }
 
+/**
+ * 章节或小节的一行
+ */
+function ChapterRow({
+  chapter,
+  checked,
+  disabled,
+  generated,
+  nested = false,
+  onToggle,
+}: {
+  chapter: ChapterInfo;
+  checked: boolean | "indeterminate";
+  disabled: boolean;
+  generated: boolean;
+  /** 小节（缩进显示） */
+  nested?: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <label
+      className={cn(
+        "flex items-start gap-3 rounded-md px-3 py-2.5 transition-colors",
+        nested && "ml-6 py-2",
+        disabled
+          ? "cursor-not-allowed opacity-60"
+          : checked
+            ? "cursor-pointer bg-primary/5 hover:bg-primary/10"
+            : "cursor-pointer hover:bg-muted/50"
+      )}
+    >
+      <Checkbox
+        checked={checked}
+        onCheckedChange={onToggle}
+        disabled={disabled}
+        className="mt-0.5"
+      />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <span
+            className={cn(
+              "text-sm leading-tight",
+              nested ? "font-normal" : "font-medium"
+            )}
+          >
+            {chapter.title}
+          </span>
+          {generated && (
+            <span className="text-[11px] text-muted-foreground">
+              Already generated
+            </span>
+          )}
+        </div>
+        {chapter.summary && (
+          <p className="mt-0.5 text-xs text-muted-foreground line-clamp-1">
+            {chapter.summary}
+          </p>
+        )}
+        <div className="mt-1 flex items-center gap-3 text-[11px] text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <FileText className="size-3" />
+            p.{chapter.startPage}-{chapter.endPage}
+          </span>
+          <span>{formatTokens(chapter.estimatedTokens)} tokens</span>
+        </div>
+      </div>
+    </label>
+  );
+}
+
 /**
  * 文档大纲章节选择器
  *
- * 显示 AI 生成的文档大纲，用户可选择要生成闪卡的章节
+ * 显示 AI 生成的文档大纲（章节 → 小节），用户可选择整章或单个小节生成闪卡；
+ * 有真实分页的 PDF 也可以输入任意页码范围
  * 底部显示选中的 token 总数、预估卡片数、积分消耗
+ * 追加生成时已生成的章节显示为已完成，不可选择（只能按章节选择）
  */
 export function OutlineSelector({
   outline,
   filename,
   onGenerate,
   isGenerating = false,
+  generatedChapters,
 }: OutlineSelectorProps) {
+  // 可选择的最小单元（有小节的章节按小节选择）
+  const units = useMemo(() => getSelectableChapters(outline), [outline]);
+  const hasSections = units.length > outline.chapters.length;
+  const unitLabel = hasSections ? "section" : "chapter";
+
+  const availableIndices = useMemo(() => {
+    const generated = new Set(generatedChapters ?? []);
+    return units.map((ch) => ch.index).filter((index) => !generated.has(index));
+  }, [units, generatedChapters]);
+
   const [selectedIndices, setSelectedIndices] = useState<Set<number>>(
-    () => new Set(outline.chapters.map((ch) => ch.index))
+    () => new Set(availableIndices)
+  );
+
+  // 按页选择
+  const totalPages = outline.pages?.length ?? 0;
+  const canSelectPages = totalPages > 0 && !generatedChapters;
+  const [mode, setMode] = useState<SelectionMode>("chapters");
+  const [pageInput, setPageInput] = useState(() => `1-${totalPages}`);
+  const selectedPages = useMemo(
+    () => parsePageRanges(pageInput, totalPages),
+    [pageInput, totalPages]
   );
+  const isPageMode = canSelectPages && mode === "pages";
+  const statsLabel = isPageMode ? "page" : unitLabel;
 
   const toggleChapter = useCallback((index: number) => {
     setSelectedIndices((prev) => {
@@ -74,19 +173,38 @@ export function OutlineSelector({
     });
   }, []);
 
+  // 整章选择：章节下可选的小节全部选中时取消，否则全选
+  const toggleChapterUnits = useCallback(
+    (chapter: ChapterInfo) => {
+      const indices = getChapterUnits(chapter)
+        .map((unit) => unit.index)
+        .filter((index) => availableIndices.includes(index));
+      setSelectedIndices((prev) => {
+        const next = new Set(prev);
+        const allChecked = indices.every((index) => next.has(index));
+        for (const index of indices) {
+          if (allChecked) next.delete(index);
+          else next.add(index);
+        }
+        return next;
+      });
+    },
+    [availableIndices]
+  );
+
   const toggleAll = useCallback(() => {
     setSelectedIndices((prev) => {
-      if (prev.size === outline.chapters.length) {
+      if (prev.size === availableIndices.length) {
         return new Set();
       }
-      return new Set(outline.chapters.map((ch) => ch.index));
+      return new Set(availableIndices);
     });
-  }, [outline.chapters]);
+  }, [availableIndices]);
 
   const stats = useMemo(() => {
-    const selectedChapters = outline.chapters.filter((ch) =>
-      selectedIndices.has(ch.index)
-    );
+    const selectedChapters = isPageMode
+      ? getSelectedPages(outline, selectedPages ?? [])
+      : units.filter((ch) => selectedIndices.has(ch.index));
     const totalTokens = selectedChapters.reduce(
       (sum, ch) => sum + ch.estimatedTokens,
       0
@@ -99,14 +217,20 @@ export function OutlineSelector({
       credits,
       cards,
     };
-  }, [outline.chapters, selectedIndices]);
+  }, [outline, units, selectedIndices, isPageMode, selectedPages]);
 
-  const allSelected = selectedIndices.size === outline.chapters.length;
+  const allSelected =
+    availableIndices.length > 0 &&
+    selectedIndices.size === availableIndices.length;
 
   const handleGenerate = useCallback(() => {
+    if (isPageMode) {
+      if (selectedPages) onGenerate([], selectedPages);
+      return;
+    }
     const selected = Array.from(selectedIndices).sort((a, b) => a - b);
     onGenerate(selected);
-  }, [selectedIndices, onGenerate]);
+  }, [isPageMode, selectedPages, selectedIndices, onGenerate]);
 
   return (
     <div className="space-y-4">
@@ -127,64 +251,124 @@ export function OutlineSelector({
         </div>
       </div>
 
-      {/* Select All */}
-      <div className="flex items-center justify-between rounded-lg border bg-muted/30 px-4 py-2.5">
-        <label
-          className="flex cursor-pointer items-center gap-2 text-sm font-medium"
-          htmlFor="select-all"
-        >
-          <Checkbox
-            id="select-all"
-            checked={allSelected}
-            onCheckedChange={toggleAll}
-          />
-          Select all ({outline.chapters.length} chapters)
-        </label>
-        <span className="text-xs text-muted-foreground">
-          {stats.selectedCount} selected
-        </span>
-      </div>
+      {canSelectPages && (
+        <Tabs value={mode} onValueChange={(v) => setMode(v as SelectionMode)}>
+          <TabsList>
+            <TabsTrigger value="chapters">By chapter</TabsTrigger>
+            <TabsTrigger value="pages">By page</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      )}
 
-      {/* Chapter List */}
-      <div className="max-h-[400px] space-y-1.5 overflow-y-auto rounded-lg border p-2">
-        {outline.chapters.map((chapter) => {
-          const isSelected = selectedIndices.has(chapter.index);
-          return (
+      {isPageMode ? (
+        <div className="space-y-2 rounded-lg border p-4">
+          <Label htmlFor="page-ranges">Pages</Label>
+          <Input
+            id="page-ranges"
+            value={pageInput}
+            onChange={(e) => setPageInput(e.target.value)}
+            placeholder={`e.g. 1-5, 8, 10-${totalPages}`}
+            aria-invalid={!selectedPages}
+            disabled={isGenerating}
+          />
+          <p
+            className={cn(
+              "text-xs",
+              selectedPages ? "text-muted-foreground" : "text-destructive"
+            )}
+          >
+            {selectedPages
+              ? `Selected pages ${formatPageRanges(selectedPages)} of ${totalPages}`
+              : `Enter pages or ranges between 1 and ${totalPages}, separated by commas`}
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Select All */}
+          <div className="flex items-center justify-between rounded-lg border bg-muted/30 px-4 py-2.5">
             <label
-              key={chapter.index}
-              className={cn(
-                "flex cursor-pointer items-start gap-3 rounded-md px-3 py-2.5 transition-colors",
-                isSelected
-                  ? "bg-primary/5 hover:bg-primary/10"
-                  : "hover:bg-muted/50"
-              )}
+              className="flex cursor-pointer items-center gap-2 text-sm font-medium"
+              htmlFor="select-all"
             >
               <Checkbox
-                checked={isSelected}
-                onCheckedChange={() => toggleChapter(chapter.index)}
-                className="mt-0.5"
+                id="select-all"
+                checked={allSelected}
+                onCheckedChange={toggleAll}
+                disabled={availableIndices.length === 0}
               />
-              <div className="min-w-0 flex-1">
-                <div className="flex items-center gap-2">
-                  <span className="text-sm font-medium leading-tight">
-                    {chapter.title}
-                  </span>
-                </div>
-                <p className="mt-0.5 text-xs text-muted-foreground line-clamp-1">
-                  {chapter.summary}
-                </p>
-                <div className="mt-1 flex items-center gap-3 text-[11px] text-muted-foreground">
-                  <span className="flex items-center gap-1">
-                    <FileText className="size-3" />
-                    p.{chapter.startPage}-{chapter.endPage}
-                  </span>
-                  <span>{formatTokens(chapter.estimatedTokens)} tokens</span>
-                </div>
-              </div>
+              Select all ({availableIndices.length} {unitLabel}s)
             </label>
-          );
-        })}
-      </div>
+            <span className="text-xs text-muted-foreground">
+              {stats.selectedCount} selected
+            </span>
+          </div>
+
+          {/* Chapter List */}
+          <div className="max-h-[400px] space-y-1.5 overflow-y-auto rounded-lg border p-2">
+            {outline.chapters.map((chapter) => {
+              const chapterUnits = getChapterUnits(chapter);
+              const isGenerated = (index: number) =>
+                !availableIndices.includes(index);
+
+              // 没有小节的章节本身就是最小单元
+              if (chapterUnits[0] === chapter) {
+                return (
+                  <ChapterRow
+                    key={chapter.index}
+                    chapter={chapter}
+                    checked={
+                      selectedIndices.has(chapter.index) ||
+                      isGenerated(chapter.index)
+                    }
+                    disabled={isGenerated(chapter.index)}
+                    generated={isGenerated(chapter.index)}
+                    onToggle={() => toggleChapter(chapter.index)}
+                  />
+                );
+              }
+
+              const checkedCount = chapterUnits.filter(
+                (unit) =>
+                  selectedIndices.has(unit.index) || isGenerated(unit.index)
+              ).length;
+              const allGenerated = chapterUnits.every((unit) =>
+                isGenerated(unit.index)
+              );
+              return (
+                <div key={chapter.index} className="space-y-0.5">
+                  <ChapterRow
+                    chapter={chapter}
+                    checked={
+                      checkedCount === chapterUnits.length
+                        ? true
+                        : checkedCount > 0
+                          ? "indeterminate"
+                          : false
+                    }
+                    disabled={allGenerated}
+                    generated={allGenerated}
+                    onToggle={() => toggleChapterUnits(chapter)}
+                  />
+                  {chapterUnits.map((section) => (
+                    <ChapterRow
+                      key={section.index}
+                      chapter={section}
+                      checked={
+                        selectedIndices.has(section.index) ||
+                        isGenerated(section.index)
+                      }
+                      disabled={isGenerated(section.index)}
+                      generated={isGenerated(section.index)}
+                      nested
+                      onToggle={() => toggleChapter(section.index)}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
 
       {/* Stats & Generate */}
       <div className="rounded-lg border bg-muted/30 p-4">
@@ -192,7 +376,10 @@ export function OutlineSelector({
           <div className="flex flex-wrap items-center gap-4 text-sm">
             <span>
               <span className="font-medium">{stats.selectedCount}</span>{" "}
-              <span className="text-muted-foreground">chapters</span>
+              <span className="text-muted-foreground">
+                {statsLabel}
+                {stats.selectedCount !== 1 ? "s" : ""}
+              </span>
             </span>
             <span>
               <span className="font-medium">
@@ -222,7 +409,7 @@ export function OutlineSelector({
           <Sparkles className="size-5" />
           {isGenerating
             ? "Starting Generation..."
-            : `Generate from ${stats.selectedCount} Chapter${stats.selectedCount !== 1 ? "s" : ""}`}
+            : `Generate from ${stats.selectedCount} ${isPageMode ? "Page" : hasSections ? "Section" : "Chapter"}${stats.selectedCount !== 1 ? "s" : ""}`}
         </Button>
       </div>
     </div>
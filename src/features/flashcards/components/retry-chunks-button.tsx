@@ -0,0 +1,64 @@
+"use client";
+
+import { Loader2, RotateCcw } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useTransition } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { retryFailedChunksAction } from "../actions/generate";
+import type { TaskListItem } from "../actions/tasks";
+
+interface RetryChunksButtonProps {
+  task: TaskListItem;
+}
+
+/**
+ * 重新生成失败分块按钮
+ *
+ * 调用 retryFailedChunksAction，成功后刷新页面显示生成进度
+ */
+export function RetryChunksButton({ task }: RetryChunksButtonProps) {
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  const handleRetry = () => {
+    startTransition(async () => {
+      try {
+        const result = await retryFailedChunksAction({ taskId: task.id });
+
+        if (result?.data?.success) {
+          toast.success("Retry started!", {
+            description: result.data.message,
+          });
+          router.refresh();
+        } else {
+          toast.error("Retry failed", {
+            description: result?.serverError || "Failed to start retry",
+          });
+        }
+      } catch (error) {
+        toast.error("Retry failed", {
+          description:
+            error instanceof Error ? error.message : "Unknown error occurred",
+        });
+      }
+    });
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="ghost"
+      className="gap-1.5"
+      onClick={handleRetry}
+      disabled={isPending}
+    >
+      {isPending ? (
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+      ) : (
+        <RotateCcw className="h-3.5 w-3.5" />
+      )}
+      Retry Failed Chunks
+    </Button>
+  );
+}
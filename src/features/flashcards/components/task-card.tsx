@@ -16,9 +16,16 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { getSelectableChapters } from "@/lib/ai/outline-structure";
 import { cn } from "@/lib/utils";
 import type { TaskListItem } from "../actions/tasks";
 import { OutlineDialog } from "./outline-dialog";
+import { RetryChunksButton } from "./retry-chunks-button";
 
 interface TaskCardProps {
   task: TaskListItem;
@@ -55,6 +62,67 @@ function getCreditsDisplay(task: TaskListItem): string {
   return formatCredits(creation);
 }
 
+/**
+ * 积分明细弹层
+ *
+ * 显示索引费、生成费和实际 LLM 用量（调用次数、输入/输出 tokens）
+ */
+function CreditsBreakdown({ task }: TaskCardProps) {
+  const indexing = task.indexingCost ?? 0;
+  const generationCharged =
+    indexing === 0 ||
+    (task.status !== "outline_ready" && task.status !== "analyzing");
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="text-xs text-muted-foreground underline-offset-2 hover:underline"
+        >
+          {getCreditsDisplay(task)} credits
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 space-y-2 text-xs">
+        <p className="font-medium text-sm">Cost breakdown</p>
+        {indexing > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Document indexing</span>
+            <span>{formatCredits(indexing)}</span>
+          </div>
+        )}
+        {generationCharged && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Card generation</span>
+            <span>{formatCredits(task.creditsCost ?? 0)}</span>
+          </div>
+        )}
+        {task.status === "failed" && (
+          <p className="text-muted-foreground">
+            Credits are refunded when a task fails.
+          </p>
+        )}
+        {task.usage && (
+          <div className="space-y-1 border-t pt-2">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">AI requests</span>
+              <span>{task.usage.calls}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Input tokens</span>
+              <span>{task.usage.promptTokens.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Output tokens</span>
+              <span>{task.usage.completionTokens.toLocaleString()}</span>
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 /**
  * 获取来源类型的图标和标签
  */
@@ -215,19 +283,31 @@ export function TaskCard({ task }: TaskCardProps) {
               {sourceInfo.label}
             </span>
 
-            {/* 积分消耗 */}
-            <span className="text-xs text-muted-foreground">
-              {getCreditsDisplay(task)} credits
-            </span>
+            {/* 积分消耗（点击查看明细） */}
+            <CreditsBreakdown task={task} />
           </div>
 
           {/* 卡片数量或错误信息 */}
           <div className="mt-1">
             {task.status === "completed" && (
               <p className="text-sm font-medium">
-                {task.cardCount} card{task.cardCount !== 1 ? "s" : ""} generated
+                {task.cardCount} card{task.cardCount !== 1 ? "s" : ""}{" "}
+                {task.parentTaskId ? "added to deck" : "generated"}
               </p>
             )}
+            {task.status === "completed" && task.failedChunks > 0 && (
+              <p className="text-sm text-amber-600 dark:text-amber-400">
+                {task.failedChunks} of {task.totalChunks ?? task.failedChunks}{" "}
+                chunks failed
+              </p>
+            )}
+            {task.status === "completed" &&
+              task.failedChunks === 0 &&
+              task.errorMessage && (
+                <p className="text-sm text-muted-foreground line-clamp-2">
+                  {task.errorMessage}
+                </p>
+              )}
             {task.status === "failed" && task.errorMessage && (
               <p className="text-sm text-red-600 dark:text-red-400 line-clamp-2">
                 {task.errorMessage}
@@ -281,7 +361,7 @@ export function TaskCard({ task }: TaskCardProps) {
         </div>
 
         {/* 操作按钮 */}
-        <div className="shrink-0">
+        <div className="flex shrink-0 flex-col items-end gap-2">
           {task.status === "completed" && task.deck && (
             <Button asChild size="sm" variant="outline">
               <Link href={`/dashboard/decks/${task.deck.id}`}>
@@ -290,6 +370,22 @@ export function TaskCard({ task }: TaskCardProps) {
               </Link>
             </Button>
           )}
+          {task.status === "completed" &&
+            task.deck &&
+            task.documentOutline &&
+            task.generatedChapters &&
+            task.generatedChapters.length <
+              getSelectableChapters(task.documentOutline).length && (
+              <OutlineDialog task={task} append>
+                <Button size="sm" variant="ghost" className="gap-1.5">
+                  <Sparkles className="h-3.5 w-3.5" />
+                  Add Chapters
+                </Button>
+              </OutlineDialog>
+            )}
+          {task.status === "completed" &&
+            task.deck &&
+            task.failedChunks > 0 && <RetryChunksButton task={task} />}
           {task.status === "outline_ready" && task.documentOutline && (
             <OutlineDialog task={task}>
               <Button size="sm" variant="default" className="gap-1.5">
@@ -9,9 +9,18 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { CardFace } from "@/features/decks/components/card-face";
 import { useTaskStatus } from "@/features/flashcards/hooks/use-task-status";
+import { CARD_TYPE_LABELS } from "@/lib/cards";
+
+/** 完成后预览的卡片数量 */
+const PREVIEW_CARD_COUNT = 3;
+
+/** 生成中预览的最近分块数量 */
+const PREVIEW_CHUNK_COUNT = 3;
 
 interface TaskStatusDisplayProps {
   taskId: string;
@@ -27,8 +36,15 @@ export function TaskStatusDisplay({
   onRetry,
   onOutlineReady,
 }: TaskStatusDisplayProps) {
-  const { task, isLoading, isCompleted, isOutlineReady, progress, error } =
-    useTaskStatus(taskId);
+  const {
+    task,
+    isLoading,
+    isCompleted,
+    isOutlineReady,
+    progress,
+    chunks,
+    error,
+  } = useTaskStatus(taskId);
 
   // Call onComplete callback when task completes
   useEffect(() => {
@@ -196,6 +212,44 @@ export function TaskStatusDisplay({
             className="h-2"
           />
         </div>
+
+        {/* Live preview of finished chunks */}
+        {chunks.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {chunks.reduce((sum, c) => sum + c.cardCount, 0)} cards so far
+            </p>
+            {chunks.slice(-PREVIEW_CHUNK_COUNT).map((chunk) => (
+              <div
+                key={chunk.chunkIndex}
+                className="rounded-md border bg-background p-3"
+              >
+                <div className="mb-1 flex items-center justify-between gap-2">
+                  <span className="text-xs font-medium text-muted-foreground">
+                    Chunk {chunk.chunkIndex + 1}
+                  </span>
+                  <Badge
+                    variant={
+                      chunk.status === "failed" ? "destructive" : "outline"
+                    }
+                    className="shrink-0"
+                  >
+                    {chunk.status === "failed"
+                      ? "Failed"
+                      : `${chunk.cardCount} ${chunk.cardCount === 1 ? "card" : "cards"}`}
+                  </Badge>
+                </div>
+                {chunk.cards[0] && (
+                  <CardFace
+                    card={chunk.cards[0]}
+                    side="front"
+                    className="line-clamp-2 text-sm"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     );
   }
@@ -221,6 +275,36 @@ export function TaskStatusDisplay({
             </Button>
           )}
         </div>
+
+        {/* Card preview */}
+        {task.cards.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {task.cards.slice(0, PREVIEW_CARD_COUNT).map((c) => (
+              <div key={c.id} className="rounded-md border bg-background p-3">
+                <div className="mb-2 flex items-center justify-between gap-2">
+                  <CardFace
+                    card={c}
+                    side="front"
+                    className="text-sm font-medium"
+                  />
+                  <Badge variant="outline" className="shrink-0">
+                    {CARD_TYPE_LABELS[c.cardType]}
+                  </Badge>
+                </div>
+                <CardFace
+                  card={c}
+                  side="back"
+                  className="text-sm text-muted-foreground"
+                />
+              </div>
+            ))}
+            {task.cards.length > PREVIEW_CARD_COUNT && (
+              <p className="text-xs text-muted-foreground">
+                +{task.cards.length - PREVIEW_CARD_COUNT} more
+              </p>
+            )}
+          </div>
+        )}
       </div>
     );
   }
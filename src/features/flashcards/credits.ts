@@ -0,0 +1,24 @@
+/**
+ * 生成任务计费
+ *
+ * 积分在任务开始时预扣，成功后确认，失败或无产出时退回
+ */
+
+/** 任务计费阶段：索引（Phase A）和生成 */
+export type TaskCreditsPhase = "indexing" | "generation";
+
+/** 各计费阶段记录到账本的服务名 */
+export const TASK_CREDITS_SERVICE: Record<TaskCreditsPhase, string> = {
+  indexing: "document_indexing",
+  generation: "flashcard_generation",
+};
+
+/**
+ * 任务计费阶段的预扣引用（每个任务每个阶段唯一）
+ */
+export function taskCreditsReference(
+  taskId: string,
+  phase: TaskCreditsPhase
+): string {
+  return `${taskId}:${phase}`;
+}
@@ -1,6 +1,10 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import useSWR from "swr";
+import type { DocumentOutline } from "@/lib/ai/outline-structure";
+import type { CardType } from "@/lib/cards";
+import type { TaskChunkPreview } from "../types";
 
 /**
  * 任务状态响应类型（API 返回格式）
@@ -24,20 +28,11 @@ export interface TaskStatusResponse {
   startedAt: string | null;
   completedAt: string | null;
   // 大文件优化字段
-  documentOutline: {
-    totalPages: number;
-    totalTokens: number;
-    chapters: Array<{
-      index: number;
-      title: string;
-      summary: string;
-      startPage: number;
-      endPage: number;
-      estimatedTokens: number;
-    }>;
-  } | null;
+  documentOutline: DocumentOutline | null;
   totalChunks: number | null;
   completedChunks: number | null;
+  /** 重试耗尽仍失败的分块数 */
+  failedChunks: number;
   deck: {
     id: string;
     title: string;
@@ -45,8 +40,10 @@ export interface TaskStatusResponse {
   } | null;
   cards: Array<{
     id: string;
+    cardType: CardType;
     front: string;
     back: string;
+    options: string[] | null;
     sortIndex: number;
   }>;
 }
@@ -64,7 +61,10 @@ const fetcher = async (url: string): Promise<TaskStatusResponse> => {
 };
 
 /**
- * 轮询任务状态的 Hook
+ * 跟踪任务状态的 Hook
+ *
+ * 优先通过 SSE（/api/tasks/[id]/stream）接收状态、进度和分块预览；
+ * 浏览器不支持或连接失败时回退为 SWR 轮询
  *
  * @param taskId - 任务 ID
  * @param options - 配置选项
@@ -80,13 +80,16 @@ export function useTaskStatus(
   }
 ) {
   const { refreshInterval = 3000, enabled = true } = options ?? {};
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [chunks, setChunks] = useState<TaskChunkPreview[]>([]);
 
   const { data, error, isLoading, mutate } = useSWR<TaskStatusResponse>(
     taskId && enabled ? `/api/tasks/${taskId}` : null,
     fetcher,
     {
-      // 仅在任务未完成时持续轮询
+      // 仅在任务未完成且没有 SSE 推送时持续轮询
       refreshInterval: (latestData: TaskStatusResponse | undefined) => {
+        if (isStreaming) return 0;
         if (!latestData) return refreshInterval;
         if (
           latestData.status === "completed" ||
@@ -105,6 +108,73 @@ export function useTaskStatus(
     }
   );
 
+  // 订阅 SSE 推送
+  useEffect(() => {
+    setChunks([]);
+    if (!taskId || !enabled || typeof EventSource === "undefined") {
+      setIsStreaming(false);
+      return;
+    }
+
+    const source = new EventSource(`/api/tasks/${taskId}/stream`);
+    const stop = () => {
+      source.close();
+      setIsStreaming(false);
+    };
+
+    source.onopen = () => setIsStreaming(true);
+    // 连接中断时先回退为轮询；EventSource 会自动重连，重连成功后再停止轮询
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        stop();
+      } else {
+        setIsStreaming(false);
+      }
+    };
+
+    source.addEventListener("status", (event) => {
+      const { status, errorMessage } = JSON.parse(event.data) as Pick<
+        TaskStatusResponse,
+        "status" | "errorMessage"
+      >;
+      mutate((current) => current && { ...current, status, errorMessage }, {
+        revalidate: false,
+      });
+    });
+
+    source.addEventListener("progress", (event) => {
+      const { completedChunks, totalChunks } = JSON.parse(event.data) as {
+        completedChunks: number;
+        totalChunks: number;
+      };
+      mutate(
+        (current) => current && { ...current, completedChunks, totalChunks },
+        { revalidate: false }
+      );
+    });
+
+    source.addEventListener("chunk", (event) => {
+      const chunk = JSON.parse(event.data) as TaskChunkPreview;
+      setChunks((current) =>
+        [
+          ...current.filter((c) => c.chunkIndex !== chunk.chunkIndex),
+          chunk,
+        ].sort((a, b) => a.chunkIndex - b.chunkIndex)
+      );
+    });
+
+    source.addEventListener("done", (event) => {
+      mutate(JSON.parse(event.data) as TaskStatusResponse, {
+        revalidate: false,
+      });
+      stop();
+    });
+
+    source.addEventListener("stream-error", stop);
+
+    return () => source.close();
+  }, [taskId, enabled, mutate]);
+
   return {
     /** 任务数据 */
     task: data,
@@ -112,6 +182,10 @@ export function useTaskStatus(
     error,
     /** 是否正在加载 */
     isLoading,
+    /** 是否通过 SSE 接收更新（否则为轮询） */
+    isStreaming,
+    /** 已完成分块的卡片预览（按分块顺序） */
+    chunks,
     /** 是否正在处理中（含分析和生成阶段） */
     isProcessing:
       data?.status === "pending" ||
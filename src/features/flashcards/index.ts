@@ -4,6 +4,8 @@ export {
   generateFlashcardsAction,
   generateFromOutlineAction,
   generateFromTextAction,
+  generateMoreFromOutlineAction,
+  retryFailedChunksAction,
 } from "./actions/generate";
 export {
   getActiveTaskCountAction,
@@ -17,3 +19,6 @@ export {
   type TaskStatusResponse,
   useTaskStatus,
 } from "./hooks/use-task-status";
+
+// Types
+export type { TaskChunkPreview, TaskUsageSummary } from "./types";
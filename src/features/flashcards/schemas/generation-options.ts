@@ -0,0 +1,64 @@
+import { z } from "zod";
+import {
+  CARD_COUNT_MODES,
+  DEFAULT_GENERATION_OPTIONS,
+  DIFFICULTY_LEVELS,
+  GENERATION_FOCUSES,
+  GENERATION_LIMITS,
+} from "@/lib/ai/generation-options";
+import { CARD_TYPES } from "@/lib/cards";
+
+/**
+ * 生成选项 Schema
+ *
+ * 所有字段都有默认值，未传时与引入选项前的行为一致
+ */
+export const generationOptionsSchema = z.object({
+  /** 卡片数量模式 */
+  countMode: z
+    .enum(CARD_COUNT_MODES)
+    .default(DEFAULT_GENERATION_OPTIONS.countMode),
+  /** 目标卡片数 */
+  cardCount: z
+    .number()
+    .int()
+    .min(GENERATION_LIMITS.minCardCount)
+    .max(GENERATION_LIMITS.maxCardCount)
+    .default(DEFAULT_GENERATION_OPTIONS.cardCount),
+  /** 每千 tokens 卡片数 */
+  density: z
+    .number()
+    .min(GENERATION_LIMITS.minDensity)
+    .max(GENERATION_LIMITS.maxDensity)
+    .default(DEFAULT_GENERATION_OPTIONS.density),
+  /** 难度等级 */
+  difficulty: z
+    .enum(DIFFICULTY_LEVELS)
+    .default(DEFAULT_GENERATION_OPTIONS.difficulty),
+  /** 允许生成的卡片类型 */
+  cardTypes: z
+    .array(z.enum(CARD_TYPES))
+    .min(1, "Select at least one card type")
+    .default(DEFAULT_GENERATION_OPTIONS.cardTypes),
+  /** 输出语言 */
+  language: z
+    .string()
+    .trim()
+    .min(1)
+    .max(50)
+    .default(DEFAULT_GENERATION_OPTIONS.language),
+  /** 内容侧重 */
+  focus: z
+    .enum(GENERATION_FOCUSES)
+    .default(DEFAULT_GENERATION_OPTIONS.focus),
+  /** 自定义指令 */
+  customInstructions: z
+    .string()
+    .max(
+      GENERATION_LIMITS.maxCustomInstructions,
+      `Custom instructions must be at most ${GENERATION_LIMITS.maxCustomInstructions} characters`
+    )
+    .default(DEFAULT_GENERATION_OPTIONS.customInstructions),
+});
+
+export type GenerationOptionsInput = z.input<typeof generationOptionsSchema>;
@@ -0,0 +1,5 @@
+// 生成选项 Schema 模块导出
+export {
+  type GenerationOptionsInput,
+  generationOptionsSchema,
+} from "./generation-options";
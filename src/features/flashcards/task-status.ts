@@ -0,0 +1,185 @@
+/**
+ * 生成任务状态查询
+ *
+ * 任务状态 API（GET /api/tasks/[id]）和 SSE 推送（/api/tasks/[id]/stream）共用
+ */
+
+import { and, asc, count, eq, notInArray, sql } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  type CardType,
+  card,
+  deck,
+  type GenerationTask,
+  generationChunk,
+  generationTask,
+  type TaskStatus,
+} from "@/db/schema";
+import type { TaskChunkPreview } from "./types";
+
+/** 每个分块预览的卡片数量 */
+export const CHUNK_PREVIEW_CARD_COUNT = 3;
+
+/** 不会再变化（或需等待用户操作）的任务状态，推送到此结束 */
+export const SETTLED_TASK_STATUSES: TaskStatus[] = [
+  "completed",
+  "failed",
+  "outline_ready",
+];
+
+/**
+ * 获取用户自己的任务
+ *
+ * 不属于该用户的任务与不存在的任务同样返回 undefined
+ */
+export async function getUserTask(
+  taskId: string,
+  userId: string
+): Promise<GenerationTask | undefined> {
+  return await db.query.generationTask.findFirst({
+    where: and(
+      eq(generationTask.id, taskId),
+      eq(generationTask.userId, userId)
+    ),
+  });
+}
+
+/**
+ * 组装任务状态响应（任务完成时附带牌组和卡片）
+ */
+export async function getTaskStatusSnapshot(task: GenerationTask) {
+  let deckData = null;
+  let cards: Array<{
+    id: string;
+    cardType: CardType;
+    front: string;
+    back: string;
+    options: string[] | null;
+    sortIndex: number;
+  }> = [];
+
+  if (task.status === "completed" && task.deckId) {
+    deckData = await db.query.deck.findFirst({
+      where: eq(deck.id, task.deckId),
+    });
+
+    const cardResults = await db.query.card.findMany({
+      where: eq(card.deckId, task.deckId),
+      orderBy: (card, { asc }) => [asc(card.sortIndex)],
+    });
+
+    cards = cardResults.map((c) => ({
+      id: c.id,
+      cardType: c.cardType,
+      front: c.front,
+      back: c.back,
+      options: c.options,
+      sortIndex: c.sortIndex,
+    }));
+  }
+
+  return {
+    id: task.id,
+    status: task.status,
+    sourceType: task.sourceType,
+    sourceFilename: task.sourceFilename,
+    cardCount: task.cardCount,
+    creditsCost: task.creditsCost,
+    errorMessage: task.errorMessage,
+    createdAt: task.createdAt,
+    startedAt: task.startedAt,
+    completedAt: task.completedAt,
+    // 大文件优化字段
+    documentOutline: task.documentOutline,
+    totalChunks: task.totalChunks,
+    completedChunks: task.completedChunks,
+    failedChunks: task.failedChunks,
+    deck: deckData
+      ? {
+          id: deckData.id,
+          title: deckData.title,
+          description: deckData.description,
+        }
+      : null,
+    cards,
+  };
+}
+
+/**
+ * 获取分块结果预览（每块前 CHUNK_PREVIEW_CARD_COUNT 张卡片）
+ *
+ * 已完成的分块不会再变化，推送过后在查询中排除；
+ * 失败的分块可能被重试，只有状态与推送时相同才跳过
+ *
+ * @param taskId - 任务 ID
+ * @param sentChunks - 已推送过的分块（分块序号 → 推送时的状态）
+ */
+export async function getChunkPreviews(
+  taskId: string,
+  sentChunks: ReadonlyMap<number, TaskChunkPreview["status"]> = new Map()
+): Promise<TaskChunkPreview[]> {
+  const completedIndexes = [...sentChunks]
+    .filter(([, status]) => status === "completed")
+    .map(([chunkIndex]) => chunkIndex);
+
+  const chunks = await db.query.generationChunk.findMany({
+    where: and(
+      eq(generationChunk.taskId, taskId),
+      completedIndexes.length > 0
+        ? notInArray(generationChunk.chunkIndex, completedIndexes)
+        : undefined
+    ),
+    orderBy: [asc(generationChunk.chunkIndex)],
+  });
+
+  return chunks
+    .map(
+      (chunk): TaskChunkPreview => ({
+        chunkIndex: chunk.chunkIndex,
+        status: chunk.status === "failed" ? "failed" : "completed",
+        cardCount: chunk.cardCount,
+        cards: (chunk.cards ?? []).slice(0, CHUNK_PREVIEW_CARD_COUNT),
+        errorMessage: chunk.errorMessage,
+      })
+    )
+    .filter((preview) => sentChunks.get(preview.chunkIndex) !== preview.status);
+}
+
+/**
+ * 按分块记录重新统计任务进度
+ *
+ * 并行分块各自完成后调用；计数来自分块表，重复调用或并发调用结果一致
+ *
+ * @returns 已完成和失败的分块数
+ */
+export async function updateChunkProgress(
+  taskId: string
+): Promise<{ completedChunks: number; failedChunks: number }> {
+  const countChunks = (status: "completed" | "failed") =>
+    sql<number>`(${db
+      .select({ count: count() })
+      .from(generationChunk)
+      .where(
+        and(
+          eq(generationChunk.taskId, taskId),
+          eq(generationChunk.status, status)
+        )
+      )})`;
+
+  const [progress] = await db
+    .update(generationTask)
+    .set({
+      completedChunks: countChunks("completed"),
+      failedChunks: countChunks("failed"),
+    })
+    .where(eq(generationTask.id, taskId))
+    .returning({
+      completedChunks: generationTask.completedChunks,
+      failedChunks: generationTask.failedChunks,
+    });
+
+  return {
+    completedChunks: progress?.completedChunks ?? 0,
+    failedChunks: progress?.failedChunks ?? 0,
+  };
+}
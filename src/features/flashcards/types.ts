@@ -0,0 +1,33 @@
+/**
+ * 卡片生成类型定义
+ *
+ * 服务端模块和客户端 Hook 共用的类型
+ */
+
+import type { CardContent } from "@/lib/cards";
+
+// ============================================
+// 生成任务
+// ============================================
+
+/**
+ * 分块结果预览（SSE chunk 事件）
+ */
+export interface TaskChunkPreview {
+  chunkIndex: number;
+  status: "completed" | "failed";
+  cardCount: number;
+  /** 该分块的前几张卡片 */
+  cards: CardContent[];
+  errorMessage: string | null;
+}
+
+/**
+ * 任务 LLM 用量汇总（实际 token 消耗）
+ */
+export interface TaskUsageSummary {
+  /** LLM 调用次数 */
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+}
@@ -0,0 +1,218 @@
+/**
+ * 生成任务 LLM 用量
+ *
+ * 记录每次 LLM 调用的实际 token 消耗，
+ * 用于任务成本明细和积分收入与供应商支出的对账报表
+ */
+
+import { and, count, eq, gte, inArray, sql, sum } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db } from "@/db";
+import { creditsHold, type LlmUsageOperation, llmUsage } from "@/db/schema";
+import { CREDIT_PACKAGES } from "@/features/credits/config";
+import type { LLMUsageHandler } from "@/lib/ai/usage";
+import type { TaskUsageSummary } from "./types";
+
+/**
+ * 创建按任务记录用量的回调
+ *
+ * @param taskId - 生成任务 ID（不属于生成任务的调用为 null，如单卡改写）
+ * @param userId - 用户 ID
+ * @param operation - 调用用途
+ */
+export function recordTaskUsage(
+  taskId: string | null,
+  userId: string,
+  operation: LlmUsageOperation
+): LLMUsageHandler {
+  return async (usage) => {
+    await db.insert(llmUsage).values({
+      id: nanoid(),
+      userId,
+      taskId,
+      operation,
+      provider: usage.provider,
+      model: usage.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      costUsd: usage.costUsd,
+    });
+  };
+}
+
+/**
+ * 批量获取任务的用量汇总
+ *
+ * @returns 任务 ID → 用量汇总（无用量记录的任务不包含）
+ */
+export async function getTaskUsageSummaries(
+  taskIds: string[]
+): Promise<Map<string, TaskUsageSummary>> {
+  if (taskIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await db
+    .select({
+      taskId: llmUsage.taskId,
+      calls: count(),
+      promptTokens: sum(llmUsage.promptTokens),
+      completionTokens: sum(llmUsage.completionTokens),
+    })
+    .from(llmUsage)
+    .where(inArray(llmUsage.taskId, taskIds))
+    .groupBy(llmUsage.taskId);
+
+  return new Map(
+    rows
+      .filter((row): row is typeof row & { taskId: string } => !!row.taskId)
+      .map((row) => [
+        row.taskId,
+        {
+          calls: row.calls,
+          promptTokens: Number(row.promptTokens ?? 0),
+          completionTokens: Number(row.completionTokens ?? 0),
+        },
+      ])
+  );
+}
+
+/**
+ * 对账报表中单个模型的汇总
+ */
+export interface ModelUsageReport {
+  provider: string;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** 供应商支出（美元，仅含已定价调用） */
+  costUsd: number;
+  /** 未定价的调用次数（支出未计入） */
+  unpricedCalls: number;
+  /** 分摊到该模型的已确认积分 */
+  creditsCharged: number;
+  /** 已确认积分折合收入（美元，按最低套餐单价计算） */
+  revenueUsd: number;
+}
+
+/**
+ * 积分收入与供应商支出对账报表
+ */
+export interface UsageReconciliationReport {
+  since: Date;
+  /** 积分折合美元单价（最低套餐单价） */
+  creditValueUsd: number;
+  models: ModelUsageReport[];
+}
+
+/**
+ * 积分折合美元单价：取所有套餐中最低的每积分价格（保守估计收入）
+ */
+function getCreditValueUsd(): number {
+  return Math.min(...CREDIT_PACKAGES.map((pkg) => pkg.price / pkg.credits));
+}
+
+/**
+ * 生成对账报表
+ *
+ * 每个任务已确认（captured）的积分按该任务各模型的 token 占比分摊，
+ * 与各模型的实际供应商支出对比；没有用量记录的任务不计入
+ *
+ * @param since - 统计起始时间（按 LLM 调用时间）
+ */
+export async function getUsageReconciliationReport(
+  since: Date
+): Promise<UsageReconciliationReport> {
+  const usageRows = await db
+    .select({
+      taskId: llmUsage.taskId,
+      provider: llmUsage.provider,
+      model: llmUsage.model,
+      calls: count(),
+      promptTokens: sum(llmUsage.promptTokens),
+      completionTokens: sum(llmUsage.completionTokens),
+      costUsd: sum(llmUsage.costUsd),
+      unpricedCalls: sql<number>`count(*) filter (where ${llmUsage.costUsd} is null)`,
+    })
+    .from(llmUsage)
+    .where(gte(llmUsage.createdAt, since))
+    .groupBy(llmUsage.taskId, llmUsage.provider, llmUsage.model);
+
+  // 各任务已确认的积分（预扣 metadata 中记录了 taskId）
+  const taskIds = [
+    ...new Set(
+      usageRows
+        .map((row) => row.taskId)
+        .filter((id): id is string => id !== null)
+    ),
+  ];
+  const holdTaskId = sql<string>`${creditsHold.metadata}->>'taskId'`;
+  const chargedRows =
+    taskIds.length > 0
+      ? await db
+          .select({ taskId: holdTaskId, amount: sum(creditsHold.amount) })
+          .from(creditsHold)
+          .where(
+            and(
+              eq(creditsHold.status, "captured"),
+              inArray(holdTaskId, taskIds)
+            )
+          )
+          .groupBy(holdTaskId)
+      : [];
+  const chargedByTask = new Map(
+    chargedRows.map((row) => [row.taskId, Number(row.amount ?? 0)])
+  );
+
+  // 每个任务的总 tokens，用于分摊积分
+  const taskTokens = new Map<string, number>();
+  for (const row of usageRows) {
+    if (!row.taskId) continue;
+    const tokens =
+      Number(row.promptTokens ?? 0) + Number(row.completionTokens ?? 0);
+    taskTokens.set(row.taskId, (taskTokens.get(row.taskId) ?? 0) + tokens);
+  }
+
+  const creditValueUsd = getCreditValueUsd();
+  const models = new Map<string, ModelUsageReport>();
+
+  for (const row of usageRows) {
+    const key = `${row.provider}:${row.model}`;
+    const report = models.get(key) ?? {
+      provider: row.provider,
+      model: row.model,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      costUsd: 0,
+      unpricedCalls: 0,
+      creditsCharged: 0,
+      revenueUsd: 0,
+    };
+    models.set(key, report);
+
+    const promptTokens = Number(row.promptTokens ?? 0);
+    const completionTokens = Number(row.completionTokens ?? 0);
+    report.calls += row.calls;
+    report.promptTokens += promptTokens;
+    report.completionTokens += completionTokens;
+    report.costUsd += Number(row.costUsd ?? 0);
+    report.unpricedCalls += Number(row.unpricedCalls);
+
+    const charged = row.taskId ? chargedByTask.get(row.taskId) : undefined;
+    const totalTokens = row.taskId ? taskTokens.get(row.taskId) : undefined;
+    if (charged && totalTokens) {
+      const share = (charged * (promptTokens + completionTokens)) / totalTokens;
+      report.creditsCharged += share;
+      report.revenueUsd += share * creditValueUsd;
+    }
+  }
+
+  return {
+    since,
+    creditValueUsd,
+    models: [...models.values()].sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
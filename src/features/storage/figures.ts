@@ -0,0 +1,111 @@
+/**
+ * 文档插图存储
+ *
+ * 从上传文档中提取的图片保存在上传存储桶的 figures/ 目录下，
+ * 通过 image-proxy 访问（该存储桶只向所有者开放 figures/ 目录，原始文档不可访问）
+ */
+
+import type { DocumentImage } from "@/lib/parsers/structure";
+
+import { getStorageProvider } from "./providers";
+
+/** 插图键名前缀 */
+export const FIGURES_KEY_PREFIX = "figures/";
+
+/**
+ * 插图存储位置
+ *
+ * @field bucket - 存储桶名称
+ * @field keyPrefix - 键名前缀（不含末尾斜杠）
+ * @field baseUrl - image-proxy 地址前缀（解析文档时作为 imageBaseUrl）
+ */
+export interface FigureLocation {
+  bucket: string;
+  keyPrefix: string;
+  baseUrl: string;
+}
+
+/**
+ * 插图所在的存储桶（与上传文档相同）
+ */
+export function getFiguresBucket(): string {
+  return process.env.STORAGE_BUCKET_NAME || "ankigenix-uploads";
+}
+
+/**
+ * 获取生成任务的插图存储位置
+ *
+ * @param userId - 用户 ID
+ * @param taskId - 生成任务 ID
+ */
+export function getFigureLocation(
+  userId: string,
+  taskId: string
+): FigureLocation {
+  const bucket = getFiguresBucket();
+  const keyPrefix = `${FIGURES_KEY_PREFIX}${userId}/${taskId}`;
+  return { bucket, keyPrefix, baseUrl: `/image-proxy/${bucket}/${keyPrefix}` };
+}
+
+/**
+ * 保存文档中提取的图片
+ *
+ * 键名由位置和图片文件名确定，重复执行会覆盖为相同内容
+ *
+ * @param images - 提取的图片
+ * @param location - 存储位置
+ */
+export async function saveDocumentImages(
+  images: DocumentImage[],
+  location: FigureLocation
+): Promise<void> {
+  const provider = getStorageProvider();
+  for (const image of images) {
+    await provider.putObject(
+      `${location.keyPrefix}/${image.name}`,
+      location.bucket,
+      image.data,
+      image.contentType
+    );
+  }
+}
+
+/**
+ * 判断是否为上传存储桶中的插图
+ *
+ * @param bucket - 存储桶名称
+ * @param key - 文件键名
+ */
+export function isFigureImage(bucket: string, key: string): boolean {
+  return (
+    bucket === getFiguresBucket() &&
+    key.startsWith(FIGURES_KEY_PREFIX) &&
+    !key.split("/").includes("..")
+  );
+}
+
+/**
+ * 判断存储中的图片是否允许通过 image-proxy 访问
+ *
+ * 头像存储桶全部开放；插图来自用户的私有文档，只有所有者可以访问
+ * （键名第二段为用户 ID）
+ *
+ * @param bucket - 存储桶名称
+ * @param key - 文件键名
+ * @param userId - 当前用户 ID（未登录为 null）
+ */
+export function isProxyableImage(
+  bucket: string,
+  key: string,
+  userId: string | null
+): boolean {
+  const avatarsBucket = process.env.NEXT_PUBLIC_AVATARS_BUCKET_NAME;
+  if (avatarsBucket && bucket === avatarsBucket) {
+    return true;
+  }
+  return (
+    userId !== null &&
+    isFigureImage(bucket, key) &&
+    key.startsWith(`${FIGURES_KEY_PREFIX}${userId}/`)
+  );
+}
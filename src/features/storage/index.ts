@@ -1,5 +1,6 @@
 // Storage System
 export * from "./actions";
+export * from "./figures";
 export * from "./providers";
 export * from "./types";
 export * from "./utils";
\ No newline at end of file
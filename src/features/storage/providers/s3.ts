@@ -196,6 +196,32 @@ export const s3Provider: StorageProvider = {
 
     return Buffer.concat(chunks);
   },
+
+  /**
+   * 写入文件
+   *
+   * @param key - 文件键名
+   * @param bucket - 存储桶名称
+   * @param body - 文件内容
+   * @param contentType - 文件 MIME 类型
+   */
+  async putObject(
+    key: string,
+    bucket: string,
+    body: Buffer,
+    contentType: string
+  ): Promise<void> {
+    const client = getS3Client();
+
+    const command = new PutObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    });
+
+    await client.send(command);
+  },
 };
 
 // ============================================
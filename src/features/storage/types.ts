@@ -60,6 +60,21 @@ export interface StorageProvider {
    * @returns 文件内容 Buffer
    */
   getObject(key: string, bucket: string): Promise<Buffer>;
+
+  /**
+   * 写入文件（服务端生成的文件，如从文档中提取的图片）
+   *
+   * @param key - 文件键名 (路径)
+   * @param bucket - 存储桶名称
+   * @param body - 文件内容
+   * @param contentType - 文件 MIME 类型
+   */
+  putObject(
+    key: string,
+    bucket: string,
+    body: Buffer,
+    contentType: string
+  ): Promise<void>;
 }
 
 // ============================================
@@ -77,3 +77,20 @@ export function generateAvatarKey(userId: string, file: File): string {
   const extension = file.name.split(".").pop()?.toLowerCase() ?? "jpg";
   return `${userId}-${timestamp}.${extension}`;
 }
+
+// ============================================
+// 上传文件工具
+// ============================================
+
+/**
+ * 判断上传文件是否属于该用户
+ *
+ * 上传的文件键名格式为 uploads/{userId}/{id}.{extension}（见 /api/upload/presigned），
+ * 读取客户端传来的键名前必须检查，避免读取其他用户的文件
+ *
+ * @param fileKey - 文件键名
+ * @param userId - 用户 ID
+ */
+export function isUserUploadKey(fileKey: string, userId: string): boolean {
+  return fileKey.startsWith(`uploads/${userId}/`);
+}
@@ -1,4 +1,6 @@
 import { Inngest } from "inngest";
+import type { GenerationOptions } from "@/lib/ai/generation-options";
+import type { PageRange } from "@/lib/ai/outline-structure";
 
 /**
  * Inngest 客户端配置
@@ -34,7 +36,11 @@ export type Events = {
       sourceUrl?: string;
       /** 原始文件名（文件类型时用于确定解析器） */
       sourceFilename?: string;
+      /** 文件在存储中的键名（文件类型时；视频类型时为可选的字幕文件） */
+      fileKey?: string;
       creditsCost: number;
+      /** 生成选项 */
+      options?: GenerationOptions;
       userPlan?: "free" | "pro";
     };
   };
@@ -46,17 +52,37 @@ export type Events = {
       sourceUrl: string;
       sourceFilename: string;
       fileKey: string;
+      /** 生成选项（Phase B 未覆盖时使用） */
+      options?: GenerationOptions;
       userPlan?: "free" | "pro";
     };
   };
-  /** 根据大纲选择生成闪卡（大文件优化 Phase B） */
+  /** 根据大纲选择生成闪卡（大文件优化 Phase B，含追加生成） */
   "flashcard/generate-from-outline": {
     data: {
       taskId: string;
       userId: string;
       selectedChapters: number[];
+      /** 选定的页码范围（按页选择时使用，此时 selectedChapters 为空） */
+      selectedPages?: PageRange[];
       creditsCost: number;
+      /** 生成选项 */
+      options?: GenerationOptions;
+      /** 仅重新生成失败的分块（卡片追加到任务的牌组，不再扣费） */
+      retryFailedChunks?: boolean;
       userPlan?: "free" | "pro";
     };
   };
+  /** 导入 Anki 牌组（.apkg / .colpkg） */
+  "deck/import-anki": {
+    data: {
+      importId: string;
+      userId: string;
+      /** 文件在存储中的键名 */
+      fileKey: string;
+      sourceFilename: string;
+      /** 是否保留调度状态和复习记录 */
+      includeScheduling: boolean;
+    };
+  };
 };
@@ -1,33 +1,193 @@
-import { eq } from "drizzle-orm";
+import { and, eq, ne, sql } from "drizzle-orm";
+import { NonRetriableError } from "inngest";
 import { nanoid } from "nanoid";
 import { db } from "@/db";
 import {
   card,
-  creditsBalance,
-  creditsTransaction,
+  cardSchedule,
   deck,
+  deckImport,
+  generationChunk,
   generationTask,
+  reviewLog,
 } from "@/db/schema";
 import { calculateIndexingCost } from "@/config/pricing";
 import type { DocumentOutline } from "@/lib/ai/outline";
 import {
-  extractSelectedChaptersText,
-  generateOutline,
+  analyzeOutlineWindow,
+  buildOutlineFromHeadings,
+  ESTIMATED_CHARS_PER_PAGE,
+  extractSelectedChapters,
+  extractSelectedPages,
+  formatPageRangeTitle,
+  getSelectableChapters,
+  mergeOutlineWindows,
+  type OutlineEntry,
+  planOutlineWindows,
 } from "@/lib/ai/outline";
-import { generateFlashcardsFromText } from "@/lib/ai/openai";
+import { type Flashcard, generateFlashcardsFromText } from "@/lib/ai/openai";
+import { postprocessFlashcards } from "@/lib/ai/postprocess";
+import {
+  type GroundingContext,
+  groundFlashcards,
+  wholeDocumentSegments,
+} from "@/lib/ai/grounding";
 import { splitIntoChunks } from "@/lib/ai/chunking";
+import {
+  distributeCardTarget,
+  GENERATION_LIMITS,
+  type GenerationOptions,
+  resolveCardTarget,
+  resolveGenerationOptions,
+} from "@/lib/ai/generation-options";
 import { countTokens } from "@/lib/ai/tokenizer";
-import { parseFileFromStorage } from "@/lib/parsers";
+import type { LLMUsageHandler } from "@/lib/ai/usage";
+import {
+  type AnkiImportReport,
+  planAnkiImport,
+  readAnkiPackage,
+} from "@/lib/anki";
+import {
+  captureCredits,
+  InsufficientCreditsError,
+  releaseCredits,
+  reserveCredits,
+} from "@/features/credits/core";
+import {
+  TASK_CREDITS_SERVICE,
+  type TaskCreditsPhase,
+  taskCreditsReference,
+} from "@/features/flashcards/credits";
+import { updateChunkProgress } from "@/features/flashcards/task-status";
+import { recordTaskUsage } from "@/features/flashcards/usage";
+import {
+  type FigureLocation,
+  getFigureLocation,
+  saveDocumentImages,
+} from "@/features/storage/figures";
+import { getStorageProvider } from "@/features/storage/providers";
+import { isUserUploadKey } from "@/features/storage/utils";
+import {
+  extractWebContent,
+  getFileTypeFromName,
+  type ParsedDocument,
+  parseDocumentFromStorage,
+} from "@/lib/parsers";
+import {
+  fetchTranscript,
+  locateTimestamp,
+  segmentTranscript,
+  type Transcript,
+} from "@/lib/transcripts";
 import { inngest } from "./client";
 
+/**
+ * 是否为 PDF 文件（用于估算卡片来源的页码）
+ */
+function isPdfFilename(filename: string | null | undefined): boolean {
+  return !!filename && getFileTypeFromName(filename) === "pdf";
+}
+
+/**
+ * 下载并解析上传的文档，提取的插图保存到存储
+ *
+ * 返回结果不含图片内容（步骤结果会被序列化保存）
+ *
+ * @param userId - 发起任务的用户 ID（只能解析该用户上传的文档）
+ * @param fileKey - 文档在存储中的键名
+ * @param filename - 原始文件名
+ * @param figures - 插图存储位置
+ */
+async function parseDocumentWithFigures(
+  userId: string,
+  fileKey: string,
+  filename: string,
+  figures: FigureLocation
+): Promise<ParsedDocument> {
+  // 插图会复制到该用户的目录下，不能读取其他用户上传的文档
+  if (!isUserUploadKey(fileKey, userId)) {
+    throw new NonRetriableError("Document not found");
+  }
+
+  const { images, ...parsed } = await parseDocumentFromStorage(
+    fileKey,
+    process.env.STORAGE_BUCKET_NAME || "ankigenix-uploads",
+    filename,
+    { imageBaseUrl: figures.baseUrl }
+  );
+  if (images?.length) {
+    await saveDocumentImages(images, figures);
+  }
+  return parsed;
+}
+
+/**
+ * 标记任务失败并退回预扣积分
+ *
+ * 用于生成类函数的 onFailure（重试耗尽或不可重试错误）。
+ * 任务已完成时卡片已保存，只是确认扣费失败：再次确认，仍失败时保留预扣待核对，不退回
+ */
+async function failTaskAndRefund(
+  taskId: string,
+  phase: TaskCreditsPhase,
+  errorMessage: string
+) {
+  const reference = taskCreditsReference(taskId, phase);
+  const failed = await db
+    .update(generationTask)
+    .set({
+      status: "failed",
+      errorMessage,
+      completedAt: new Date(),
+    })
+    .where(
+      and(eq(generationTask.id, taskId), ne(generationTask.status, "completed"))
+    )
+    .returning({ id: generationTask.id });
+
+  if (failed.length === 0) {
+    try {
+      await captureCredits(reference);
+    } catch (error) {
+      console.error(
+        `[Credits] Failed to capture ${reference} for completed task; hold kept for reconciliation:`,
+        error
+      );
+    }
+    return;
+  }
+
+  await releaseCredits(reference, errorMessage);
+}
+
+/**
+ * 重新生成失败分块失败时恢复任务
+ *
+ * 任务已有牌组且积分已确认，恢复为完成状态并记录错误，失败分块可再次重试
+ */
+async function restoreRetriedTask(taskId: string, errorMessage: string) {
+  await db
+    .update(generationTask)
+    .set({ status: "completed", errorMessage })
+    .where(
+      and(
+        eq(generationTask.id, taskId),
+        eq(generationTask.status, "generating")
+      )
+    );
+  await updateChunkProgress(taskId);
+}
+
 /**
  * 闪卡生成 Inngest 函数
  *
- * 处理异步闪卡生成任务：
- * 1. 验证并扣除积分
- * 2. 解析输入源（文本/URL/文件/视频）
- * 3. 调用 LLM 生成闪卡
- * 4. 保存结果到数据库
+ * 处理异步闪卡生成任务（积分已在 Server Action 中预扣）：
+ * 1. 解析输入源（文本/URL/文件/视频）
+ * 2. 调用 LLM 生成闪卡
+ * 3. 合并重复卡片，按质量过滤和标记
+ * 4. 保存结果到数据库并确认扣费
+ *
+ * 失败或未生成任何卡片时退回积分
  */
 export const generateFlashcards = inngest.createFunction(
   {
@@ -37,6 +197,13 @@ export const generateFlashcards = inngest.createFunction(
       key: "event.data.userPlan",
     },
     retries: 2,
+    onFailure: async ({ event, error }) => {
+      await failTaskAndRefund(
+        event.data.event.data.taskId,
+        "generation",
+        error.message
+      );
+    },
   },
   { event: "flashcard/generate" },
   async ({ event, step }) => {
@@ -48,8 +215,8 @@ export const generateFlashcards = inngest.createFunction(
       sourceUrl,
       sourceFilename,
       fileKey,
-      creditsCost,
     } = event.data;
+    const options = resolveGenerationOptions(event.data.options);
 
     // Step 1: 更新任务状态为处理中
     await step.run("update-task-processing", async () => {
@@ -62,43 +229,45 @@ export const generateFlashcards = inngest.createFunction(
         .where(eq(generationTask.id, taskId));
     });
 
-    // Step 2: 扣除积分
-    await step.run("deduct-credits", async () => {
-      // 获取用户积分余额
-      const balance = await db.query.creditsBalance.findFirst({
-        where: eq(creditsBalance.userId, userId),
-      });
+    // Step 1.5: 获取视频字幕（单独 step，重试生成时不重复下载）
+    const transcript =
+      sourceType === "video"
+        ? await step.run("fetch-transcript", async () => {
+            // 只能读取该用户上传的字幕文件
+            if (fileKey && !isUserUploadKey(fileKey, userId)) {
+              throw new NonRetriableError("Caption file not found");
+            }
+            return await fetchTranscript({
+              videoUrl: sourceUrl ?? null,
+              captionFile:
+                fileKey && sourceFilename
+                  ? {
+                      fileKey,
+                      bucket:
+                        process.env.STORAGE_BUCKET_NAME || "ankigenix-uploads",
+                      filename: sourceFilename,
+                    }
+                  : null,
+            });
+          })
+        : null;
 
-      if (!balance || balance.balance < creditsCost) {
-        throw new Error("Insufficient credits");
-      }
+    // Step 1.6: 抓取网页正文（单独 step，重试生成时不重复抓取）
+    const webPage =
+      sourceType === "url" && sourceUrl
+        ? await step.run("fetch-url", async () => {
+            return await extractWebContent(sourceUrl);
+          })
+        : null;
 
-      // 扣除积分 - 使用简化逻辑（实际项目应使用 FIFO 批次扣除）
-      await db
-        .update(creditsBalance)
-        .set({
-          balance: balance.balance - creditsCost,
-          totalSpent: balance.totalSpent + creditsCost,
-          updatedAt: new Date(),
-        })
-        .where(eq(creditsBalance.userId, userId));
+    // 记录每次 LLM 调用的实际用量
+    const onUsage = recordTaskUsage(taskId, userId, "flashcards");
 
-      // 记录交易
-      await db.insert(creditsTransaction).values({
-        id: nanoid(),
-        userId,
-        type: "consumption",
-        amount: creditsCost,
-        debitAccount: "user_balance",
-        creditAccount: "flashcard_generation",
-        description: `Flashcard generation from ${sourceType}`,
-        metadata: { taskId, sourceType },
-      });
-    });
-
-    // Step 3: 解析内容并生成闪卡
+    // Step 2: 解析内容并生成闪卡
     const flashcards = await step.run("generate-cards", async () => {
       let content: string;
+      // PDF 的每页起始偏移（用于卡片来源的真实页码）
+      let pageOffsets: number[] | null = null;
 
       switch (sourceType) {
         case "text":
@@ -108,44 +277,81 @@ export const generateFlashcards = inngest.createFunction(
           content = sourceContent;
           break;
 
-        case "url": {
-          // TODO: 实现 Jina Reader API 解析
-          if (!sourceUrl) {
+        case "url":
+          if (!webPage) {
             throw new Error("No URL provided");
           }
-          const jinaResponse = await fetch(`https://r.jina.ai/${sourceUrl}`);
-          if (!jinaResponse.ok) {
-            throw new Error(
-              `Failed to fetch URL content: ${jinaResponse.statusText}`
-            );
-          }
-          content = await jinaResponse.text();
+          content = webPage.content;
           break;
-        }
 
-        case "file":
+        case "file": {
           if (!fileKey || !sourceFilename) {
             throw new Error(
               "File key and filename are required for file source"
             );
           }
-          content = await parseFileFromStorage(
+          const parsed = await parseDocumentWithFigures(
+            userId,
             fileKey,
-            process.env.STORAGE_BUCKET_NAME || "ankigenix-uploads",
-            sourceFilename
+            sourceFilename,
+            getFigureLocation(userId, taskId)
           );
+          content = parsed.text;
+          pageOffsets = parsed.pageOffsets;
           break;
+        }
 
         case "video":
-          // TODO: 实现视频字幕提取
-          throw new Error("Video parsing not yet implemented");
+          if (!transcript) {
+            throw new Error("No transcript available for video source");
+          }
+          // 视频按时间窗口分段生成，卡片带时间戳
+          return await generateFlashcardsFromTranscript(
+            transcript,
+            options,
+            onUsage
+          );
 
         default:
           throw new Error(`Unsupported source type: ${sourceType}`);
       }
 
-      // 调用 LLM 生成闪卡
-      return await generateFlashcardsFromText(content);
+      // 调用 LLM 生成闪卡（目标数量受单次请求上限限制）
+      const target = resolveCardTarget(options, countTokens(content));
+      const maxCards =
+        target === null
+          ? 20
+          : Math.min(target, GENERATION_LIMITS.maxCardsPerRequest);
+      const cards = await generateFlashcardsFromText(
+        content,
+        maxCards,
+        options,
+        target === null ? null : maxCards,
+        onUsage
+      );
+
+      // 定位每张卡片在原文中的来源段落
+      return groundFlashcards(cards, content, 0, {
+        taskId,
+        text: content,
+        segments: wholeDocumentSegments(content.length),
+        charsPerPage: isPdfFilename(sourceFilename)
+          ? ESTIMATED_CHARS_PER_PAGE
+          : null,
+        pageOffsets,
+      });
+    });
+
+    // 未生成任何卡片：不重试，由 onFailure 退回积分
+    if (flashcards.length === 0) {
+      throw new NonRetriableError(
+        "No flashcards could be generated from this content"
+      );
+    }
+
+    // Step 3: 合并重复卡片，按质量过滤和标记
+    const processedCards = await step.run("postprocess-cards", async () => {
+      return postprocessFlashcards(flashcards).cards;
     });
 
     // Step 4: 创建牌组并保存卡片
@@ -155,11 +361,15 @@ export const generateFlashcards = inngest.createFunction(
       const deckTitle =
         sourceType === "text"
           ? `Text Flashcards - ${new Date().toLocaleDateString()}`
-          : sourceType === "url"
-            ? `URL: ${sourceUrl?.slice(0, 50)}...`
-            : sourceType === "file" && sourceFilename
-              ? `File: ${sourceFilename}`
-              : `${sourceType} Flashcards`;
+          : sourceType === "url" && webPage?.title
+            ? `URL: ${webPage.title.slice(0, 80)}`
+            : sourceType === "url"
+              ? `URL: ${sourceUrl?.slice(0, 50)}...`
+              : sourceType === "file" && sourceFilename
+                ? `File: ${sourceFilename}`
+                : sourceType === "video" && transcript?.title
+                  ? `Video: ${transcript.title}`
+                  : `${sourceType} Flashcards`;
 
       await db.insert(deck).values({
         id: deckId,
@@ -167,15 +377,21 @@ export const generateFlashcards = inngest.createFunction(
         title: deckTitle,
         sourceType,
         sourceUrl: sourceUrl || null,
-        cardCount: flashcards.length,
+        cardCount: processedCards.length,
       });
 
       // 批量插入卡片
-      const cardValues = flashcards.map((fc, index) => ({
+      const cardValues = processedCards.map((fc, index) => ({
         id: nanoid(),
         deckId,
+        cardType: fc.cardType,
         front: fc.front,
         back: fc.back,
+        options: fc.options ?? null,
+        tags: fc.tags ?? null,
+        sourceTimestamp: fc.sourceTimestamp ?? null,
+        sourceRef: fc.sourceRef ?? null,
+        image: fc.image ?? null,
         sortIndex: index,
       }));
 
@@ -187,28 +403,104 @@ export const generateFlashcards = inngest.createFunction(
         .set({
           status: "completed",
           deckId,
-          cardCount: flashcards.length,
+          cardCount: processedCards.length,
           completedAt: new Date(),
         })
         .where(eq(generationTask.id, taskId));
 
-      return { deckId, cardCount: flashcards.length };
+      return { deckId, cardCount: processedCards.length };
+    });
+
+    // Step 5: 确认扣费
+    await step.run("capture-credits", async () => {
+      await captureCredits(taskCreditsReference(taskId, "generation"));
     });
 
     return result;
   }
 );
 
+/**
+ * 从视频字幕生成闪卡
+ *
+ * 按时间窗口分段，按 tokens 比例分配目标卡片数，
+ * 每张卡片定位到所在片段中最相关的字幕时间
+ */
+async function generateFlashcardsFromTranscript(
+  transcript: Transcript,
+  options: GenerationOptions,
+  onUsage: LLMUsageHandler
+): Promise<Flashcard[]> {
+  const segments = segmentTranscript(transcript.cues);
+
+  const target = resolveCardTarget(
+    options,
+    segments.reduce((sum, segment) => sum + segment.tokenCount, 0)
+  );
+  const segmentTargets =
+    target === null
+      ? null
+      : distributeCardTarget(
+          target,
+          segments.map((segment) => segment.tokenCount)
+        );
+
+  const results = await Promise.all(
+    segments.map(async (segment, index) => {
+      const segmentTarget = segmentTargets
+        ? (segmentTargets[index] ?? 0)
+        : null;
+      if (segmentTarget === 0) {
+        return [];
+      }
+
+      try {
+        const cards = await generateFlashcardsFromText(
+          segment.text,
+          segmentTarget ?? 20,
+          options,
+          segmentTarget,
+          onUsage
+        );
+        return cards.map((fc) => ({
+          ...fc,
+          sourceTimestamp: locateTimestamp(
+            `${fc.front} ${fc.back}`,
+            segment.cues
+          ),
+        }));
+      } catch (error) {
+        console.error(`Error generating transcript segment ${index}:`, error);
+        return [];
+      }
+    })
+  );
+
+  const flashcards = results.flat();
+  if (flashcards.length === 0) {
+    throw new NonRetriableError(
+      "No flashcards could be generated from this transcript"
+    );
+  }
+  return flashcards;
+}
+
+/** 同时分析的大纲窗口数 */
+const OUTLINE_WINDOW_CONCURRENCY = 4;
+
 /**
  * 分析文档生成大纲（大文件优化 Phase A）
  *
  * 流程：
- * 1. 下载并解析文件
+ * 1. 下载并解析文件（保留书签、标题和分页）
  * 2. 计算 token 数
- * 3. 调用 LLM 生成文档大纲
- * 4. 保存大纲到数据库，状态更新为 outline_ready
+ * 3. 文档自带结构时直接按标题生成大纲，否则：
+ *    按窗口分批并行调用 LLM 分析章节和小节（每个窗口一个持久化步骤），
+ *    合并各窗口结果为两级大纲
+ * 4. 保存到数据库，状态更新为 outline_ready
  *
- * 此阶段免费，不扣除积分
+ * 调用 LLM 前按文档 tokens 预扣索引费，保存大纲后确认；失败时退回。
+ * 按文档结构生成的大纲不收索引费
  */
 export const analyzeDocument = inngest.createFunction(
   {
@@ -218,6 +510,13 @@ export const analyzeDocument = inngest.createFunction(
       key: "event.data.userPlan",
     },
     retries: 2,
+    onFailure: async ({ event, error }) => {
+      await failTaskAndRefund(
+        event.data.event.data.taskId,
+        "indexing",
+        error.message
+      );
+    },
   },
   { event: "flashcard/analyze-document" },
   async ({ event, step }) => {
@@ -234,69 +533,100 @@ export const analyzeDocument = inngest.createFunction(
         .where(eq(generationTask.id, taskId));
     });
 
-    // Step 2: 下载并解析文件
-    const documentText = await step.run("download-and-parse", async () => {
-      return await parseFileFromStorage(
+    // Step 2: 下载并解析文件（提取的插图保存到存储，文本中保留引用）
+    const parsed = await step.run("download-and-parse", async () => {
+      return await parseDocumentWithFigures(
+        userId,
         fileKey,
-        process.env.STORAGE_BUCKET_NAME || "ankigenix-uploads",
-        sourceFilename
+        sourceFilename,
+        getFigureLocation(userId, taskId)
       );
     });
+    const documentText = parsed.text;
 
     // Step 3: 计算 token 数
     const totalTokens = await step.run("count-tokens", async () => {
       return countTokens(documentText);
     });
 
-    // Step 3.5: 扣除索引费（按文档总 Input Tokens 计算）
-    const indexingCost = await step.run("deduct-indexing-credits", async () => {
-      const cost = calculateIndexingCost(totalTokens);
+    // Step 3.5: 按文档自带的标题结构生成大纲（结构不足时为 null）
+    const structureOutline = await step.run(
+      "build-structure-outline",
+      async () => {
+        return buildOutlineFromHeadings(documentText, parsed.headings, {
+          pageOffsets: parsed.pageOffsets,
+        });
+      }
+    );
 
-      const balance = await db.query.creditsBalance.findFirst({
-        where: eq(creditsBalance.userId, userId),
-      });
+    let outline: DocumentOutline;
+    let indexingCost = 0;
 
-      if (!balance || balance.balance < cost) {
-        throw new Error(
-          `Insufficient credits for indexing. Required: ${cost}, Available: ${balance?.balance ?? 0}`
-        );
-      }
+    if (structureOutline) {
+      outline = structureOutline;
+    } else {
+      // Step 4: 预扣索引费（按文档总 Input Tokens 计算）
+      indexingCost = await step.run("hold-indexing-credits", async () => {
+        const cost = calculateIndexingCost(totalTokens);
 
-      // 扣除积分
-      await db
-        .update(creditsBalance)
-        .set({
-          balance: balance.balance - cost,
-          totalSpent: balance.totalSpent + cost,
-          updatedAt: new Date(),
-        })
-        .where(eq(creditsBalance.userId, userId));
+        try {
+          await reserveCredits({
+            userId,
+            amount: cost,
+            serviceName: TASK_CREDITS_SERVICE.indexing,
+            reference: taskCreditsReference(taskId, "indexing"),
+            description: `Document indexing: ${sourceFilename} (${totalTokens} tokens)`,
+            metadata: { taskId, sourceFilename, totalTokens },
+          });
+        } catch (error) {
+          // 余额不足重试无意义
+          if (error instanceof InsufficientCreditsError) {
+            throw new NonRetriableError(
+              `Insufficient credits for indexing. Required: ${error.required}, Available: ${error.available}`
+            );
+          }
+          throw error;
+        }
 
-      // 记录交易
-      await db.insert(creditsTransaction).values({
-        id: nanoid(),
-        userId,
-        type: "consumption",
-        amount: cost,
-        debitAccount: "user_balance",
-        creditAccount: "document_indexing",
-        description: `Document indexing: ${sourceFilename} (${totalTokens} tokens)`,
-        metadata: { taskId, sourceFilename, totalTokens },
-      });
+        // 更新任务的索引费
+        await db
+          .update(generationTask)
+          .set({ indexingCost: cost })
+          .where(eq(generationTask.id, taskId));
 
-      // 更新任务的索引费
-      await db
-        .update(generationTask)
-        .set({ indexingCost: cost })
-        .where(eq(generationTask.id, taskId));
+        return cost;
+      });
 
-      return cost;
-    });
+      // Step 4.1: 分窗口分析文档结构（窗口划分是纯计算，每次执行时重新切分）
+      const windows = planOutlineWindows(documentText);
+      const onUsage = recordTaskUsage(taskId, userId, "outline");
+      const windowResults: OutlineEntry[][] = [];
+      for (
+        let start = 0;
+        start < windows.length;
+        start += OUTLINE_WINDOW_CONCURRENCY
+      ) {
+        const batch = windows.slice(start, start + OUTLINE_WINDOW_CONCURRENCY);
+        windowResults.push(
+          ...(await Promise.all(
+            batch.map((window) =>
+              step.run(`analyze-outline-window-${window.index}`, () =>
+                analyzeOutlineWindow(documentText, window, windows.length, {
+                  onUsage,
+                })
+              )
+            )
+          ))
+        );
+      }
 
-    // Step 4: 生成文档大纲
-    const outline = await step.run("generate-outline", async () => {
-      return await generateOutline(documentText);
-    });
+      // Step 4.2: 合并各窗口的章节
+      outline = await step.run("merge-outline", async () => {
+        return mergeOutlineWindows(documentText, windowResults, {
+          pageOffsets: parsed.pageOffsets,
+        });
+      });
+    }
 
     // Step 5: 保存大纲到数据库
     await step.run("save-outline", async () => {
@@ -311,26 +641,48 @@ export const analyzeDocument = inngest.createFunction(
         .where(eq(generationTask.id, taskId));
     });
 
+    // Step 6: 确认扣除索引费
+    if (indexingCost > 0) {
+      await step.run("capture-indexing-credits", async () => {
+        await captureCredits(taskCreditsReference(taskId, "indexing"));
+      });
+    }
+
     return {
       taskId,
       totalTokens,
       indexingCost,
       chapterCount: outline.chapters.length,
+      sectionCount: getSelectableChapters(outline).length,
+      fromStructure: structureOutline !== null,
     };
   }
 );
 
+/** 按大纲生成的重试次数（每个分块步骤单独计算） */
+const OUTLINE_GENERATION_RETRIES = 2;
+
+/** 同时生成的分块数 */
+const CHUNK_CONCURRENCY = 4;
+
 /**
  * 根据大纲选择生成闪卡（大文件优化 Phase B）
  *
- * 流程：
- * 1. 验证并扣除积分
- * 2. 从缓存的全文提取选定章节文本
+ * 流程（积分已在 Server Action 中预扣）：
+ * 1. 验证任务
+ * 2. 从缓存的全文提取选定章节（或选定页码范围）的文本
  * 3. 分块处理（~3500 token/块）
- * 4. 并行调用 LLM 生成闪卡
- * 5. 合并去重并保存
+ * 4. 每个分块一个持久化步骤，分批并行调用 LLM 生成闪卡
+ * 5. 合并近似重复卡片，按质量过滤和标记
+ * 6. 保存并确认扣费
  *
- * 积分消耗 = 根据选定章节 token 数计算
+ * 分块单独重试，重试耗尽的分块记为失败，其余分块的卡片照常保存；
+ * 用户可重新生成失败分块（retryFailedChunks），卡片追加到任务的牌组，不再扣费
+ *
+ * 追加生成的子任务（parentTaskId）从原任务读取全文，
+ * 卡片追加到原牌组并跳过与牌组已有卡片重复的卡片
+ *
+ * 积分消耗 = 根据选定章节 token 数计算，失败或无产出时退回
  */
 export const generateFromOutline = inngest.createFunction(
   {
@@ -339,11 +691,25 @@ export const generateFromOutline = inngest.createFunction(
       limit: 10,
       key: "event.data.userPlan",
     },
-    retries: 2,
+    retries: OUTLINE_GENERATION_RETRIES,
+    onFailure: async ({ event, error }) => {
+      const { taskId, retryFailedChunks } = event.data.event.data;
+      if (retryFailedChunks) {
+        await restoreRetriedTask(taskId, error.message);
+        return;
+      }
+      await failTaskAndRefund(taskId, "generation", error.message);
+    },
   },
   { event: "flashcard/generate-from-outline" },
-  async ({ event, step }) => {
-    const { taskId, userId, selectedChapters, creditsCost } = event.data;
+  async ({ event, step, attempt, maxAttempts }) => {
+    const {
+      taskId,
+      userId,
+      selectedChapters,
+      selectedPages,
+      retryFailedChunks,
+    } = event.data;
 
     // Step 1: 获取任务并验证
     const task = await step.run("get-task", async () => {
@@ -351,133 +717,306 @@ export const generateFromOutline = inngest.createFunction(
         where: eq(generationTask.id, taskId),
       });
       if (!t) throw new Error("Task not found");
-      if (t.status !== "outline_ready") {
-        throw new Error(`Invalid task status: ${t.status}`);
+      // Server Action 提交时已将任务锁定为 generating
+      if (t.status !== "generating") {
+        throw new NonRetriableError(`Invalid task status: ${t.status}`);
       }
-      if (!t.documentOutline || !t.documentText) {
+
+      // 追加生成：文档全文从原分析任务读取
+      let documentText = t.documentText;
+      if (t.parentTaskId) {
+        const parent = await db.query.generationTask.findFirst({
+          where: eq(generationTask.id, t.parentTaskId),
+          columns: { documentText: true },
+        });
+        documentText = parent?.documentText ?? null;
+      }
+
+      if (!t.documentOutline || !documentText) {
         throw new Error("Missing document outline or text");
       }
-      return t;
+      return { ...t, documentText };
     });
 
-    // Step 2: 更新任务状态为生成中
-    await step.run("update-task-generating", async () => {
+    // 选定章节或页码范围的文本（纯计算，每次执行时从缓存的全文重新提取）
+    const outline = task.documentOutline as DocumentOutline;
+    const selection = selectedPages?.length
+      ? extractSelectedPages(
+          task.documentText as string,
+          outline,
+          selectedPages
+        )
+      : extractSelectedChapters(
+          task.documentText as string,
+          outline,
+          selectedChapters
+        );
+
+    // Step 2: 选定章节文本分块
+    const chunks = await step.run("extract-and-chunk", async () => {
+      const textChunks = splitIntoChunks(selection.text, {
+        maxTokens: 3500,
+        overlap: 200,
+        strategy: "paragraph",
+      });
+
+      // 更新总分块数（重新生成失败分块时保留已完成分块的进度）
       await db
         .update(generationTask)
-        .set({
-          status: "generating",
-          selectedChapters: selectedChapters,
-        })
+        .set({ totalChunks: textChunks.length })
         .where(eq(generationTask.id, taskId));
+      await updateChunkProgress(taskId);
+
+      return textChunks;
     });
 
-    // Step 3: 扣除积分
-    await step.run("deduct-credits", async () => {
-      const balance = await db.query.creditsBalance.findFirst({
-        where: eq(creditsBalance.userId, userId),
+    // 卡片来源定位：分块位置经章节映射回原文
+    const grounding: GroundingContext = {
+      taskId,
+      text: selection.text,
+      segments: selection.segments,
+      charsPerPage: isPdfFilename(task.sourceFilename)
+        ? ESTIMATED_CHARS_PER_PAGE
+        : null,
+      pageOffsets: outline.pages?.map((page) => page.textRange.start) ?? null,
+    };
+
+    // 生成选项：事件中未携带时使用任务保存的选项
+    const options = resolveGenerationOptions(
+      event.data.options ?? task.generationOptions
+    );
+
+    // 按分块 tokens 比例分配目标卡片数（auto 模式由模型决定）
+    const target = resolveCardTarget(
+      options,
+      chunks.reduce((sum, chunk) => sum + chunk.tokenCount, 0)
+    );
+    const chunkTargets =
+      target === null
+        ? null
+        : distributeCardTarget(
+            target,
+            chunks.map((chunk) => chunk.tokenCount)
+          );
+
+    // 记录每次 LLM 调用的实际用量
+    const onUsage = recordTaskUsage(taskId, userId, "flashcards");
+
+    /**
+     * 生成单个分块的闪卡并保存分块结果（用于实时预览和重新生成）
+     *
+     * 已有完成记录的分块直接复用；生成失败时抛出由 Inngest 单独重试该分块，
+     * 重试耗尽后记录失败并返回 null，不影响其他分块
+     */
+    const generateChunk = async (index: number) => {
+      const existing = await db.query.generationChunk.findFirst({
+        where: and(
+          eq(generationChunk.taskId, taskId),
+          eq(generationChunk.chunkIndex, index),
+          eq(generationChunk.status, "completed")
+        ),
       });
+      if (existing) {
+        return (existing.cards ?? []) as Flashcard[];
+      }
 
-      if (!balance || balance.balance < creditsCost) {
-        throw new Error("Insufficient credits");
+      const chunk = chunks[index];
+      if (!chunk) {
+        throw new NonRetriableError(`Chunk ${index} not found`);
+      }
+
+      let cards: Flashcard[];
+      try {
+        const chunkTarget = chunkTargets ? (chunkTargets[index] ?? 0) : null;
+        cards =
+          chunkTarget === 0
+            ? []
+            : groundFlashcards(
+                await generateFlashcardsFromText(
+                  chunk.text,
+                  chunkTarget ?? 30,
+                  options,
+                  chunkTarget,
+                  onUsage
+                ),
+                chunk.text,
+                chunk.startOffset,
+                grounding
+              );
+      } catch (error) {
+        console.error(`Error generating chunk ${index}:`, error);
+        if (attempt + 1 < (maxAttempts ?? OUTLINE_GENERATION_RETRIES + 1)) {
+          throw error;
+        }
+
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        await db
+          .insert(generationChunk)
+          .values({
+            id: nanoid(),
+            taskId,
+            chunkIndex: index,
+            status: "failed",
+            errorMessage,
+          })
+          .onConflictDoUpdate({
+            target: [generationChunk.taskId, generationChunk.chunkIndex],
+            set: { status: "failed", errorMessage },
+          });
+        await updateChunkProgress(taskId);
+        return null;
       }
 
       await db
-        .update(creditsBalance)
-        .set({
-          balance: balance.balance - creditsCost,
-          totalSpent: balance.totalSpent + creditsCost,
-          updatedAt: new Date(),
+        .insert(generationChunk)
+        .values({
+          id: nanoid(),
+          taskId,
+          chunkIndex: index,
+          status: "completed",
+          cardCount: cards.length,
+          cards,
         })
-        .where(eq(creditsBalance.userId, userId));
+        .onConflictDoUpdate({
+          target: [generationChunk.taskId, generationChunk.chunkIndex],
+          set: {
+            status: "completed",
+            cardCount: cards.length,
+            cards,
+            errorMessage: null,
+          },
+        });
+      await updateChunkProgress(taskId);
 
-      await db.insert(creditsTransaction).values({
-        id: nanoid(),
-        userId,
-        type: "consumption",
-        amount: creditsCost,
-        debitAccount: "user_balance",
-        creditAccount: "flashcard_generation",
-        description: `Flashcard generation from file (${selectedChapters.length} chapters)`,
-        metadata: { taskId, selectedChapters },
+      return cards;
+    };
+
+    // Step 3: 需要生成的分块（重新生成失败分块时跳过已完成的分块）
+    const pendingChunks = await step.run("find-pending-chunks", async () => {
+      if (!retryFailedChunks) {
+        return chunks.map((_, index) => index);
+      }
+      const completed = await db.query.generationChunk.findMany({
+        where: and(
+          eq(generationChunk.taskId, taskId),
+          eq(generationChunk.status, "completed")
+        ),
+        columns: { chunkIndex: true },
       });
+      const completedIndexes = new Set(completed.map((c) => c.chunkIndex));
+      return chunks
+        .map((_, index) => index)
+        .filter((index) => !completedIndexes.has(index));
     });
 
-    // Step 4: 提取选定章节文本并分块
-    const chunks = await step.run("extract-and-chunk", async () => {
-      const outline = task.documentOutline as DocumentOutline;
-      const selectedText = extractSelectedChaptersText(
-        task.documentText as string,
-        outline,
-        selectedChapters
+    // Step 4: 每个分块一个持久化步骤，分批并行（重试只重新生成失败的分块）
+    const chunkResults: (Flashcard[] | null)[] = [];
+    for (
+      let start = 0;
+      start < pendingChunks.length;
+      start += CHUNK_CONCURRENCY
+    ) {
+      const batch = pendingChunks.slice(start, start + CHUNK_CONCURRENCY);
+      chunkResults.push(
+        ...(await Promise.all(
+          batch.map((index) =>
+            step.run(`generate-chunk-${index}`, () => generateChunk(index))
+          )
+        ))
       );
+    }
 
-      const textChunks = splitIntoChunks(selectedText, {
-        maxTokens: 3500,
-        overlap: 200,
-        strategy: "paragraph",
-      });
+    const allFlashcards = chunkResults.flatMap((cards) => cards ?? []);
 
-      // 更新总分块数
-      await db
-        .update(generationTask)
-        .set({
-          totalChunks: textChunks.length,
-          completedChunks: 0,
-        })
-        .where(eq(generationTask.id, taskId));
+    // 所有分块都未生成卡片：不重试，由 onFailure 退回积分
+    if (allFlashcards.length === 0) {
+      throw new NonRetriableError(
+        "No flashcards could be generated from the selected chapters"
+      );
+    }
 
-      return textChunks;
+    // Step 5: 合并分块重叠产生的近似重复卡片，按质量过滤和标记
+    // 追加到已有牌组时同时去掉与牌组中已有卡片重复的卡片
+    const dedupedCards = await step.run("postprocess-cards", async () => {
+      const existingCards = task.deckId
+        ? await db.query.card.findMany({
+            where: eq(card.deckId, task.deckId),
+            columns: { cardType: true, front: true, back: true },
+          })
+        : [];
+      return postprocessFlashcards(allFlashcards, { existingCards }).cards;
     });
 
-    // Step 5: 并行生成每个分块的闪卡
-    const allFlashcards = await step.run("generate-all-chunks", async () => {
-      const results = await Promise.all(
-        chunks.map(async (chunk, index) => {
-          try {
-            const cards = await generateFlashcardsFromText(chunk.text, 30);
-
-            // 更新进度
-            await db
-              .update(generationTask)
-              .set({
-                completedChunks: index + 1,
-              })
-              .where(eq(generationTask.id, taskId));
-
-            return cards;
-          } catch (error) {
-            console.error(`Error generating chunk ${index}:`, error);
-            return [];
-          }
-        })
+    if (dedupedCards.length === 0) {
+      throw new NonRetriableError(
+        "All generated flashcards duplicate cards already in the deck"
       );
+    }
 
-      return results.flat();
-    });
-
-    // Step 6: 去重并保存
+    // Step 6: 保存
     const result = await step.run("save-to-database", async () => {
-      // 简单去重：基于 front 内容
-      const uniqueCards = new Map<
-        string,
-        { front: string; back: string }
-      >();
-      for (const card of allFlashcards) {
-        const key = card.front.toLowerCase().trim();
-        if (!uniqueCards.has(key)) {
-          uniqueCards.set(key, card);
-        }
+      // 追加生成或重新生成失败分块：写入已有牌组（牌组已被删除时改为新建）
+      const targetDeck = task.deckId
+        ? await db.query.deck.findFirst({
+            where: eq(deck.id, task.deckId),
+            columns: { id: true },
+          })
+        : undefined;
+
+      if (targetDeck) {
+        const lastCard = await db.query.card.findFirst({
+          where: eq(card.deckId, targetDeck.id),
+          orderBy: (card, { desc }) => [desc(card.sortIndex)],
+          columns: { sortIndex: true },
+        });
+        const firstIndex = (lastCard?.sortIndex ?? -1) + 1;
+
+        await db.insert(card).values(
+          dedupedCards.map((fc, index) => ({
+            id: nanoid(),
+            deckId: targetDeck.id,
+            cardType: fc.cardType,
+            front: fc.front,
+            back: fc.back,
+            options: fc.options ?? null,
+            tags: fc.tags ?? null,
+            sourceRef: fc.sourceRef ?? null,
+            image: fc.image ?? null,
+            sortIndex: firstIndex + index,
+          }))
+        );
+
+        await db
+          .update(deck)
+          .set({
+            cardCount: sql`${deck.cardCount} + ${dedupedCards.length}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(deck.id, targetDeck.id));
+
+        await db
+          .update(generationTask)
+          .set({
+            status: "completed",
+            cardCount: sql`${generationTask.cardCount} + ${dedupedCards.length}`,
+            errorMessage: null,
+            completedAt: new Date(),
+          })
+          .where(eq(generationTask.id, taskId));
+
+        return { deckId: targetDeck.id, cardCount: dedupedCards.length };
       }
-      const dedupedCards = Array.from(uniqueCards.values());
 
       // 创建牌组
       const deckId = nanoid();
-      const outline = task.documentOutline as DocumentOutline;
-      const selectedTitles = outline.chapters
-        .filter((ch) => selectedChapters.includes(ch.index))
-        .map((ch) => ch.title)
-        .slice(0, 3)
-        .join(", ");
+      const selectedTitles = selectedPages?.length
+        ? formatPageRangeTitle(selectedPages)
+        : getSelectableChapters(outline)
+            .filter((ch) => selectedChapters.includes(ch.index))
+            .map((ch) => ch.title)
+            .slice(0, 3)
+            .join(", ");
 
       const deckTitle = task.sourceFilename
         ? `${task.sourceFilename} - ${selectedTitles}`
@@ -496,8 +1035,13 @@ export const generateFromOutline = inngest.createFunction(
       const cardValues = dedupedCards.map((fc, index) => ({
         id: nanoid(),
         deckId,
+        cardType: fc.cardType,
         front: fc.front,
         back: fc.back,
+        options: fc.options ?? null,
+        tags: fc.tags ?? null,
+        sourceRef: fc.sourceRef ?? null,
+        image: fc.image ?? null,
         sortIndex: index,
       }));
 
@@ -519,10 +1063,188 @@ export const generateFromOutline = inngest.createFunction(
       return { deckId, cardCount: dedupedCards.length };
     });
 
+    // Step 7: 确认扣费（重新生成失败分块时积分已确认，不再扣费）
+    await step.run("capture-credits", async () => {
+      await captureCredits(taskCreditsReference(taskId, "generation"));
+    });
+
     return result;
   }
 );
 
+/** 导入时单次批量插入的行数 */
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * 导入 Anki 牌组（.apkg / .colpkg）
+ *
+ * 流程：
+ * 1. 从存储下载文件并解析 SQLite 集合
+ * 2. 将笔记转换为卡片，按 Anki 牌组（含子牌组全名）创建牌组
+ * 3. 可选：保留调度状态和复习记录
+ * 4. 保存导入报告（跳过的笔记、不支持的模板、未导入的媒体）
+ *
+ * 导入不调用 LLM，不扣除积分
+ */
+export const importAnkiDeck = inngest.createFunction(
+  {
+    id: "import-anki-deck",
+    concurrency: {
+      limit: 5,
+    },
+    retries: 1,
+    onFailure: async ({ event, error }) => {
+      await db
+        .update(deckImport)
+        .set({
+          status: "failed",
+          errorMessage: error.message,
+          completedAt: new Date(),
+        })
+        .where(eq(deckImport.id, event.data.event.data.importId));
+    },
+  },
+  { event: "deck/import-anki" },
+  async ({ event, step }) => {
+    const { importId, userId, fileKey, sourceFilename, includeScheduling } =
+      event.data;
+
+    // Step 1: 更新任务状态为处理中
+    await step.run("update-import-processing", async () => {
+      await db
+        .update(deckImport)
+        .set({ status: "processing", startedAt: new Date() })
+        .where(eq(deckImport.id, importId));
+    });
+
+    // Step 2: 解析并写入数据库（解析结果较大，不跨 step 传递）
+    return await step.run("import-notes", async () => {
+      const buffer = await getStorageProvider().getObject(
+        fileKey,
+        process.env.STORAGE_BUCKET_NAME || "ankigenix-uploads"
+      );
+      const pkg = await readAnkiPackage(new Uint8Array(buffer));
+      const plan = planAnkiImport(pkg, includeScheduling);
+
+      const report: AnkiImportReport = {
+        decks: [],
+        skipped: plan.skipped,
+        unsupportedModels: plan.unsupportedModels,
+        mediaSkipped: pkg.mediaCount,
+        scheduledCards: 0,
+        reviewLogs: 0,
+      };
+
+      if (plan.decks.length === 0) {
+        await db
+          .update(deckImport)
+          .set({
+            status: "failed",
+            noteCount: pkg.notes.length,
+            skippedCount: plan.skippedCount,
+            report,
+            errorMessage: "No supported notes found in this package",
+            completedAt: new Date(),
+          })
+          .where(eq(deckImport.id, importId));
+        return { deckIds: [], cardCount: 0 };
+      }
+
+      const cardRows: (typeof card.$inferInsert)[] = [];
+      const scheduleRows: (typeof cardSchedule.$inferInsert)[] = [];
+      const reviewRows: (typeof reviewLog.$inferInsert)[] = [];
+      const deckRows: (typeof deck.$inferInsert)[] = [];
+
+      for (const ankiDeck of plan.decks) {
+        const deckId = nanoid();
+        deckRows.push({
+          id: deckId,
+          userId,
+          title: ankiDeck.name,
+          description: `Imported from ${sourceFilename}`,
+          sourceType: "file",
+          cardCount: ankiDeck.items.length,
+        });
+        report.decks.push({
+          deckId,
+          title: ankiDeck.name,
+          cardCount: ankiDeck.items.length,
+        });
+
+        ankiDeck.items.forEach((item, index) => {
+          const cardId = nanoid();
+          cardRows.push({
+            id: cardId,
+            deckId,
+            cardType: item.content.cardType,
+            front: item.content.front,
+            back: item.content.back,
+            options: item.content.options ?? null,
+            tags: item.tags.length > 0 ? item.tags : null,
+            sortIndex: index,
+          });
+
+          if (item.schedule) {
+            scheduleRows.push({
+              id: nanoid(),
+              userId,
+              cardId,
+              ...item.schedule,
+            });
+          }
+          for (const review of item.reviews) {
+            reviewRows.push({
+              id: nanoid(),
+              userId,
+              cardId,
+              deckId,
+              ...review,
+            });
+          }
+        });
+      }
+
+      report.scheduledCards = scheduleRows.length;
+      report.reviewLogs = reviewRows.length;
+      const deckIds = report.decks.map((d) => d.deckId);
+
+      await db.transaction(async (tx) => {
+        await tx.insert(deck).values(deckRows);
+        for (let i = 0; i < cardRows.length; i += IMPORT_BATCH_SIZE) {
+          await tx
+            .insert(card)
+            .values(cardRows.slice(i, i + IMPORT_BATCH_SIZE));
+        }
+        for (let i = 0; i < scheduleRows.length; i += IMPORT_BATCH_SIZE) {
+          await tx
+            .insert(cardSchedule)
+            .values(scheduleRows.slice(i, i + IMPORT_BATCH_SIZE));
+        }
+        for (let i = 0; i < reviewRows.length; i += IMPORT_BATCH_SIZE) {
+          await tx
+            .insert(reviewLog)
+            .values(reviewRows.slice(i, i + IMPORT_BATCH_SIZE));
+        }
+
+        await tx
+          .update(deckImport)
+          .set({
+            status: "completed",
+            deckIds,
+            noteCount: pkg.notes.length,
+            cardCount: cardRows.length,
+            skippedCount: plan.skippedCount,
+            report,
+            completedAt: new Date(),
+          })
+          .where(eq(deckImport.id, importId));
+      });
+
+      return { deckIds, cardCount: cardRows.length };
+    });
+  }
+);
+
 /**
  * 导出所有 Inngest 函数
  */
@@ -530,4 +1252,5 @@ export const functions = [
   generateFlashcards,
   analyzeDocument,
   generateFromOutline,
+  importAnkiDeck,
 ];
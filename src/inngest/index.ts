@@ -4,4 +4,5 @@ export {
   functions,
   generateFlashcards,
   generateFromOutline,
+  importAnkiDeck,
 } from "./functions";
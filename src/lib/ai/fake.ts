@@ -0,0 +1,205 @@
+import type OpenAI from "openai";
+import { countTokens } from "./tokenizer";
+
+/**
+ * 确定性的假 LLM 提供商
+ *
+ * 通过自定义 fetch 模拟 OpenAI 兼容的 Chat Completions 接口（含流式响应），
+ * 不访问网络，相同输入总是得到相同输出
+ *
+ * 用于单元测试和无 API Key 的本地开发（AI_PROVIDER=fake）；
+ * 测试中可通过 setFakeResponder 指定每次调用的响应
+ */
+
+/** 假提供商 ID */
+export const FAKE_PROVIDER_ID = "fake";
+
+/**
+ * 假提供商的单次响应
+ *
+ * @field content - 响应文本
+ * @field finishReason - 结束原因（length 模拟输出被截断）
+ */
+export interface FakeCompletion {
+  content: string;
+  finishReason?: "stop" | "length";
+}
+
+/**
+ * 根据请求生成响应
+ */
+export type FakeResponder = (
+  request: OpenAI.Chat.ChatCompletionCreateParams
+) => string | FakeCompletion;
+
+/** 未从文本中提取到句子时的默认卡片数 */
+const DEFAULT_FAKE_CARDS = 5;
+
+/** 作为卡片答案的最短句子长度 */
+const MIN_SENTENCE_LENGTH = 20;
+
+let currentResponder: FakeResponder | null = null;
+
+/**
+ * 设置响应函数（null 恢复默认响应）
+ */
+export function setFakeResponder(responder: FakeResponder | null): void {
+  currentResponder = responder;
+}
+
+/**
+ * 按顺序返回给定响应的响应函数（用完后重复最后一个）
+ */
+export function fakeResponseSequence(
+  responses: (string | FakeCompletion)[]
+): FakeResponder {
+  let index = 0;
+  return () => {
+    const response = responses[Math.min(index, responses.length - 1)];
+    index++;
+    return response ?? "";
+  };
+}
+
+/**
+ * 提取消息的文本内容
+ */
+function messageText(
+  message: OpenAI.Chat.ChatCompletionMessageParam | undefined
+): string {
+  if (!message?.content) return "";
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((part) => ("text" in part ? part.text : ""))
+    .join("");
+}
+
+/**
+ * 默认响应
+ *
+ * - 要求 JSON 输出时：把用户消息中的每个句子转换为一张问答卡
+ * - 其他请求：回显用户消息
+ */
+export function defaultFakeResponder(
+  request: OpenAI.Chat.ChatCompletionCreateParams
+): string {
+  const userMessage = messageText(
+    request.messages.findLast((message) => message.role === "user")
+  );
+
+  if (!request.response_format) {
+    return `Fake response to: ${userMessage.slice(0, 200)}`;
+  }
+
+  const maxCards = Number(
+    /maximum (\d+) cards/.exec(userMessage)?.[1] ?? DEFAULT_FAKE_CARDS
+  );
+  const content = userMessage.slice(userMessage.indexOf("\n\n") + 1);
+  const sentences = content
+    .split(/(?<=[.!?。！？])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length >= MIN_SENTENCE_LENGTH)
+    .slice(0, maxCards);
+
+  const cards = sentences.map((sentence) => ({
+    cardType: "basic",
+    front: `What does the text say about "${sentence.split(/\s+/).slice(0, 6).join(" ")}"?`,
+    back: sentence,
+    options: null,
+    sourceQuote: sentence,
+  }));
+  return JSON.stringify({ cards });
+}
+
+/**
+ * 构建非流式响应
+ */
+function completionResponse(
+  request: OpenAI.Chat.ChatCompletionCreateParams,
+  completion: FakeCompletion,
+  usage: OpenAI.CompletionUsage
+): Response {
+  const body: OpenAI.Chat.ChatCompletion = {
+    id: "chatcmpl-fake",
+    object: "chat.completion",
+    created: 0,
+    model: request.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: completion.content,
+          refusal: null,
+        },
+        finish_reason: completion.finishReason ?? "stop",
+        logprobs: null,
+      },
+    ],
+    usage,
+  };
+  return Response.json(body);
+}
+
+/**
+ * 构建流式响应（SSE，整段内容作为一个分块）
+ */
+function streamResponse(
+  request: OpenAI.Chat.ChatCompletionCreateParams,
+  completion: FakeCompletion,
+  usage: OpenAI.CompletionUsage
+): Response {
+  const chunk = (
+    delta: OpenAI.Chat.ChatCompletionChunk.Choice.Delta,
+    finishReason: OpenAI.Chat.ChatCompletionChunk.Choice["finish_reason"]
+  ): OpenAI.Chat.ChatCompletionChunk => ({
+    id: "chatcmpl-fake",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: request.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  const events = [
+    chunk({ role: "assistant", content: completion.content }, null),
+    { ...chunk({}, completion.finishReason ?? "stop"), usage },
+  ];
+  const body = `${events
+    .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+    .join("")}data: [DONE]\n\n`;
+
+  return new Response(body, {
+    headers: { "Content-Type": "text/event-stream" },
+  });
+}
+
+/**
+ * 模拟 Chat Completions 接口的 fetch
+ *
+ * 传给 OpenAI SDK 或 AI SDK 的 fetch 选项使用
+ */
+export async function fakeFetch(
+  _input: string | URL | Request,
+  init?: RequestInit
+): Promise<Response> {
+  const request = JSON.parse(
+    typeof init?.body === "string" ? init.body : "{}"
+  ) as OpenAI.Chat.ChatCompletionCreateParams;
+
+  const result = (currentResponder ?? defaultFakeResponder)(request);
+  const completion = typeof result === "string" ? { content: result } : result;
+
+  const promptTokens = countTokens(
+    request.messages.map((message) => messageText(message)).join("\n")
+  );
+  const completionTokens = countTokens(completion.content);
+  const usage: OpenAI.CompletionUsage = {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+
+  return request.stream
+    ? streamResponse(request, completion, usage)
+    : completionResponse(request, completion, usage);
+}
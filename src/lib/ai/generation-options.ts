@@ -0,0 +1,228 @@
+/**
+ * 闪卡生成选项
+ *
+ * 由生成表单选择，随 Server Action → Inngest 事件 → Prompt 构建器传递
+ * 计费仍按 Input Tokens 计算（见 src/config/pricing.ts），与选项无关
+ */
+
+import { type CardType, isCardType } from "@/lib/cards";
+
+// ============================================
+// 选项定义
+// ============================================
+
+/** 卡片数量模式：自动 / 固定数量 / 按密度（每千 tokens） */
+export const CARD_COUNT_MODES = ["auto", "count", "density"] as const;
+export type CardCountMode = (typeof CARD_COUNT_MODES)[number];
+
+/** 难度等级 */
+export const DIFFICULTY_LEVELS = [
+  "beginner",
+  "intermediate",
+  "advanced",
+] as const;
+export type DifficultyLevel = (typeof DIFFICULTY_LEVELS)[number];
+
+/** 内容侧重 */
+export const GENERATION_FOCUSES = [
+  "balanced",
+  "definitions",
+  "concepts",
+  "facts",
+  "applications",
+] as const;
+export type GenerationFocus = (typeof GENERATION_FOCUSES)[number];
+
+/** 输出语言（auto 表示与原文一致） */
+export const OUTPUT_LANGUAGES = [
+  { value: "auto", label: "Same as source" },
+  { value: "English", label: "English" },
+  { value: "Chinese (Simplified)", label: "简体中文" },
+  { value: "Chinese (Traditional)", label: "繁體中文" },
+  { value: "Japanese", label: "日本語" },
+  { value: "Korean", label: "한국어" },
+  { value: "Spanish", label: "Español" },
+  { value: "French", label: "Français" },
+  { value: "German", label: "Deutsch" },
+] as const;
+
+/** 选项取值范围 */
+export const GENERATION_LIMITS = {
+  /** 固定数量模式的最小 / 最大卡片数 */
+  minCardCount: 1,
+  maxCardCount: 300,
+  /** 密度模式的最小 / 最大值（每千 tokens 卡片数） */
+  minDensity: 0.5,
+  maxDensity: 10,
+  /** 单次 LLM 请求最多生成的卡片数 */
+  maxCardsPerRequest: 50,
+  /** 自定义指令最大长度 */
+  maxCustomInstructions: 1000,
+} as const;
+
+/**
+ * 生成选项
+ *
+ * @field countMode - 卡片数量模式
+ * @field cardCount - 目标卡片数（countMode 为 count 时生效）
+ * @field density - 每千 tokens 卡片数（countMode 为 density 时生效）
+ * @field difficulty - 难度等级
+ * @field cardTypes - 允许生成的卡片类型
+ * @field language - 输出语言（auto 为与原文一致）
+ * @field focus - 内容侧重
+ * @field customInstructions - 自定义指令
+ */
+export interface GenerationOptions {
+  countMode: CardCountMode;
+  cardCount: number;
+  density: number;
+  difficulty: DifficultyLevel;
+  cardTypes: CardType[];
+  language: string;
+  focus: GenerationFocus;
+  customInstructions: string;
+}
+
+/** 默认生成选项（与引入选项前的行为一致） */
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  countMode: "auto",
+  cardCount: 20,
+  density: 4,
+  difficulty: "intermediate",
+  cardTypes: ["basic"],
+  language: "auto",
+  focus: "balanced",
+  customInstructions: "",
+};
+
+// ============================================
+// 工具函数
+// ============================================
+
+/**
+ * 合并部分选项与默认值
+ *
+ * 用于读取旧任务（无选项）或 Inngest 事件中的选项，忽略非法值
+ */
+export function resolveGenerationOptions(
+  partial?: Partial<GenerationOptions> | null
+): GenerationOptions {
+  if (!partial) {
+    return { ...DEFAULT_GENERATION_OPTIONS };
+  }
+
+  const pick = <T extends string>(
+    values: readonly T[],
+    value: unknown,
+    fallback: T
+  ): T => (values.includes(value as T) ? (value as T) : fallback);
+
+  const cardTypes = Array.isArray(partial.cardTypes)
+    ? partial.cardTypes.filter(isCardType)
+    : [];
+
+  return {
+    countMode: pick(
+      CARD_COUNT_MODES,
+      partial.countMode,
+      DEFAULT_GENERATION_OPTIONS.countMode
+    ),
+    cardCount: clamp(
+      partial.cardCount ?? DEFAULT_GENERATION_OPTIONS.cardCount,
+      GENERATION_LIMITS.minCardCount,
+      GENERATION_LIMITS.maxCardCount
+    ),
+    density: clamp(
+      partial.density ?? DEFAULT_GENERATION_OPTIONS.density,
+      GENERATION_LIMITS.minDensity,
+      GENERATION_LIMITS.maxDensity
+    ),
+    difficulty: pick(
+      DIFFICULTY_LEVELS,
+      partial.difficulty,
+      DEFAULT_GENERATION_OPTIONS.difficulty
+    ),
+    cardTypes:
+      cardTypes.length > 0
+        ? [...new Set(cardTypes)]
+        : DEFAULT_GENERATION_OPTIONS.cardTypes,
+    language:
+      typeof partial.language === "string" && partial.language.trim()
+        ? partial.language.trim()
+        : DEFAULT_GENERATION_OPTIONS.language,
+    focus: pick(
+      GENERATION_FOCUSES,
+      partial.focus,
+      DEFAULT_GENERATION_OPTIONS.focus
+    ),
+    customInstructions: (partial.customInstructions ?? "")
+      .trim()
+      .slice(0, GENERATION_LIMITS.maxCustomInstructions),
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * 计算目标卡片总数
+ *
+ * @param options - 生成选项
+ * @param totalTokens - 源内容总 tokens
+ * @returns 目标卡片数；auto 模式返回 null（由模型按内容决定）
+ */
+export function resolveCardTarget(
+  options: GenerationOptions,
+  totalTokens: number
+): number | null {
+  if (options.countMode === "count") {
+    return Math.round(options.cardCount);
+  }
+  if (options.countMode === "density") {
+    return Math.max(
+      GENERATION_LIMITS.minCardCount,
+      Math.min(
+        GENERATION_LIMITS.maxCardCount,
+        Math.round((totalTokens / 1000) * options.density)
+      )
+    );
+  }
+  return null;
+}
+
+/**
+ * 按各分块 tokens 比例分配目标卡片数
+ *
+ * 使用最大余数法保证总和等于目标；单块不超过单次请求上限
+ *
+ * @param target - 目标卡片总数
+ * @param chunkTokens - 各分块 tokens
+ * @returns 各分块的卡片数
+ */
+export function distributeCardTarget(
+  target: number,
+  chunkTokens: number[]
+): number[] {
+  const total = chunkTokens.reduce((sum, t) => sum + t, 0);
+  if (chunkTokens.length === 0) return [];
+  if (total === 0) {
+    return chunkTokens.map((_, i) => (i === 0 ? target : 0));
+  }
+
+  const exact = chunkTokens.map((t) => (target * t) / total);
+  const counts = exact.map(Math.floor);
+  let remaining = target - counts.reduce((sum, c) => sum + c, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    counts[index] = (counts[index] ?? 0) + 1;
+    remaining--;
+  }
+
+  return counts.map((c) => Math.min(c, GENERATION_LIMITS.maxCardsPerRequest));
+}
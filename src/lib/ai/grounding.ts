@@ -0,0 +1,187 @@
+import type { CardSourceRef } from "@/lib/cards";
+import { extractTerms } from "@/lib/transcripts/segments";
+import type { Flashcard } from "./openai";
+import { findPageNumber } from "./outline-structure";
+
+/**
+ * 卡片来源定位
+ *
+ * 模型为每张卡片给出原文引用（sourceQuote），在生成该卡片的文本中查找：
+ * 1. 精确匹配引用
+ * 2. 忽略大小写和空白差异匹配
+ * 3. 取与引用（或卡片内容）词重合最多的句子
+ *
+ * 分块文本经过规范化（段落 trim、重叠），分块偏移只是近似位置，
+ * 因此找到的段落再回到完整生成文本中查找，经 SourceSegment 映射回原文
+ */
+
+/** 引用片段最大长度（字符） */
+const MAX_SNIPPET_LENGTH = 500;
+
+/** 精确匹配的最短引用长度（过短的引用容易误匹配） */
+const MIN_QUOTE_LENGTH = 10;
+
+/** 在完整文本中查找段落时，从分块偏移往前放宽的范围（字符） */
+const OFFSET_SLACK = 2000;
+
+/**
+ * 生成文本中的一段与原文位置的对应关系
+ *
+ * @field chapterIndex - 大纲章节索引（整篇文档时为 null）
+ * @field chapterTitle - 章节标题
+ * @field textStart - 在生成文本中的起始偏移
+ * @field docStart - 在原文中的起始偏移
+ * @field length - 长度（字符）
+ */
+export interface SourceSegment {
+  chapterIndex: number | null;
+  chapterTitle: string | null;
+  textStart: number;
+  docStart: number;
+  length: number;
+}
+
+/**
+ * 定位来源所需的上下文
+ *
+ * @field taskId - 生成任务 ID
+ * @field text - 完整生成文本（分块前）
+ * @field segments - 生成文本各段与原文的对应关系
+ * @field charsPerPage - 每页字符数（仅 PDF 估算页码，其他来源为 null）
+ * @field pageOffsets - 每页起始字符偏移（PDF 有真实分页时使用，优先于 charsPerPage）
+ */
+export interface GroundingContext {
+  taskId: string;
+  text: string;
+  segments: SourceSegment[];
+  charsPerPage: number | null;
+  pageOffsets?: number[] | null;
+}
+
+/**
+ * 整篇文档作为生成文本时的对应关系
+ */
+export function wholeDocumentSegments(length: number): SourceSegment[] {
+  return [
+    {
+      chapterIndex: null,
+      chapterTitle: null,
+      textStart: 0,
+      docStart: 0,
+      length,
+    },
+  ];
+}
+
+/**
+ * 转义正则特殊字符
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 在文本中定位卡片的来源段落
+ *
+ * @param text - 生成该卡片的文本
+ * @param card - 卡片（含模型给出的 sourceQuote）
+ * @returns 段落在 text 中的范围，无法定位时返回 null
+ */
+export function locatePassage(
+  text: string,
+  card: Pick<Flashcard, "front" | "back" | "sourceQuote">
+): { start: number; end: number } | null {
+  const quote = card.sourceQuote?.trim() ?? "";
+
+  if (quote.length >= MIN_QUOTE_LENGTH) {
+    const exact = text.indexOf(quote);
+    if (exact !== -1) {
+      return { start: exact, end: exact + quote.length };
+    }
+
+    const words = quote.split(/\s+/).map(escapeRegExp);
+    const loose = new RegExp(words.join("\\s+"), "i").exec(text);
+    if (loose) {
+      return { start: loose.index, end: loose.index + loose[0].length };
+    }
+  }
+
+  // 取与引用（或卡片内容）词重合最多的句子
+  const target = extractTerms(quote || `${card.front} ${card.back}`);
+  let best: { start: number; end: number } | null = null;
+  let bestScore = 0;
+
+  for (const match of text.matchAll(/[^.!?。！？\n]+[.!?。！？]*/g)) {
+    let score = 0;
+    for (const term of extractTerms(match[0])) {
+      if (target.has(term)) score++;
+    }
+    if (score > bestScore) {
+      const leading = match[0].length - match[0].trimStart().length;
+      const start = (match.index ?? 0) + leading;
+      bestScore = score;
+      best = { start, end: start + match[0].trim().length };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * 为卡片添加来源引用
+ *
+ * @param cards - 从同一分块生成的卡片
+ * @param chunkText - 分块文本
+ * @param chunkOffset - 分块在完整生成文本中的（近似）起始偏移
+ * @param context - 定位上下文
+ * @returns 带 sourceRef 的卡片（无法定位的卡片 sourceRef 为 null）
+ */
+export function groundFlashcards(
+  cards: Flashcard[],
+  chunkText: string,
+  chunkOffset: number,
+  context: GroundingContext
+): Flashcard[] {
+  return cards.map((card) => {
+    const range = locatePassage(chunkText, card);
+    if (!range) {
+      return { ...card, sourceRef: null };
+    }
+
+    const passage = chunkText.slice(range.start, range.end);
+    const found = context.text.indexOf(
+      passage,
+      Math.max(0, chunkOffset - OFFSET_SLACK)
+    );
+    const start = found === -1 ? chunkOffset + range.start : found;
+
+    const segment = context.segments.find(
+      (s) => start >= s.textStart && start < s.textStart + s.length
+    );
+    if (!segment) {
+      return { ...card, sourceRef: null };
+    }
+
+    // 映射回原文（跨越章节分隔时截断到本章节末尾）
+    const docStart = segment.docStart + (start - segment.textStart);
+    const length = Math.min(
+      passage.length,
+      segment.textStart + segment.length - start
+    );
+
+    const sourceRef: CardSourceRef = {
+      taskId: context.taskId,
+      chapterIndex: segment.chapterIndex,
+      chapterTitle: segment.chapterTitle,
+      start: docStart,
+      end: docStart + length,
+      page: context.pageOffsets?.length
+        ? findPageNumber(context.pageOffsets, docStart)
+        : context.charsPerPage
+          ? Math.floor(docStart / context.charsPerPage) + 1
+          : null,
+      snippet: passage.slice(0, Math.min(length, MAX_SNIPPET_LENGTH)),
+    };
+    return { ...card, sourceRef };
+  });
+}
@@ -1,10 +1,89 @@
 export {
-  type AIProvider,
-  deepseek,
+  buildCardTypeRules,
+  buildFlashcardSystemPrompt,
   type Flashcard,
   generateFlashcardsFromText,
-  getAIClient,
-  getAIModel,
-  getAIProvider,
-  openai,
+  requestFlashcards,
+  resolveCardImages,
 } from "./openai";
+export {
+  API_KEY_ENV_PATTERN,
+  BUILTIN_PROVIDERS,
+  clearProviderCache,
+  getProviderChain,
+  getProviderClient,
+  isAllowedApiKeyEnv,
+  isTransientProviderError,
+  type LLMProviderConfig,
+  reportProviderError,
+  withProviderFallback,
+} from "./providers";
+export {
+  CARD_COUNT_MODES,
+  type CardCountMode,
+  DEFAULT_GENERATION_OPTIONS,
+  DIFFICULTY_LEVELS,
+  type DifficultyLevel,
+  distributeCardTarget,
+  GENERATION_FOCUSES,
+  GENERATION_LIMITS,
+  type GenerationFocus,
+  type GenerationOptions,
+  OUTPUT_LANGUAGES,
+  resolveCardTarget,
+  resolveGenerationOptions,
+} from "./generation-options";
+export {
+  extractUsage,
+  type LLMUsage,
+  type LLMUsageHandler,
+} from "./usage";
+export {
+  defaultFakeResponder,
+  FAKE_PROVIDER_ID,
+  type FakeCompletion,
+  type FakeResponder,
+  fakeResponseSequence,
+  setFakeResponder,
+} from "./fake";
+export {
+  type FlashcardValidationResult,
+  flashcardResponseFormat,
+  flashcardResponseSchema,
+  parseJsonResponse,
+  salvageTruncatedJson,
+  type ValidatedFlashcard,
+  validateFlashcards,
+} from "./structured";
+export {
+  DEFAULT_SIMILARITY_THRESHOLD,
+  estimateSimilarity,
+  minHashSignature,
+  type PostprocessOptions,
+  type PostprocessResult,
+  postprocessFlashcards,
+  QUALITY_DROP_THRESHOLD,
+  QUALITY_FLAG_THRESHOLD,
+  QUALITY_REVIEW_TAG,
+  type QualityIssue,
+  type QualityScore,
+  scoreFlashcard,
+} from "./postprocess";
+export {
+  type GroundingContext,
+  groundFlashcards,
+  locatePassage,
+  type SourceSegment,
+  wholeDocumentSegments,
+} from "./grounding";
+export {
+  CARD_REFINEMENT_LABELS,
+  CARD_REFINEMENTS,
+  type CardRefinement,
+  DEFAULT_EXPANSION_CARDS,
+  MAX_EXPANSION_CARDS,
+  MAX_SPLIT_CARDS,
+  type RefinementOptions,
+  refinementReplacesCard,
+} from "./refinement-options";
+export { buildRefinementMessages, refineFlashcard } from "./refine";
@@ -1,187 +1,383 @@
-import OpenAI from "openai";
+import type OpenAI from "openai";
+import type { CardImage, CardSourceRef, CardType } from "@/lib/cards";
+import { findFigureReferences } from "@/lib/parsers/figures";
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  type DifficultyLevel,
+  type GenerationFocus,
+  type GenerationOptions,
+} from "./generation-options";
+import { withProviderFallback } from "./providers";
+import {
+  flashcardResponseFormat,
+  parseJsonResponse,
+  validateFlashcards,
+} from "./structured";
+import { countTokens, truncateToTokens } from "./tokenizer";
+import { type LLMUsageHandler, reportUsage } from "./usage";
 
 /**
- * AI 提供商类型
+ * 闪卡结构
  */
-export type AIProvider = "openai" | "deepseek" | "mimo";
+export interface Flashcard {
+  cardType: CardType;
+  front: string;
+  back: string;
+  /** 选择题干扰项 */
+  options?: string[] | null | undefined;
+  /** 卡片图片（引用原文中的插图） */
+  image?: CardImage | null | undefined;
+  /** 来源视频中的时间（秒，仅视频生成） */
+  sourceTimestamp?: number | null | undefined;
+  /** 标签（后处理标记的待复核卡片） */
+  tags?: string[] | null | undefined;
+  /** 模型给出的原文引用（用于定位来源段落） */
+  sourceQuote?: string | null | undefined;
+  /** 来源原文段落引用 */
+  sourceRef?: CardSourceRef | null | undefined;
+}
 
 /**
- * 获取当前配置的 AI 提供商
+ * 各卡片类型的生成说明
  */
-export function getAIProvider(): AIProvider {
-  return (process.env.AI_PROVIDER as AIProvider) || "openai";
-}
+const CARD_TYPE_INSTRUCTIONS: Record<CardType, string> = {
+  basic: `"basic": "front" is a focused question, "back" is the answer.`,
+  basic_reverse: `"basic_reverse": a term/definition pair that should be learned in both directions. "front" is the term, "back" is the definition.`,
+  cloze: `"cloze": "front" is a complete sentence where key facts are wrapped in Anki cloze syntax, e.g. "The capital of France is {{c1::Paris}}." Use {{c2::...}}, {{c3::...}} for additional independent deletions. "back" is optional extra context (may be empty).`,
+  multiple_choice: `"multiple_choice": "front" is the question, "back" is the single correct answer, "options" is an array of 3 plausible but wrong answers.`,
+  type_answer: `"type_answer": "front" is a question with a short, exact answer (a word, number or short phrase); "back" is that exact answer.`,
+};
 
 /**
- * 获取 AI 模型名称
+ * 构建允许的卡片类型说明（每行一种类型）
+ *
+ * @param types - 允许的卡片类型
  */
-export function getAIModel(): string {
-  const provider = getAIProvider();
-  if (provider === "deepseek") {
-    return process.env.DEEPSEEK_MODEL || "deepseek-chat";
-  }
-  if (provider === "mimo") {
-    return process.env.MIMO_MODEL || "mimo-v2-flash";
-  }
-  return process.env.OPENAI_MODEL || "gpt-4o-mini";
+export function buildCardTypeRules(types: readonly CardType[]): string {
+  return types.map((type) => `- ${CARD_TYPE_INSTRUCTIONS[type]}`).join("\n");
 }
 
 /**
- * OpenAI 客户端实例
+ * 各难度等级的生成说明
  */
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const DIFFICULTY_INSTRUCTIONS: Record<DifficultyLevel, string> = {
+  beginner:
+    "Target beginners: test core facts and basic definitions, avoid jargon or explain it, keep answers short.",
+  intermediate:
+    "Target intermediate learners: mix recall of key facts with questions about how concepts relate.",
+  advanced:
+    "Target advanced learners: favour nuanced distinctions, edge cases, reasoning and application over simple recall.",
+};
 
 /**
- * DeepSeek 客户端实例（使用 OpenAI 兼容模式）
+ * 各内容侧重的生成说明
  */
-const deepseek = new OpenAI({
-  apiKey: process.env.DEEPSEEK_API_KEY,
-  baseURL: "https://api.deepseek.com/v1",
-});
+const FOCUS_INSTRUCTIONS: Record<GenerationFocus, string> = {
+  balanced: "Focus on key concepts, definitions, and important facts",
+  definitions: "Focus on terms and their precise definitions",
+  concepts:
+    "Focus on underlying concepts, principles and the relationships between them",
+  facts: "Focus on concrete facts: names, dates, numbers and formulas",
+  applications:
+    "Focus on applying the material: examples, problem solving and when to use what",
+};
 
 /**
- * 小米 MiMo 客户端实例（使用 OpenAI 兼容模式）
+ * 构建生成闪卡的 System Prompt
+ *
+ * @param options - 生成选项（难度、卡片类型、语言、侧重、自定义指令）
+ * @param targetCards - 目标卡片数（null 时由模型按内容长度决定）
+ * @param hasFigures - 内容中是否有插图引用（有时说明如何给卡片配图）
  */
-const mimo = new OpenAI({
-  apiKey: process.env.MIMO_API_KEY,
-  baseURL: "https://api.xiaomimimo.com/v1",
-});
+export function buildFlashcardSystemPrompt(
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  targetCards: number | null = null,
+  hasFigures = false
+): string {
+  const types: readonly CardType[] =
+    options.cardTypes.length > 0 ? options.cardTypes : ["basic"];
+  const typeRules = buildCardTypeRules(types);
 
-/**
- * 闪卡结构
- */
-export interface Flashcard {
-  front: string;
-  back: string;
-}
+  const countRule =
+    targetCards === null
+      ? "Generate between 5-20 cards depending on content length"
+      : `Generate ${targetCards} card${targetCards === 1 ? "" : "s"} (fewer only if the content cannot support that many distinct, non-trivial cards)`;
 
-/**
- * 生成闪卡的 System Prompt
- */
-const FLASHCARD_SYSTEM_PROMPT = `You are an expert educator and flashcard creator. Your task is to generate high-quality flashcards from the provided content.
+  const languageRule =
+    options.language === "auto"
+      ? "Write the cards in the same language as the content"
+      : `Write the cards in ${options.language}, translating from the content if necessary`;
+
+  const figureRule = hasFigures
+    ? `
+12. The content contains figures as Markdown images, e.g. ![Figure 1](/image-proxy/...). When a card is about a figure (a diagram to label, a chart to read, a structure to identify), set "image" to {"src": "<the figure URL copied exactly>", "side": "front"} to show it with the question, or "side": "back" to illustrate the answer. Describe what to look at in the card text. Set "image" to null for cards that do not need a figure`
+    : "";
+
+  const customInstructions = options.customInstructions.trim()
+    ? `\n\nAdditional instructions from the user (follow them unless they conflict with the JSON format):\n${options.customInstructions.trim()}`
+    : "";
+
+  return `You are an expert educator and flashcard creator. Your task is to generate high-quality flashcards from the provided content.
 
 Rules:
 1. Create clear, concise question-answer pairs
 2. Each "front" should be a focused question or concept
 3. Each "back" should be a clear, complete answer
 4. Avoid overly simple or trivial cards
-5. Focus on key concepts, definitions, and important facts
+5. ${FOCUS_INSTRUCTIONS[options.focus]}
 6. Use simple language that aids memorization
-7. Generate between 5-20 cards depending on content length
+7. ${countRule}
+8. ${DIFFICULTY_INSTRUCTIONS[options.difficulty]}
+9. ${languageRule}
+10. Pick the card type that best fits each fact, using only these types:
+${typeRules}
+11. For each card, set "sourceQuote" to the sentence from the content that supports the answer, copied verbatim (at most 40 words)${figureRule}
 
 You MUST respond with a valid JSON object in this exact format:
-{"cards": [{"front": "question/concept", "back": "answer/explanation"}, ...]}`;
+{"cards": [{"cardType": "${types[0]}", "front": "...", "back": "...", "options": [], "sourceQuote": "...", "image": null}, ...]}${customInstructions}`;
+}
 
 /**
  * 从文本内容生成闪卡
  *
+ * 支持时使用 JSON Schema 结构化输出；响应逐张校验，不合法的卡片丢弃，
+ * 截断的响应保留已完整输出的卡片；没有合法卡片时把错误反馈给模型重试
+ *
  * @param content - 要转换为闪卡的文本内容
  * @param maxCards - 最大卡片数量（默认 20）
+ * @param options - 生成选项
+ * @param targetCards - 目标卡片数（null 时由模型按内容长度决定）
+ * @param onUsage - 用量回调（记录实际 token 消耗）
  * @returns 生成的闪卡数组
  */
+export async function generateFlashcardsFromText(
+  content: string,
+  maxCards: number = 20,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  targetCards: number | null = null,
+  onUsage?: LLMUsageHandler
+): Promise<Flashcard[]> {
+  const figures = findFigureReferences(content);
+  const systemPrompt = buildFlashcardSystemPrompt(
+    options,
+    targetCards,
+    figures.length > 0
+  );
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    { role: "system", content: systemPrompt },
+    {
+      role: "user",
+      content: `Generate flashcards from the following content (maximum ${maxCards} cards):\n\n${content}`,
+    },
+  ];
+
+  const cards = await requestFlashcards(
+    messages,
+    options.cardTypes,
+    maxCards,
+    onUsage
+  );
+  return resolveCardImages(cards, content);
+}
+
 /**
- * 获取当前活跃的 AI 客户端
+ * 校验卡片图片：只保留引用了内容中插图的图片，替代文本取插图的图注
+ *
+ * 模型编造或改写的地址丢弃（卡片本身保留）
+ *
+ * @param cards - 生成的卡片
+ * @param content - 生成卡片所用的内容
  */
-function getAIClient(): OpenAI {
-  const provider = getAIProvider();
-  if (provider === "deepseek") return deepseek;
-  if (provider === "mimo") return mimo;
-  return openai;
+export function resolveCardImages(
+  cards: Flashcard[],
+  content: string
+): Flashcard[] {
+  const figures = new Map(
+    findFigureReferences(content).map((figure) => [figure.src, figure.alt])
+  );
+
+  return cards.map((card) => {
+    if (!card.image) return card;
+    const alt = figures.get(card.image.src.trim());
+    return {
+      ...card,
+      image:
+        alt === undefined
+          ? null
+          : { src: card.image.src.trim(), alt, side: card.image.side },
+    };
+  });
 }
 
+/** 没有合法卡片时让模型修正的最多次数 */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/** 反馈给模型的错误条数上限 */
+const MAX_REPAIR_ERRORS = 10;
+
+/** 输出上限的最小值（上下文窗口很小时仍保证能输出几张卡片） */
+const MIN_OUTPUT_TOKENS = 512;
+
+/** 消息格式和分词差异占用的 tokens（预留） */
+const PROMPT_OVERHEAD_TOKENS = 500;
+
 /**
- * 从文本内容生成闪卡
+ * 把消息截断到输入 token 上限内
  *
- * @param content - 要转换为闪卡的文本内容
- * @param maxCards - 最大卡片数量（默认 20）
- * @returns 生成的闪卡数组
+ * 超出部分从第一条用户消息（待生成的原文）末尾截掉，
+ * 其他消息（System Prompt、修正请求）保持完整
+ *
+ * @param messages - 对话消息
+ * @param maxInputTokens - 输入 token 上限
+ * @returns 截断后的消息（不修改原数组）
  */
-export async function generateFlashcardsFromText(
-  content: string,
-  maxCards: number = 20
+function fitMessagesToContext(
+  messages: OpenAI.Chat.ChatCompletionMessageParam[],
+  maxInputTokens: number
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const total = countTokens(messages.map((m) => m.content).join("\n"));
+  const excess = total - maxInputTokens;
+  const index = messages.findIndex((m) => m.role === "user");
+  const target = messages[index];
+  if (excess <= 0 || !target || typeof target.content !== "string") {
+    return messages;
+  }
+
+  const content = truncateToTokens(
+    target.content,
+    Math.max(0, countTokens(target.content) - excess)
+  );
+  return messages.map((message, i) =>
+    i === index ? { role: "user", content } : message
+  );
+}
+
+/**
+ * 请求模型输出闪卡 JSON 并校验
+ *
+ * 供整段生成和单卡改写等共用：按回退链调用，
+ * 没有合法卡片时把校验错误反馈给模型重试
+ *
+ * @param messages - 对话消息（重试时会追加修正请求）
+ * @param cardTypes - 允许的卡片类型
+ * @param maxCards - 最大卡片数量
+ * @param onUsage - 用量回调
+ * @returns 合法的闪卡（至少一张）
+ */
+export async function requestFlashcards(
+  messages: OpenAI.Chat.ChatCompletionMessageParam[],
+  cardTypes: readonly CardType[],
+  maxCards: number,
+  onUsage?: LLMUsageHandler
 ): Promise<Flashcard[]> {
-  const client = getAIClient();
-  const model = getAIModel();
-
-  const response = await client.chat.completions.create({
-    model,
-    messages: [
-      {
-        role: "system",
-        content: FLASHCARD_SYSTEM_PROMPT,
-      },
-      {
-        role: "user",
-        content: `Generate flashcards from the following content (maximum ${maxCards} cards):\n\n${content}`,
-      },
-    ],
-    response_format: { type: "json_object" },
-    temperature: 0.7,
-    max_tokens: 4096,
-  });
+  for (let attempt = 0; ; attempt++) {
+    // 按回退链调用，解析失败不切换提供商
+    const { provider, responseText, truncated } = await withProviderFallback(
+      async (provider, client) => {
+        // 每张卡约 150 tokens，卡片较多时提高输出上限，
+        // 但在上下文窗口中为输入留出空间（本地模型窗口较小）
+        const maxOutputTokens = Math.max(
+          MIN_OUTPUT_TOKENS,
+          Math.min(
+            Math.min(8192, Math.max(4096, maxCards * 150)),
+            Math.floor(provider.contextLimit / 4)
+          )
+        );
 
-  const responseText = response.choices[0]?.message?.content;
-  const provider = getAIProvider();
+        const response = await client.chat.completions.create({
+          model: provider.model,
+          messages: fitMessagesToContext(
+            messages,
+            provider.contextLimit - maxOutputTokens - PROMPT_OVERHEAD_TOKENS
+          ),
+          response_format: provider.structuredOutputs
+            ? flashcardResponseFormat(cardTypes)
+            : { type: "json_object" },
+          temperature: 0.7,
+          max_tokens: maxOutputTokens,
+        });
 
-  if (!responseText) {
-    const providerNames: Record<AIProvider, string> = {
-      openai: "OpenAI",
-      deepseek: "DeepSeek",
-      mimo: "MiMo",
-    };
-    throw new Error(`No response from ${providerNames[provider]}`);
-  }
+        await reportUsage(onUsage, response, provider);
 
-  try {
-    // 清理可能的 markdown 代码块包裹
-    let cleanedResponse = responseText.trim();
-    if (cleanedResponse.startsWith("```")) {
-      // 移除开头的 ```json 或 ``` 和结尾的 ```
-      cleanedResponse = cleanedResponse
-        .replace(/^```(?:json)?\s*\n?/, "")
-        .replace(/\n?```\s*$/, "");
+        const choice = response.choices[0];
+        return {
+          provider,
+          responseText: choice?.message?.content,
+          truncated: choice?.finish_reason === "length",
+        };
+      }
+    );
+
+    if (!responseText) {
+      throw new Error(`No response from ${provider.name}`);
     }
 
-    // 解析 JSON 响应
-    const parsed = JSON.parse(cleanedResponse);
-
-    // 支持两种格式：直接数组或 { cards: [...] } 对象
-    const cards: Flashcard[] = Array.isArray(parsed)
-      ? parsed
-      : parsed.cards || parsed.flashcards || [];
-
-    // 验证每张卡片的结构
-    const validCards = cards.filter(
-      (card): card is Flashcard =>
-        typeof card === "object" &&
-        card !== null &&
-        typeof card.front === "string" &&
-        typeof card.back === "string" &&
-        card.front.trim().length > 0 &&
-        card.back.trim().length > 0
-    );
+    const { cards, errors } = parseFlashcards(responseText, cardTypes);
+    if (cards.length > 0) {
+      if (errors.length > 0) {
+        console.warn(
+          `Dropped ${errors.length} invalid flashcards from ${provider.name}:`,
+          errors
+        );
+      }
+      return cards.slice(0, maxCards);
+    }
 
-    if (validCards.length === 0) {
-      throw new Error("No valid flashcards generated");
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new Error(
+        `No valid flashcards generated by ${provider.name}: ${errors.join("; ")}`
+      );
     }
 
-    return validCards.slice(0, maxCards);
+    // 把校验错误反馈给模型，让其修正后重新输出
+    messages.push(
+      { role: "assistant", content: responseText },
+      { role: "user", content: buildRepairPrompt(errors, truncated) }
+    );
+  }
+}
+
+/**
+ * 解析并校验模型响应
+ *
+ * @returns 合法卡片和错误信息（无法解析为 JSON 时卡片为空）
+ */
+function parseFlashcards(
+  responseText: string,
+  cardTypes: readonly CardType[]
+): { cards: Flashcard[]; errors: string[] } {
+  let value: unknown;
+  try {
+    ({ value } = parseJsonResponse(responseText));
   } catch (error) {
-    const provider = getAIProvider();
-    const providerNames: Record<AIProvider, string> = {
-      openai: "OpenAI",
-      deepseek: "DeepSeek",
-      mimo: "MiMo",
-    };
     if (error instanceof SyntaxError) {
-      throw new Error(
-        `Failed to parse ${providerNames[provider]} response as JSON: ${responseText}`
-      );
+      return {
+        cards: [],
+        errors: [`Response is not valid JSON: ${error.message}`],
+      };
     }
     throw error;
   }
+  return validateFlashcards(value, cardTypes);
 }
 
-export { openai, deepseek, mimo, getAIClient };
+/**
+ * 构建修正请求
+ *
+ * @param errors - 校验错误
+ * @param truncated - 上一次输出是否因长度限制被截断
+ */
+function buildRepairPrompt(errors: string[], truncated: boolean): string {
+  const problems = errors
+    .slice(0, MAX_REPAIR_ERRORS)
+    .map((error) => `- ${error}`)
+    .join("\n");
+  const lengthHint = truncated
+    ? "\nYour response was cut off by the output length limit. Generate fewer, shorter cards."
+    : "";
+
+  return `Your previous response could not be used:
+${problems}${lengthHint}
+
+Respond again with only a valid JSON object in the required format: {"cards": [...]}.`;
+}
@@ -0,0 +1,227 @@
+/**
+ * 文档大纲结构
+ *
+ * 大纲为两级：章节 → 小节。章节和小节共用一套索引；
+ * 生成时选择的是最小单元（有小节的章节展开为小节，没有小节的章节本身），
+ * 选择章节等于选择它的全部小节
+ *
+ * 不依赖服务端模块，客户端组件可直接使用
+ */
+
+/**
+ * 章节信息（小节使用相同结构）
+ */
+export interface ChapterInfo {
+  /** 章节索引（章节和小节共用，文档内唯一） */
+  index: number;
+  /** 章节标题 */
+  title: string;
+  /** 章节摘要（1-2句） */
+  summary: string;
+  /** 预估起始页 */
+  startPage: number;
+  /** 预估结束页 */
+  endPage: number;
+  /** 预估 token 数 */
+  estimatedTokens: number;
+  /** 文本范围（字符偏移） */
+  textRange: {
+    start: number;
+    end: number;
+  };
+  /** 小节（按顺序覆盖整个章节范围；旧版大纲和无小节的章节为空） */
+  sections?: ChapterInfo[];
+}
+
+/**
+ * 页面信息（仅有真实分页的 PDF）
+ */
+export interface PageInfo {
+  /** 预估 token 数 */
+  estimatedTokens: number;
+  /** 文本范围（字符偏移） */
+  textRange: {
+    start: number;
+    end: number;
+  };
+}
+
+/**
+ * 页码范围（从 1 开始，包含两端）
+ */
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 文档大纲
+ */
+export interface DocumentOutline {
+  /** 总页数（有真实分页时为 PDF 页数，否则为估算） */
+  totalPages: number;
+  /** 总 token 数 */
+  totalTokens: number;
+  /** 章节列表 */
+  chapters: ChapterInfo[];
+  /** 各页信息（仅有真实分页的 PDF；旧版大纲为空），可按页码范围选择 */
+  pages?: PageInfo[];
+}
+
+/**
+ * 章节中可选择的最小单元（有小节时为小节，否则为章节本身）
+ */
+export function getChapterUnits(chapter: ChapterInfo): ChapterInfo[] {
+  return chapter.sections?.length ? chapter.sections : [chapter];
+}
+
+/**
+ * 大纲中可选择的最小单元（按文档顺序）
+ *
+ * 生成任务的 selectedChapters 保存的是这些单元的索引
+ */
+export function getSelectableChapters(outline: DocumentOutline): ChapterInfo[] {
+  return outline.chapters.flatMap(getChapterUnits);
+}
+
+/**
+ * 查找字符偏移所在的页码（从 1 开始）
+ *
+ * @param pageOffsets - 每页起始字符偏移
+ * @param offset - 字符偏移
+ */
+export function findPageNumber(pageOffsets: number[], offset: number): number {
+  let low = 0;
+  let high = pageOffsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if ((pageOffsets[mid] ?? 0) <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
+
+/**
+ * 规范化页码范围：限制在文档页数内，按起始页排序并合并重叠或相邻的范围
+ *
+ * @param ranges - 页码范围
+ * @param totalPages - 文档总页数
+ */
+export function normalizePageRanges(
+  ranges: PageRange[],
+  totalPages: number
+): PageRange[] {
+  const clamped = ranges
+    .map((range) => ({
+      start: Math.max(1, Math.min(range.start, range.end)),
+      end: Math.min(totalPages, Math.max(range.start, range.end)),
+    }))
+    .filter((range) => range.start <= range.end)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: PageRange[] = [];
+  for (const range of clamped) {
+    const previous = merged[merged.length - 1];
+    if (previous && range.start <= previous.end + 1) {
+      previous.end = Math.max(previous.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * 解析用户输入的页码范围（如 "1-5, 8, 10-12"）
+ *
+ * @param input - 用户输入
+ * @param totalPages - 文档总页数
+ * @returns 规范化后的页码范围；格式错误或超出页数时返回 null
+ */
+export function parsePageRanges(
+  input: string,
+  totalPages: number
+): PageRange[] | null {
+  const parts = input
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const ranges: PageRange[] = [];
+  for (const part of parts) {
+    const match = part.match(/^(\d+)\s*(?:[-–]\s*(\d+))?$/);
+    if (!match) return null;
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start < 1 || end < start || end > totalPages) return null;
+    ranges.push({ start, end });
+  }
+  return normalizePageRanges(ranges, totalPages);
+}
+
+/**
+ * 格式化页码范围（如 "1–5, 8"）
+ */
+export function formatPageRanges(ranges: PageRange[]): string {
+  return ranges
+    .map((range) =>
+      range.start === range.end
+        ? `${range.start}`
+        : `${range.start}–${range.end}`
+    )
+    .join(", ");
+}
+
+/**
+ * 页码范围的显示标题（如 "Pages 3–7"）
+ */
+export function formatPageRangeTitle(ranges: PageRange[]): string {
+  const single = ranges.length === 1 && ranges[0]?.start === ranges[0]?.end;
+  return `${single ? "Page" : "Pages"} ${formatPageRanges(ranges)}`;
+}
+
+/**
+ * 选定页码范围内的页（按文档顺序，不含超出文档的页码）
+ */
+export function getSelectedPages(
+  outline: DocumentOutline,
+  ranges: PageRange[]
+): PageInfo[] {
+  const pages = outline.pages ?? [];
+  return normalizePageRanges(ranges, pages.length).flatMap((range) =>
+    pages.slice(range.start - 1, range.end)
+  );
+}
+
+/**
+ * 选定页码范围覆盖的可选择单元（按文档顺序）
+ *
+ * 单元文本过半落在所选页内即视为已覆盖；
+ * 按页生成的任务据此标出已生成的章节，追加生成时跳过
+ */
+export function getChaptersInPages(
+  outline: DocumentOutline,
+  ranges: PageRange[]
+): number[] {
+  const selected = getSelectedPages(outline, ranges).map(
+    (page) => page.textRange
+  );
+
+  return getSelectableChapters(outline)
+    .filter(({ textRange }) => {
+      const length = textRange.end - textRange.start;
+      const covered = selected.reduce(
+        (sum, range) =>
+          sum +
+          Math.max(
+            0,
+            Math.min(range.end, textRange.end) -
+              Math.max(range.start, textRange.start)
+          ),
+        0
+      );
+      return length > 0 && covered * 2 >= length;
+    })
+    .map((ch) => ch.index);
+}
@@ -1,120 +1,246 @@
-import { getAIClient, getAIModel } from "./openai";
-import { countTokens, MODEL_TOKEN_LIMITS, truncateToTokens } from "./tokenizer";
+import type { DocumentHeading } from "@/lib/parsers";
+import { splitIntoChunks, type TextChunk } from "./chunking";
+import type { SourceSegment } from "./grounding";
+import {
+  type ChapterInfo,
+  type DocumentOutline,
+  findPageNumber,
+  formatPageRangeTitle,
+  getChapterUnits,
+  getSelectableChapters,
+  getSelectedPages,
+  normalizePageRanges,
+  type PageInfo,
+  type PageRange,
+} from "./outline-structure";
+import { withProviderFallback } from "./providers";
+import { countTokens, truncateToTokens } from "./tokenizer";
+import { type LLMUsageHandler, reportUsage } from "./usage";
+
+export {
+  type ChapterInfo,
+  type DocumentOutline,
+  findPageNumber,
+  formatPageRangeTitle,
+  formatPageRanges,
+  getChapterUnits,
+  getChaptersInPages,
+  getSelectableChapters,
+  getSelectedPages,
+  normalizePageRanges,
+  type PageInfo,
+  type PageRange,
+  parsePageRanges,
+} from "./outline-structure";
 
 /**
- * 章节信息
+ * 文档大纲生成（map-reduce）
+ *
+ * 1. map: 文档按窗口切分（超过单次分析长度时），每个窗口单独分析章节和小节
+ * 2. reduce: 各窗口的章节按原文位置合并，去掉窗口重叠处重复识别的章节，
+ *    跨窗口的同名章节合并为一章，小节归入所在范围的章节
+ *
+ * 窗口分析和合并分开导出，Inngest 中每个窗口作为独立步骤执行
+ *
+ * 文档自带结构（PDF 书签、Word 标题、Markdown 标题）时，
+ * 优先用 buildOutlineFromHeadings 直接生成大纲，不调用模型
  */
-export interface ChapterInfo {
-  /** 章节索引 */
-  index: number;
-  /** 章节标题 */
-  title: string;
-  /** 章节摘要（1-2句） */
-  summary: string;
-  /** 预估起始页 */
-  startPage: number;
-  /** 预估结束页 */
-  endPage: number;
-  /** 预估 token 数 */
-  estimatedTokens: number;
-  /** 文本范围（字符偏移） */
-  textRange: {
-    start: number;
-    end: number;
-  };
-}
 
 /**
- * 文档大纲
+ * LLM 返回的原始章节数据
  */
-export interface DocumentOutline {
-  /** 总页数（估算） */
-  totalPages: number;
-  /** 总 token 数 */
-  totalTokens: number;
-  /** 章节列表 */
-  chapters: ChapterInfo[];
+interface RawChapterData {
+  title: string;
+  summary: string;
+  startMarker: string;
+  sections?: RawChapterData[];
 }
 
 /**
- * LLM 返回的原始章节数据
+ * 窗口分析结果中已定位到原文的章节
+ *
+ * @field title - 标题
+ * @field summary - 摘要
+ * @field start - 在原文中的起始偏移
+ * @field sections - 已定位的小节（不再嵌套）
  */
-interface RawChapterData {
+export interface OutlineEntry {
   title: string;
   summary: string;
-  startMarker: string;
-  endMarker?: string;
+  start: number;
+  sections: Omit<OutlineEntry, "sections">[];
 }
 
 /**
  * 大纲生成的 System Prompt
  */
-const OUTLINE_SYSTEM_PROMPT = `You are a document structure analyzer. Your task is to identify the logical sections/chapters in the provided text.
+const OUTLINE_SYSTEM_PROMPT = `You are a document structure analyzer. Your task is to identify the logical chapters in the provided text and the sections inside each chapter.
 
 Output ONLY a valid JSON object with this structure:
 {
   "chapters": [
     {
-      "title": "Section title or heading",
-      "summary": "1-2 sentence summary of this section",
-      "startMarker": "The first 10-20 words of this section (exact text)"
+      "title": "Chapter title or heading",
+      "summary": "1-2 sentence summary of this chapter",
+      "startMarker": "The first 10-20 words of this chapter (exact text)",
+      "sections": [
+        {
+          "title": "Section title or heading",
+          "summary": "1 sentence summary of this section",
+          "startMarker": "The first 10-20 words of this section (exact text)"
+        }
+      ]
     }
   ]
 }
 
 Rules:
-- Identify 3-15 logical sections based on the document structure
+- Identify 3-15 logical chapters based on the document structure
 - If the document has clear chapter headings, use them
 - If no clear chapters exist, identify logical topic divisions
+- List the sections of a chapter only if it has clear sub-headings or distinct sub-topics; otherwise use an empty array
 - Keep titles concise (max 10 words)
-- Summaries should help readers decide if the section is relevant
-- startMarker must be exact text from the beginning of each section
-- Sections should be ordered as they appear in the document`;
+- Summaries should help readers decide if the chapter or section is relevant
+- startMarker must be exact text from the beginning of each chapter or section
+- Chapters and sections should be ordered as they appear in the document`;
+
+/** 每页估算字符数（无页面信息时用于估算页码） */
+export const ESTIMATED_CHARS_PER_PAGE = 2000;
+
+/** System Prompt 和指令占用的 tokens（预留） */
+const PROMPT_OVERHEAD_TOKENS = 1000;
+
+/** 单个分析窗口的 token 数（文档超过时分窗口分析后合并） */
+export const OUTLINE_WINDOW_TOKENS = 24_000;
+
+/** 相邻窗口重叠的 token 数（避免窗口边界处的标题被截断） */
+const OUTLINE_WINDOW_OVERLAP = 500;
+
+/** 在原文中查找标记时，从窗口偏移往前放宽的范围（字符） */
+const MARKER_SEARCH_SLACK = 2000;
+
+/** 每个窗口最多识别的章节数（默认） */
+const DEFAULT_MAX_CHAPTERS = 15;
+
+/** 每章最多保留的小节数 */
+const MAX_SECTIONS_PER_CHAPTER = 20;
+
+/** 按文档结构生成大纲时至少需要的章节数（否则回退到模型分析） */
+const MIN_STRUCTURE_CHAPTERS = 2;
+
+/** 第一章之前的内容超过该字符数时单独作为一章（否则并入第一章） */
+const FRONT_MATTER_MIN_CHARS = 500;
 
 /**
- * 从文档生成大纲
+ * 转义正则特殊字符
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 在原文中定位章节的起始标记
  *
- * @param text - 文档全文
+ * 依次尝试：精确匹配、前 50 / 20 个字符、忽略空白差异匹配
+ *
+ * @param fullText - 文档全文
+ * @param marker - 章节开头的文本
+ * @param from - 开始查找的偏移
+ * @returns 起始偏移，找不到时返回 -1
+ */
+function locateMarker(fullText: string, marker: string, from: number): number {
+  const trimmed = marker.trim();
+  if (!trimmed) return -1;
+
+  const candidates = [trimmed];
+  // 精确匹配失败时，尝试更短的前缀
+  if (trimmed.length > 50) candidates.push(trimmed.slice(0, 50));
+  if (trimmed.length > 20) candidates.push(trimmed.slice(0, 20));
+
+  for (const candidate of candidates) {
+    const position = fullText.indexOf(candidate, from);
+    if (position !== -1) return position;
+  }
+
+  // 分块会规范化段落间的空白，按空白不敏感的方式再找一次
+  const words = trimmed.split(/\s+/).slice(0, 12).map(escapeRegExp);
+  const loose = new RegExp(words.join("\\s+"), "g");
+  loose.lastIndex = from;
+  return loose.exec(fullText)?.index ?? -1;
+}
+
+/**
+ * 将文档切分为分析窗口
+ *
+ * 不超过 OUTLINE_WINDOW_TOKENS 的文档只有一个窗口（即全文）
+ */
+export function planOutlineWindows(text: string): TextChunk[] {
+  return splitIntoChunks(text, {
+    maxTokens: OUTLINE_WINDOW_TOKENS,
+    overlap: OUTLINE_WINDOW_OVERLAP,
+    strategy: "paragraph",
+  });
+}
+
+/**
+ * 分析单个窗口的章节和小节（map）
+ *
+ * @param fullText - 文档全文（用于定位章节位置）
+ * @param window - 分析窗口
+ * @param windowCount - 窗口总数
  * @param options - 生成选项
- * @returns 文档大纲
+ * @returns 已定位到原文的章节（找不到起始位置的章节被丢弃）
  */
-export async function generateOutline(
-  text: string,
+export async function analyzeOutlineWindow(
+  fullText: string,
+  window: TextChunk,
+  windowCount: number,
   options?: {
-    /** 每页估算字符数（默认 2000） */
-    charsPerPage?: number;
     /** 最大章节数（默认 15） */
     maxChapters?: number;
+    /** 用量回调（记录实际 token 消耗） */
+    onUsage?: LLMUsageHandler;
   }
-): Promise<DocumentOutline> {
-  const { charsPerPage = 2000, maxChapters = 15 } = options ?? {};
-
-  const totalTokens = countTokens(text);
-  const totalPages = Math.ceil(text.length / charsPerPage);
-
-  // 确保文本在模型限制内
-  const maxInputTokens = MODEL_TOKEN_LIMITS["gpt-4o-mini"] - 4000; // 留出空间给输出
-  const inputText =
-    totalTokens > maxInputTokens ? truncateToTokens(text, maxInputTokens) : text;
-
-  const client = getAIClient();
-  const model = getAIModel();
-
-  const response = await client.chat.completions.create({
-    model,
-    messages: [
-      {
-        role: "system",
-        content: OUTLINE_SYSTEM_PROMPT,
-      },
-      {
-        role: "user",
-        content: `Analyze this document and identify its sections:\n\n${inputText}`,
-      },
-    ],
-    response_format: { type: "json_object" },
-    temperature: 0.3,
-    max_tokens: 4096,
+): Promise<OutlineEntry[]> {
+  const maxChapters = options?.maxChapters ?? DEFAULT_MAX_CHAPTERS;
+  const instruction =
+    windowCount > 1
+      ? `This is part ${window.index + 1} of ${windowCount} of a longer document. Identify only the chapters and sections that start in this part`
+      : "Analyze this document and identify its chapters and sections";
+
+  // 按回退链调用，输入按各提供商的上下文窗口截断
+  const response = await withProviderFallback(async (provider, client) => {
+    // 为输出和 System Prompt 留出空间
+    const maxOutputTokens = Math.min(
+      4096,
+      Math.floor(provider.contextLimit / 4)
+    );
+    const maxInputTokens =
+      provider.contextLimit - maxOutputTokens - PROMPT_OVERHEAD_TOKENS;
+    const inputText =
+      window.tokenCount > maxInputTokens
+        ? truncateToTokens(window.text, maxInputTokens)
+        : window.text;
+
+    const result = await client.chat.completions.create({
+      model: provider.model,
+      messages: [
+        {
+          role: "system",
+          content: OUTLINE_SYSTEM_PROMPT,
+        },
+        {
+          role: "user",
+          content: `${instruction}:\n\n${inputText}`,
+        },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.3,
+      max_tokens: maxOutputTokens,
+    });
+
+    await reportUsage(options?.onUsage, result, provider);
+    return result;
   });
 
   const responseText = response.choices[0]?.message?.content;
@@ -125,116 +251,333 @@ export async function generateOutline(
   // 解析 LLM 响应
   const parsed = JSON.parse(responseText);
   const rawChapters: RawChapterData[] = parsed.chapters || [];
+  const from = Math.max(0, window.startOffset - MARKER_SEARCH_SLACK);
+
+  const entries: OutlineEntry[] = [];
+  for (const chapter of rawChapters.slice(0, maxChapters)) {
+    if (!chapter?.startMarker) continue;
+    const chapterStart = locateMarker(fullText, chapter.startMarker, from);
+
+    const sections: OutlineEntry["sections"] = [];
+    for (const section of (chapter.sections ?? []).slice(
+      0,
+      MAX_SECTIONS_PER_CHAPTER
+    )) {
+      if (!section?.startMarker) continue;
+      const start = locateMarker(
+        fullText,
+        section.startMarker,
+        chapterStart === -1 ? from : chapterStart
+      );
+      if (start !== -1) {
+        sections.push({ title: section.title, summary: section.summary, start });
+      }
+    }
 
-  // 将 LLM 输出转换为完整的章节信息
-  const chapters = buildChapterInfo(text, rawChapters.slice(0, maxChapters), {
-    charsPerPage,
-  });
+    // 章节标记找不到时，用第一个小节的位置代替
+    const start = chapterStart !== -1 ? chapterStart : sections[0]?.start;
+    if (start === undefined) continue;
 
-  return {
-    totalPages,
-    totalTokens,
-    chapters,
-  };
+    entries.push({
+      title: chapter.title,
+      summary: chapter.summary,
+      start,
+      sections,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * 大纲页码选项
+ */
+export interface OutlinePageOptions {
+  /** 每页估算字符数（默认 ESTIMATED_CHARS_PER_PAGE） */
+  charsPerPage?: number;
+  /** 每页起始字符偏移（PDF 有真实分页时使用，优先于估算） */
+  pageOffsets?: number[] | null;
 }
 
 /**
- * 根据 LLM 返回的章节数据，构建完整的章节信息
+ * 规范化标题（用于识别跨窗口重复的章节）
+ */
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 按位置排序并去掉重复项
  *
- * 通过 startMarker 在原文中定位章节位置
+ * 位置相同（窗口重叠处被识别两次）或与前一项同名（跨窗口的同一章节）的视为重复，
+ * 合并到前一项
  */
-function buildChapterInfo(
+function dedupeEntries<T extends { title: string; start: number }>(
+  entries: T[],
+  merge: (target: T, duplicate: T) => void
+): T[] {
+  const sorted = [...entries].sort((a, b) => a.start - b.start);
+  const result: T[] = [];
+  for (const entry of sorted) {
+    const previous = result[result.length - 1];
+    if (
+      previous &&
+      (previous.start === entry.start ||
+        normalizeTitle(previous.title) === normalizeTitle(entry.title))
+    ) {
+      merge(previous, entry);
+    } else {
+      result.push(entry);
+    }
+  }
+  return result;
+}
+
+/**
+ * 合并各窗口的分析结果（reduce）
+ *
+ * @param fullText - 文档全文
+ * @param windows - 各窗口的章节（按窗口顺序）
+ * @param options - 页码估算选项
+ * @returns 文档大纲（章节和小节共用按文档顺序编号的索引）
+ */
+export function mergeOutlineWindows(
   fullText: string,
-  rawChapters: RawChapterData[],
-  options: { charsPerPage: number }
-): ChapterInfo[] {
-  const { charsPerPage } = options;
+  windows: OutlineEntry[][],
+  options?: OutlinePageOptions
+): DocumentOutline {
+  const charsPerPage = options?.charsPerPage ?? ESTIMATED_CHARS_PER_PAGE;
+  const pageOffsets = options?.pageOffsets?.length ? options.pageOffsets : null;
+  const pageAt = (offset: number) =>
+    pageOffsets
+      ? findPageNumber(pageOffsets, offset)
+      : Math.floor(offset / charsPerPage) + 1;
+
+  const entries = dedupeEntries(
+    windows.flat().map((entry) => ({
+      ...entry,
+      sections: [...entry.sections],
+    })),
+    (target, duplicate) => {
+      target.sections.push(...duplicate.sections);
+    }
+  );
+
+  let nextIndex = 0;
+  const buildInfo = (
+    entry: { title: string; summary: string },
+    start: number,
+    end: number
+  ): ChapterInfo => ({
+    index: nextIndex++,
+    title: entry.title,
+    summary: entry.summary,
+    startPage: pageAt(start),
+    endPage: pageOffsets
+      ? pageAt(Math.max(start, end - 1))
+      : Math.ceil(end / charsPerPage),
+    estimatedTokens: countTokens(fullText.slice(start, end)),
+    textRange: { start, end },
+  });
+
   const chapters: ChapterInfo[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+    const end = entries[i + 1]?.start ?? fullText.length;
+    const chapter = buildInfo(entry, entry.start, end);
+
+    // 只保留落在本章范围内的小节，第一个小节从章节开头算起
+    const sections = dedupeEntries(
+      entry.sections.filter((s) => s.start >= entry.start && s.start < end),
+      () => {}
+    );
+    if (sections.length > 1) {
+      chapter.sections = sections.map((section, j) =>
+        buildInfo(
+          section,
+          j === 0 ? entry.start : section.start,
+          sections[j + 1]?.start ?? end
+        )
+      );
+    }
 
-  // 查找每个章节的起始位置
-  const positions: { index: number; start: number; title: string; summary: string }[] = [];
+    chapters.push(chapter);
+  }
 
-  for (let i = 0; i < rawChapters.length; i++) {
-    const chapter = rawChapters[i];
-    if (!chapter) continue;
-    const marker = chapter.startMarker.trim();
+  // 如果没有找到任何章节，创建一个包含全文的默认章节
+  if (chapters.length === 0) {
+    chapters.push(
+      buildInfo(
+        { title: "Full Document", summary: "The entire document content" },
+        0,
+        fullText.length
+      )
+    );
+  }
 
-    // 在全文中查找 marker
-    let startPos = fullText.indexOf(marker);
+  if (!pageOffsets) {
+    return {
+      totalPages: Math.ceil(fullText.length / charsPerPage),
+      totalTokens: countTokens(fullText),
+      chapters,
+    };
+  }
 
-    // 如果精确匹配失败，尝试模糊匹配（取前 50 个字符）
-    if (startPos === -1 && marker.length > 50) {
-      const shortMarker = marker.slice(0, 50);
-      startPos = fullText.indexOf(shortMarker);
-    }
+  const pages: PageInfo[] = pageOffsets.map((start, i) => {
+    const end = pageOffsets[i + 1] ?? fullText.length;
+    return {
+      estimatedTokens: countTokens(fullText.slice(start, end)),
+      textRange: { start, end },
+    };
+  });
 
-    // 如果还是找不到，尝试更短的匹配
-    if (startPos === -1 && marker.length > 20) {
-      const shorterMarker = marker.slice(0, 20);
-      startPos = fullText.indexOf(shorterMarker);
-    }
+  return {
+    totalPages: pages.length,
+    totalTokens: countTokens(fullText),
+    chapters,
+    pages,
+  };
+}
 
-    if (startPos !== -1) {
-      positions.push({
-        index: i,
-        start: startPos,
-        title: chapter.title,
-        summary: chapter.summary,
+/**
+ * 按文档自带的标题结构生成大纲（不调用模型）
+ *
+ * 至少有两个标题的最高层级作为章节（只有一个的视为文档标题），
+ * 下一层级作为小节；第一章之前较长的内容单独作为一章
+ *
+ * @param fullText - 文档全文
+ * @param headings - 解析得到的标题（按文档顺序）
+ * @param options - 页码选项
+ * @returns 文档大纲；结构不足以划分章节时返回 null
+ */
+export function buildOutlineFromHeadings(
+  fullText: string,
+  headings: DocumentHeading[],
+  options?: OutlinePageOptions
+): DocumentOutline | null {
+  const levels = [...new Set(headings.map((h) => h.level))].sort(
+    (a, b) => a - b
+  );
+  const chapterLevel = levels.find(
+    (level) =>
+      headings.filter((h) => h.level === level).length >= MIN_STRUCTURE_CHAPTERS
+  );
+  if (chapterLevel === undefined) return null;
+
+  const sectionLevel = levels.find((level) => level > chapterLevel);
+  const chapterHeadings = headings.filter((h) => h.level === chapterLevel);
+  const sectionHeadings = headings.filter((h) => h.level === sectionLevel);
+
+  const entries: OutlineEntry[] = chapterHeadings.map((heading, i) => {
+    const end = chapterHeadings[i + 1]?.offset ?? fullText.length;
+    return {
+      title: heading.title,
+      summary: "",
+      start: heading.offset,
+      sections: sectionHeadings
+        .filter((s) => s.offset >= heading.offset && s.offset < end)
+        .map((s) => ({ title: s.title, summary: "", start: s.offset })),
+    };
+  });
+
+  const [first] = entries;
+  if (first && first.start > 0) {
+    const frontMatter = fullText.slice(0, first.start).trim();
+    if (frontMatter.length >= FRONT_MATTER_MIN_CHARS) {
+      entries.unshift({
+        title: "Introduction",
+        summary: "",
+        start: 0,
+        sections: [],
       });
+    } else {
+      first.start = 0;
     }
   }
 
-  // 按位置排序
-  positions.sort((a, b) => a.start - b.start);
-
-  // 构建章节信息
-  for (let i = 0; i < positions.length; i++) {
-    const pos = positions[i];
-    if (!pos) continue;
-    const nextPos = positions[i + 1];
-
-    // 计算结束位置
-    const end = nextPos ? nextPos.start : fullText.length;
-
-    // 提取章节文本并计算 token
-    const chapterText = fullText.slice(pos.start, end);
-    const estimatedTokens = countTokens(chapterText);
-
-    // 估算页数范围
-    const startPage = Math.floor(pos.start / charsPerPage) + 1;
-    const endPage = Math.ceil(end / charsPerPage);
-
-    chapters.push({
-      index: i,
-      title: pos.title,
-      summary: pos.summary,
-      startPage,
-      endPage,
-      estimatedTokens,
-      textRange: {
-        start: pos.start,
-        end,
-      },
-    });
+  return mergeOutlineWindows(fullText, [entries], options);
+}
+
+/**
+ * 从文档生成大纲
+ *
+ * 依次分析每个窗口后合并；Inngest 中改用 planOutlineWindows、
+ * analyzeOutlineWindow 和 mergeOutlineWindows 分步执行
+ *
+ * @param text - 文档全文
+ * @param options - 生成选项
+ * @returns 文档大纲
+ */
+export async function generateOutline(
+  text: string,
+  options?: {
+    /** 每页估算字符数（默认 ESTIMATED_CHARS_PER_PAGE） */
+    charsPerPage?: number;
+    /** 每个窗口的最大章节数（默认 15） */
+    maxChapters?: number;
+    /** 用量回调（记录实际 token 消耗） */
+    onUsage?: LLMUsageHandler;
+  }
+): Promise<DocumentOutline> {
+  const windows = planOutlineWindows(text);
+  const results: OutlineEntry[][] = [];
+  for (const window of windows) {
+    results.push(
+      await analyzeOutlineWindow(text, window, windows.length, {
+        ...(options?.maxChapters !== undefined && {
+          maxChapters: options.maxChapters,
+        }),
+        ...(options?.onUsage && { onUsage: options.onUsage }),
+      })
+    );
   }
 
-  // 如果没有找到任何章节，创建一个包含全文的默认章节
-  if (chapters.length === 0) {
-    chapters.push({
-      index: 0,
-      title: "Full Document",
-      summary: "The entire document content",
-      startPage: 1,
-      endPage: Math.ceil(fullText.length / charsPerPage),
-      estimatedTokens: countTokens(fullText),
-      textRange: {
-        start: 0,
-        end: fullText.length,
-      },
+  return mergeOutlineWindows(text, results, {
+    ...(options?.charsPerPage !== undefined && {
+      charsPerPage: options.charsPerPage,
+    }),
+  });
+}
+
+/** 合并选定章节时的分隔符 */
+const CHAPTER_SEPARATOR = "\n\n---\n\n";
+
+/**
+ * 按位置合并多段原文，记录各段在合并文本和原文中的位置（用于把卡片定位回原文）
+ */
+function joinTextRanges(
+  fullText: string,
+  ranges: {
+    index: number | null;
+    title: string;
+    textRange: { start: number; end: number };
+  }[]
+): { text: string; segments: SourceSegment[] } {
+  const sorted = [...ranges].sort(
+    (a, b) => a.textRange.start - b.textRange.start
+  );
+
+  const segments: SourceSegment[] = [];
+  let textStart = 0;
+  for (const range of sorted) {
+    const length =
+      Math.min(range.textRange.end, fullText.length) - range.textRange.start;
+    segments.push({
+      chapterIndex: range.index,
+      chapterTitle: range.title,
+      textStart,
+      docStart: range.textRange.start,
+      length,
     });
+    textStart += length + CHAPTER_SEPARATOR.length;
   }
 
-  return chapters;
+  const text = sorted
+    .map((range) => fullText.slice(range.textRange.start, range.textRange.end))
+    .join(CHAPTER_SEPARATOR);
+
+  return { text, segments };
 }
 
 /**
@@ -243,36 +586,78 @@ function buildChapterInfo(
  * @param fullText - 文档全文
  * @param outline - 文档大纲
  * @param selectedIndices - 选定的章节索引
- * @returns 选定章节的文本
+ * @returns 合并后的文本，以及每个章节在合并文本和原文中的位置
  */
-export function extractSelectedChaptersText(
+export function extractSelectedChapters(
   fullText: string,
   outline: DocumentOutline,
   selectedIndices: number[]
-): string {
-  const selectedChapters = outline.chapters.filter((ch) =>
-    selectedIndices.includes(ch.index)
-  );
-
-  // 按位置排序
-  selectedChapters.sort((a, b) => a.textRange.start - b.textRange.start);
+): { text: string; segments: SourceSegment[] } {
+  // 选定的最小单元；小节的标题带上所属章节
+  const selectedChapters = outline.chapters
+    .flatMap((chapter) =>
+      getChapterUnits(chapter).map((unit) => ({
+        ...unit,
+        title:
+          unit === chapter ? unit.title : `${chapter.title} › ${unit.title}`,
+      }))
+    )
+    .filter((ch) => selectedIndices.includes(ch.index));
+
+  return joinTextRanges(fullText, selectedChapters);
+}
 
-  // 提取并合并文本
-  const texts = selectedChapters.map((ch) =>
-    fullText.slice(ch.textRange.start, ch.textRange.end)
+/**
+ * 从大纲中提取选定页码范围的文本（仅有真实分页的大纲）
+ *
+ * 每个连续范围作为一段，不关联章节
+ *
+ * @param fullText - 文档全文
+ * @param outline - 文档大纲
+ * @param selectedPages - 选定的页码范围
+ * @returns 合并后的文本，以及每个范围在合并文本和原文中的位置
+ */
+export function extractSelectedPages(
+  fullText: string,
+  outline: DocumentOutline,
+  selectedPages: PageRange[]
+): { text: string; segments: SourceSegment[] } {
+  const pages = outline.pages ?? [];
+  const ranges = normalizePageRanges(selectedPages, pages.length).flatMap(
+    (range) => {
+      const first = pages[range.start - 1];
+      const last = pages[range.end - 1];
+      if (!first || !last) return [];
+      return [
+        {
+          index: null,
+          title: formatPageRangeTitle([range]),
+          textRange: { start: first.textRange.start, end: last.textRange.end },
+        },
+      ];
+    }
   );
 
-  return texts.join("\n\n---\n\n");
+  return joinTextRanges(fullText, ranges);
 }
 
 /**
- * 计算选定章节的总 token 数
+ * 计算选定内容的总 token 数
+ *
+ * 传入页码范围时按所选页计算，否则按选定章节（有小节的章节按小节）计算
  */
 export function calculateSelectedTokens(
   outline: DocumentOutline,
-  selectedIndices: number[]
+  selectedIndices: number[],
+  selectedPages?: PageRange[] | null
 ): number {
-  return outline.chapters
+  if (selectedPages?.length) {
+    return getSelectedPages(outline, selectedPages).reduce(
+      (sum, page) => sum + page.estimatedTokens,
+      0
+    );
+  }
+  return getSelectableChapters(outline)
     .filter((ch) => selectedIndices.includes(ch.index))
     .reduce((sum, ch) => sum + ch.estimatedTokens, 0);
 }
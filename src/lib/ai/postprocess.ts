@@ -0,0 +1,318 @@
+import { parseClozeSegments } from "@/lib/cards";
+import type { Flashcard } from "./openai";
+import { countTokens } from "./tokenizer";
+
+/**
+ * 生成卡片的后处理
+ *
+ * 1. 合并近似重复的卡片（分块重叠部分常生成措辞略有不同的同一张卡），
+ *    追加到已有牌组时同时去掉与牌组中已有卡片重复的卡片
+ * 2. 按原子性、答案长度和歧义给卡片打分，丢弃低分卡片，标记待复核卡片
+ *
+ * 相似度默认使用字符 n-gram 的 MinHash 估计（与语言无关，不调用 LLM），
+ * 可传入自定义相似度（如基于 embeddings 的余弦相似度）
+ */
+
+/** 字符 n-gram 长度 */
+const SHINGLE_SIZE = 4;
+
+/** MinHash 签名长度（越长估计越准） */
+const SIGNATURE_SIZE = 64;
+
+/** 视为重复的默认相似度阈值 */
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.7;
+
+/** 低于该分数的卡片被丢弃 */
+export const QUALITY_DROP_THRESHOLD = 0.4;
+
+/** 低于该分数的卡片被标记为待复核 */
+export const QUALITY_FLAG_THRESHOLD = 0.8;
+
+/** 待复核卡片的标签（导出到 Anki 后可按标签筛选） */
+export const QUALITY_REVIEW_TAG = "needs-review";
+
+/** 答案超过该 tokens 数视为过长 */
+const LONG_ANSWER_TOKENS = 60;
+
+/**
+ * 质量问题
+ *
+ * - multiple_questions: 正面包含多个问题（不够原子）
+ * - list_answer: 答案是多项列表（不够原子）
+ * - long_answer: 答案过长
+ * - vague_reference: 依赖上下文的指代（"the text"、"本文" 等）
+ * - answer_in_question: 问题中直接包含答案
+ */
+export type QualityIssue =
+  | "multiple_questions"
+  | "list_answer"
+  | "long_answer"
+  | "vague_reference"
+  | "answer_in_question";
+
+/** 各问题的扣分 */
+const ISSUE_PENALTIES: Record<QualityIssue, number> = {
+  multiple_questions: 0.3,
+  list_answer: 0.3,
+  long_answer: 0.3,
+  vague_reference: 0.3,
+  answer_in_question: 0.6,
+};
+
+/** 脱离原文后含义不明的指代 */
+const VAGUE_REFERENCE_PATTERNS = [
+  /\b(the|this) (text|passage|article|document|chapter|section|author)\b/i,
+  /\b(above|following|aforementioned)\b/i,
+  /^(it|this|that|they|these|those)\b/i,
+  /(本文|文中|上文|下文|该文|作者)/,
+];
+
+/**
+ * 卡片质量评分
+ *
+ * @field score - 分数（0-1，1 为无问题）
+ * @field issues - 发现的问题
+ */
+export interface QualityScore {
+  score: number;
+  issues: QualityIssue[];
+}
+
+/**
+ * 规范化用于比较的文本：填空语法替换为答案，去除标点、大小写和多余空白
+ */
+function normalizeForComparison(text: string): string {
+  return parseClozeSegments(text)
+    .map((segment) =>
+      segment.type === "cloze" ? segment.answer : segment.text
+    )
+    .join("")
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 给卡片打分
+ */
+export function scoreFlashcard(card: Flashcard): QualityScore {
+  const issues: QualityIssue[] = [];
+  const front = card.front.trim();
+  const back = card.back.trim();
+
+  if ((front.match(/[?？]/g) ?? []).length > 1) {
+    issues.push("multiple_questions");
+  }
+
+  const listItems = back
+    .split("\n")
+    .filter((line) => /^\s*([-*•]|\d+[.)、])\s+/.test(line)).length;
+  const clauses = (back.match(/[;；]/g) ?? []).length;
+  if (card.cardType !== "cloze" && (listItems >= 3 || clauses >= 2)) {
+    issues.push("list_answer");
+  }
+
+  if (countTokens(back) > LONG_ANSWER_TOKENS) {
+    issues.push("long_answer");
+  }
+
+  if (VAGUE_REFERENCE_PATTERNS.some((pattern) => pattern.test(front))) {
+    issues.push("vague_reference");
+  }
+
+  // 填空卡正面本身包含答案，不检查
+  const normalizedBack = normalizeForComparison(back);
+  if (
+    card.cardType !== "cloze" &&
+    normalizedBack.length > 3 &&
+    normalizeForComparison(front).includes(normalizedBack)
+  ) {
+    issues.push("answer_in_question");
+  }
+
+  const penalty = issues.reduce(
+    (sum, issue) => sum + ISSUE_PENALTIES[issue],
+    0
+  );
+  return { score: Math.max(0, 1 - penalty), issues };
+}
+
+/**
+ * 32 位 FNV-1a 哈希（带种子，用于生成多个独立的哈希函数）
+ */
+function fnv1a(text: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * 计算文本的 MinHash 签名（基于字符 n-gram）
+ */
+export function minHashSignature(text: string): Uint32Array {
+  const normalized = normalizeForComparison(text);
+  const shingles = new Set<string>();
+  if (normalized.length <= SHINGLE_SIZE) {
+    shingles.add(normalized);
+  } else {
+    for (let i = 0; i <= normalized.length - SHINGLE_SIZE; i++) {
+      shingles.add(normalized.slice(i, i + SHINGLE_SIZE));
+    }
+  }
+
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const hash = fnv1a(shingle, i);
+      if (hash < (signature[i] ?? 0)) {
+        signature[i] = hash;
+      }
+    }
+  }
+  return signature;
+}
+
+/**
+ * 由 MinHash 签名估计 Jaccard 相似度
+ */
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / SIGNATURE_SIZE;
+}
+
+/**
+ * 后处理选项
+ *
+ * @field similarityThreshold - 视为重复的相似度阈值（0-1）
+ * @field similarity - 自定义相似度（默认使用正反面文本的 MinHash 估计）
+ * @field existingCards - 牌组中已有的卡片（与其重复的新卡片被丢弃）
+ */
+export interface PostprocessOptions {
+  similarityThreshold?: number;
+  similarity?: (a: Flashcard, b: Flashcard) => number;
+  existingCards?: Flashcard[];
+}
+
+/**
+ * 后处理结果
+ *
+ * @field cards - 保留的卡片（待复核的卡片带 QUALITY_REVIEW_TAG 标签）
+ * @field merged - 合并掉的重复卡片数
+ * @field dropped - 因质量过低丢弃的卡片数
+ * @field flagged - 标记为待复核的卡片数
+ * @field duplicates - 与已有卡片重复而丢弃的卡片数
+ */
+export interface PostprocessResult {
+  cards: Flashcard[];
+  merged: number;
+  dropped: number;
+  flagged: number;
+  duplicates: number;
+}
+
+/**
+ * 合并近似重复的卡片并按质量过滤
+ *
+ * - 与已有卡片相似度超过阈值的卡片丢弃
+ * - 相似度超过阈值的卡片归为一组（传递闭包），每组保留分数最高的一张
+ * - 分数低于 QUALITY_DROP_THRESHOLD 的卡片丢弃（全部低分时改为标记，不丢弃）
+ * - 分数低于 QUALITY_FLAG_THRESHOLD 的卡片添加待复核标签
+ *
+ * 保持卡片原有顺序（每组按最早出现的位置）
+ */
+export function postprocessFlashcards(
+  cards: Flashcard[],
+  options: PostprocessOptions = {}
+): PostprocessResult {
+  const threshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const existingCards = options.existingCards ?? [];
+
+  let similarity = options.similarity;
+  if (!similarity) {
+    const signatures = new Map(
+      [...existingCards, ...cards].map((card) => [
+        card,
+        minHashSignature(`${card.front} ${card.back}`),
+      ])
+    );
+    similarity = (a, b) =>
+      estimateSimilarity(
+        signatures.get(a) ?? new Uint32Array(),
+        signatures.get(b) ?? new Uint32Array()
+      );
+  }
+
+  // 去掉与已有卡片重复的卡片
+  const candidates = cards.filter(
+    (card) =>
+      !existingCards.some((existing) => similarity(card, existing) >= threshold)
+  );
+  const scores = candidates.map(scoreFlashcard);
+
+  // 并查集：相似的卡片归为一组
+  const parent = candidates.map((_, index) => index);
+  const find = (index: number): number => {
+    let root = index;
+    while (parent[root] !== root) root = parent[root] ?? root;
+    parent[index] = root;
+    return root;
+  };
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i];
+      const b = candidates[j];
+      if (a && b && find(i) !== find(j) && similarity(a, b) >= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  // 每组保留分数最高的卡片（同分保留先出现的）
+  // Map 按插入顺序遍历，即各组最早出现的位置
+  const best = new Map<number, number>();
+  for (let i = 0; i < candidates.length; i++) {
+    const root = find(i);
+    const current = best.get(root);
+    if (
+      current === undefined ||
+      (scores[i]?.score ?? 0) > (scores[current]?.score ?? 0)
+    ) {
+      best.set(root, i);
+    }
+  }
+  const kept = [...best.values()];
+
+  const survivors = kept.filter(
+    (index) => (scores[index]?.score ?? 0) >= QUALITY_DROP_THRESHOLD
+  );
+  const selected = survivors.length > 0 ? survivors : kept;
+
+  let flagged = 0;
+  const result = selected.map((index) => {
+    const card = candidates[index] as Flashcard;
+    if ((scores[index]?.score ?? 0) >= QUALITY_FLAG_THRESHOLD) {
+      return card;
+    }
+    flagged++;
+    return {
+      ...card,
+      tags: [...new Set([...(card.tags ?? []), QUALITY_REVIEW_TAG])],
+    };
+  });
+
+  return {
+    cards: result,
+    merged: candidates.length - kept.length,
+    dropped: kept.length - selected.length,
+    flagged,
+    duplicates: cards.length - candidates.length,
+  };
+}
@@ -0,0 +1,407 @@
+import { APICallError } from "ai";
+import { asc, eq } from "drizzle-orm";
+import OpenAI from "openai";
+import { LLM_MODEL_PRICES, type LLMModelPrice } from "@/config/pricing";
+import { db } from "@/db";
+import { type LlmProvider, llmProvider } from "@/db/schema";
+import { FAKE_PROVIDER_ID, fakeFetch } from "./fake";
+import { MODEL_TOKEN_LIMITS } from "./tokenizer";
+
+/**
+ * LLM 提供商注册表
+ *
+ * 所有提供商都通过 OpenAI 兼容接口调用（含 Ollama、llama.cpp 等本地服务），
+ * 闪卡生成、大纲生成和聊天共用同一份配置和回退顺序
+ *
+ * 配置来源：
+ * - 环境变量中的内置提供商（BUILTIN_PROVIDERS）
+ * - 数据库 llm_provider 表（同 ID 覆盖内置配置）
+ *
+ * 回退顺序：
+ * 1. AI_PROVIDER_ORDER（逗号分隔的提供商 ID）
+ * 2. 数据库中启用的提供商（按 priority 升序）
+ * 3. AI_PROVIDER（默认 openai），不回退
+ */
+
+/**
+ * 已解析的提供商配置
+ */
+export interface LLMProviderConfig {
+  /** 提供商 ID */
+  id: string;
+  /** 显示名称 */
+  name: string;
+  /** API 地址（null 时使用 OpenAI 官方地址） */
+  baseURL: string | null;
+  /** API Key（本地服务不需要时为 null） */
+  apiKey: string | null;
+  /** 模型名称 */
+  model: string;
+  /** 上下文窗口（tokens） */
+  contextLimit: number;
+  /** 价格（null 表示未定价） */
+  pricing: LLMModelPrice | null;
+  /** 是否支持 JSON Schema 结构化输出（否则使用 JSON 模式） */
+  structuredOutputs: boolean;
+}
+
+/**
+ * 内置提供商定义（从环境变量读取）
+ */
+interface BuiltinProvider {
+  name: string;
+  /** 默认 API 地址 */
+  baseURL: string | null;
+  /** 覆盖 API 地址的环境变量 */
+  baseURLEnv?: string;
+  /** API Key 环境变量（本地服务为空） */
+  apiKeyEnv: string | null;
+  /** 模型环境变量 */
+  modelEnv: string;
+  defaultModel: string;
+  /** 覆盖上下文窗口的环境变量 */
+  contextLimitEnv?: string;
+  /** 本地服务：默认免费 */
+  local?: boolean;
+  /** 是否支持 JSON Schema 结构化输出 */
+  structuredOutputs?: boolean;
+}
+
+/**
+ * 内置提供商
+ */
+export const BUILTIN_PROVIDERS: Record<string, BuiltinProvider> = {
+  openai: {
+    name: "OpenAI",
+    baseURL: null,
+    apiKeyEnv: "OPENAI_API_KEY",
+    modelEnv: "OPENAI_MODEL",
+    defaultModel: "gpt-4o-mini",
+    structuredOutputs: true,
+  },
+  deepseek: {
+    name: "DeepSeek",
+    baseURL: "https://api.deepseek.com/v1",
+    apiKeyEnv: "DEEPSEEK_API_KEY",
+    modelEnv: "DEEPSEEK_MODEL",
+    defaultModel: "deepseek-chat",
+  },
+  mimo: {
+    name: "MiMo",
+    baseURL: "https://api.xiaomimimo.com/v1",
+    apiKeyEnv: "MIMO_API_KEY",
+    modelEnv: "MIMO_MODEL",
+    defaultModel: "mimo-v2-flash",
+  },
+  ollama: {
+    name: "Ollama",
+    baseURL: "http://localhost:11434/v1",
+    baseURLEnv: "OLLAMA_BASE_URL",
+    apiKeyEnv: null,
+    modelEnv: "OLLAMA_MODEL",
+    defaultModel: "llama3.1",
+    contextLimitEnv: "OLLAMA_CONTEXT_LIMIT",
+    local: true,
+    structuredOutputs: true,
+  },
+  llamacpp: {
+    name: "llama.cpp",
+    baseURL: "http://localhost:8080/v1",
+    baseURLEnv: "LLAMACPP_BASE_URL",
+    apiKeyEnv: null,
+    modelEnv: "LLAMACPP_MODEL",
+    defaultModel: "default",
+    contextLimitEnv: "LLAMACPP_CONTEXT_LIMIT",
+    local: true,
+    structuredOutputs: true,
+  },
+  // 确定性的假提供商（不访问网络，用于测试）
+  [FAKE_PROVIDER_ID]: {
+    name: "Fake",
+    baseURL: "http://fake.invalid/v1",
+    apiKeyEnv: null,
+    modelEnv: "FAKE_MODEL",
+    defaultModel: "fake",
+    contextLimitEnv: "FAKE_CONTEXT_LIMIT",
+    local: true,
+    structuredOutputs: true,
+  },
+};
+
+/** 未知模型的默认上下文窗口（tokens） */
+const DEFAULT_CONTEXT_LIMIT = 128000;
+
+/** 本地模型的默认上下文窗口（tokens） */
+const DEFAULT_LOCAL_CONTEXT_LIMIT = 8192;
+
+/** 数据库配置缓存时间（毫秒） */
+const CONFIG_CACHE_TTL_MS = 60_000;
+
+/** 提供商限流或故障后暂时排到回退链末尾的时间（毫秒） */
+const PROVIDER_COOLDOWN_MS = 30_000;
+
+/** 本地服务不校验 API Key，但 OpenAI SDK 要求非空 */
+export const LOCAL_API_KEY_PLACEHOLDER = "local";
+
+/**
+ * 解析正整数环境变量
+ */
+function readPositiveInt(name: string | undefined): number | null {
+  if (!name) return null;
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+/**
+ * 模型的默认上下文窗口
+ */
+function getContextLimit(model: string, local = false): number {
+  const known = MODEL_TOKEN_LIMITS[model as keyof typeof MODEL_TOKEN_LIMITS];
+  if (known) return known;
+  return local ? DEFAULT_LOCAL_CONTEXT_LIMIT : DEFAULT_CONTEXT_LIMIT;
+}
+
+/**
+ * 从环境变量解析内置提供商
+ *
+ * @returns 配置；需要 API Key 但未配置时返回 null
+ */
+function resolveBuiltinProvider(id: string): LLMProviderConfig | null {
+  const builtin = BUILTIN_PROVIDERS[id];
+  if (!builtin) return null;
+
+  const apiKey = builtin.apiKeyEnv ? process.env[builtin.apiKeyEnv] : null;
+  if (builtin.apiKeyEnv && !apiKey) return null;
+
+  const model = process.env[builtin.modelEnv] || builtin.defaultModel;
+  return {
+    id,
+    name: builtin.name,
+    baseURL:
+      (builtin.baseURLEnv && process.env[builtin.baseURLEnv]) ||
+      builtin.baseURL,
+    apiKey: apiKey ?? null,
+    model,
+    contextLimit:
+      readPositiveInt(builtin.contextLimitEnv) ??
+      getContextLimit(model, builtin.local),
+    pricing: builtin.local
+      ? { inputPer1M: 0, outputPer1M: 0 }
+      : (LLM_MODEL_PRICES[model] ?? null),
+    structuredOutputs: builtin.structuredOutputs ?? false,
+  };
+}
+
+/**
+ * 允许作为 API Key 读取的环境变量名
+ *
+ * 数据库中的提供商会把密钥发送到配置的 API 地址，
+ * 只允许 *_API_KEY 形式的变量，避免泄露数据库连接串、鉴权密钥等其他环境变量
+ */
+export const API_KEY_ENV_PATTERN = /^[A-Z][A-Z0-9_]*_API_KEY$/;
+
+/**
+ * 判断环境变量名是否允许作为 API Key 读取
+ */
+export function isAllowedApiKeyEnv(name: string): boolean {
+  return API_KEY_ENV_PATTERN.test(name);
+}
+
+/**
+ * 从数据库记录解析提供商
+ *
+ * @returns 配置；指定了密钥环境变量但未设置或不是允许的变量名时返回 null
+ */
+function resolveDbProvider(row: LlmProvider): LLMProviderConfig | null {
+  if (row.apiKeyEnv && !isAllowedApiKeyEnv(row.apiKeyEnv)) {
+    console.warn(
+      `[AI] Ignoring provider ${row.id}: apiKeyEnv must match ${API_KEY_ENV_PATTERN}`
+    );
+    return null;
+  }
+
+  const apiKey = row.apiKeyEnv ? process.env[row.apiKeyEnv] : null;
+  if (row.apiKeyEnv && !apiKey) return null;
+
+  const hasPricing =
+    row.inputPricePer1M !== null && row.outputPricePer1M !== null;
+  return {
+    id: row.id,
+    name: row.name,
+    baseURL: row.baseUrl,
+    apiKey: apiKey ?? null,
+    model: row.model,
+    contextLimit: row.contextLimit ?? getContextLimit(row.model),
+    pricing: hasPricing
+      ? {
+          inputPer1M: row.inputPricePer1M ?? 0,
+          outputPer1M: row.outputPricePer1M ?? 0,
+        }
+      : (LLM_MODEL_PRICES[row.model] ?? null),
+    structuredOutputs: row.structuredOutputs,
+  };
+}
+
+/**
+ * 读取数据库中启用的提供商
+ *
+ * 读取失败时（如表尚未创建）仅使用环境变量配置
+ */
+async function loadDbProviders(): Promise<LlmProvider[]> {
+  try {
+    return await db
+      .select()
+      .from(llmProvider)
+      .where(eq(llmProvider.enabled, true))
+      .orderBy(asc(llmProvider.priority));
+  } catch (error) {
+    console.error("Failed to load AI providers from database:", error);
+    return [];
+  }
+}
+
+let cachedChain: { providers: LLMProviderConfig[]; loadedAt: number } | null =
+  null;
+
+/**
+ * 加载回退链（不考虑冷却状态）
+ */
+async function loadProviderChain(): Promise<LLMProviderConfig[]> {
+  const rows = await loadDbProviders();
+  const dbProviders = new Map(rows.map((row) => [row.id, row]));
+
+  const order = process.env.AI_PROVIDER_ORDER
+    ? process.env.AI_PROVIDER_ORDER.split(",")
+        .map((id) => id.trim())
+        .filter(Boolean)
+    : rows.length > 0
+      ? rows.map((row) => row.id)
+      : [process.env.AI_PROVIDER || "openai"];
+
+  const providers: LLMProviderConfig[] = [];
+  for (const id of new Set(order)) {
+    const row = dbProviders.get(id);
+    const provider = row ? resolveDbProvider(row) : resolveBuiltinProvider(id);
+    if (provider) {
+      providers.push(provider);
+    } else {
+      console.warn(`AI provider "${id}" is unknown or missing its API key`);
+    }
+  }
+  return providers;
+}
+
+/** 提供商 ID → 冷却结束时间 */
+const cooldowns = new Map<string, number>();
+
+/**
+ * 获取当前回退链
+ *
+ * 冷却中的提供商排到末尾（全部冷却时仍按原顺序尝试）
+ */
+export async function getProviderChain(): Promise<LLMProviderConfig[]> {
+  if (!cachedChain || Date.now() - cachedChain.loadedAt > CONFIG_CACHE_TTL_MS) {
+    cachedChain = {
+      providers: await loadProviderChain(),
+      loadedAt: Date.now(),
+    };
+  }
+
+  const providers = cachedChain.providers;
+  if (providers.length === 0) {
+    throw new Error(
+      "No AI provider configured. Set AI_PROVIDER / AI_PROVIDER_ORDER and the provider's API key"
+    );
+  }
+
+  const now = Date.now();
+  const isCooling = (p: LLMProviderConfig) => (cooldowns.get(p.id) ?? 0) > now;
+  return [
+    ...providers.filter((p) => !isCooling(p)),
+    ...providers.filter(isCooling),
+  ];
+}
+
+/**
+ * 清除配置缓存（修改数据库配置后调用）
+ */
+export function clearProviderCache(): void {
+  cachedChain = null;
+}
+
+const clients = new Map<string, OpenAI>();
+
+/**
+ * 获取提供商的 OpenAI 兼容客户端（按配置缓存）
+ */
+export function getProviderClient(provider: LLMProviderConfig): OpenAI {
+  const key = `${provider.id}|${provider.baseURL ?? ""}|${provider.apiKey ?? ""}`;
+  let client = clients.get(key);
+  if (!client) {
+    client = new OpenAI({
+      apiKey: provider.apiKey ?? LOCAL_API_KEY_PLACEHOLDER,
+      ...(provider.baseURL && { baseURL: provider.baseURL }),
+      ...(provider.id === FAKE_PROVIDER_ID && { fetch: fakeFetch }),
+    });
+    clients.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * 是否为提供商侧的暂时性故障（限流、服务端错误、连接失败）
+ */
+export function isTransientProviderError(error: unknown): boolean {
+  // AI SDK（聊天流式响应）的错误
+  if (APICallError.isInstance(error)) {
+    return error.statusCode === undefined
+      ? error.isRetryable
+      : error.statusCode === 429 || error.statusCode >= 500;
+  }
+  if (error instanceof OpenAI.APIConnectionError) return true;
+  if (!(error instanceof OpenAI.APIError) || error.status === undefined) {
+    return false;
+  }
+  return error.status === 429 || error.status >= 500;
+}
+
+/**
+ * 记录提供商调用失败（暂时性故障时进入冷却）
+ */
+export function reportProviderError(providerId: string, error: unknown): void {
+  if (isTransientProviderError(error)) {
+    cooldowns.set(providerId, Date.now() + PROVIDER_COOLDOWN_MS);
+  }
+}
+
+/**
+ * 按回退链调用 LLM
+ *
+ * 提供商返回 API 错误（限流、故障、鉴权失败、模型不可用等）时尝试下一个，
+ * 非 API 错误（如调用方解析失败）直接抛出；全部失败时抛出最后一个错误
+ *
+ * @param run - 使用指定提供商执行的调用
+ */
+export async function withProviderFallback<T>(
+  run: (provider: LLMProviderConfig, client: OpenAI) => Promise<T>
+): Promise<T> {
+  const chain = await getProviderChain();
+  let lastError: unknown;
+
+  for (const provider of chain) {
+    try {
+      return await run(provider, getProviderClient(provider));
+    } catch (error) {
+      if (!(error instanceof OpenAI.APIError)) {
+        throw error;
+      }
+      reportProviderError(provider.id, error);
+      console.warn(
+        `AI provider ${provider.name} failed (${error.status ?? "connection"}), trying next provider`
+      );
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
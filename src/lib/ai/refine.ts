@@ -0,0 +1,168 @@
+import type OpenAI from "openai";
+import type { CardContent, CardType } from "@/lib/cards";
+import {
+  buildCardTypeRules,
+  type Flashcard,
+  requestFlashcards,
+} from "./openai";
+import {
+  type CardRefinement,
+  DEFAULT_EXPANSION_CARDS,
+  MAX_EXPANSION_CARDS,
+  MAX_SPLIT_CARDS,
+  type RefinementOptions,
+} from "./refinement-options";
+import type { LLMUsageHandler } from "./usage";
+
+/**
+ * 单张卡片的 AI 改写
+ *
+ * 只返回候选卡片，不修改数据库；由用户对比确认后再保存
+ */
+
+/**
+ * 各改写操作给模型的说明
+ */
+const REFINEMENT_INSTRUCTIONS: Record<CardRefinement, string> = {
+  rewrite:
+    "Rewrite the card so the question is unambiguous and the answer is clear and concise. Keep the same facts and the same card type.",
+  split: `Split the card into ${MAX_SPLIT_CARDS} or fewer atomic cards, each testing exactly one fact from the original card. Together they must cover everything the original card tests.`,
+  example:
+    "Keep the question and add one short, concrete example to the answer that illustrates it. Keep the same card type.",
+  cloze:
+    "Convert the card into a single cloze card: one complete sentence stating the fact, with the key terms wrapped in cloze deletions.",
+  translate:
+    "Translate the card. Keep the meaning, card type and cloze syntax unchanged; do not add or remove information.",
+  expand:
+    "Create new cards of the same style from the source passage, testing facts the existing card does not cover. Do not repeat the existing card.",
+};
+
+/**
+ * 改写结果允许的卡片类型
+ */
+function refinementCardTypes(
+  card: CardContent,
+  refinement: CardRefinement
+): CardType[] {
+  return refinement === "cloze" ? ["cloze"] : [card.cardType];
+}
+
+/**
+ * 改写结果的最多卡片数
+ */
+function refinementMaxCards(
+  refinement: CardRefinement,
+  options: RefinementOptions
+): number {
+  switch (refinement) {
+    case "split":
+      return MAX_SPLIT_CARDS;
+    case "expand":
+      return Math.min(
+        MAX_EXPANSION_CARDS,
+        Math.max(1, options.count ?? DEFAULT_EXPANSION_CARDS)
+      );
+    default:
+      return 1;
+  }
+}
+
+/**
+ * 构建改写请求的消息
+ *
+ * @param card - 原卡片
+ * @param refinement - 改写操作
+ * @param options - 改写选项
+ */
+export function buildRefinementMessages(
+  card: CardContent,
+  refinement: CardRefinement,
+  options: RefinementOptions = {}
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const types = refinementCardTypes(card, refinement);
+  const maxCards = refinementMaxCards(refinement, options);
+
+  const countRule =
+    refinement === "expand"
+      ? `Generate ${maxCards} new card${maxCards === 1 ? "" : "s"} (fewer only if the passage cannot support that many distinct cards)`
+      : maxCards === 1
+        ? "Respond with exactly 1 card"
+        : `Respond with at most ${maxCards} cards`;
+
+  const languageRule =
+    refinement === "translate"
+      ? `Write the result in ${options.language}`
+      : "Write the result in the same language as the original card";
+
+  const systemPrompt = `You are an expert educator editing a single flashcard.
+
+Task: ${REFINEMENT_INSTRUCTIONS[refinement]}
+
+Rules:
+1. ${countRule}
+2. ${languageRule}
+3. Only use facts from the original card or the source passage; do not invent new facts
+4. Use only these card types:
+${buildCardTypeRules(types)}
+5. Set "sourceQuote" to the sentence from the source passage that supports the answer, copied verbatim (empty string if there is no source passage)
+
+You MUST respond with a valid JSON object in this exact format:
+{"cards": [{"cardType": "${types[0]}", "front": "...", "back": "...", "options": [], "sourceQuote": "..."}, ...]}`;
+
+  const original = JSON.stringify({
+    cardType: card.cardType,
+    front: card.front,
+    back: card.back,
+    options: card.options ?? null,
+  });
+  const passage = options.sourcePassage?.trim()
+    ? `\n\nSource passage:\n${options.sourcePassage.trim()}`
+    : "";
+
+  return [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: `Original card:\n${original}${passage}` },
+  ];
+}
+
+/**
+ * 用 AI 改写单张卡片
+ *
+ * @param card - 原卡片
+ * @param refinement - 改写操作
+ * @param options - 改写选项
+ * @param onUsage - 用量回调
+ * @returns 候选卡片（替换类操作的第一张对应原卡片）
+ * @throws Error 缺少翻译语言或来源段落，或未能转换为填空卡时
+ */
+export async function refineFlashcard(
+  card: CardContent,
+  refinement: CardRefinement,
+  options: RefinementOptions = {},
+  onUsage?: LLMUsageHandler
+): Promise<Flashcard[]> {
+  if (refinement === "translate" && !options.language?.trim()) {
+    throw new Error("Target language is required for translation");
+  }
+  if (refinement === "expand" && !options.sourcePassage?.trim()) {
+    throw new Error("This card has no source passage to generate more from");
+  }
+
+  const maxCards = refinementMaxCards(refinement, options);
+  const cards = await requestFlashcards(
+    buildRefinementMessages(card, refinement, options),
+    refinementCardTypes(card, refinement),
+    maxCards,
+    onUsage
+  );
+
+  // 没有填空语法的卡片在校验时会降级为 basic，转换失败
+  if (refinement === "cloze") {
+    if (!cards.some((c) => c.cardType === "cloze")) {
+      throw new Error("The model did not produce a valid cloze card");
+    }
+    return cards.filter((c) => c.cardType === "cloze");
+  }
+
+  return cards.slice(0, maxCards);
+}
@@ -0,0 +1,71 @@
+/**
+ * 单卡 AI 改写选项
+ *
+ * 对已有卡片执行改写、拆分、补充示例、转填空、翻译，
+ * 或从卡片的来源段落再生成若干张同类卡片
+ *
+ * 不依赖服务端模块，客户端组件可直接引用
+ */
+
+/** 所有改写操作 */
+export const CARD_REFINEMENTS = [
+  "rewrite",
+  "split",
+  "example",
+  "cloze",
+  "translate",
+  "expand",
+] as const;
+
+/**
+ * 改写操作
+ *
+ * - rewrite: 改写得更清晰
+ * - split: 拆分为多张原子卡片
+ * - example: 在答案中补充示例
+ * - cloze: 转换为填空卡
+ * - translate: 翻译为指定语言
+ * - expand: 从同一来源段落生成更多同类卡片
+ */
+export type CardRefinement = (typeof CARD_REFINEMENTS)[number];
+
+/** 改写操作显示名称 */
+export const CARD_REFINEMENT_LABELS: Record<CardRefinement, string> = {
+  rewrite: "Rewrite clearer",
+  split: "Split into atomic cards",
+  example: "Add an example",
+  cloze: "Make cloze",
+  translate: "Translate",
+  expand: "Generate more like this",
+};
+
+/** 拆分得到的最多卡片数 */
+export const MAX_SPLIT_CARDS = 5;
+
+/** 单次扩展生成的最多卡片数 */
+export const MAX_EXPANSION_CARDS = 10;
+
+/**
+ * 改写选项
+ *
+ * @field language - 翻译目标语言（translate 必填）
+ * @field count - 扩展生成的卡片数（expand，默认 3）
+ * @field sourcePassage - 卡片的来源段落（expand 必填，其他操作作为参考）
+ */
+export interface RefinementOptions {
+  language?: string | undefined;
+  count?: number | undefined;
+  sourcePassage?: string | null | undefined;
+}
+
+/** 扩展生成的默认卡片数 */
+export const DEFAULT_EXPANSION_CARDS = 3;
+
+/**
+ * 判断改写结果是否替换原卡片（expand 只新增卡片）
+ *
+ * 替换时第一张候选卡片覆盖原卡片，其余作为新卡片添加
+ */
+export function refinementReplacesCard(refinement: CardRefinement): boolean {
+  return refinement !== "expand";
+}
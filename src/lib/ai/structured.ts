@@ -0,0 +1,273 @@
+import { z } from "zod";
+import {
+  CARD_TYPES,
+  type CardContent,
+  type CardType,
+  isCardType,
+  normalizeCardContent,
+  validateCardContent,
+} from "@/lib/cards";
+
+/**
+ * 闪卡生成的结构化输出
+ *
+ * - 由 zod schema 生成 JSON Schema（提供商支持时作为 response_format）
+ * - 解析响应：去除代码块包裹，截断的 JSON 尽量保留已完整输出的卡片
+ * - 逐张校验：合法卡片保留，错误信息用于让模型修正
+ */
+
+/**
+ * 构建闪卡响应的 zod schema
+ *
+ * 所有字段都必填（OpenAI 严格模式要求），非选择题的 options 为 null，
+ * 不带图片的卡片 image 为 null
+ *
+ * @param cardTypes - 允许的卡片类型
+ */
+export function flashcardResponseSchema(cardTypes: readonly CardType[]) {
+  const types = cardTypes.length > 0 ? cardTypes : CARD_TYPES;
+  return z.object({
+    cards: z.array(
+      z.object({
+        cardType: z.enum(types as [CardType, ...CardType[]]),
+        front: z.string(),
+        back: z.string(),
+        options: z.array(z.string()).nullable(),
+        sourceQuote: z.string(),
+        image: z
+          .object({
+            src: z.string(),
+            side: z.enum(["front", "back"]),
+          })
+          .nullable(),
+      })
+    ),
+  });
+}
+
+/**
+ * 构建 JSON Schema 结构化输出的 response_format
+ *
+ * @param cardTypes - 允许的卡片类型
+ */
+export function flashcardResponseFormat(cardTypes: readonly CardType[]): {
+  type: "json_schema";
+  json_schema: {
+    name: string;
+    strict: boolean;
+    schema: Record<string, unknown>;
+  };
+} {
+  const { $schema: _, ...schema } = z.toJSONSchema(
+    flashcardResponseSchema(cardTypes)
+  );
+  return {
+    type: "json_schema",
+    json_schema: { name: "flashcards", strict: true, schema },
+  };
+}
+
+/**
+ * 校验单张卡片时使用的宽松 schema
+ *
+ * 未知或不允许的 cardType 不报错，由 normalizeCardContent 降级为 basic
+ */
+const rawFlashcardSchema = z.object({
+  cardType: z.unknown().optional(),
+  front: z.string().trim().min(1, "must be a non-empty string"),
+  back: z.string().nullish(),
+  options: z.array(z.string()).nullish(),
+  sourceQuote: z.string().nullish(),
+  image: z.unknown().optional(),
+});
+
+/**
+ * 模型给出的卡片图片（格式不对时忽略，不影响卡片本身）
+ */
+const rawImageSchema = z.object({
+  src: z.string().trim().min(1),
+  side: z.enum(["front", "back"]).catch("front"),
+});
+
+/**
+ * 解析后的 JSON 响应
+ *
+ * @field value - 解析结果
+ * @field truncated - 是否从截断的 JSON 中修复得到
+ */
+export interface ParsedJsonResponse {
+  value: unknown;
+  truncated: boolean;
+}
+
+/**
+ * 修复截断的 JSON：保留最后一个完整的数组元素，补齐括号
+ *
+ * 例如 `{"cards": [{...}, {...}, {"front": "ab` → `{"cards": [{...}, {...}]}`
+ *
+ * @returns 修复后的值，无法修复时返回 null
+ */
+export function salvageTruncatedJson(text: string): unknown {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let cut = -1;
+  let cutStack: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      stack.push(char);
+      // 还没有完整元素时，截断到第一个数组开头（得到空数组）
+      if (char === "[" && cut === -1) {
+        cut = i + 1;
+        cutStack = [...stack];
+      }
+    } else if (char === "}" || char === "]") {
+      stack.pop();
+      // 数组中的一个元素刚好完整
+      if (stack[stack.length - 1] === "[") {
+        cut = i + 1;
+        cutStack = [...stack];
+      }
+    }
+  }
+
+  if (cut === -1) {
+    return null;
+  }
+
+  const closing = cutStack
+    .reverse()
+    .map((bracket) => (bracket === "{" ? "}" : "]"))
+    .join("");
+  try {
+    return JSON.parse(text.slice(0, cut) + closing);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 解析模型返回的 JSON
+ *
+ * @throws SyntaxError 无法解析且无法修复时
+ */
+export function parseJsonResponse(text: string): ParsedJsonResponse {
+  // 清理可能的 markdown 代码块包裹
+  let cleaned = text.trim();
+  if (cleaned.startsWith("```")) {
+    cleaned = cleaned
+      .replace(/^```(?:json)?\s*\n?/, "")
+      .replace(/\n?```\s*$/, "");
+  }
+
+  try {
+    return { value: JSON.parse(cleaned), truncated: false };
+  } catch (error) {
+    const salvaged = salvageTruncatedJson(cleaned);
+    if (salvaged === null) {
+      throw error;
+    }
+    return { value: salvaged, truncated: true };
+  }
+}
+
+/**
+ * 校验通过的卡片
+ *
+ * @field sourceQuote - 模型给出的原文引用（未给出时为 null）
+ * @field image - 模型选择的插图（替代文本在生成后按原文中的引用补全）
+ */
+export type ValidatedFlashcard = CardContent & { sourceQuote: string | null };
+
+/**
+ * 卡片校验结果
+ *
+ * @field cards - 合法（规范化后）的卡片
+ * @field errors - 不合法卡片或整体结构的错误信息
+ */
+export interface FlashcardValidationResult {
+  cards: ValidatedFlashcard[];
+  errors: string[];
+}
+
+/**
+ * 校验解析后的响应中的卡片
+ *
+ * 支持 `{ cards: [...] }`、`{ flashcards: [...] }` 和直接数组三种格式
+ *
+ * @param value - 解析后的 JSON
+ * @param allowedTypes - 允许的卡片类型
+ */
+export function validateFlashcards(
+  value: unknown,
+  allowedTypes: readonly CardType[]
+): FlashcardValidationResult {
+  const container =
+    typeof value === "object" && value !== null
+      ? (value as { cards?: unknown; flashcards?: unknown })
+      : {};
+  const items = Array.isArray(value)
+    ? value
+    : (container.cards ?? container.flashcards);
+
+  if (!Array.isArray(items)) {
+    return {
+      cards: [],
+      errors: ['Response must be a JSON object with a "cards" array'],
+    };
+  }
+
+  const cards: ValidatedFlashcard[] = [];
+  const errors: string[] = [];
+
+  items.forEach((item, index) => {
+    const parsed = rawFlashcardSchema.safeParse(item);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const field = issue.path.length > 0 ? `.${issue.path.join(".")}` : "";
+        errors.push(`cards[${index}]${field}: ${issue.message}`);
+      }
+      return;
+    }
+
+    const card = normalizeCardContent(parsed.data, allowedTypes);
+    if (card) {
+      const image = rawImageSchema.safeParse(parsed.data.image);
+      cards.push({
+        ...card,
+        sourceQuote: parsed.data.sourceQuote ?? null,
+        ...(image.success && { image: { ...image.data, alt: "" } }),
+      });
+      return;
+    }
+
+    // 按模型声明的类型给出具体原因（规范化后的类型可能已降级）
+    const { cardType, front, back, options } = parsed.data;
+    const reason = validateCardContent({
+      cardType:
+        isCardType(cardType) && allowedTypes.includes(cardType)
+          ? cardType
+          : "basic",
+      front,
+      back: back ?? "",
+      options: options ?? null,
+    });
+    errors.push(
+      `cards[${index}]: ${reason ?? "does not satisfy the rules for its card type"}`
+    );
+  });
+
+  return { cards, errors };
+}
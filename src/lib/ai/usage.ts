@@ -0,0 +1,78 @@
+import type OpenAI from "openai";
+import { calculateLLMCost } from "@/config/pricing";
+import type { LLMProviderConfig } from "./providers";
+
+/**
+ * 单次 LLM 调用的实际用量（来自响应中的 usage 字段）
+ */
+export interface LLMUsage {
+  /** 提供商 ID */
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** 供应商成本（美元），模型未定价时为 null */
+  costUsd: number | null;
+}
+
+/**
+ * 用量回调：每次 LLM 调用完成后调用（用于按任务记录用量）
+ */
+export type LLMUsageHandler = (usage: LLMUsage) => void | Promise<void>;
+
+/**
+ * 从 Chat Completions 响应中提取用量
+ *
+ * 记录请求时的模型名（响应中可能是带版本号的名称，不便按模型汇总和定价），
+ * 成本按提供商配置的价格计算
+ *
+ * @returns 用量；响应未返回 usage 时返回 null
+ */
+export function extractUsage(
+  response: Pick<OpenAI.Chat.ChatCompletion, "usage">,
+  provider: Pick<LLMProviderConfig, "id" | "model" | "pricing">
+): LLMUsage | null {
+  if (!response.usage) {
+    return null;
+  }
+
+  const promptTokens = response.usage.prompt_tokens;
+  const completionTokens = response.usage.completion_tokens;
+
+  return {
+    provider: provider.id,
+    model: provider.model,
+    promptTokens,
+    completionTokens,
+    totalTokens: response.usage.total_tokens,
+    costUsd: calculateLLMCost(
+      provider.model,
+      promptTokens,
+      completionTokens,
+      provider.pricing
+    ),
+  };
+}
+
+/**
+ * 上报一次调用的用量（回调失败不影响生成结果）
+ */
+export async function reportUsage(
+  onUsage: LLMUsageHandler | undefined,
+  response: Pick<OpenAI.Chat.ChatCompletion, "usage">,
+  provider: Pick<LLMProviderConfig, "id" | "model" | "pricing">
+): Promise<void> {
+  if (!onUsage) {
+    return;
+  }
+  const usage = extractUsage(response, provider);
+  if (!usage) {
+    return;
+  }
+  try {
+    await onUsage(usage);
+  } catch (error) {
+    console.error("Failed to record LLM usage:", error);
+  }
+}
@@ -0,0 +1,440 @@
+/**
+ * Anki .apkg 写入器
+ *
+ * .apkg 是一个 zip 包：
+ * - collection.anki2：SQLite 数据库（schema v11，col/notes/cards/revlog/graves）
+ * - media：JSON 清单 {"0": "image.png", ...}
+ * - 0, 1, ...：按清单序号命名的媒体文件
+ */
+
+import JSZip from "jszip";
+
+import {
+  type AnkiModelName,
+  type CardContent,
+  getClozeOrdinals,
+  toAnkiNote,
+} from "@/lib/cards";
+
+import {
+  ankiChecksum,
+  ankiDeckId,
+  ankiGuid,
+  formatAnkiTags,
+  stripHtmlMedia,
+} from "./ids";
+import { ANKI_MODELS, buildModelJson } from "./models";
+import { getSqlJs } from "./sqlite";
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** Anki 子牌组分隔符 */
+export const ANKI_DECK_SEPARATOR = "::";
+
+/** 字段分隔符 */
+const FIELD_SEPARATOR = "\x1f";
+
+/**
+ * 待写入的笔记
+ *
+ * @field guid - 稳定 GUID（见 ankiGuid）
+ * @field model - 笔记模板
+ * @field fields - 字段内容（HTML）
+ * @field tags - 标签
+ * @field deck - 牌组全名，子牌组用 "::" 分隔（如 "Biology::Cells"）
+ */
+export interface ApkgNote {
+  guid: string;
+  model: AnkiModelName;
+  fields: string[];
+  tags?: string[] | undefined;
+  deck: string;
+}
+
+/**
+ * 媒体文件
+ *
+ * @field filename - 文件名（笔记中以 <img src="filename"> 引用）
+ * @field data - 文件内容
+ */
+export interface ApkgMedia {
+  filename: string;
+  data: Uint8Array;
+}
+
+/**
+ * 写入选项
+ *
+ * @field notes - 笔记列表
+ * @field media - 媒体文件
+ * @field now - 生成时间（用于 ID 和修改时间，测试时可固定）
+ */
+export interface ApkgInput {
+  notes: ApkgNote[];
+  media?: ApkgMedia[] | undefined;
+  now?: Date | undefined;
+}
+
+// ============================================
+// 数据库结构
+// ============================================
+
+const SCHEMA_SQL = `
+CREATE TABLE col (
+  id integer primary key,
+  crt integer not null,
+  mod integer not null,
+  scm integer not null,
+  ver integer not null,
+  dty integer not null,
+  usn integer not null,
+  ls integer not null,
+  conf text not null,
+  models text not null,
+  decks text not null,
+  dconf text not null,
+  tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key,
+  guid text not null,
+  mid integer not null,
+  mod integer not null,
+  usn integer not null,
+  tags text not null,
+  flds text not null,
+  sfld integer not null,
+  csum integer not null,
+  flags integer not null,
+  data text not null
+);
+CREATE TABLE cards (
+  id integer primary key,
+  nid integer not null,
+  did integer not null,
+  ord integer not null,
+  mod integer not null,
+  usn integer not null,
+  type integer not null,
+  queue integer not null,
+  due integer not null,
+  ivl integer not null,
+  factor integer not null,
+  reps integer not null,
+  lapses integer not null,
+  left integer not null,
+  odue integer not null,
+  odid integer not null,
+  flags integer not null,
+  data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key,
+  cid integer not null,
+  usn integer not null,
+  ease integer not null,
+  ivl integer not null,
+  lastIvl integer not null,
+  factor integer not null,
+  time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (
+  usn integer not null,
+  oid integer not null,
+  type integer not null
+);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+const DEFAULT_DECK_CONFIG = {
+  id: 1,
+  name: "Default",
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: {
+    delays: [1, 10],
+    ints: [1, 4, 0],
+    initialFactor: 2500,
+    order: 1,
+    perDay: 20,
+    bury: false,
+  },
+  rev: {
+    perDay: 200,
+    ease4: 1.3,
+    ivlFct: 1,
+    maxIvl: 36500,
+    hardFactor: 1.2,
+    bury: false,
+  },
+  lapse: {
+    delays: [10],
+    mult: 0,
+    minInt: 1,
+    leechFails: 8,
+    leechAction: 1,
+  },
+};
+
+// ============================================
+// 写入
+// ============================================
+
+/**
+ * 计算笔记生成的卡片序号（cards.ord）
+ *
+ * - 填空模板：每个填空编号一张（c1 → 0）
+ * - 标准模板：正面引用的字段非空的模板各一张
+ */
+export function getCardOrdinals(
+  note: Pick<ApkgNote, "model" | "fields">
+): number[] {
+  const model = ANKI_MODELS[note.model];
+
+  if (model.type === 1) {
+    const ordinals = getClozeOrdinals(note.fields[0] ?? "");
+    return ordinals.length > 0 ? ordinals.map((ordinal) => ordinal - 1) : [0];
+  }
+
+  return model.templates
+    .map((template, ord) => {
+      const required = template.qfmt.includes("{{Back}}") ? 1 : 0;
+      return stripHtmlMedia(note.fields[required] ?? "") ? ord : null;
+    })
+    .filter((ord): ord is number => ord !== null);
+}
+
+/**
+ * 列出牌组及其所有父牌组（"A::B::C" → ["A", "A::B", "A::B::C"]）
+ */
+function expandDeckPath(name: string): string[] {
+  const parts = name
+    .split(ANKI_DECK_SEPARATOR)
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  return parts.map((_, i) => parts.slice(0, i + 1).join(ANKI_DECK_SEPARATOR));
+}
+
+function buildDeckJson(id: number, name: string, mod: number) {
+  return {
+    id,
+    name,
+    desc: "",
+    mod,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+function validateMedia(media: ApkgMedia[]): void {
+  const seen = new Set<string>();
+  for (const item of media) {
+    if (!item.filename || /[\\/]/.test(item.filename)) {
+      throw new Error(`Invalid media filename: ${item.filename}`);
+    }
+    if (seen.has(item.filename)) {
+      throw new Error(`Duplicate media filename: ${item.filename}`);
+    }
+    seen.add(item.filename);
+  }
+}
+
+/**
+ * 生成 .apkg 文件
+ *
+ * 所有卡片以新卡片状态导出；笔记 GUID 和模板 ID 固定，
+ * 重新导出后在 Anki 中导入会更新已有笔记
+ *
+ * @param input - 笔记、媒体和生成时间
+ * @returns .apkg 文件内容
+ */
+export async function writeApkg(input: ApkgInput): Promise<Buffer> {
+  const { notes, media = [], now = new Date() } = input;
+  validateMedia(media);
+
+  const nowMs = now.getTime();
+  const nowSec = Math.floor(nowMs / 1000);
+
+  // 牌组（含自动补全的父牌组）
+  const decks: Record<string, ReturnType<typeof buildDeckJson>> = {
+    1: buildDeckJson(1, "Default", nowSec),
+  };
+  const deckIds = new Map<string, number>();
+  for (const note of notes) {
+    for (const name of expandDeckPath(note.deck)) {
+      if (!deckIds.has(name)) {
+        const id = ankiDeckId(name);
+        deckIds.set(name, id);
+        decks[id] = buildDeckJson(id, name, nowSec);
+      }
+    }
+  }
+
+  const resolveDeckId = (name: string): number =>
+    deckIds.get(expandDeckPath(name).at(-1) ?? "") ?? 1;
+  const firstDeckId = notes[0] ? resolveDeckId(notes[0].deck) : 1;
+
+  // 笔记模板（只写入用到的模板）
+  const models: Record<string, Record<string, unknown>> = {};
+  for (const note of notes) {
+    const model = ANKI_MODELS[note.model];
+    if (!models[model.id]) {
+      models[model.id] = buildModelJson(note.model, firstDeckId, nowSec);
+    }
+  }
+
+  // 标签注册表
+  const tags: Record<string, number> = {};
+  for (const note of notes) {
+    for (const tag of formatAnkiTags(note.tags ?? [])
+      .trim()
+      .split(" ")) {
+      if (tag) tags[tag] = 0;
+    }
+  }
+
+  const conf = {
+    activeDecks: [firstDeckId],
+    curDeck: firstDeckId,
+    curModel: notes[0] ? ANKI_MODELS[notes[0].model].id : null,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    nextPos: notes.length + 1,
+    sortType: "noteFld",
+    sortBackwards: false,
+    addToCur: true,
+  };
+
+  const SQL = await getSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run(SCHEMA_SQL);
+
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)", [
+      nowSec - (nowSec % 86400),
+      nowMs,
+      nowMs,
+      JSON.stringify(conf),
+      JSON.stringify(models),
+      JSON.stringify(decks),
+      JSON.stringify({ 1: DEFAULT_DECK_CONFIG }),
+      JSON.stringify(tags),
+    ]);
+
+    const insertNote = db.prepare(
+      "INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')"
+    );
+    const insertCard = db.prepare(
+      "INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')"
+    );
+
+    let cardId = nowMs;
+    notes.forEach((note, index) => {
+      const model = ANKI_MODELS[note.model];
+      const fields = model.fields.map((_, i) => note.fields[i] ?? "");
+      const noteId = nowMs + index;
+
+      insertNote.run([
+        noteId,
+        note.guid,
+        model.id,
+        nowSec,
+        formatAnkiTags(note.tags ?? []),
+        fields.join(FIELD_SEPARATOR),
+        stripHtmlMedia(fields[0] ?? ""),
+        ankiChecksum(fields[0] ?? ""),
+      ]);
+
+      // 新卡片的 due 为新卡片队列中的位置
+      for (const ord of getCardOrdinals(note)) {
+        insertCard.run([
+          cardId++,
+          noteId,
+          resolveDeckId(note.deck),
+          ord,
+          nowSec,
+          index + 1,
+        ]);
+      }
+    });
+
+    insertNote.free();
+    insertCard.free();
+
+    const zip = new JSZip();
+    zip.file("collection.anki2", db.export());
+    zip.file(
+      "media",
+      JSON.stringify(
+        Object.fromEntries(media.map((item, i) => [String(i), item.filename]))
+      )
+    );
+    media.forEach((item, i) => {
+      zip.file(String(i), item.data);
+    });
+
+    return await zip.generateAsync({
+      type: "nodebuffer",
+      compression: "DEFLATE",
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// ============================================
+// 卡片映射
+// ============================================
+
+/**
+ * 将卡片转换为 .apkg 笔记
+ *
+ * GUID 由卡片 ID 派生；卡片类型变化后 Anki 会因模板不同而新建笔记
+ *
+ * @param content - 卡片内容和 ID
+ * @param deck - 牌组全名
+ * @param tags - 标签
+ */
+export function cardToApkgNote(
+  content: CardContent & { id: string },
+  deck: string,
+  tags: string[] = []
+): ApkgNote {
+  const note = toAnkiNote(content);
+
+  return {
+    guid: ankiGuid(content.id),
+    model: note.model,
+    fields: note.fields.map((field) => field.replace(/\n/g, "<br>")),
+    tags,
+    deck,
+  };
+}
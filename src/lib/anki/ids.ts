@@ -0,0 +1,81 @@
+/**
+ * Anki 标识符与校验工具
+ *
+ * - GUID：由卡片 ID 派生，重复导出时保持不变，Anki 导入时更新已有笔记而不是新建
+ * - 牌组 ID：由牌组全名派生，同名牌组合并
+ * - 校验和：Anki 用于查重的首字段 SHA1 前 8 位
+ */
+
+import { createHash } from "node:crypto";
+
+/** Anki guid64 使用的 Base91 字符表 */
+const BASE91_TABLE =
+  "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!#$%&()*+,-./:;<=>?@[]^_`{|}~";
+
+function sha1(text: string): Buffer {
+  return createHash("sha1").update(text, "utf8").digest();
+}
+
+/**
+ * 生成稳定的笔记 GUID（64 位整数的 Base91 编码，与 Anki guid64 格式一致）
+ *
+ * @param seed - 稳定种子（如卡片 ID）
+ */
+export function ankiGuid(seed: string): string {
+  let value = sha1(`ankigenix:${seed}`).readBigUInt64BE(0);
+  const base = BigInt(BASE91_TABLE.length);
+  let guid = "";
+
+  do {
+    guid = BASE91_TABLE[Number(value % base)] + guid;
+    value /= base;
+  } while (value > BigInt(0));
+
+  return guid;
+}
+
+/**
+ * 由牌组全名派生牌组 ID
+ *
+ * 固定落在 2^40 以上，避免与默认牌组（ID 1）冲突
+ */
+export function ankiDeckId(name: string): number {
+  return 2 ** 40 + sha1(`deck:${name}`).readUIntBE(0, 5);
+}
+
+/**
+ * 去除 HTML 标签，保留图片文件名（与 Anki stripHTMLMedia 一致）
+ */
+export function stripHtmlMedia(html: string): string {
+  return html
+    .replace(/<img[^>]*src=["']?([^"'>\s]+)["']?[^>]*>/gi, " $1 ")
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * 计算首字段校验和（notes.csum）
+ */
+export function ankiChecksum(firstField: string): number {
+  return sha1(stripHtmlMedia(firstField)).readUInt32BE(0);
+}
+
+/**
+ * 格式化标签字段（notes.tags）
+ *
+ * Anki 标签以空格分隔，首尾各一个空格；标签内的空格替换为下划线
+ */
+export function formatAnkiTags(tags: string[]): string {
+  const normalized = [
+    ...new Set(
+      tags.map((tag) => tag.trim().replace(/\s+/g, "_")).filter(Boolean)
+    ),
+  ];
+  return normalized.length > 0 ? ` ${normalized.join(" ")} ` : "";
+}
@@ -0,0 +1,675 @@
+/**
+ * Anki .apkg / .colpkg 读取与转换
+ *
+ * - 读取：解压 zip，打开 collection.anki21 / collection.anki2（schema v11）
+ * - 转换：笔记 → CardContent（按笔记模板推断卡片类型），卡片调度 → FSRS 状态，
+ *   revlog → 复习记录
+ *
+ * 不支持的内容（新版 zstd 压缩集合、缺少字段的笔记、纯媒体字段）会在报告中列出
+ */
+
+import {
+  type CardContent,
+  type CardType,
+  validateCardContent,
+} from "@/lib/cards";
+import { openArchive } from "@/lib/parsers/archive";
+
+import { ANKI_DECK_SEPARATOR } from "./apkg";
+import { getSqlJs } from "./sqlite";
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 字段分隔符 */
+const FIELD_SEPARATOR = "\x1f";
+
+/** 报告中最多列出的跳过笔记数 */
+export const MAX_REPORTED_SKIPS = 100;
+
+/**
+ * 笔记模板
+ *
+ * @field type - 0 标准模板，1 填空模板
+ * @field fields - 字段名称（按 ord 排序）
+ * @field templates - 卡片模板（按 ord 排序）
+ */
+export interface AnkiPackageModel {
+  id: number;
+  name: string;
+  type: number;
+  fields: string[];
+  templates: Array<{ name: string; qfmt: string; afmt: string }>;
+}
+
+/** 笔记 */
+export interface AnkiPackageNote {
+  id: number;
+  guid: string;
+  modelId: number;
+  tags: string[];
+  fields: string[];
+}
+
+/** 卡片（含调度信息） */
+export interface AnkiPackageCard {
+  id: number;
+  noteId: number;
+  deckId: number;
+  ord: number;
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+  data: string;
+}
+
+/** 复习记录 */
+export interface AnkiRevlogEntry {
+  id: number;
+  cardId: number;
+  ease: number;
+  ivl: number;
+  lastIvl: number;
+  factor: number;
+  time: number;
+  type: number;
+}
+
+/**
+ * 解析后的 Anki 包
+ *
+ * @field createdAt - 集合创建时间（秒），复习卡的 due 以此为基准的天数
+ * @field mediaCount - 包内媒体文件数
+ */
+export interface AnkiPackage {
+  createdAt: number;
+  models: Map<number, AnkiPackageModel>;
+  decks: Map<number, string>;
+  notes: AnkiPackageNote[];
+  cards: AnkiPackageCard[];
+  revlog: AnkiRevlogEntry[];
+  mediaCount: number;
+}
+
+/**
+ * 转换后的 FSRS 调度状态（与 card_schedule 字段对应）
+ */
+export interface ImportedSchedule {
+  state: "learning" | "review" | "relearning";
+  stability: number;
+  difficulty: number;
+  due: Date;
+  lastReview: Date | null;
+  elapsedDays: number;
+  scheduledDays: number;
+  reps: number;
+  lapses: number;
+}
+
+/**
+ * 转换后的复习记录（与 review_log 字段对应）
+ */
+export interface ImportedReview {
+  rating: "again" | "hard" | "good" | "easy";
+  state: "learning" | "review" | "relearning";
+  elapsedDays: number;
+  lastScheduledDays: number;
+  scheduledDays: number;
+  stability: number;
+  difficulty: number;
+  durationMs: number;
+  reviewedAt: Date;
+}
+
+/** 待导入的卡片 */
+export interface ImportItem {
+  content: CardContent;
+  tags: string[];
+  schedule: ImportedSchedule | null;
+  reviews: ImportedReview[];
+}
+
+/** 跳过的笔记 */
+export interface SkippedNote {
+  noteId: string;
+  reason: string;
+  preview: string;
+}
+
+/**
+ * 导入计划：按 Anki 牌组分组的卡片和跳过原因
+ *
+ * @field decks - 每个 Anki 牌组（全名，含 "::" 子牌组路径）的卡片
+ * @field skipped - 跳过的笔记（最多 MAX_REPORTED_SKIPS 条）
+ * @field skippedCount - 跳过的笔记总数
+ * @field unsupportedModels - 导致跳过的笔记模板及笔记数
+ */
+export interface ImportPlan {
+  decks: Array<{ name: string; items: ImportItem[] }>;
+  skipped: SkippedNote[];
+  skippedCount: number;
+  unsupportedModels: Array<{ name: string; count: number }>;
+}
+
+/**
+ * 导入结果报告（保存在 deck_import.report）
+ *
+ * @field decks - 创建的牌组
+ * @field skipped - 跳过的笔记（最多 MAX_REPORTED_SKIPS 条）
+ * @field unsupportedModels - 导致跳过的笔记模板及笔记数
+ * @field mediaSkipped - 未导入的媒体文件数
+ * @field scheduledCards - 保留调度状态的卡片数
+ * @field reviewLogs - 导入的复习记录数
+ */
+export interface AnkiImportReport {
+  decks: Array<{ deckId: string; title: string; cardCount: number }>;
+  skipped: SkippedNote[];
+  unsupportedModels: Array<{ name: string; count: number }>;
+  mediaSkipped: number;
+  scheduledCards: number;
+  reviewLogs: number;
+}
+
+// ============================================
+// 读取
+// ============================================
+
+/**
+ * 判断文件名是否为 Anki 包
+ */
+export function isAnkiPackageFilename(filename: string): boolean {
+  return /\.(apkg|colpkg)$/i.test(filename);
+}
+
+/**
+ * 读取 Anki 包
+ *
+ * @param data - .apkg / .colpkg 文件内容
+ */
+export async function readAnkiPackage(data: Uint8Array): Promise<AnkiPackage> {
+  // 限制解压后大小，防止压缩炸弹耗尽内存
+  const archive = await openArchive(
+    Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+  );
+
+  // collection.anki21 存在时，collection.anki2 只是提示升级的占位集合
+  const collection =
+    (await archive.readBuffer("collection.anki21")) ??
+    (await archive.readBuffer("collection.anki2"));
+  if (!collection) {
+    if (archive.hasFile("collection.anki21b")) {
+      throw new Error(
+        'This package uses the Anki 2.1.50+ format. Re-export it in Anki with "Support older Anki versions" enabled.'
+      );
+    }
+    throw new Error("Not a valid Anki package: collection not found");
+  }
+
+  const mediaManifest = await archive.readText("media");
+  let mediaCount = 0;
+  try {
+    mediaCount = mediaManifest
+      ? Object.keys(JSON.parse(mediaManifest)).length
+      : 0;
+  } catch {
+    // 新版包的媒体清单为 protobuf，无法解析时按无媒体处理
+  }
+
+  const SQL = await getSqlJs();
+  const db = new SQL.Database(collection);
+
+  try {
+    const query = <T>(sql: string, map: (row: unknown[]) => T): T[] =>
+      (db.exec(sql)[0]?.values ?? []).map(map);
+
+    const [col] = query(
+      "SELECT crt, models, decks FROM col LIMIT 1",
+      (row) => row
+    );
+    if (!col) {
+      throw new Error("Not a valid Anki package: collection is empty");
+    }
+
+    const rawModels = JSON.parse(String(col[1] || "{}")) as Record<
+      string,
+      {
+        id: number;
+        name: string;
+        type?: number;
+        flds?: Array<{ name: string; ord: number }>;
+        tmpls?: Array<{
+          name: string;
+          ord: number;
+          qfmt: string;
+          afmt: string;
+        }>;
+      }
+    >;
+    const rawDecks = JSON.parse(String(col[2] || "{}")) as Record<
+      string,
+      { id: number; name: string }
+    >;
+
+    const models = new Map<number, AnkiPackageModel>();
+    for (const model of Object.values(rawModels)) {
+      models.set(Number(model.id), {
+        id: Number(model.id),
+        name: model.name,
+        type: model.type ?? 0,
+        fields: [...(model.flds ?? [])]
+          .sort((a, b) => a.ord - b.ord)
+          .map((field) => field.name),
+        templates: [...(model.tmpls ?? [])]
+          .sort((a, b) => a.ord - b.ord)
+          .map(({ name, qfmt, afmt }) => ({ name, qfmt, afmt })),
+      });
+    }
+
+    const decks = new Map<number, string>();
+    for (const deck of Object.values(rawDecks)) {
+      decks.set(Number(deck.id), deck.name);
+    }
+
+    const notes = query(
+      "SELECT id, guid, mid, tags, flds FROM notes ORDER BY id",
+      (row) => ({
+        id: Number(row[0]),
+        guid: String(row[1]),
+        modelId: Number(row[2]),
+        tags: String(row[3]).split(/\s+/).filter(Boolean),
+        fields: String(row[4]).split(FIELD_SEPARATOR),
+      })
+    );
+
+    const cards = query(
+      "SELECT id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses, data FROM cards ORDER BY nid, ord",
+      (row) => ({
+        id: Number(row[0]),
+        noteId: Number(row[1]),
+        deckId: Number(row[2]),
+        ord: Number(row[3]),
+        type: Number(row[4]),
+        queue: Number(row[5]),
+        due: Number(row[6]),
+        ivl: Number(row[7]),
+        factor: Number(row[8]),
+        reps: Number(row[9]),
+        lapses: Number(row[10]),
+        data: String(row[11] ?? ""),
+      })
+    );
+
+    const revlog = query(
+      "SELECT id, cid, ease, ivl, lastIvl, factor, time, type FROM revlog ORDER BY id",
+      (row) => ({
+        id: Number(row[0]),
+        cardId: Number(row[1]),
+        ease: Number(row[2]),
+        ivl: Number(row[3]),
+        lastIvl: Number(row[4]),
+        factor: Number(row[5]),
+        time: Number(row[6]),
+        type: Number(row[7]),
+      })
+    );
+
+    return {
+      createdAt: Number(col[0]),
+      models,
+      decks,
+      notes,
+      cards,
+      revlog,
+      mediaCount,
+    };
+  } finally {
+    db.close();
+  }
+}
+
+// ============================================
+// 笔记转换
+// ============================================
+
+/**
+ * 将 Anki 字段 HTML 转换为纯文本
+ *
+ * 换行标签转为换行，去除其余标签、音频引用和 HTML 实体
+ */
+export function ankiHtmlToText(html: string): string {
+  return html
+    .replace(/\[sound:[^\]]*\]/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(div|p|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) =>
+      String.fromCodePoint(Number(code))
+    )
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * 提取模板中引用的字段名（{{Field}}、{{type:Field}}、{{cloze:Field}} 等）
+ */
+function getTemplateFields(template: string): string[] {
+  return [...template.matchAll(/\{\{([^#/^}][^}]*)\}\}/g)]
+    .map((match) => (match[1] ?? "").split(":").at(-1)?.trim() ?? "")
+    .filter((name) => name && name !== "FrontSide");
+}
+
+/**
+ * 将笔记转换为卡片内容
+ *
+ * - 填空模板 → cloze
+ * - 首个模板含 {{type:...}} → type_answer
+ * - 第二个模板以背面字段为问题 → basic_reverse
+ * - 其余 → basic；未被模板引用的非空字段追加到背面
+ *
+ * @returns 卡片内容，或跳过原因
+ */
+export function convertAnkiNote(
+  note: Pick<AnkiPackageNote, "fields">,
+  model: AnkiPackageModel
+): { content: CardContent } | { reason: string } {
+  const fieldValue = (name: string | undefined) => {
+    const index = name ? model.fields.indexOf(name) : -1;
+    return index >= 0 ? (note.fields[index] ?? "") : "";
+  };
+
+  let cardType: CardType;
+  let frontName: string | undefined;
+  let backName: string | undefined;
+
+  if (model.type === 1) {
+    cardType = "cloze";
+    frontName =
+      getTemplateFields(model.templates[0]?.qfmt ?? "")[0] ?? model.fields[0];
+    backName = model.fields.find((name) => name !== frontName);
+  } else {
+    const first = model.templates[0];
+    if (!first || model.fields.length < 2) {
+      return { reason: `Note type "${model.name}" needs at least two fields` };
+    }
+
+    frontName = getTemplateFields(first.qfmt)[0] ?? model.fields[0];
+    backName =
+      getTemplateFields(first.afmt).find((name) => name !== frontName) ??
+      model.fields.find((name) => name !== frontName);
+
+    const second = model.templates[1];
+    if (first.qfmt.includes("{{type:")) {
+      cardType = "type_answer";
+    } else if (
+      second &&
+      backName &&
+      getTemplateFields(second.qfmt)[0] === backName
+    ) {
+      cardType = "basic_reverse";
+    } else {
+      cardType = "basic";
+    }
+  }
+
+  const frontHtml = fieldValue(frontName);
+  const front = ankiHtmlToText(frontHtml);
+  const extras = model.fields
+    .filter((name) => name !== frontName && name !== backName)
+    .map((name) => ankiHtmlToText(fieldValue(name)))
+    .filter(Boolean);
+  const back = [ankiHtmlToText(fieldValue(backName)), ...extras]
+    .filter(Boolean)
+    .join("\n\n");
+
+  if (!front && /<img\b/i.test(frontHtml)) {
+    return { reason: "Image-only fields are not supported yet" };
+  }
+
+  const content: CardContent = { cardType, front, back, options: null };
+  const error = validateCardContent(content);
+  if (error) {
+    return { reason: error };
+  }
+
+  return { content };
+}
+
+// ============================================
+// 调度转换
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Anki 难度系数（permille，默认 2500）→ FSRS 难度（1-10，默认 5）
+ */
+export function factorToDifficulty(factor: number): number {
+  if (!factor) return 5;
+  return Math.min(10, Math.max(1, 5 + (2500 - factor) / 200));
+}
+
+/**
+ * 读取卡片 data 中的 FSRS 记忆状态（Anki 23.10+ 启用 FSRS 时写入）
+ */
+function readMemoryState(data: string): { s?: number; d?: number } {
+  try {
+    const parsed = JSON.parse(data || "{}") as { s?: unknown; d?: unknown };
+    return {
+      ...(typeof parsed.s === "number" && { s: parsed.s }),
+      ...(typeof parsed.d === "number" && { d: parsed.d }),
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 将 Anki 卡片调度转换为 FSRS 状态
+ *
+ * @param card - Anki 卡片
+ * @param createdAt - 集合创建时间（秒）
+ * @param lastReviewAt - 最后一次复习时间（来自 revlog）
+ * @returns 调度状态；新卡片返回 null
+ */
+export function convertAnkiSchedule(
+  card: AnkiPackageCard,
+  createdAt: number,
+  lastReviewAt: Date | null
+): ImportedSchedule | null {
+  if (card.type === 0) {
+    return null;
+  }
+
+  const state =
+    card.type === 1 ? "learning" : card.type === 3 ? "relearning" : "review";
+
+  // 复习卡（和隔天学习卡）的 due 是相对集合创建日的天数；学习卡是 Unix 秒
+  const due =
+    card.due > 1_000_000_000
+      ? new Date(card.due * 1000)
+      : new Date(createdAt * 1000 + card.due * DAY_MS);
+
+  const scheduledDays = Math.max(card.ivl, 0);
+  const memory = readMemoryState(card.data);
+  const lastReview =
+    lastReviewAt ??
+    (state === "review"
+      ? new Date(due.getTime() - scheduledDays * DAY_MS)
+      : null);
+
+  return {
+    state,
+    stability: memory.s ?? Math.max(scheduledDays, state === "review" ? 1 : 0),
+    difficulty: memory.d ?? factorToDifficulty(card.factor),
+    due,
+    lastReview,
+    elapsedDays: scheduledDays,
+    scheduledDays,
+    reps: card.reps,
+    lapses: card.lapses,
+  };
+}
+
+const RATINGS = ["again", "hard", "good", "easy"] as const;
+
+/**
+ * 将 revlog 转换为复习记录
+ *
+ * 手动改期（type 4）和无评分记录（ease 0）返回 null
+ */
+export function convertAnkiRevlog(
+  entry: AnkiRevlogEntry
+): ImportedReview | null {
+  const rating = RATINGS[entry.ease - 1];
+  if (!rating || entry.type > 3) {
+    return null;
+  }
+
+  // ivl / lastIvl 为负数时表示学习步长（秒），按 0 天处理
+  const scheduledDays = Math.max(entry.ivl, 0);
+  const lastScheduledDays = Math.max(entry.lastIvl, 0);
+
+  return {
+    rating,
+    state:
+      entry.type === 0
+        ? "learning"
+        : entry.type === 2
+          ? "relearning"
+          : "review",
+    elapsedDays: lastScheduledDays,
+    lastScheduledDays,
+    scheduledDays,
+    stability: scheduledDays,
+    difficulty: factorToDifficulty(entry.factor),
+    durationMs: Math.max(entry.time, 0),
+    reviewedAt: new Date(entry.id),
+  };
+}
+
+// ============================================
+// 导入计划
+// ============================================
+
+/**
+ * 生成导入计划
+ *
+ * 每条笔记导入为一张卡片，归入其首张卡片（ord 最小）所在的牌组；
+ * 保留调度时使用首张卡片的调度状态和复习记录
+ *
+ * @param pkg - 解析后的 Anki 包
+ * @param includeScheduling - 是否保留调度状态和复习记录
+ */
+export function planAnkiImport(
+  pkg: AnkiPackage,
+  includeScheduling: boolean
+): ImportPlan {
+  const primaryCards = new Map<number, AnkiPackageCard>();
+  for (const card of pkg.cards) {
+    const current = primaryCards.get(card.noteId);
+    if (!current || card.ord < current.ord) {
+      primaryCards.set(card.noteId, card);
+    }
+  }
+
+  const revlogByCard = new Map<number, AnkiRevlogEntry[]>();
+  if (includeScheduling) {
+    for (const entry of pkg.revlog) {
+      const entries = revlogByCard.get(entry.cardId) ?? [];
+      entries.push(entry);
+      revlogByCard.set(entry.cardId, entries);
+    }
+  }
+
+  const decks = new Map<string, ImportItem[]>();
+  const skipped: SkippedNote[] = [];
+  let skippedCount = 0;
+  const unsupportedModels = new Map<string, number>();
+
+  const skip = (note: AnkiPackageNote, reason: string, modelName?: string) => {
+    skippedCount++;
+    if (modelName) {
+      unsupportedModels.set(
+        modelName,
+        (unsupportedModels.get(modelName) ?? 0) + 1
+      );
+    }
+    if (skipped.length < MAX_REPORTED_SKIPS) {
+      skipped.push({
+        noteId: String(note.id),
+        reason,
+        preview: ankiHtmlToText(note.fields[0] ?? "").slice(0, 80),
+      });
+    }
+  };
+
+  for (const note of pkg.notes) {
+    const model = pkg.models.get(note.modelId);
+    const primary = primaryCards.get(note.id);
+
+    if (!model) {
+      skip(note, "Note type not found");
+      continue;
+    }
+    if (!primary) {
+      skip(note, "Note has no cards");
+      continue;
+    }
+
+    const converted = convertAnkiNote(note, model);
+    if ("reason" in converted) {
+      skip(note, converted.reason, model.name);
+      continue;
+    }
+
+    const deckName = (pkg.decks.get(primary.deckId) ?? "Imported").replaceAll(
+      "\x1f",
+      ANKI_DECK_SEPARATOR
+    );
+
+    let schedule: ImportedSchedule | null = null;
+    let reviews: ImportedReview[] = [];
+    if (includeScheduling) {
+      const entries = revlogByCard.get(primary.id) ?? [];
+      const lastEntry = entries.at(-1);
+      schedule = convertAnkiSchedule(
+        primary,
+        pkg.createdAt,
+        lastEntry ? new Date(lastEntry.id) : null
+      );
+      reviews = entries
+        .map(convertAnkiRevlog)
+        .filter((review): review is ImportedReview => review !== null);
+    }
+
+    const items = decks.get(deckName) ?? [];
+    items.push({
+      content: converted.content,
+      tags: note.tags,
+      schedule,
+      reviews,
+    });
+    decks.set(deckName, items);
+  }
+
+  return {
+    decks: [...decks.entries()].map(([name, items]) => ({ name, items })),
+    skipped,
+    skippedCount,
+    unsupportedModels: [...unsupportedModels.entries()].map(
+      ([name, count]) => ({ name, count })
+    ),
+  };
+}
@@ -0,0 +1,41 @@
+export {
+  ANKI_DECK_SEPARATOR,
+  type ApkgInput,
+  type ApkgMedia,
+  type ApkgNote,
+  cardToApkgNote,
+  getCardOrdinals,
+  writeApkg,
+} from "./apkg";
+export {
+  ankiChecksum,
+  ankiDeckId,
+  ankiGuid,
+  formatAnkiTags,
+  stripHtmlMedia,
+} from "./ids";
+export {
+  type AnkiImportReport,
+  type AnkiPackage,
+  ankiHtmlToText,
+  convertAnkiNote,
+  convertAnkiRevlog,
+  convertAnkiSchedule,
+  factorToDifficulty,
+  type ImportedReview,
+  type ImportedSchedule,
+  type ImportItem,
+  type ImportPlan,
+  isAnkiPackageFilename,
+  MAX_REPORTED_SKIPS,
+  planAnkiImport,
+  readAnkiPackage,
+  type SkippedNote,
+} from "./import";
+export {
+  extractImageSources,
+  getMediaFilename,
+  replaceImageSources,
+  rewriteImageSources,
+} from "./media";
+export { ANKI_MODELS, type AnkiModelDefinition } from "./models";
@@ -0,0 +1,86 @@
+/**
+ * .apkg 媒体引用处理
+ *
+ * Anki 笔记只能通过文件名引用包内媒体（<img src="name.png">），
+ * 导出前需要把卡片中的图片 URL 替换为包内文件名
+ */
+
+import { createHash } from "node:crypto";
+
+const IMG_SRC_PATTERN = /(<img\b[^>]*?\bsrc=)(["'])(.*?)\2/gi;
+const IMG_TAG_PATTERN = /<img\b[^>]*>/gi;
+
+/** 常见图片扩展名（按 Content-Type 推断） */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+};
+
+/**
+ * 提取 HTML 中所有 <img> 的 src
+ */
+export function extractImageSources(html: string): string[] {
+  return [...html.matchAll(IMG_SRC_PATTERN)]
+    .map((match) => match[3] ?? "")
+    .filter(Boolean);
+}
+
+/**
+ * 替换 HTML 中的 <img> src
+ *
+ * @param html - 原始 HTML
+ * @param replacements - 原始 src → 包内文件名；未命中的 src 保持不变
+ */
+export function replaceImageSources(
+  html: string,
+  replacements: Map<string, string>
+): string {
+  return html.replace(
+    IMG_SRC_PATTERN,
+    (match, prefix: string, quote: string, src: string) => {
+      const filename = replacements.get(src);
+      return filename ? `${prefix}${quote}${filename}${quote}` : match;
+    }
+  );
+}
+
+/**
+ * 按 src 改写或移除 HTML 中的 <img>
+ *
+ * 用于不能打包媒体的导出（如纯文本）：相对地址改为绝对地址，无法访问的图片移除
+ *
+ * @param html - 原始 HTML
+ * @param rewrite - 原始 src → 新 src；返回 null 时移除整个 <img>
+ */
+export function rewriteImageSources(
+  html: string,
+  rewrite: (src: string) => string | null
+): string {
+  return html.replace(IMG_TAG_PATTERN, (tag) => {
+    const src = extractImageSources(tag)[0];
+    if (!src) return tag;
+    const next = rewrite(src);
+    return next === null
+      ? ""
+      : replaceImageSources(tag, new Map([[src, next]]));
+  });
+}
+
+/**
+ * 生成稳定的媒体文件名（同一 URL 多次导出文件名不变，Anki 不会重复存储）
+ *
+ * @param source - 原始 URL 或存储键名
+ * @param contentType - MIME 类型（用于推断扩展名）
+ */
+export function getMediaFilename(source: string, contentType?: string): string {
+  const hash = createHash("sha1").update(source).digest("hex").slice(0, 16);
+  const fromPath = source.match(/\.([a-z0-9]{2,5})(?:[?#].*)?$/i)?.[1];
+  const extension = fromPath
+    ? `.${fromPath.toLowerCase()}`
+    : (contentType && IMAGE_EXTENSIONS[contentType]) || "";
+
+  return `ankigenix-${hash}${extension}`;
+}
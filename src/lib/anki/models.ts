@@ -0,0 +1,177 @@
+/**
+ * Anki 笔记模板定义
+ *
+ * 模板 ID 固定不变，重复导出时 Anki 能识别为同一笔记模板并按 GUID 更新笔记
+ */
+
+import type { AnkiModelName } from "@/lib/cards";
+
+/** 笔记模板类型：0 标准模板，1 填空模板 */
+type AnkiModelType = 0 | 1;
+
+/**
+ * 卡片模板
+ *
+ * @field name - 模板名称
+ * @field qfmt - 正面模板
+ * @field afmt - 背面模板
+ */
+interface AnkiTemplate {
+  name: string;
+  qfmt: string;
+  afmt: string;
+}
+
+/**
+ * 笔记模板定义
+ *
+ * @field id - 固定的模板 ID
+ * @field type - 模板类型
+ * @field fields - 字段名称
+ * @field templates - 卡片模板（填空模板只有一个，按填空编号生成多张卡片）
+ */
+export interface AnkiModelDefinition {
+  id: number;
+  type: AnkiModelType;
+  fields: string[];
+  templates: AnkiTemplate[];
+}
+
+const ANSWER_SEPARATOR = "\n\n<hr id=answer>\n\n";
+
+const MODEL_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: center;
+  color: black;
+  background-color: white;
+}
+
+.cloze {
+  font-weight: bold;
+  color: blue;
+}
+
+.nightMode .cloze {
+  color: lightblue;
+}
+`;
+
+const LATEX_PRE =
+  "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n";
+
+const LATEX_POST = "\\end{document}";
+
+/** 所有导出使用的笔记模板 */
+export const ANKI_MODELS: Record<AnkiModelName, AnkiModelDefinition> = {
+  Basic: {
+    id: 1718000000001,
+    type: 0,
+    fields: ["Front", "Back"],
+    templates: [
+      {
+        name: "Card 1",
+        qfmt: "{{Front}}",
+        afmt: `{{FrontSide}}${ANSWER_SEPARATOR}{{Back}}`,
+      },
+    ],
+  },
+  "Basic (and reversed card)": {
+    id: 1718000000002,
+    type: 0,
+    fields: ["Front", "Back"],
+    templates: [
+      {
+        name: "Card 1",
+        qfmt: "{{Front}}",
+        afmt: `{{FrontSide}}${ANSWER_SEPARATOR}{{Back}}`,
+      },
+      {
+        name: "Card 2",
+        qfmt: "{{Back}}",
+        afmt: `{{FrontSide}}${ANSWER_SEPARATOR}{{Front}}`,
+      },
+    ],
+  },
+  Cloze: {
+    id: 1718000000003,
+    type: 1,
+    fields: ["Text", "Back Extra"],
+    templates: [
+      {
+        name: "Cloze",
+        qfmt: "{{cloze:Text}}",
+        afmt: "{{cloze:Text}}<br>\n{{Back Extra}}",
+      },
+    ],
+  },
+  "Basic (type in the answer)": {
+    id: 1718000000004,
+    type: 0,
+    fields: ["Front", "Back"],
+    templates: [
+      {
+        name: "Card 1",
+        qfmt: "{{Front}}\n\n{{type:Back}}",
+        afmt: `{{Front}}${ANSWER_SEPARATOR}{{type:Back}}`,
+      },
+    ],
+  },
+};
+
+/**
+ * 生成 col.models 中的模板 JSON
+ *
+ * @param name - 模板名称
+ * @param deckId - 默认牌组 ID
+ * @param mod - 修改时间（秒）
+ */
+export function buildModelJson(
+  name: AnkiModelName,
+  deckId: number,
+  mod: number
+): Record<string, unknown> {
+  const model = ANKI_MODELS[name];
+
+  return {
+    id: model.id,
+    name: `${name} (Ankigenix)`,
+    type: model.type,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tags: [],
+    vers: [],
+    flds: model.fields.map((field, ord) => ({
+      name: field,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: "Arial",
+      size: 20,
+      media: [],
+    })),
+    tmpls: model.templates.map((template, ord) => ({
+      name: template.name,
+      ord,
+      qfmt: template.qfmt,
+      afmt: template.afmt,
+      bqfmt: "",
+      bafmt: "",
+      did: null,
+    })),
+    // 标准模板：第 n 张卡片需要第 n 个模板引用的字段非空
+    req:
+      model.type === 0
+        ? model.templates.map((template, ord) => [
+            ord,
+            "any",
+            template.qfmt.includes("{{Back}}") ? [1] : [0],
+          ])
+        : [[0, "any", [0]]],
+    css: MODEL_CSS,
+    latexPre: LATEX_PRE,
+    latexPost: LATEX_POST,
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * sql.js 加载
+ *
+ * WASM 模块只初始化一次，读写 .apkg 共用
+ */
+
+import initSqlJs, { type SqlJsStatic } from "sql.js";
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+export function getSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    sqlJsPromise = initSqlJs();
+  }
+  return sqlJsPromise;
+}
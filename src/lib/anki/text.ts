@@ -0,0 +1,381 @@
+/**
+ * 分隔文本导入（CSV / TSV / Anki 纯文本 / Quizlet 导出）
+ *
+ * 支持 Anki 文本文件头（与 /api/export/apkg?format=tsv 输出一致）：
+ * #separator、#html、#notetype column、#tags column、#columns
+ *
+ * 仅依赖 @/lib/cards，可在客户端直接引用（不要从 @/lib/anki 入口引入，以免打包 sql.js）
+ */
+
+import {
+  type AnkiModelName,
+  type CardContent,
+  type CardType,
+  parseAnkiChoiceList,
+  validateCardContent,
+} from "@/lib/cards";
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 支持的分隔符 */
+export const TEXT_SEPARATORS = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+  pipe: "|",
+} as const;
+
+export type TextSeparator = keyof typeof TEXT_SEPARATORS;
+
+/**
+ * 解析结果
+ *
+ * @field separator - 使用的分隔符（文件头指定或自动检测）
+ * @field html - 字段是否为 HTML（#html:true 时 <br> 还原为换行）
+ * @field columns - 列名（#columns 文件头或首行表头）
+ * @field notetypeColumn - 笔记模板列（从 0 开始）
+ * @field tagsColumn - 标签列（从 0 开始）
+ * @field rows - 数据行
+ */
+export interface ParsedText {
+  separator: TextSeparator;
+  html: boolean;
+  columns: string[] | null;
+  notetypeColumn: number | null;
+  tagsColumn: number | null;
+  rows: string[][];
+}
+
+/**
+ * 列映射（列下标从 0 开始，null 表示不导入）
+ */
+export interface ColumnMapping {
+  front: number;
+  back: number;
+  tags: number | null;
+  notetype: number | null;
+}
+
+/**
+ * 待导入的卡片
+ *
+ * @field row - 源文件中的行号（从 1 开始，不含文件头）
+ * @field duplicate - 与牌组已有卡片重复（existing）或与文件内前面的行重复（file）
+ */
+export interface TextImportCard {
+  row: number;
+  content: CardContent;
+  tags: string[];
+  duplicate: "existing" | "file" | null;
+}
+
+/** 无法导入的行 */
+export interface TextImportError {
+  row: number;
+  reason: string;
+}
+
+// ============================================
+// 解析
+// ============================================
+
+/** Anki 文件头中的分隔符名称 */
+const SEPARATOR_NAMES: Record<string, TextSeparator> = {
+  tab: "tab",
+  comma: "comma",
+  semicolon: "semicolon",
+  pipe: "pipe",
+  "\t": "tab",
+  ",": "comma",
+  ";": "semicolon",
+  "|": "pipe",
+};
+
+/** 常见表头名称 */
+const FRONT_HEADERS = ["front", "term", "question", "text", "word"];
+const BACK_HEADERS = ["back", "definition", "answer", "back extra", "meaning"];
+const TAGS_HEADERS = ["tags", "tag"];
+const NOTETYPE_HEADERS = ["notetype", "note type", "type"];
+
+/**
+ * 按分隔符拆分为行和字段
+ *
+ * 支持双引号包裹的字段（可含分隔符和换行，"" 表示一个引号）
+ */
+function splitRows(text: string, separator: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let atFieldStart = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && atFieldStart) {
+      quoted = true;
+      atFieldStart = false;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+      atFieldStart = true;
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      atFieldStart = true;
+    } else {
+      field += char;
+      atFieldStart = false;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+/**
+ * 根据前几行检测分隔符（优先制表符）
+ */
+export function detectSeparator(text: string): TextSeparator {
+  const sample = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !line.startsWith("#"))
+    .slice(0, 20);
+
+  let best: TextSeparator = "tab";
+  let bestScore = 0;
+  for (const [name, char] of Object.entries(TEXT_SEPARATORS)) {
+    // 每行都出现的分隔符才计分
+    const counts = sample.map((line) => line.split(char).length - 1);
+    if (counts.length === 0 || counts.some((count) => count === 0)) {
+      continue;
+    }
+    const score = Math.min(...counts);
+    if (score > bestScore) {
+      best = name as TextSeparator;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * 解析分隔文本
+ *
+ * @param text - 文件或粘贴的内容
+ * @param options.separator - 分隔符（默认使用文件头或自动检测）
+ * @param options.hasHeaderRow - 首行是否为表头（默认在无 #columns 时按列名猜测）
+ */
+export function parseDelimitedText(
+  text: string,
+  options: {
+    separator?: TextSeparator | undefined;
+    hasHeaderRow?: boolean | undefined;
+  } = {}
+): ParsedText {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+
+  // 读取 Anki 文件头（只出现在文件开头）
+  const headers = new Map<string, string>();
+  let bodyStart = 0;
+  while (bodyStart < lines.length) {
+    const match = lines[bodyStart]?.match(/^#([a-z ]+):(.*)$/i);
+    if (!match?.[1]) break;
+    headers.set(match[1].trim().toLowerCase(), match[2] ?? "");
+    bodyStart++;
+  }
+  const body = lines.slice(bodyStart).join("\n");
+
+  const headerSeparator = SEPARATOR_NAMES[
+    (headers.get("separator") ?? "").toLowerCase()
+  ] as TextSeparator | undefined;
+  const separator =
+    options.separator ?? headerSeparator ?? detectSeparator(body);
+  const rows = splitRows(body, TEXT_SEPARATORS[separator]);
+
+  const columnIndex = (key: string) => {
+    const value = Number.parseInt(headers.get(key) ?? "", 10);
+    return Number.isNaN(value) ? null : value - 1;
+  };
+
+  let columns = headers.has("columns")
+    ? (headers.get("columns") ?? "")
+        .split(TEXT_SEPARATORS[separator])
+        .map((name) => name.trim())
+    : null;
+
+  const hasHeaderRow =
+    options.hasHeaderRow ??
+    (columns === null && looksLikeHeaderRow(rows[0] ?? []));
+  if (hasHeaderRow && rows.length > 0) {
+    columns = (rows.shift() ?? []).map((name) => name.trim());
+  }
+
+  return {
+    separator,
+    html: headers.get("html")?.trim().toLowerCase() === "true",
+    columns,
+    notetypeColumn: columnIndex("notetype column"),
+    tagsColumn: columnIndex("tags column"),
+    rows,
+  };
+}
+
+/**
+ * 首行是否像表头（包含常见的正面和背面列名）
+ */
+function looksLikeHeaderRow(row: string[]): boolean {
+  const names = row.map((value) => value.trim().toLowerCase());
+  return (
+    names.some((name) => FRONT_HEADERS.includes(name)) &&
+    names.some((name) => BACK_HEADERS.includes(name))
+  );
+}
+
+// ============================================
+// 列映射
+// ============================================
+
+/**
+ * 根据文件头和列名猜测列映射
+ */
+export function guessColumnMapping(parsed: ParsedText): ColumnMapping {
+  const names = (parsed.columns ?? []).map((name) => name.toLowerCase());
+  const find = (candidates: string[]) => {
+    const index = names.findIndex((name) => candidates.includes(name));
+    return index >= 0 ? index : null;
+  };
+
+  const front = find(FRONT_HEADERS) ?? 0;
+  const back = find(BACK_HEADERS) ?? (front === 0 ? 1 : 0);
+
+  return {
+    front,
+    back,
+    tags: parsed.tagsColumn ?? find(TAGS_HEADERS),
+    notetype: parsed.notetypeColumn ?? find(NOTETYPE_HEADERS),
+  };
+}
+
+/** Anki 笔记模板 → 卡片类型（与 toAnkiNote 相反） */
+const NOTETYPE_CARD_TYPES: Record<AnkiModelName, CardType> = {
+  Basic: "basic",
+  "Basic (and reversed card)": "basic_reverse",
+  Cloze: "cloze",
+  "Basic (type in the answer)": "type_answer",
+};
+
+/**
+ * 将笔记模板名称转换为卡片类型
+ *
+ * 兼容 .apkg 中带 " (Ankigenix)" 后缀的名称；未知模板按 basic 处理，
+ * 含填空语法的正面自动识别为 cloze
+ */
+function resolveCardType(notetype: string, front: string): CardType {
+  const name = notetype.replace(/\s*\(Ankigenix\)$/, "").trim();
+  const cardType = NOTETYPE_CARD_TYPES[name as AnkiModelName];
+  if (cardType) {
+    return cardType;
+  }
+  return /\{\{c\d+::/.test(front) ? "cloze" : "basic";
+}
+
+/**
+ * 还原导出时转义的字段
+ */
+function decodeField(value: string, html: boolean): string {
+  const trimmed = value.trim();
+  return html ? trimmed.replace(/<br\s*\/?>/gi, "\n") : trimmed;
+}
+
+/**
+ * 用于重复检测的卡片正面（忽略大小写、空白和 HTML 标签）
+ */
+export function getDuplicateKey(front: string): string {
+  return front
+    .replace(/<[^>]+>/g, " ")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 按列映射转换为卡片
+ *
+ * @param parsed - 解析结果
+ * @param mapping - 列映射
+ * @param existingFronts - 牌组中已有卡片的正面（用于重复检测）
+ */
+export function mapRowsToCards(
+  parsed: ParsedText,
+  mapping: ColumnMapping,
+  existingFronts: string[] = []
+): { cards: TextImportCard[]; errors: TextImportError[] } {
+  const existing = new Set(existingFronts.map(getDuplicateKey));
+  const seen = new Set<string>();
+  const cards: TextImportCard[] = [];
+  const errors: TextImportError[] = [];
+
+  parsed.rows.forEach((values, index) => {
+    const row = index + 1;
+    const field = (column: number | null) =>
+      column === null ? "" : decodeField(values[column] ?? "", parsed.html);
+
+    const front = field(mapping.front);
+    const back = field(mapping.back);
+    const cardType = resolveCardType(field(mapping.notetype), front);
+    // 导出时多选题的选项以列表追加到 Basic 笔记正面
+    const choices =
+      cardType === "basic" && parsed.html
+        ? parseAnkiChoiceList(front, back)
+        : null;
+    const content: CardContent = choices
+      ? { cardType: "multiple_choice", back, ...choices }
+      : { cardType, front, back, options: null };
+
+    const error = validateCardContent(content);
+    if (error) {
+      errors.push({ row, reason: error });
+      return;
+    }
+
+    const key = getDuplicateKey(content.front);
+    const duplicate = existing.has(key)
+      ? "existing"
+      : seen.has(key)
+        ? "file"
+        : null;
+    seen.add(key);
+
+    cards.push({
+      row,
+      content,
+      tags: field(mapping.tags).split(/\s+/).filter(Boolean),
+      duplicate,
+    });
+  });
+
+  return { cards, errors };
+}
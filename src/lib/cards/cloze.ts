@@ -0,0 +1,88 @@
+/**
+ * 填空卡 (Cloze) 语法解析
+ *
+ * 语法与 Anki 一致：{{c1::答案}} 或 {{c1::答案::提示}}
+ * 同一编号的多个填空在同一张卡中一起隐藏
+ */
+
+/** 填空匹配正则 */
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+/**
+ * 填空文本片段
+ */
+export type ClozeSegment =
+  | { type: "text"; text: string }
+  | { type: "cloze"; ordinal: number; answer: string; hint: string | null };
+
+/**
+ * 将填空文本拆分为普通文本和填空片段
+ */
+export function parseClozeSegments(text: string): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: "text", text: text.slice(lastIndex, index) });
+    }
+    segments.push({
+      type: "cloze",
+      ordinal: Number(match[1]),
+      answer: match[2] ?? "",
+      hint: match[3] ?? null,
+    });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * 获取文本中所有填空编号（升序去重）
+ */
+export function getClozeOrdinals(text: string): number[] {
+  const ordinals = new Set<number>();
+  for (const segment of parseClozeSegments(text)) {
+    if (segment.type === "cloze") {
+      ordinals.add(segment.ordinal);
+    }
+  }
+  return [...ordinals].sort((a, b) => a - b);
+}
+
+/**
+ * 判断文本是否包含填空
+ */
+export function hasCloze(text: string): boolean {
+  return getClozeOrdinals(text).length > 0;
+}
+
+/**
+ * 渲染填空卡为纯文本
+ *
+ * @param text - 填空文本
+ * @param ordinal - 当前考察的填空编号（null 表示遮挡全部填空）
+ * @param revealed - 是否显示答案
+ * @returns 问题面以 [...] / [提示] 遮挡当前编号；答案面显示所有答案
+ */
+export function renderCloze(
+  text: string,
+  ordinal: number | null,
+  revealed: boolean
+): string {
+  return parseClozeSegments(text)
+    .map((segment) => {
+      if (segment.type === "text") return segment.text;
+      if (revealed || (ordinal !== null && segment.ordinal !== ordinal)) {
+        return segment.answer;
+      }
+      return segment.hint ? `[${segment.hint}]` : "[...]";
+    })
+    .join("");
+}
@@ -0,0 +1,100 @@
+/**
+ * 卡片文本对比
+ *
+ * 按词（含空白）计算两段文本的差异，用于展示 AI 改写前后的变化
+ */
+
+/**
+ * 差异片段
+ *
+ * @field type - equal: 未变化；removed: 仅在原文中；added: 仅在新文本中
+ * @field text - 片段文本
+ */
+export interface TextDiffSegment {
+  type: "equal" | "removed" | "added";
+  text: string;
+}
+
+/** 逐词对比的最大词数（超过时整段视为替换，避免 O(n²) 内存） */
+const MAX_DIFF_TOKENS = 2000;
+
+/**
+ * 切分为词和空白
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token.length > 0);
+}
+
+/**
+ * 追加片段（与上一片段类型相同时合并）
+ */
+function pushSegment(
+  segments: TextDiffSegment[],
+  type: TextDiffSegment["type"],
+  text: string
+): void {
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * 计算两段文本的逐词差异（最长公共子序列）
+ *
+ * @param before - 原文
+ * @param after - 新文本
+ * @returns 差异片段（按顺序拼接 equal + removed 得到原文，equal + added 得到新文本）
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: TextDiffSegment[] = [];
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    if (before === after) {
+      return before ? [{ type: "equal", text: before }] : [];
+    }
+    if (before) segments.push({ type: "removed", text: before });
+    if (after) segments.push({ type: "added", text: after });
+    return segments;
+  }
+
+  // lengths[i][j]: a[i..] 与 b[j..] 的最长公共子序列长度
+  const lengths = Array.from(
+    { length: a.length + 1 },
+    () => new Uint16Array(b.length + 1)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    const row = lengths[i] as Uint16Array;
+    const next = lengths[i + 1] as Uint16Array;
+    for (let j = b.length - 1; j >= 0; j--) {
+      row[j] =
+        a[i] === b[j]
+          ? (next[j + 1] ?? 0) + 1
+          : Math.max(next[j] ?? 0, row[j + 1] ?? 0);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "equal", a[i] as string);
+      i++;
+      j++;
+    } else if ((lengths[i + 1]?.[j] ?? 0) >= (lengths[i]?.[j + 1] ?? 0)) {
+      pushSegment(segments, "removed", a[i] as string);
+      i++;
+    } else {
+      pushSegment(segments, "added", b[j] as string);
+      j++;
+    }
+  }
+  for (; i < a.length; i++) pushSegment(segments, "removed", a[i] as string);
+  for (; j < b.length; j++) pushSegment(segments, "added", b[j] as string);
+
+  return segments;
+}
@@ -0,0 +1,33 @@
+export {
+  type ClozeSegment,
+  getClozeOrdinals,
+  hasCloze,
+  parseClozeSegments,
+  renderCloze,
+} from "./cloze";
+export { diffText, type TextDiffSegment } from "./diff";
+export {
+  type AnkiModelName,
+  type AnkiNote,
+  getChoiceOptions,
+  getStudyVariant,
+  parseAnkiChoiceList,
+  type StudyVariant,
+  toAnkiNote,
+  toBasicPairs,
+} from "./render";
+export {
+  CARD_TYPE_LABELS,
+  CARD_TYPES,
+  type CardContent,
+  type CardImage,
+  type CardSourceRef,
+  type CardType,
+  isCardType,
+  MAX_CHOICE_OPTIONS,
+} from "./types";
+export {
+  isAnswerCorrect,
+  normalizeCardContent,
+  validateCardContent,
+} from "./validate";
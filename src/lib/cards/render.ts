@@ -0,0 +1,188 @@
+/**
+ * 卡片渲染映射
+ *
+ * - 学习时的卡片变体（反向 / 填空编号）
+ * - 导出到 Anki 笔记模板
+ */
+
+import { getClozeOrdinals, renderCloze } from "./cloze";
+import type { CardContent } from "./types";
+
+/**
+ * 学习变体
+ *
+ * @field reversed - 是否反向显示（背面作为问题）
+ * @field clozeOrdinal - 当前考察的填空编号（非填空卡为 null）
+ */
+export interface StudyVariant {
+  reversed: boolean;
+  clozeOrdinal: number | null;
+}
+
+/**
+ * 根据复习次数选择学习变体
+ *
+ * 调度以卡片为单位，双向卡和多填空卡按复习次数轮换方向 / 填空编号
+ */
+export function getStudyVariant(
+  content: Pick<CardContent, "cardType" | "front">,
+  reps: number
+): StudyVariant {
+  if (content.cardType === "basic_reverse") {
+    return { reversed: reps % 2 === 1, clozeOrdinal: null };
+  }
+  if (content.cardType === "cloze") {
+    const ordinals = getClozeOrdinals(content.front);
+    return {
+      reversed: false,
+      clozeOrdinal: ordinals[reps % Math.max(ordinals.length, 1)] ?? 1,
+    };
+  }
+  return { reversed: false, clozeOrdinal: null };
+}
+
+/**
+ * 多选题选项（正确答案 + 干扰项，按字母排序保证导出稳定）
+ */
+export function getChoiceOptions(content: CardContent): string[] {
+  return [content.back, ...(content.options ?? [])].sort((a, b) =>
+    a.localeCompare(b)
+  );
+}
+
+/** Anki 内置笔记模板名称 */
+export type AnkiModelName =
+  | "Basic"
+  | "Basic (and reversed card)"
+  | "Cloze"
+  | "Basic (type in the answer)";
+
+/**
+ * Anki 笔记（两个字段：Front/Back 或 Text/Back Extra）
+ */
+export interface AnkiNote {
+  model: AnkiModelName;
+  fields: [string, string];
+}
+
+/**
+ * 将卡片映射为 Anki 笔记
+ *
+ * 多选题在 Anki 中没有内置模板，选项以列表形式追加到正面；
+ * 卡片图片以 <img> 追加到所在一面的字段
+ */
+export function toAnkiNote(content: CardContent): AnkiNote {
+  const note = toAnkiFields(content);
+  if (content.image) {
+    const index = content.image.side === "front" ? 0 : 1;
+    const img = `<img src="${escapeHtml(content.image.src)}" alt="${escapeHtml(content.image.alt)}">`;
+    note.fields[index] = note.fields[index]
+      ? `${note.fields[index]}<br>${img}`
+      : img;
+  }
+  return note;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function unescapeHtml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * 按卡片类型选择 Anki 笔记模板和字段
+ */
+function toAnkiFields(content: CardContent): AnkiNote {
+  switch (content.cardType) {
+    case "basic_reverse":
+      return {
+        model: "Basic (and reversed card)",
+        fields: [content.front, content.back],
+      };
+    case "cloze":
+      return { model: "Cloze", fields: [content.front, content.back] };
+    case "type_answer":
+      return {
+        model: "Basic (type in the answer)",
+        fields: [content.front, content.back],
+      };
+    case "multiple_choice": {
+      const items = getChoiceOptions(content)
+        .map((option) => `<li>${escapeHtml(option)}</li>`)
+        .join("");
+      return {
+        model: "Basic",
+        fields: [`${content.front}<ol type="A">${items}</ol>`, content.back],
+      };
+    }
+    default:
+      return { model: "Basic", fields: [content.front, content.back] };
+  }
+}
+
+/**
+ * 还原导出为 Basic 笔记的多选题（与 toAnkiFields 相反）
+ *
+ * 正面以 <ol type="A"> 选项列表结尾、且背面是其中一项时识别为多选题；
+ * 选项导出时经过 HTML 转义，读取时还原
+ *
+ * @returns 题干和干扰项；不是导出的多选题时返回 null
+ */
+export function parseAnkiChoiceList(
+  front: string,
+  back: string
+): { front: string; options: string[] } | null {
+  const match = front.match(
+    /^([\s\S]*)<ol type="A">((?:<li>[\s\S]*?<\/li>)+)<\/ol>\s*$/
+  );
+  if (!match) return null;
+
+  const items = [...(match[2] ?? "").matchAll(/<li>([\s\S]*?)<\/li>/g)].map(
+    (item) => unescapeHtml(item[1] ?? "")
+  );
+  const answer = items.indexOf(back);
+  if (items.length < 2 || answer === -1) return null;
+
+  return {
+    front: (match[1] ?? "").trim(),
+    options: items.filter((_, index) => index !== answer),
+  };
+}
+
+/**
+ * 将卡片展开为纯问答对（用于只支持 Basic 模板的导出）
+ *
+ * - 双向卡展开为正反两张
+ * - 填空卡按编号各展开一张
+ */
+export function toBasicPairs(
+  content: CardContent
+): Array<{ front: string; back: string }> {
+  if (content.cardType === "basic_reverse") {
+    return [
+      { front: content.front, back: content.back },
+      { front: content.back, back: content.front },
+    ];
+  }
+  if (content.cardType === "cloze") {
+    return getClozeOrdinals(content.front).map((ordinal) => {
+      const answer = renderCloze(content.front, ordinal, true);
+      return {
+        front: renderCloze(content.front, ordinal, false),
+        back: content.back ? `${answer}\n\n${content.back}` : answer,
+      };
+    });
+  }
+  const [front, back] = toAnkiNote(content).fields;
+  return [{ front, back }];
+}
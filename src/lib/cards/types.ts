@@ -0,0 +1,95 @@
+/**
+ * 卡片类型定义
+ *
+ * 每种类型对应一个 Anki 笔记模板：
+ * - basic: 问答卡 (Basic)
+ * - basic_reverse: 正反双向卡 (Basic (and reversed card))
+ * - cloze: 填空卡，正面使用 {{c1::答案::提示}} 语法 (Cloze)
+ * - multiple_choice: 选择题，背面为正确答案，options 为干扰项
+ * - type_answer: 输入答案卡 (Basic (type in the answer))
+ */
+
+/** 所有卡片类型 */
+export const CARD_TYPES = [
+  "basic",
+  "basic_reverse",
+  "cloze",
+  "multiple_choice",
+  "type_answer",
+] as const;
+
+/** 卡片类型 */
+export type CardType = (typeof CARD_TYPES)[number];
+
+/** 卡片类型显示名称 */
+export const CARD_TYPE_LABELS: Record<CardType, string> = {
+  basic: "Basic",
+  basic_reverse: "Basic + Reverse",
+  cloze: "Cloze",
+  multiple_choice: "Multiple Choice",
+  type_answer: "Type Answer",
+};
+
+/** 多选题干扰项数量上限 */
+export const MAX_CHOICE_OPTIONS = 5;
+
+/**
+ * 卡片图片（从文档中提取的插图）
+ *
+ * @field src - 图片地址（/image-proxy/{bucket}/{key}）
+ * @field alt - 替代文本（图注）
+ * @field side - 显示在正面（如"标注这张图"）还是背面（辅助说明答案）
+ */
+export interface CardImage {
+  src: string;
+  alt: string;
+  side: "front" | "back";
+}
+
+/**
+ * 卡片内容（与 card 表字段对应）
+ *
+ * @field cardType - 卡片类型
+ * @field front - 正面（问题 / 填空文本）
+ * @field back - 背面（答案；填空卡为补充说明，可为空）
+ * @field options - 多选题干扰项（其他类型为空）
+ * @field image - 卡片图片（没有图片时为空）
+ */
+export interface CardContent {
+  cardType: CardType;
+  front: string;
+  back: string;
+  options?: string[] | null | undefined;
+  image?: CardImage | null | undefined;
+}
+
+/**
+ * 判断是否为有效的卡片类型
+ */
+export function isCardType(value: unknown): value is CardType {
+  return (
+    typeof value === "string" &&
+    (CARD_TYPES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * 卡片来源引用（AI 生成卡片对应的原文段落，用于核对答案）
+ *
+ * @field taskId - 生成任务 ID
+ * @field chapterIndex - 大纲章节索引（非按大纲生成时为 null）
+ * @field chapterTitle - 章节标题
+ * @field start - 段落在原文中的起始字符偏移
+ * @field end - 段落在原文中的结束字符偏移
+ * @field page - 页码（仅 PDF；有分页信息时为真实页码，否则按字符数估算）
+ * @field snippet - 引用的原文段落
+ */
+export interface CardSourceRef {
+  taskId: string;
+  chapterIndex: number | null;
+  chapterTitle: string | null;
+  start: number;
+  end: number;
+  page: number | null;
+  snippet: string;
+}
@@ -0,0 +1,108 @@
+/**
+ * 卡片内容校验与规范化
+ */
+
+import { hasCloze } from "./cloze";
+import {
+  type CardContent,
+  type CardType,
+  isCardType,
+  MAX_CHOICE_OPTIONS,
+} from "./types";
+
+/**
+ * 校验卡片内容是否符合其类型要求
+ *
+ * @returns 错误信息，通过时返回 null
+ */
+export function validateCardContent(content: CardContent): string | null {
+  if (!content.front.trim()) {
+    return "Front content is required";
+  }
+
+  switch (content.cardType) {
+    case "cloze":
+      if (!hasCloze(content.front)) {
+        return "Cloze cards need at least one {{c1::...}} deletion";
+      }
+      return null;
+    case "multiple_choice": {
+      if (!content.back.trim()) {
+        return "Back content is required";
+      }
+      const options = (content.options ?? []).filter((o) => o.trim());
+      if (options.length === 0) {
+        return "Multiple choice cards need at least one distractor";
+      }
+      return null;
+    }
+    default:
+      return content.back.trim() ? null : "Back content is required";
+  }
+}
+
+/**
+ * 规范化（AI 生成或导入的）卡片
+ *
+ * - 未知或不允许的类型降级为 basic
+ * - 不含填空语法的 cloze 卡降级为 basic
+ * - 无干扰项的多选题降级为 basic
+ *
+ * @param raw - 原始卡片数据
+ * @param allowedTypes - 允许的卡片类型（默认全部）
+ * @returns 规范化后的卡片，无法修复时返回 null
+ */
+export function normalizeCardContent(
+  raw: {
+    cardType?: unknown;
+    front?: unknown;
+    back?: unknown;
+    options?: unknown;
+  },
+  allowedTypes?: readonly CardType[]
+): CardContent | null {
+  if (typeof raw.front !== "string" || !raw.front.trim()) {
+    return null;
+  }
+
+  const front = raw.front.trim();
+  const back = typeof raw.back === "string" ? raw.back.trim() : "";
+  let cardType: CardType =
+    isCardType(raw.cardType) &&
+    (!allowedTypes || allowedTypes.includes(raw.cardType))
+      ? raw.cardType
+      : "basic";
+
+  const options = Array.isArray(raw.options)
+    ? raw.options
+        .filter((o): o is string => typeof o === "string" && !!o.trim())
+        .map((o) => o.trim())
+        .filter((o) => o !== back)
+        .slice(0, MAX_CHOICE_OPTIONS)
+    : [];
+
+  if (cardType === "cloze" && !hasCloze(front)) {
+    cardType = "basic";
+  }
+  if (cardType === "multiple_choice" && options.length === 0) {
+    cardType = "basic";
+  }
+
+  const content: CardContent = {
+    cardType,
+    front,
+    back,
+    options: cardType === "multiple_choice" ? options : null,
+  };
+
+  return validateCardContent(content) ? null : content;
+}
+
+/**
+ * 比较输入答案与正确答案（忽略大小写、首尾空白和多余空格）
+ */
+export function isAnswerCorrect(input: string, expected: string): boolean {
+  const normalize = (value: string) =>
+    value.trim().toLowerCase().replace(/\s+/g, " ");
+  return normalize(input) === normalize(expected);
+}
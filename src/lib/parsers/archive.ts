@@ -0,0 +1,97 @@
+import JSZip from "jszip";
+
+/**
+ * 压缩包（EPUB / PPTX / Anki 包）读取
+ *
+ * 解压前检查每个文件和全部文件的解压后大小，
+ * 读取时按字节计数，超过声明大小立即停止，防止压缩炸弹耗尽内存
+ */
+
+/** 单个文件解压后大小上限 */
+export const MAX_ARCHIVE_ENTRY_BYTES = 50 * 1024 * 1024;
+
+/** 全部文件解压后大小上限 */
+export const MAX_ARCHIVE_TOTAL_BYTES = 200 * 1024 * 1024;
+
+/**
+ * 已打开的压缩包
+ *
+ * @field hasFile - 文件是否存在
+ * @field readText - 读取 UTF-8 文本文件，不存在时返回 null
+ * @field readBuffer - 读取二进制文件，不存在时返回 null
+ */
+export interface Archive {
+  hasFile: (path: string) => boolean;
+  readText: (path: string) => Promise<string | null>;
+  readBuffer: (path: string) => Promise<Buffer | null>;
+}
+
+/**
+ * 中央目录中声明的解压后大小
+ *
+ * JSZip 没有公开这个字段，只能读取私有的 _data；读不到时按上限计算
+ */
+function getDeclaredSize(file: JSZip.JSZipObject): number {
+  const data = (file as unknown as { _data?: { uncompressedSize?: unknown } })
+    ._data;
+  return typeof data?.uncompressedSize === "number"
+    ? data.uncompressedSize
+    : MAX_ARCHIVE_ENTRY_BYTES;
+}
+
+/**
+ * 流式解压文件，超过 limit 字节时停止并报错
+ */
+function inflateEntry(file: JSZip.JSZipObject, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = file.nodeStream("nodebuffer");
+    stream
+      .on("data", (chunk: Buffer) => {
+        size += chunk.byteLength;
+        if (size > limit) {
+          stream.pause();
+          reject(
+            new Error(`Archive entry ${file.name} is larger than declared`)
+          );
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on("error", reject)
+      .on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * 打开压缩包
+ *
+ * @param buffer - 压缩包内容
+ * @throws 任一文件或全部文件的解压后大小超过上限时
+ */
+export async function openArchive(buffer: Buffer): Promise<Archive> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  let total = 0;
+  for (const file of Object.values(zip.files)) {
+    if (file.dir) continue;
+    const size = getDeclaredSize(file);
+    total += size;
+    if (size > MAX_ARCHIVE_ENTRY_BYTES || total > MAX_ARCHIVE_TOTAL_BYTES) {
+      throw new Error("Archive is too large when uncompressed");
+    }
+  }
+
+  const readBuffer = async (path: string) => {
+    const file = zip.file(path);
+    return file ? await inflateEntry(file, getDeclaredSize(file)) : null;
+  };
+
+  return {
+    hasFile: (path) => zip.file(path) !== null,
+    readBuffer,
+    readText: async (path) =>
+      (await readBuffer(path))?.toString("utf8") ?? null,
+  };
+}
@@ -0,0 +1,202 @@
+import { openArchive } from "./archive";
+import { convertHtmlToMarkdown } from "./html";
+import { parseMarkdownDocument } from "./markdown";
+import {
+  type DocumentHeading,
+  findHeading,
+  type ParsedDocument,
+} from "./structure";
+import {
+  findXmlTags,
+  parseXmlAttributes,
+  resolveArchivePath,
+  xmlText,
+} from "./xml";
+
+/**
+ * 目录条目
+ *
+ * @field title - 标题
+ * @field path - 指向的包内文档路径
+ * @field level - 层级（1 为最高级）
+ */
+interface TocEntry {
+  title: string;
+  path: string;
+  level: number;
+}
+
+/**
+ * 读取 EPUB 3 导航文档中的目录（nav[epub:type=toc]）
+ */
+function parseNavToc(nav: string, navPath: string): TocEntry[] {
+  const start = nav.search(/<nav\b[^>]*epub:type\s*=\s*["'][^"']*\btoc\b/);
+  const section =
+    start === -1 ? nav : nav.slice(start, nav.indexOf("</nav>", start));
+
+  const entries: TocEntry[] = [];
+  let depth = 0;
+  for (const match of section.matchAll(
+    /<(\/?)ol\b[^>]*>|<a\b([^>]*)>([\s\S]*?)<\/a>/g
+  )) {
+    const [, closing, attrs, label] = match;
+    if (label === undefined) {
+      depth += closing ? -1 : 1;
+      continue;
+    }
+    const href = parseXmlAttributes(attrs ?? "").href;
+    const title = xmlText(label);
+    if (href && title) {
+      entries.push({
+        title,
+        path: resolveArchivePath(navPath, href),
+        level: Math.max(1, depth),
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * 读取 EPUB 2 NCX 文件中的目录（navPoint 嵌套）
+ */
+function parseNcxToc(ncx: string, ncxPath: string): TocEntry[] {
+  const entries: TocEntry[] = [];
+  let depth = 0;
+  let title = "";
+  for (const match of ncx.matchAll(
+    /<(\/?)navPoint\b[^>]*>|<text>([\s\S]*?)<\/text>|<content\b([^>]*)>/g
+  )) {
+    const [, closing, label, attrs] = match;
+    if (label !== undefined) {
+      title = xmlText(label);
+    } else if (attrs !== undefined) {
+      const src = parseXmlAttributes(attrs).src;
+      if (src && title && depth > 0) {
+        entries.push({
+          title,
+          path: resolveArchivePath(ncxPath, src),
+          level: depth,
+        });
+      }
+      title = "";
+    } else {
+      depth += closing ? -1 : 1;
+    }
+  }
+  return entries;
+}
+
+/**
+ * 从 EPUB Buffer 中提取文本
+ *
+ * @param buffer - EPUB 文件的 Buffer
+ * @returns 提取的纯文本内容
+ */
+export async function parseEpub(buffer: Buffer): Promise<string> {
+  return (await parseEpubDocument(buffer)).text;
+}
+
+/**
+ * 从 EPUB Buffer 中提取文本并保留章节结构
+ *
+ * 按 spine 顺序把各章节 XHTML 转换为 Markdown 后拼接；
+ * 章节标题来自目录（EPUB 3 导航文档或 EPUB 2 NCX），没有目录时使用正文中的标题
+ *
+ * @param buffer - EPUB 文件的 Buffer
+ * @returns 结构化解析结果
+ */
+export async function parseEpubDocument(
+  buffer: Buffer
+): Promise<ParsedDocument> {
+  try {
+    const { readText: readFile } = await openArchive(buffer);
+
+    const container = await readFile("META-INF/container.xml");
+    const opfPath = container
+      ? findXmlTags(container, "rootfile")[0]?.["full-path"]
+      : undefined;
+    const opf = opfPath ? await readFile(opfPath) : null;
+    if (!opfPath || !opf) {
+      throw new Error("Missing EPUB package document");
+    }
+
+    const manifest = new Map(
+      findXmlTags(opf, "item").map((item) => [item.id ?? "", item])
+    );
+
+    // 按 spine 顺序读取各章节
+    const documents: { path: string; start: number; end: number }[] = [];
+    let text = "";
+    for (const itemref of findXmlTags(opf, "itemref")) {
+      if (itemref.linear === "no") continue;
+      const href = manifest.get(itemref.idref ?? "")?.href;
+      if (!href) continue;
+
+      const path = resolveArchivePath(opfPath, href);
+      const xhtml = await readFile(path);
+      const markdown = xhtml ? convertHtmlToMarkdown(xhtml) : "";
+      if (!markdown) continue;
+
+      if (text) text += "\n\n";
+      documents.push({
+        path,
+        start: text.length,
+        end: text.length + markdown.length,
+      });
+      text += markdown;
+    }
+
+    if (!text || text.length < 10) {
+      throw new Error("EPUB contains no readable text content");
+    }
+
+    // 目录：优先 EPUB 3 导航文档，其次 spine 引用的 NCX
+    const items = [...manifest.values()];
+    const navItem = items.find((item) =>
+      item.properties?.split(/\s+/).includes("nav")
+    );
+    const ncxItem =
+      manifest.get(findXmlTags(opf, "spine")[0]?.toc ?? "") ??
+      items.find((item) => item["media-type"] === "application/x-dtbncx+xml");
+
+    let toc: TocEntry[] = [];
+    if (navItem?.href) {
+      const navPath = resolveArchivePath(opfPath, navItem.href);
+      const nav = await readFile(navPath);
+      if (nav) toc = parseNavToc(nav, navPath);
+    }
+    if (toc.length === 0 && ncxItem?.href) {
+      const ncxPath = resolveArchivePath(opfPath, ncxItem.href);
+      const ncx = await readFile(ncxPath);
+      if (ncx) toc = parseNcxToc(ncx, ncxPath);
+    }
+
+    // 目录标题在所指章节内定位，找不到时取章节开头
+    const headings: DocumentHeading[] = [];
+    for (const entry of toc) {
+      const document = documents.find((doc) => doc.path === entry.path);
+      if (!document) continue;
+      const found = findHeading(text, entry.title, document.start);
+      headings.push({
+        level: entry.level,
+        title: entry.title,
+        offset: found !== -1 && found < document.end ? found : document.start,
+      });
+    }
+
+    return {
+      text,
+      headings:
+        headings.length > 0
+          ? headings.sort((a, b) => a.offset - b.offset)
+          : parseMarkdownDocument(text).headings,
+      pageOffsets: null,
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to parse EPUB: ${error.message}`);
+    }
+    throw new Error("Failed to parse EPUB: Unknown error");
+  }
+}
@@ -0,0 +1,114 @@
+import type { DocumentImage } from "./structure";
+
+/**
+ * 文档插图
+ *
+ * 解析时把图片收集为 DocumentImage，并在文本中插入 Markdown 图片引用，
+ * 生成卡片时模型据此把图片放到卡片正面或背面
+ */
+
+/** 每个文档最多提取的图片数 */
+export const MAX_DOCUMENT_IMAGES = 40;
+
+/** 单张图片大小上限 */
+export const MAX_DOCUMENT_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** 浏览器和 Anki 都能显示的图片类型 → 扩展名 */
+const FIGURE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+/** 按扩展名推断的图片类型（Office 文档中的媒体文件） */
+const FIGURE_CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+/**
+ * 按文件名推断图片类型（不支持的类型为 null）
+ */
+export function getFigureContentType(filename: string): string | null {
+  const ext = filename.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  return (ext && FIGURE_CONTENT_TYPES[ext]) || null;
+}
+
+/**
+ * 图片收集器
+ *
+ * @field images - 已收集的图片
+ * @field add - 收集一张图片，返回插入文本的引用；
+ *   类型不支持、过大或超出数量上限时返回 null
+ */
+export interface FigureCollector {
+  images: DocumentImage[];
+  add(data: Buffer, contentType: string, alt?: string): string | null;
+}
+
+/**
+ * 创建图片收集器
+ *
+ * @param imageBaseUrl - 图片地址前缀
+ */
+export function createFigureCollector(imageBaseUrl: string): FigureCollector {
+  const images: DocumentImage[] = [];
+  const base = imageBaseUrl.replace(/\/+$/, "");
+
+  return {
+    images,
+    add(data, contentType, alt) {
+      const extension = FIGURE_EXTENSIONS[contentType];
+      if (
+        !extension ||
+        data.byteLength === 0 ||
+        data.byteLength > MAX_DOCUMENT_IMAGE_BYTES ||
+        images.length >= MAX_DOCUMENT_IMAGES
+      ) {
+        return null;
+      }
+
+      const index = images.length + 1;
+      const name = `figure-${index}.${extension}`;
+      const label = normalizeAlt(alt) || `Figure ${index}`;
+      images.push({ name, data, contentType, alt: label });
+      return `![${label}](${base}/${name})`;
+    },
+  };
+}
+
+/**
+ * 替代文本中去掉会破坏 Markdown 引用的字符
+ */
+function normalizeAlt(alt: string | undefined): string {
+  return (alt ?? "")
+    .replace(/[[\]\n\r]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 200);
+}
+
+/**
+ * 查找文本中的插图引用
+ *
+ * 只识别存储中的图片（/image-proxy/ 路径），外部图片不作为卡片图片
+ *
+ * @param text - 文本
+ * @returns 按出现顺序的引用（地址去重）
+ */
+export function findFigureReferences(
+  text: string
+): { src: string; alt: string }[] {
+  const figures = new Map<string, string>();
+  for (const match of text.matchAll(
+    /!\[([^\]]*)\]\((\/image-proxy\/[^)\s]+)\)/g
+  )) {
+    const [, alt = "", src] = match;
+    if (src && !figures.has(src)) figures.set(src, alt);
+  }
+  return [...figures].map(([src, alt]) => ({ src, alt }));
+}
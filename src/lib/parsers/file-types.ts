@@ -0,0 +1,162 @@
+/**
+ * 可生成闪卡的文档类型
+ *
+ * 扩展名和 MIME 类型的唯一来源：上传接口、上传组件和解析器共用
+ *
+ * 不依赖服务端模块，客户端组件可直接使用
+ */
+
+/**
+ * 文档类型信息
+ *
+ * @field label - 显示名称
+ * @field extensions - 扩展名（含点号，小写）
+ * @field mimeTypes - MIME 类型（第一个为上传时的默认值）
+ */
+export interface DocumentFileType {
+  label: string;
+  extensions: readonly string[];
+  mimeTypes: readonly string[];
+}
+
+/**
+ * 支持的文档类型
+ */
+export const DOCUMENT_FILE_TYPES = {
+  pdf: {
+    label: "PDF",
+    extensions: [".pdf"],
+    mimeTypes: ["application/pdf"],
+  },
+  docx: {
+    label: "Word",
+    extensions: [".docx"],
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ],
+  },
+  doc: {
+    label: "Word",
+    extensions: [".doc"],
+    mimeTypes: ["application/msword"],
+  },
+  pptx: {
+    label: "PowerPoint",
+    extensions: [".pptx"],
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    ],
+  },
+  epub: {
+    label: "EPUB",
+    extensions: [".epub"],
+    mimeTypes: ["application/epub+zip"],
+  },
+  html: {
+    label: "HTML",
+    extensions: [".html", ".htm"],
+    mimeTypes: ["text/html", "application/xhtml+xml"],
+  },
+  md: {
+    label: "Markdown",
+    extensions: [".md", ".markdown"],
+    mimeTypes: ["text/markdown", "text/x-markdown"],
+  },
+  txt: {
+    label: "Text",
+    extensions: [".txt"],
+    mimeTypes: ["text/plain"],
+  },
+  srt: {
+    label: "Subtitles",
+    extensions: [".srt"],
+    mimeTypes: ["application/x-subrip", "text/srt"],
+  },
+  vtt: {
+    label: "Subtitles",
+    extensions: [".vtt"],
+    mimeTypes: ["text/vtt"],
+  },
+} as const satisfies Record<string, DocumentFileType>;
+
+/**
+ * 支持的文件类型
+ */
+export type SupportedFileType = keyof typeof DOCUMENT_FILE_TYPES;
+
+const FILE_TYPE_ENTRIES = Object.entries(DOCUMENT_FILE_TYPES) as [
+  SupportedFileType,
+  DocumentFileType,
+][];
+
+/**
+ * 文件扩展名映射
+ */
+export const FILE_EXTENSIONS: Record<string, SupportedFileType> =
+  Object.fromEntries(
+    FILE_TYPE_ENTRIES.flatMap(([type, info]) =>
+      info.extensions.map((ext) => [ext, type])
+    )
+  );
+
+/**
+ * 文件类型 MIME 映射
+ */
+export const FILE_MIME_TYPES: Record<string, SupportedFileType> =
+  Object.fromEntries(
+    FILE_TYPE_ENTRIES.flatMap(([type, info]) =>
+      info.mimeTypes.map((mime) => [mime, type])
+    )
+  );
+
+/**
+ * 允许上传的文档扩展名
+ */
+export const DOCUMENT_EXTENSIONS = Object.keys(FILE_EXTENSIONS);
+
+/**
+ * 从文件名获取文件类型
+ */
+export function getFileTypeFromName(
+  filename: string
+): SupportedFileType | null {
+  const ext = filename.toLowerCase().match(/\.[^.]+$/)?.[0];
+  if (!ext) return null;
+  return FILE_EXTENSIONS[ext] || null;
+}
+
+/**
+ * 从 MIME 类型获取文件类型
+ */
+export function getFileTypeFromMime(
+  mimeType: string
+): SupportedFileType | null {
+  const essence = mimeType.split(";")[0]?.trim().toLowerCase() ?? "";
+  return FILE_MIME_TYPES[essence] || null;
+}
+
+/**
+ * 上传时使用的 Content-Type
+ *
+ * 浏览器给出的类型与扩展名一致时沿用，否则（空值、通用类型）使用该文档类型的默认值
+ *
+ * @param filename - 文件名
+ * @param mimeType - 浏览器给出的 MIME 类型
+ */
+export function resolveUploadContentType(
+  filename: string,
+  mimeType: string | null | undefined
+): string {
+  const fileType = getFileTypeFromName(filename);
+  if (!fileType) return mimeType || "application/octet-stream";
+  if (mimeType && getFileTypeFromMime(mimeType) === fileType) return mimeType;
+  return DOCUMENT_FILE_TYPES[fileType].mimeTypes[0];
+}
+
+/**
+ * 文件类型的显示名称（不支持的类型为 null）
+ */
+export function getFileTypeLabel(filename: string): string | null {
+  const fileType = getFileTypeFromName(filename);
+  return fileType ? DOCUMENT_FILE_TYPES[fileType].label : null;
+}
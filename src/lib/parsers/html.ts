@@ -0,0 +1,725 @@
+import { parseMarkdownDocument } from "./markdown";
+import type { ParsedDocument } from "./structure";
+
+/**
+ * HTML 正文提取
+ *
+ * 不依赖 DOM 环境，流程：
+ * 1. 将 HTML 解析为简单节点树（容忍未闭合标签）
+ * 2. 去除导航、页脚、侧栏等干扰区域
+ * 3. 按 Readability 思路为段落容器打分，选出正文节点
+ * 4. 将正文转换为 Markdown
+ */
+
+// ============================================
+// 类型定义
+// ============================================
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+type HtmlNode = HtmlElement | string;
+
+/**
+ * 正文提取结果
+ *
+ * @field title - 页面标题
+ * @field markdown - 正文 Markdown
+ */
+export interface ExtractedContent {
+  title: string | null;
+  markdown: string;
+}
+
+// ============================================
+// 解析
+// ============================================
+
+/** 无闭合标签的元素 */
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/** 内容不参与解析、整体丢弃的元素 */
+const RAW_TEXT_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "textarea",
+  "svg",
+  "math",
+]);
+
+/** 打开时会隐式闭合同级元素的标签 */
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  p: ["p"],
+  li: ["li"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  tr: ["tr", "td", "th"],
+  td: ["td", "th"],
+  th: ["td", "th"],
+  option: ["option"],
+};
+
+/** 块级元素（打开时闭合未结束的 <p>） */
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+  "ul",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  middot: "·",
+  bull: "•",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  times: "×",
+  divide: "÷",
+  deg: "°",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+};
+
+/**
+ * 解码 HTML 实体
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[\da-f]+|#\d+|[a-z]+\d*);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code =
+          entity[1] === "x" || entity[1] === "X"
+            ? Number.parseInt(entity.slice(2), 16)
+            : Number.parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) && code > 0 && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : match;
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    }
+  );
+}
+
+const ATTRIBUTE_PATTERN =
+  /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1]?.toLowerCase();
+    if (name && !(name in attrs)) {
+      attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+    }
+  }
+  return attrs;
+}
+
+/**
+ * 将 HTML 解析为节点树
+ *
+ * 只做正文提取所需的容错：未闭合元素在父元素闭合时一并闭合，
+ * 多余的闭合标签被忽略
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = {
+    tag: "#root",
+    attrs: {},
+    children: [],
+    parent: null,
+  };
+  let current = root;
+
+  const closeTag = (tag: string) => {
+    for (let node: HtmlElement | null = current; node; node = node.parent) {
+      if (node.tag === tag) {
+        current = node.parent ?? root;
+        return;
+      }
+      if (node === root) return;
+    }
+  };
+
+  const tokenPattern =
+    /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w:-]*)[^>]*>|<([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null = tokenPattern.exec(html);
+
+  while (match) {
+    if (match.index > lastIndex) {
+      current.children.push(decodeEntities(html.slice(lastIndex, match.index)));
+    }
+    lastIndex = tokenPattern.lastIndex;
+
+    const [, closing, opening, attrSource = ""] = match;
+    if (closing) {
+      closeTag(closing.toLowerCase());
+    } else if (opening) {
+      const tag = opening.toLowerCase();
+
+      if (RAW_TEXT_TAGS.has(tag)) {
+        // 跳过到对应闭合标签
+        const closePattern = new RegExp(`</${tag}\\s*>`, "gi");
+        closePattern.lastIndex = tokenPattern.lastIndex;
+        lastIndex = closePattern.exec(html)
+          ? closePattern.lastIndex
+          : html.length;
+        tokenPattern.lastIndex = lastIndex;
+      } else {
+        const closes = IMPLICIT_CLOSE[tag] ?? [];
+        if (closes.includes(current.tag)) {
+          current = current.parent ?? root;
+        }
+        if (BLOCK_TAGS.has(tag) && current.tag === "p") {
+          current = current.parent ?? root;
+        }
+
+        const element: HtmlElement = {
+          tag,
+          attrs: parseAttributes(attrSource),
+          children: [],
+          parent: current,
+        };
+        current.children.push(element);
+        if (!VOID_TAGS.has(tag) && !attrSource.trimEnd().endsWith("/")) {
+          current = element;
+        }
+      }
+    }
+
+    match = tokenPattern.exec(html);
+  }
+
+  if (lastIndex < html.length) {
+    current.children.push(decodeEntities(html.slice(lastIndex)));
+  }
+
+  return root;
+}
+
+// ============================================
+// 节点工具
+// ============================================
+
+function isElement(node: HtmlNode): node is HtmlElement {
+  return typeof node !== "string";
+}
+
+function* walk(element: HtmlElement): Generator<HtmlElement> {
+  for (const child of element.children) {
+    if (isElement(child)) {
+      yield child;
+      yield* walk(child);
+    }
+  }
+}
+
+function findFirst(root: HtmlElement, tag: string): HtmlElement | null {
+  for (const element of walk(root)) {
+    if (element.tag === tag) return element;
+  }
+  return null;
+}
+
+function textContent(node: HtmlNode): string {
+  return isElement(node) ? node.children.map(textContent).join("") : node;
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function removeElement(element: HtmlElement) {
+  const siblings = element.parent?.children;
+  if (!siblings) return;
+  const index = siblings.indexOf(element);
+  if (index >= 0) siblings.splice(index, 1);
+}
+
+// ============================================
+// 正文定位
+// ============================================
+
+/** 直接丢弃的元素 */
+const STRIP_TAGS = new Set([
+  "head",
+  "nav",
+  "footer",
+  "aside",
+  "form",
+  "button",
+  "select",
+  "input",
+  "iframe",
+  "object",
+  "embed",
+  "canvas",
+  "dialog",
+]);
+
+/** class / id 命中时视为干扰区域 */
+const UNLIKELY_PATTERN =
+  /banner|breadcrumb|combx|comment|community|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|nav|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|tags|toolbar|widget|advert|\bads?\b/i;
+
+/** class / id 命中时视为正文 */
+const POSITIVE_PATTERN =
+  /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+
+/** 计入正文得分的段落元素 */
+const PARAGRAPH_TAGS = new Set(["p", "pre", "td", "blockquote", "li"]);
+
+function classWeight(element: HtmlElement): number {
+  const signature = `${element.attrs.class ?? ""} ${element.attrs.id ?? ""}`;
+  let weight = 0;
+  if (UNLIKELY_PATTERN.test(signature)) weight -= 25;
+  if (POSITIVE_PATTERN.test(signature)) weight += 25;
+  return weight;
+}
+
+/**
+ * 去除干扰区域
+ */
+function stripBoilerplate(root: HtmlElement) {
+  const toRemove: HtmlElement[] = [];
+  for (const element of walk(root)) {
+    const signature = `${element.attrs.class ?? ""} ${element.attrs.id ?? ""}`;
+    const role = element.attrs.role ?? "";
+    if (
+      STRIP_TAGS.has(element.tag) ||
+      element.attrs.hidden !== undefined ||
+      element.attrs["aria-hidden"] === "true" ||
+      /navigation|banner|contentinfo|complementary|dialog/.test(role) ||
+      (element.tag !== "body" &&
+        element.tag !== "html" &&
+        element.tag !== "article" &&
+        element.tag !== "main" &&
+        UNLIKELY_PATTERN.test(signature) &&
+        !POSITIVE_PATTERN.test(signature))
+    ) {
+      toRemove.push(element);
+    }
+  }
+  // header 只有在不包含标题以外的大量文字时才移除（文章页常把 h1 放在 header 中）
+  for (const element of walk(root)) {
+    if (element.tag === "header" && !findFirst(element, "h1")) {
+      toRemove.push(element);
+    }
+  }
+  for (const element of toRemove) {
+    removeElement(element);
+  }
+}
+
+function linkDensity(element: HtmlElement): number {
+  const length = normalizeSpace(textContent(element)).length;
+  if (length === 0) return 0;
+  let linkLength = 0;
+  for (const child of walk(element)) {
+    if (child.tag === "a") {
+      linkLength += normalizeSpace(textContent(child)).length;
+    }
+  }
+  return linkLength / length;
+}
+
+/**
+ * 选出正文节点
+ *
+ * 段落得分 = 1 + 逗号数 + 每 100 字 1 分（最多 3 分），
+ * 计入父元素，减半计入祖父元素；
+ * 最终得分按 class/id 权重修正并乘以 (1 - 链接密度)
+ */
+function findMainContent(root: HtmlElement): HtmlElement {
+  const scores = new Map<HtmlElement, number>();
+
+  for (const element of walk(root)) {
+    if (!PARAGRAPH_TAGS.has(element.tag)) continue;
+    const text = normalizeSpace(textContent(element));
+    if (text.length < 25) continue;
+
+    const score =
+      1 +
+      (text.match(/[,，、]/g)?.length ?? 0) +
+      Math.min(text.length / 100, 3);
+    const parent = element.parent;
+    const grandparent = parent?.parent;
+    if (parent && parent !== root) {
+      scores.set(parent, (scores.get(parent) ?? classWeight(parent)) + score);
+    }
+    if (grandparent && grandparent !== root) {
+      scores.set(
+        grandparent,
+        (scores.get(grandparent) ?? classWeight(grandparent)) + score / 2
+      );
+    }
+  }
+
+  let best: HtmlElement | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  if (!best) {
+    return findFirst(root, "body") ?? root;
+  }
+
+  // 正文被拆分在多个兄弟节点时，合并得分相近的兄弟节点
+  const parent = best.parent;
+  if (parent) {
+    const threshold = Math.max(10, bestScore * 0.2);
+    const siblings = parent.children.filter(
+      (child): child is HtmlElement =>
+        isElement(child) &&
+        (child === best || (scores.get(child) ?? 0) >= threshold)
+    );
+    if (siblings.length > 1) {
+      return { tag: "div", attrs: {}, children: siblings, parent: null };
+    }
+  }
+
+  return best;
+}
+
+// ============================================
+// Markdown 转换
+// ============================================
+
+function resolveUrl(href: string | undefined, baseUrl: string): string | null {
+  if (!href || /^(javascript|data|mailto|tel):/i.test(href.trim())) {
+    return null;
+  }
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 转换行内内容
+ */
+function renderInline(node: HtmlNode, baseUrl: string): string {
+  if (!isElement(node)) {
+    return node.replace(/\s+/g, " ");
+  }
+
+  const inner = () =>
+    node.children.map((child) => renderInline(child, baseUrl)).join("");
+
+  switch (node.tag) {
+    case "br":
+      return "\n";
+    case "img": {
+      const src = resolveUrl(node.attrs.src, baseUrl);
+      return src ? `![${node.attrs.alt ?? ""}](${src})` : "";
+    }
+    case "a": {
+      const text = inner().trim();
+      const href = node.attrs.href?.startsWith("#")
+        ? null
+        : resolveUrl(node.attrs.href, baseUrl);
+      return text && href ? `[${text}](${href})` : text;
+    }
+    case "strong":
+    case "b": {
+      const text = inner().trim();
+      return text ? `**${text}**` : "";
+    }
+    case "em":
+    case "i": {
+      const text = inner().trim();
+      return text ? `_${text}_` : "";
+    }
+    case "code": {
+      const text = textContent(node);
+      return text ? `\`${text}\`` : "";
+    }
+    case "sup":
+      return `^${inner()}`;
+    default:
+      return inner();
+  }
+}
+
+/**
+ * 将元素转换为 Markdown 块
+ */
+function renderBlocks(element: HtmlElement, baseUrl: string): string[] {
+  const blocks: string[] = [];
+  let inline = "";
+
+  const flush = () => {
+    const text = inline
+      .split("\n")
+      .map((line) => line.trim())
+      .join("\n")
+      .trim();
+    if (text) blocks.push(text);
+    inline = "";
+  };
+
+  for (const child of element.children) {
+    if (!isElement(child) || !BLOCK_TAGS.has(child.tag)) {
+      inline += renderInline(child, baseUrl);
+      continue;
+    }
+    flush();
+    blocks.push(...renderBlock(child, baseUrl));
+  }
+  flush();
+
+  return blocks;
+}
+
+function renderList(list: HtmlElement, baseUrl: string, depth: number): string {
+  const ordered = list.tag === "ol";
+  const indent = "  ".repeat(depth);
+  const lines: string[] = [];
+  let index = Number(list.attrs.start) || 1;
+
+  for (const item of list.children) {
+    if (!isElement(item) || item.tag !== "li") continue;
+    const nested = item.children.filter(
+      (c): c is HtmlElement =>
+        isElement(c) && (c.tag === "ul" || c.tag === "ol")
+    );
+    const body = renderBlocks(
+      {
+        ...item,
+        children: item.children.filter(
+          (c) => !nested.includes(c as HtmlElement)
+        ),
+      },
+      baseUrl
+    ).join(" ");
+    const marker = ordered ? `${index++}.` : "-";
+    lines.push(`${indent}${marker} ${body}`);
+    for (const sub of nested) {
+      lines.push(renderList(sub, baseUrl, depth + 1));
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function renderTable(table: HtmlElement, baseUrl: string): string {
+  const rows: string[][] = [];
+  for (const row of walk(table)) {
+    if (row.tag !== "tr") continue;
+    const cells = row.children
+      .filter(
+        (c): c is HtmlElement =>
+          isElement(c) && (c.tag === "td" || c.tag === "th")
+      )
+      .map((cell) =>
+        normalizeSpace(renderInline(cell, baseUrl)).replace(/\|/g, "\\|")
+      );
+    if (cells.length > 0) rows.push(cells);
+  }
+
+  const [header, ...body] = rows;
+  if (!header) return "";
+  const width = Math.max(...rows.map((r) => r.length));
+  const pad = (cells: string[]) =>
+    `| ${[...cells, ...Array(width - cells.length).fill("")].join(" | ")} |`;
+
+  return [pad(header), pad(Array(width).fill("---")), ...body.map(pad)].join(
+    "\n"
+  );
+}
+
+function renderBlock(element: HtmlElement, baseUrl: string): string[] {
+  const heading = element.tag.match(/^h([1-6])$/);
+  if (heading) {
+    const text = normalizeSpace(renderInline(element, baseUrl));
+    return text ? [`${"#".repeat(Number(heading[1]))} ${text}`] : [];
+  }
+
+  switch (element.tag) {
+    case "hr":
+      return ["---"];
+    case "pre": {
+      const code = textContent(element).replace(/^\n+|\s+$/g, "");
+      return code ? [`\`\`\`\n${code}\n\`\`\``] : [];
+    }
+    case "ul":
+    case "ol": {
+      const list = renderList(element, baseUrl, 0);
+      return list ? [list] : [];
+    }
+    case "table": {
+      const table = renderTable(element, baseUrl);
+      return table ? [table] : [];
+    }
+    case "blockquote":
+      return renderBlocks(element, baseUrl).map((block) =>
+        block
+          .split("\n")
+          .map((line) => `> ${line}`)
+          .join("\n")
+      );
+    default:
+      return renderBlocks(element, baseUrl);
+  }
+}
+
+// ============================================
+// 入口
+// ============================================
+
+/**
+ * 读取页面标题（og:title > <title> > 第一个 <h1>）
+ */
+function extractTitle(root: HtmlElement): string | null {
+  for (const element of walk(root)) {
+    if (
+      element.tag === "meta" &&
+      (element.attrs.property === "og:title" ||
+        element.attrs.name === "twitter:title") &&
+      element.attrs.content?.trim()
+    ) {
+      return normalizeSpace(element.attrs.content);
+    }
+  }
+  for (const tag of ["title", "h1"]) {
+    const element = findFirst(root, tag);
+    const text = element ? normalizeSpace(textContent(element)) : "";
+    if (text) return text;
+  }
+  return null;
+}
+
+/**
+ * 提取 HTML 页面正文并转换为 Markdown
+ *
+ * @param html - 页面 HTML
+ * @param baseUrl - 页面地址（用于把相对链接转为绝对链接）
+ */
+export function extractMainContent(
+  html: string,
+  baseUrl: string
+): ExtractedContent {
+  const root = parseHtml(html);
+  const title = extractTitle(root);
+
+  stripBoilerplate(root);
+  const main = findMainContent(root);
+  const markdown = renderBlock(main, baseUrl)
+    .join("\n\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return { title, markdown };
+}
+
+/**
+ * 将整个 HTML 文档转换为 Markdown（不做正文定位）
+ *
+ * 适用于内容本身就是正文的文档（如 EPUB 章节）
+ *
+ * @param html - HTML / XHTML 文档
+ * @param baseUrl - 文档地址（用于把相对链接转为绝对链接；本地文件传空字符串）
+ */
+export function convertHtmlToMarkdown(html: string, baseUrl = ""): string {
+  const root = parseHtml(html);
+  const body = findFirst(root, "body") ?? root;
+  return renderBlock(body, baseUrl)
+    .join("\n\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * 解析上传的 HTML 文件并保留标题结构
+ *
+ * 与网页抓取相同地提取正文；正文不以标题开头时把页面标题作为一级标题
+ *
+ * @param content - HTML 文件内容
+ * @returns 结构化解析结果
+ */
+export function parseHtmlDocument(content: string): ParsedDocument {
+  const { title, markdown } = extractMainContent(content, "");
+  const text =
+    title && !markdown.startsWith("#") ? `# ${title}\n\n${markdown}` : markdown;
+
+  try {
+    return parseMarkdownDocument(text);
+  } catch {
+    throw new Error("HTML file contains no readable content");
+  }
+}
@@ -1,51 +1,14 @@
-import { parsePdf } from "./pdf";
-import { parseWord } from "./word";
-import { parseMarkdown } from "./markdown";
+import { parsePdfDocument } from "./pdf";
+import { parseWordDocument } from "./word";
+import { parseMarkdown, parseMarkdownDocument } from "./markdown";
+import { parsePptxDocument } from "./pptx";
+import { parseEpubDocument } from "./epub";
+import { parseHtmlDocument } from "./html";
+import { parseSubtitleDocument } from "./subtitles";
+import { getFileTypeFromName, type SupportedFileType } from "./file-types";
+import type { ParsedDocument, ParseOptions } from "./structure";
 import { getStorageProvider } from "@/features/storage/providers";
 
-/**
- * 支持的文件类型
- */
-export type SupportedFileType = "pdf" | "docx" | "doc" | "md" | "txt";
-
-/**
- * 文件类型 MIME 映射
- */
-export const FILE_MIME_TYPES: Record<string, SupportedFileType> = {
-  "application/pdf": "pdf",
-  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
-  "application/msword": "doc",
-  "text/markdown": "md",
-  "text/plain": "txt",
-};
-
-/**
- * 文件扩展名映射
- */
-export const FILE_EXTENSIONS: Record<string, SupportedFileType> = {
-  ".pdf": "pdf",
-  ".docx": "docx",
-  ".doc": "doc",
-  ".md": "md",
-  ".txt": "txt",
-};
-
-/**
- * 从文件名获取文件类型
- */
-export function getFileTypeFromName(filename: string): SupportedFileType | null {
-  const ext = filename.toLowerCase().match(/\.[^.]+$/)?.[0];
-  if (!ext) return null;
-  return FILE_EXTENSIONS[ext] || null;
-}
-
-/**
- * 从 MIME 类型获取文件类型
- */
-export function getFileTypeFromMime(mimeType: string): SupportedFileType | null {
-  return FILE_MIME_TYPES[mimeType] || null;
-}
-
 /**
  * 解析文件内容
  *
@@ -59,19 +22,57 @@ export async function parseFile(
   buffer: Buffer,
   fileType: SupportedFileType
 ): Promise<string> {
+  return (await parseDocument(buffer, fileType)).text;
+}
+
+/**
+ * 解析文件内容并保留文档结构
+ *
+ * PDF 保留书签和分页，PowerPoint 每页幻灯片为一页，Word / EPUB / HTML / Markdown
+ * 保留标题层级；纯文本和字幕没有结构。
+ * 指定 imageBaseUrl 时同时提取 PDF / Word / PowerPoint 中的图片
+ *
+ * @param buffer - 文件 Buffer
+ * @param fileType - 文件类型
+ * @param options - 解析选项
+ * @returns 结构化解析结果
+ */
+export async function parseDocument(
+  buffer: Buffer,
+  fileType: SupportedFileType,
+  options: ParseOptions = {}
+): Promise<ParsedDocument> {
   switch (fileType) {
     case "pdf":
-      return await parsePdf(buffer);
+      return await parsePdfDocument(buffer, options);
 
     case "docx":
     case "doc":
-      return await parseWord(buffer);
+      return await parseWordDocument(buffer, options);
+
+    case "pptx":
+      return await parsePptxDocument(buffer, options);
+
+    case "epub":
+      return await parseEpubDocument(buffer);
+
+    case "html":
+      return parseHtmlDocument(buffer.toString("utf-8"));
 
     case "md":
+      return parseMarkdownDocument(buffer.toString("utf-8"));
+
+    case "srt":
+    case "vtt":
+      return parseSubtitleDocument(buffer.toString("utf-8"));
+
     case "txt":
       // 文本文件直接转换为字符串
-      const content = buffer.toString("utf-8");
-      return parseMarkdown(content);
+      return {
+        text: parseMarkdown(buffer.toString("utf-8")),
+        headings: [],
+        pageOffsets: null,
+      };
 
     default:
       throw new Error(`Unsupported file type: ${fileType}`);
@@ -123,6 +124,24 @@ export async function parseFileFromStorage(
   bucket: string,
   filename: string
 ): Promise<string> {
+  return (await parseDocumentFromStorage(fileKey, bucket, filename)).text;
+}
+
+/**
+ * 从 S3/R2 存储下载并解析文件，保留文档结构
+ *
+ * @param fileKey - 文件在存储中的键名
+ * @param bucket - 存储桶名称
+ * @param filename - 原始文件名（用于确定文件类型）
+ * @param options - 解析选项
+ * @returns 结构化解析结果
+ */
+export async function parseDocumentFromStorage(
+  fileKey: string,
+  bucket: string,
+  filename: string,
+  options: ParseOptions = {}
+): Promise<ParsedDocument> {
   const fileType = getFileTypeFromName(filename);
 
   if (!fileType) {
@@ -132,10 +151,59 @@ export async function parseFileFromStorage(
   const provider = getStorageProvider();
   const buffer = await provider.getObject(fileKey, bucket);
 
-  return await parseFile(buffer, fileType);
+  return await parseDocument(buffer, fileType, options);
 }
 
+export {
+  DOCUMENT_EXTENSIONS,
+  DOCUMENT_FILE_TYPES,
+  type DocumentFileType,
+  FILE_EXTENSIONS,
+  FILE_MIME_TYPES,
+  getFileTypeFromMime,
+  getFileTypeFromName,
+  getFileTypeLabel,
+  resolveUploadContentType,
+  type SupportedFileType,
+} from "./file-types";
+
 // 导出单独的解析器
-export { parsePdf, getPdfMetadata } from "./pdf";
-export { parseWord, parseWordToHtml } from "./word";
-export { parseMarkdown, extractTextFromMarkdown } from "./markdown";
+export { parsePdf, parsePdfDocument, getPdfMetadata } from "./pdf";
+export { parseWord, parseWordDocument, parseWordToHtml } from "./word";
+export {
+  parseMarkdown,
+  parseMarkdownDocument,
+  extractTextFromMarkdown,
+} from "./markdown";
+export { parsePptx, parsePptxDocument } from "./pptx";
+export { parseEpub, parseEpubDocument } from "./epub";
+export { parseSubtitleDocument } from "./subtitles";
+export type {
+  DocumentHeading,
+  DocumentImage,
+  ParsedDocument,
+  ParseOptions,
+} from "./structure";
+export {
+  createFigureCollector,
+  type FigureCollector,
+  findFigureReferences,
+  MAX_DOCUMENT_IMAGES,
+} from "./figures";
+export {
+  convertHtmlToMarkdown,
+  extractMainContent,
+  parseHtmlDocument,
+  type ExtractedContent,
+} from "./html";
+export {
+  assertPublicUrl,
+  extractWebContent,
+  getWebExtractor,
+  htmlExtractor,
+  isPrivateAddress,
+  jinaExtractor,
+  WEB_FETCH_LIMITS,
+  type WebContent,
+  type WebExtractor,
+} from "./web";
@@ -1,3 +1,9 @@
+import {
+  cleanText,
+  type DocumentHeading,
+  type ParsedDocument,
+} from "./structure";
+
 /**
  * 解析 Markdown 文件
  *
@@ -7,17 +13,46 @@
  * @returns 清理后的文本内容
  */
 export function parseMarkdown(content: string): string {
+  return parseMarkdownDocument(content).text;
+}
+
+/**
+ * 解析 Markdown 文件并保留 `#` 标题结构
+ *
+ * 代码块中的 `#` 行不视为标题
+ *
+ * @param content - Markdown 文件内容
+ * @returns 结构化解析结果
+ */
+export function parseMarkdownDocument(content: string): ParsedDocument {
   // Markdown 已是纯文本，直接清理即可
-  const text = content
-    .replace(/\r\n/g, "\n")
-    .replace(/\n{3,}/g, "\n\n")
-    .trim();
+  const text = cleanText(content);
 
   if (!text || text.length < 10) {
     throw new Error("Markdown file contains no readable content");
   }
 
-  return text;
+  const headings: DocumentHeading[] = [];
+  let inCodeBlock = false;
+  let offset = 0;
+
+  for (const line of text.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    } else if (!inCodeBlock) {
+      const match = line.match(/^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
+      if (match?.[1] && match[2]) {
+        headings.push({
+          level: match[1].length,
+          title: match[2],
+          offset,
+        });
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  return { text, headings, pageOffsets: null };
 }
 
 /**
@@ -1,4 +1,20 @@
-import { extractText, getDocumentProxy } from "unpdf";
+import { extractImages, extractText, getDocumentProxy } from "unpdf";
+import {
+  createFigureCollector,
+  type FigureCollector,
+  MAX_DOCUMENT_IMAGES,
+} from "./figures";
+import { encodePng } from "./png";
+import {
+  cleanText,
+  type DocumentHeading,
+  findHeading,
+  type ParsedDocument,
+  type ParseOptions,
+} from "./structure";
+
+/** 宽或高小于该像素数的图片视为图标、装饰，不提取 */
+const MIN_FIGURE_SIZE = 64;
 
 /**
  * 从 PDF Buffer 中提取文本
@@ -7,23 +23,61 @@ import { extractText, getDocumentProxy } from "unpdf";
  * @returns 提取的纯文本内容
  */
 export async function parsePdf(buffer: Buffer): Promise<string> {
+  return (await parsePdfDocument(buffer)).text;
+}
+
+/**
+ * 从 PDF Buffer 中提取文本、分页和书签
+ *
+ * 每页单独清理后按顺序拼接，记录每页的起始偏移；
+ * 书签标题在其目标页内定位，找不到时取该页开头；
+ * 指定 imageBaseUrl 时提取每页的图片，引用追加在该页文本末尾
+ *
+ * @param buffer - PDF 文件的 Buffer
+ * @param options - 解析选项
+ * @returns 结构化解析结果
+ */
+export async function parsePdfDocument(
+  buffer: Buffer,
+  options: ParseOptions = {}
+): Promise<ParsedDocument> {
   try {
     // unpdf 需要 Uint8Array 而不是 Buffer
     const uint8Array = new Uint8Array(buffer);
-    const { text } = await extractText(uint8Array);
+    const pdf = await getDocumentProxy(uint8Array);
+    const { text: pages } = await extractText(pdf);
+    const figures = options.imageBaseUrl
+      ? createFigureCollector(options.imageBaseUrl)
+      : null;
 
-    // text 是每页文本的数组，合并后清理
-    const joinedText = text.join("\n");
-    const cleanedText = joinedText
-      .replace(/\r\n/g, "\n") // 统一换行符
-      .replace(/\n{3,}/g, "\n\n") // 合并多个空行
-      .trim();
+    // text 是每页文本的数组，逐页清理后合并
+    const pageOffsets: number[] = [];
+    let text = "";
+    for (const [i, page] of pages.entries()) {
+      if (pageOffsets.length > 0) text += "\n";
+      pageOffsets.push(text.length);
+      text += cleanText(page);
+
+      const references = figures
+        ? await readPageFigures(pdf, i + 1, figures)
+        : [];
+      if (references.length > 0) {
+        text += `\n${references.join("\n")}`;
+      }
+    }
 
-    if (!cleanedText || cleanedText.length < 10) {
+    if (!text.trim() || text.trim().length < 10) {
       throw new Error("PDF contains no readable text content");
     }
 
-    return cleanedText;
+    const headings = await readPdfBookmarks(pdf, text, pageOffsets);
+
+    return {
+      text,
+      headings,
+      pageOffsets,
+      ...(figures && { images: figures.images }),
+    };
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to parse PDF: ${error.message}`);
@@ -32,6 +86,114 @@ export async function parsePdf(buffer: Buffer): Promise<string> {
   }
 }
 
+type PdfDocument = Awaited<ReturnType<typeof getDocumentProxy>>;
+type PdfOutlineNode = Awaited<ReturnType<PdfDocument["getOutline"]>>[number];
+
+/**
+ * 提取一页中的图片并编码为 PNG
+ *
+ * 单页提取失败时跳过（不影响文本解析）
+ *
+ * @returns 插入文本的图片引用
+ */
+async function readPageFigures(
+  pdf: PdfDocument,
+  pageNumber: number,
+  figures: FigureCollector
+): Promise<string[]> {
+  const references: string[] = [];
+  if (figures.images.length >= MAX_DOCUMENT_IMAGES) return references;
+
+  try {
+    for (const image of await extractImages(pdf, pageNumber)) {
+      if (image.width < MIN_FIGURE_SIZE || image.height < MIN_FIGURE_SIZE) {
+        continue;
+      }
+      const png = encodePng(
+        image.data,
+        image.width,
+        image.height,
+        image.channels
+      );
+      const reference = figures.add(
+        png,
+        "image/png",
+        `Figure ${figures.images.length + 1} (page ${pageNumber})`
+      );
+      if (reference) references.push(reference);
+    }
+  } catch (error) {
+    console.warn(
+      `[PDF] Failed to extract images on page ${pageNumber}:`,
+      error
+    );
+  }
+  return references;
+}
+
+/**
+ * 解析书签目标对应的页码（从 0 开始）
+ */
+async function resolveDestinationPage(
+  pdf: PdfDocument,
+  dest: PdfOutlineNode["dest"]
+): Promise<number | null> {
+  try {
+    const explicit =
+      typeof dest === "string" ? await pdf.getDestination(dest) : dest;
+    const target = explicit?.[0];
+    if (typeof target === "number") return target;
+    if (target && typeof target === "object") {
+      return await pdf.getPageIndex(target);
+    }
+  } catch {
+    // 目标无效时忽略该书签
+  }
+  return null;
+}
+
+/**
+ * 读取 PDF 书签并定位到文本中
+ *
+ * 书签无法解析到页码时丢弃；同一书签树按先序遍历，层级为嵌套深度
+ */
+async function readPdfBookmarks(
+  pdf: PdfDocument,
+  text: string,
+  pageOffsets: number[]
+): Promise<DocumentHeading[]> {
+  const outline = await pdf.getOutline().catch(() => null);
+  if (!outline?.length) return [];
+
+  const headings: DocumentHeading[] = [];
+
+  const visit = async (nodes: PdfOutlineNode[], level: number) => {
+    for (const node of nodes) {
+      const title = node.title?.trim();
+      const pageIndex = await resolveDestinationPage(pdf, node.dest);
+      const pageStart = pageIndex === null ? undefined : pageOffsets[pageIndex];
+
+      if (title && pageStart !== undefined) {
+        const pageEnd = pageOffsets[(pageIndex ?? 0) + 1] ?? text.length;
+        const found = findHeading(text, title, pageStart);
+        headings.push({
+          level,
+          title,
+          offset: found !== -1 && found < pageEnd ? found : pageStart,
+        });
+      }
+
+      if (node.items?.length) {
+        await visit(node.items as PdfOutlineNode[], level + 1);
+      }
+    }
+  };
+  await visit(outline, 1);
+
+  // 书签顺序不一定与页面顺序一致
+  return headings.sort((a, b) => a.offset - b.offset);
+}
+
 /**
  * 获取 PDF 元数据
  */
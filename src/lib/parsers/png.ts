@@ -0,0 +1,80 @@
+import { deflateSync } from "node:zlib";
+
+/**
+ * PNG 编码
+ *
+ * PDF 中的图片解码后为原始像素，编码为 PNG 后保存（不依赖图像处理库）
+ */
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+/** 通道数 → PNG 颜色类型（灰度 / RGB / RGBA） */
+const COLOR_TYPES: Record<number, number> = { 1: 0, 3: 2, 4: 6 };
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * 将原始像素编码为 PNG
+ *
+ * @param pixels - 按行排列的像素数据（每像素 channels 个字节）
+ * @param width - 宽度
+ * @param height - 高度
+ * @param channels - 通道数（1 灰度 / 3 RGB / 4 RGBA）
+ */
+export function encodePng(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  channels: 1 | 3 | 4
+): Buffer {
+  const colorType = COLOR_TYPES[channels];
+  const stride = width * channels;
+  if (colorType === undefined || pixels.length < stride * height) {
+    throw new Error("Invalid image data");
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // 位深
+  header[9] = colorType;
+
+  // 每行前加过滤类型字节（0 = 不过滤）
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(
+      pixels.subarray(y * stride, (y + 1) * stride),
+      y * (stride + 1) + 1
+    );
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
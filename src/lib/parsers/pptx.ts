@@ -0,0 +1,225 @@
+import { type Archive, openArchive } from "./archive";
+import {
+  createFigureCollector,
+  type FigureCollector,
+  getFigureContentType,
+} from "./figures";
+import { decodeEntities } from "./html";
+import type {
+  DocumentHeading,
+  ParsedDocument,
+  ParseOptions,
+} from "./structure";
+import { findXmlTags, resolveArchivePath } from "./xml";
+
+/** 关系类型：演讲者备注 */
+const NOTES_RELATIONSHIP = /\/notesSlide$/;
+
+/** 标题占位符类型 */
+const TITLE_PLACEHOLDERS = new Set(["title", "ctrTitle"]);
+
+/**
+ * 读取部件的关系（Id → 包内路径）
+ *
+ * @param rels - .rels 文件内容
+ * @param sourcePath - 关系所属部件的包内路径
+ */
+function readRelationships(
+  rels: string | null,
+  sourcePath: string
+): Map<string, { path: string; type: string }> {
+  const relationships = new Map<string, { path: string; type: string }>();
+  if (!rels) return relationships;
+
+  for (const rel of findXmlTags(rels, "Relationship")) {
+    if (!rel.Id || !rel.Target || rel.TargetMode === "External") continue;
+    relationships.set(rel.Id, {
+      path: resolveArchivePath(sourcePath, rel.Target),
+      type: rel.Type ?? "",
+    });
+  }
+  return relationships;
+}
+
+/**
+ * 部件对应的 .rels 文件路径（如 ppt/slides/_rels/slide1.xml.rels）
+ */
+function relationshipsPath(partPath: string): string {
+  const slash = partPath.lastIndexOf("/");
+  return `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+}
+
+/**
+ * 提取段落文本（每个 a:p 一段，空段落丢弃）
+ */
+function readParagraphs(xml: string): string[] {
+  return xml
+    .split("</a:p>")
+    .map((paragraph) =>
+      [...paragraph.matchAll(/<a:t(?:\s[^>]*)?>([^<]*)<\/a:t>/g)]
+        .map((match) => decodeEntities(match[1] ?? ""))
+        .join("")
+        .replace(/\s+/g, " ")
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+/**
+ * 读取形状及其占位符类型
+ */
+function readShapes(
+  xml: string
+): { xml: string; placeholder: string | null }[] {
+  return [...xml.matchAll(/<p:sp\b[^>]*>[\s\S]*?<\/p:sp>/g)].map((match) => ({
+    xml: match[0],
+    placeholder: findXmlTags(match[0], "p:ph")[0]?.type ?? null,
+  }));
+}
+
+/**
+ * 提取幻灯片中的图片（形状描述作为替代文本）
+ *
+ * @returns 插入文本的图片引用
+ */
+async function readSlidePictures(
+  archive: Archive,
+  slide: string,
+  relationships: Map<string, { path: string; type: string }>,
+  figures: FigureCollector
+): Promise<string[]> {
+  const references: string[] = [];
+  for (const match of slide.matchAll(/<p:pic\b[^>]*>[\s\S]*?<\/p:pic>/g)) {
+    const embed = findXmlTags(match[0], "a:blip")[0]?.["r:embed"];
+    const path = relationships.get(embed ?? "")?.path;
+    const contentType = path ? getFigureContentType(path) : null;
+    const data = path ? await archive.readBuffer(path) : null;
+    if (!contentType || !data) continue;
+
+    const reference = figures.add(
+      data,
+      contentType,
+      findXmlTags(match[0], "p:cNvPr")[0]?.descr
+    );
+    if (reference) references.push(reference);
+  }
+  return references;
+}
+
+/**
+ * 从 PowerPoint Buffer 中提取文本
+ *
+ * @param buffer - PPTX 文件的 Buffer
+ * @returns 提取的纯文本内容
+ */
+export async function parsePptx(buffer: Buffer): Promise<string> {
+  return (await parsePptxDocument(buffer)).text;
+}
+
+/**
+ * 从 PowerPoint Buffer 中提取每页幻灯片的文本和演讲者备注
+ *
+ * 幻灯片按演示文稿中的顺序排列，每页以 "Slide N: 标题" 开头并作为一个标题；
+ * 每页幻灯片视为一页（可按页码范围选择）；
+ * 指定 imageBaseUrl 时提取幻灯片中的图片，引用插在正文之后
+ *
+ * @param buffer - PPTX 文件的 Buffer
+ * @param options - 解析选项
+ * @returns 结构化解析结果
+ */
+export async function parsePptxDocument(
+  buffer: Buffer,
+  options: ParseOptions = {}
+): Promise<ParsedDocument> {
+  try {
+    const archive = await openArchive(buffer);
+    const readFile = archive.readText;
+
+    const presentationPath = "ppt/presentation.xml";
+    const presentation = await readFile(presentationPath);
+    if (!presentation) {
+      throw new Error("Missing presentation part");
+    }
+    const relationships = readRelationships(
+      await readFile(relationshipsPath(presentationPath)),
+      presentationPath
+    );
+    const slidePaths = findXmlTags(presentation, "p:sldId")
+      .map((slide) => relationships.get(slide["r:id"] ?? "")?.path)
+      .filter((path): path is string => !!path);
+
+    const figures = options.imageBaseUrl
+      ? createFigureCollector(options.imageBaseUrl)
+      : null;
+    const headings: DocumentHeading[] = [];
+    const pageOffsets: number[] = [];
+    let text = "";
+    // 幻灯片标题、正文和备注的总字符数（不含 "Slide N" 前缀）
+    let contentLength = 0;
+
+    for (const [i, slidePath] of slidePaths.entries()) {
+      const slide = await readFile(slidePath);
+      if (!slide) continue;
+
+      const shapes = readShapes(slide);
+      const titleShape = shapes.find(
+        (shape) =>
+          shape.placeholder && TITLE_PLACEHOLDERS.has(shape.placeholder)
+      );
+      const title = titleShape ? readParagraphs(titleShape.xml).join(" ") : "";
+      const body = readParagraphs(
+        titleShape ? slide.replace(titleShape.xml, "") : slide
+      );
+
+      const slideRelationships = readRelationships(
+        await readFile(relationshipsPath(slidePath)),
+        slidePath
+      );
+
+      const pictures = figures
+        ? await readSlidePictures(archive, slide, slideRelationships, figures)
+        : [];
+
+      // 演讲者备注（正文占位符，不含页码等）
+      const notesPath = [...slideRelationships.values()].find((rel) =>
+        NOTES_RELATIONSHIP.test(rel.type)
+      )?.path;
+      const notesXml = notesPath ? await readFile(notesPath) : null;
+      const notes = notesXml
+        ? readShapes(notesXml)
+            .filter((shape) => shape.placeholder === "body")
+            .flatMap((shape) => readParagraphs(shape.xml))
+        : [];
+
+      contentLength +=
+        title.length + body.join("").length + notes.join("").length;
+
+      const heading = title ? `Slide ${i + 1}: ${title}` : `Slide ${i + 1}`;
+      const lines = [heading, ...body, ...pictures];
+      if (notes.length > 0) {
+        lines.push(`Speaker notes: ${notes.join(" ")}`);
+      }
+
+      if (text) text += "\n\n";
+      pageOffsets.push(text.length);
+      headings.push({ level: 1, title: heading, offset: text.length });
+      text += lines.join("\n");
+    }
+
+    if (contentLength < 10) {
+      throw new Error("Presentation contains no readable text content");
+    }
+
+    return {
+      text,
+      headings,
+      pageOffsets,
+      ...(figures && { images: figures.images }),
+    };
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Failed to parse PowerPoint: ${error.message}`);
+    }
+    throw new Error("Failed to parse PowerPoint: Unknown error");
+  }
+}
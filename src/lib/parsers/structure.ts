@@ -0,0 +1,116 @@
+/**
+ * 结构化解析结果
+ *
+ * 除纯文本外，保留文档自带的结构（PDF 书签、Word 标题、Markdown 标题）
+ * 和分页信息，用于不调用模型直接生成大纲
+ */
+
+/**
+ * 文档标题
+ */
+export interface DocumentHeading {
+  /** 标题层级（1 为最高级） */
+  level: number;
+  /** 标题文本 */
+  title: string;
+  /** 标题在文本中的起始字符偏移 */
+  offset: number;
+}
+
+/**
+ * 结构化解析结果
+ */
+export interface ParsedDocument {
+  /** 清理后的纯文本 */
+  text: string;
+  /** 标题列表（按文档顺序；没有结构时为空） */
+  headings: DocumentHeading[];
+  /** 每页起始字符偏移（PDF 和 PowerPoint，其他格式为 null） */
+  pageOffsets: number[] | null;
+  /** 提取的插图（仅在指定 imageBaseUrl 时提取，文本中以 Markdown 图片引用） */
+  images?: DocumentImage[];
+}
+
+/**
+ * 文档中提取的图片
+ */
+export interface DocumentImage {
+  /** 文件名（如 figure-3.png），存储键名为 imageBaseUrl 对应目录下的该文件 */
+  name: string;
+  /** 图片内容 */
+  data: Buffer;
+  /** MIME 类型 */
+  contentType: string;
+  /** 替代文本（图注或"Figure N"） */
+  alt: string;
+}
+
+/**
+ * 解析选项
+ */
+export interface ParseOptions {
+  /**
+   * 图片地址前缀（如 /image-proxy/{bucket}/figures/{taskId}）
+   *
+   * 指定时提取 PDF / Word / PowerPoint 中的图片，
+   * 并在文本中插入 `![alt](imageBaseUrl/name)` 引用；不指定时只提取文本
+   */
+  imageBaseUrl?: string | undefined;
+}
+
+/**
+ * 清理提取的文本：统一换行符、合并多个空行
+ */
+export function cleanText(text: string): string {
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * 在文本中查找标题的位置（空白宽松匹配、忽略大小写）
+ *
+ * @param text - 文本
+ * @param title - 标题
+ * @param from - 起始查找位置
+ * @returns 字符偏移，未找到时为 -1
+ */
+export function findHeading(text: string, title: string, from = 0): number {
+  const words = title.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return -1;
+
+  const pattern = new RegExp(
+    words
+      .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("\\s+"),
+    "giu"
+  );
+  pattern.lastIndex = from;
+  return pattern.exec(text)?.index ?? -1;
+}
+
+/**
+ * 按文档顺序在文本中定位标题
+ *
+ * 每个标题从上一个标题之后开始查找，找不到的标题丢弃
+ *
+ * @param text - 文本
+ * @param headings - 按顺序排列的标题（无偏移）
+ */
+export function locateHeadings(
+  text: string,
+  headings: { level: number; title: string }[]
+): DocumentHeading[] {
+  const located: DocumentHeading[] = [];
+  let cursor = 0;
+
+  for (const heading of headings) {
+    const offset = findHeading(text, heading.title, cursor);
+    if (offset === -1) continue;
+    located.push({ ...heading, offset });
+    cursor = offset + 1;
+  }
+
+  return located;
+}
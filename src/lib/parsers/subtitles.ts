@@ -0,0 +1,42 @@
+import { parseCaptions } from "@/lib/transcripts/captions";
+import type { ParsedDocument } from "./structure";
+
+/** 相邻字幕间隔超过该秒数时分段 */
+const PARAGRAPH_GAP_SECONDS = 2;
+
+/** 段落最大字符数 */
+const PARAGRAPH_MAX_CHARS = 500;
+
+/**
+ * 解析字幕文件（SRT / WebVTT）为纯文本
+ *
+ * 去掉序号和时间轴，把字幕合并为段落：停顿较长或段落过长时另起一段
+ *
+ * @param content - 字幕文件内容
+ * @returns 结构化解析结果（字幕没有标题和分页）
+ */
+export function parseSubtitleDocument(content: string): ParsedDocument {
+  const cues = parseCaptions(content);
+  if (cues.length === 0) {
+    throw new Error("Subtitle file contains no readable cues");
+  }
+
+  const paragraphs: string[] = [];
+  let current = "";
+  let previousEnd = 0;
+
+  for (const cue of cues) {
+    const isBreak =
+      cue.start - previousEnd > PARAGRAPH_GAP_SECONDS ||
+      current.length >= PARAGRAPH_MAX_CHARS;
+    if (current && isBreak) {
+      paragraphs.push(current);
+      current = "";
+    }
+    current = current ? `${current} ${cue.text}` : cue.text;
+    previousEnd = cue.end;
+  }
+  if (current) paragraphs.push(current);
+
+  return { text: paragraphs.join("\n\n"), headings: [], pageOffsets: null };
+}
@@ -0,0 +1,535 @@
+/**
+ * 网页内容提取
+ *
+ * 提供者：
+ * - html：自行抓取页面并提取正文（默认）
+ * - jina：Jina Reader（r.jina.ai），通过 WEB_EXTRACTOR=jina 启用
+ *
+ * 自行抓取时：
+ * - 只允许 http/https，拒绝解析到内网/保留地址的主机（每次重定向都重新校验）
+ * - 连接时只使用校验过的地址（防止 DNS 重绑定）
+ * - 限制超时、重定向次数、Content-Type 和响应大小
+ */
+
+import { lookup } from "node:dns/promises";
+import { isIP, type LookupFunction } from "node:net";
+import { Agent } from "undici";
+
+import { extractMainContent } from "./html";
+
+// ============================================
+// 类型定义
+// ============================================
+
+/**
+ * 网页提取结果
+ *
+ * @field url - 最终地址（跟随重定向后）
+ * @field title - 页面标题
+ * @field content - 正文（Markdown 或纯文本）
+ */
+export interface WebContent {
+  url: string;
+  title: string | null;
+  content: string;
+}
+
+/**
+ * 网页提取器接口
+ */
+export interface WebExtractor {
+  /** 提取器名称 */
+  name: string;
+
+  /**
+   * 提取网页正文
+   *
+   * @throws 地址不允许、抓取失败或没有可读内容时抛出错误
+   */
+  extract(url: string): Promise<WebContent>;
+}
+
+/** 抓取限制 */
+export const WEB_FETCH_LIMITS = {
+  /** 超时（毫秒） */
+  timeoutMs: 15_000,
+  /** 最大响应大小（字节） */
+  maxBytes: 5 * 1024 * 1024,
+  /** 最大重定向次数 */
+  maxRedirects: 5,
+};
+
+/** 允许的 Content-Type（HTML 提取正文，文本直接使用） */
+const HTML_CONTENT_TYPES = ["text/html", "application/xhtml+xml"];
+const TEXT_CONTENT_TYPES = ["text/plain", "text/markdown", "text/x-markdown"];
+
+const USER_AGENT =
+  "Mozilla/5.0 (compatible; AnkigenixBot/1.0; +https://ankigenix.com)";
+
+// ============================================
+// 地址校验
+// ============================================
+
+/**
+ * 判断 IPv4 地址是否属于内网或保留地址段
+ */
+function isPrivateIPv4(address: string): boolean {
+  const parts = address.split(".").map(Number);
+  const [a = 0, b = 0, c = 0] = parts;
+  return (
+    a === 0 || // 0.0.0.0/8
+    a === 10 || // 10.0.0.0/8
+    a === 127 || // 127.0.0.0/8
+    a >= 224 || // 组播和保留地址
+    (a === 100 && b >= 64 && b <= 127) || // 100.64.0.0/10 运营商 NAT
+    (a === 169 && b === 254) || // 169.254.0.0/16 链路本地（含云元数据）
+    (a === 172 && b >= 16 && b <= 31) || // 172.16.0.0/12
+    (a === 192 && b === 168) || // 192.168.0.0/16
+    (a === 192 && b === 0 && (c === 0 || c === 2)) || // 192.0.0.0/24, 192.0.2.0/24
+    (a === 198 && (b === 18 || b === 19)) || // 198.18.0.0/15
+    (a === 198 && b === 51 && c === 100) || // 198.51.100.0/24
+    (a === 203 && b === 0 && c === 113) // 203.0.113.0/24
+  );
+}
+
+/**
+ * 将 IPv6 地址展开为 8 组 16 位整数
+ */
+function expandIPv6(address: string): number[] | null {
+  let source = address.toLowerCase().split("%")[0] ?? "";
+
+  // 末尾为 IPv4 形式（如 ::ffff:127.0.0.1）时转换为两组十六进制
+  const v4 = source.match(/(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+  if (v4) {
+    const [a = 0, b = 0, c = 0, d = 0] = v4.split(".").map(Number);
+    source = `${source.slice(0, -v4.length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head = "", tail] = source.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (missing < 0 || (tail === undefined && missing !== 0)) return null;
+
+  const groups = [
+    ...headGroups,
+    ...Array<string>(missing).fill("0"),
+    ...tailGroups,
+  ].map((group) => Number.parseInt(group, 16));
+  return groups.every((g) => Number.isInteger(g) && g >= 0 && g <= 0xffff)
+    ? groups
+    : null;
+}
+
+/**
+ * 判断 IPv6 地址是否属于内网或保留地址段
+ */
+function isPrivateIPv6(address: string): boolean {
+  const groups = expandIPv6(address);
+  if (!groups) return true;
+  const [g0 = 0, g1 = 0, , , , g5 = 0, g6 = 0, g7 = 0] = groups;
+
+  // IPv4 映射（::ffff:0:0/96）、IPv4 兼容（::/96）和 NAT64（64:ff9b::/96）按内嵌 IPv4 判断
+  const embeddedV4 = `${g6 >> 8}.${g6 & 0xff}.${g7 >> 8}.${g7 & 0xff}`;
+  const prefixZero = groups.slice(0, 5).every((g) => g === 0);
+  if (prefixZero && (g5 === 0xffff || g5 === 0)) {
+    return isPrivateIPv4(embeddedV4);
+  }
+  if (
+    g0 === 0x64 &&
+    g1 === 0xff9b &&
+    groups.slice(2, 6).every((g) => g === 0)
+  ) {
+    return isPrivateIPv4(embeddedV4);
+  }
+
+  return (
+    (g0 & 0xfe00) === 0xfc00 || // fc00::/7 唯一本地
+    (g0 & 0xffc0) === 0xfe80 || // fe80::/10 链路本地
+    (g0 & 0xff00) === 0xff00 || // ff00::/8 组播
+    (g0 === 0x2001 && g1 === 0x0db8) // 2001:db8::/32 文档地址
+  );
+}
+
+/**
+ * 判断 IP 地址是否属于内网或保留地址段
+ *
+ * 非法地址按不允许处理
+ */
+export function isPrivateAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isPrivateIPv4(address);
+    case 6:
+      return isPrivateIPv6(address);
+    default:
+      return true;
+  }
+}
+
+/**
+ * 校验地址是否允许抓取
+ *
+ * 只允许 http/https；主机名解析出的所有地址都必须是公网地址
+ *
+ * @throws 地址不允许时抛出错误
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  return (await resolvePublicUrl(url)).url;
+}
+
+/**
+ * 校验地址并返回解析出的公网地址（连接时固定使用这些地址）
+ *
+ * @throws 地址不允许时抛出错误
+ */
+async function resolvePublicUrl(
+  url: string
+): Promise<{ url: URL; hostname: string; addresses: string[] }> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Invalid URL");
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("Only http and https URLs are supported");
+  }
+  if (parsed.username || parsed.password) {
+    throw new Error("URLs with credentials are not supported");
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (
+    hostname === "localhost" ||
+    /\.(localhost|local|internal|home\.arpa)$/.test(hostname)
+  ) {
+    throw new Error("URL must point to a public website");
+  }
+
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookup(hostname, { all: true, verbatim: true }).then(
+        (results) => results.map((r) => r.address),
+        () => {
+          throw new Error(`Could not resolve host: ${hostname}`);
+        }
+      );
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error("URL must point to a public website");
+  }
+
+  return { url: parsed, hostname, addresses };
+}
+
+/**
+ * 创建只返回已校验地址的主机名解析函数
+ *
+ * 校验和连接分别解析主机名时，DNS 可能在两次解析之间改为内网地址；
+ * 连接时的解析直接返回校验过的地址，不再查询 DNS
+ *
+ * @param hostname - 已校验的主机名（小写）
+ * @param addresses - 校验过的地址
+ */
+export function createPinnedLookup(
+  hostname: string,
+  addresses: string[]
+): LookupFunction {
+  const entries = addresses.map((address) => ({
+    address,
+    family: isIP(address),
+  }));
+
+  return (host, options, callback) => {
+    const [first] = entries;
+    if (host.toLowerCase() !== hostname || !first) {
+      callback(new Error(`Unexpected host: ${host}`), "", 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, entries);
+      return;
+    }
+    callback(null, first.address, first.family);
+  };
+}
+
+/**
+ * 创建只连接到已校验地址的连接池
+ */
+function createPinnedAgent(hostname: string, addresses: string[]): Agent {
+  return new Agent({
+    connect: { lookup: createPinnedLookup(hostname, addresses) },
+  });
+}
+
+// ============================================
+// 抓取
+// ============================================
+
+/**
+ * 读取响应体，超过大小上限时中止
+ */
+async function readLimitedBody(
+  response: Response,
+  maxBytes: number
+): Promise<Uint8Array> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    throw new Error(
+      `Page is too large (max ${Math.round(maxBytes / 1024 / 1024)}MB)`
+    );
+  }
+  if (!response.body) {
+    return new Uint8Array();
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(
+        `Page is too large (max ${Math.round(maxBytes / 1024 / 1024)}MB)`
+      );
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/**
+ * 按 Content-Type 中的 charset 解码，未知编码回退为 UTF-8
+ */
+function decodeBody(body: Uint8Array, contentType: string): string {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset ?? "utf-8").decode(body);
+  } catch {
+    return new TextDecoder("utf-8").decode(body);
+  }
+}
+
+/**
+ * 抓取到的页面
+ */
+interface FetchedPage {
+  url: string;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * 抓取页面
+ *
+ * 手动跟随重定向，每一跳都重新校验地址，并只连接到校验过的地址
+ */
+async function fetchPage(url: string): Promise<FetchedPage> {
+  const signal = AbortSignal.timeout(WEB_FETCH_LIMITS.timeoutMs);
+  let current = url;
+
+  for (let hop = 0; hop <= WEB_FETCH_LIMITS.maxRedirects; hop++) {
+    const {
+      url: target,
+      hostname,
+      addresses,
+    } = await resolvePublicUrl(current);
+    const dispatcher = createPinnedAgent(hostname, addresses);
+
+    try {
+      const result = await fetchOnce(target, dispatcher, signal);
+      if ("page" in result) {
+        return result.page;
+      }
+      current = result.redirect;
+    } finally {
+      await dispatcher.destroy();
+    }
+  }
+
+  throw new Error("Too many redirects");
+}
+
+/**
+ * 抓取单个地址（不跟随重定向）
+ *
+ * @returns 页面内容，或重定向的目标地址
+ */
+async function fetchOnce(
+  target: URL,
+  dispatcher: Agent,
+  signal: AbortSignal
+): Promise<{ page: FetchedPage } | { redirect: string }> {
+  let response: Response;
+  try {
+    // dispatcher 是 Node.js fetch（undici）的扩展选项
+    response = await fetch(target, {
+      redirect: "manual",
+      signal,
+      dispatcher,
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.1",
+      },
+    } as RequestInit);
+  } catch (error) {
+    if (signal.aborted) {
+      throw new Error("Timed out fetching URL");
+    }
+    throw new Error(
+      `Failed to fetch URL: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (response.status >= 300 && response.status < 400) {
+    const location = response.headers.get("location");
+    await response.body?.cancel();
+    if (!location) {
+      throw new Error("Redirect without location");
+    }
+    return { redirect: new URL(location, target).toString() };
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(
+      `Failed to fetch URL content: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const contentType = response.headers.get("content-type") ?? "";
+  const mimeType = contentType.split(";")[0]?.trim().toLowerCase() ?? "";
+  if (
+    !HTML_CONTENT_TYPES.includes(mimeType) &&
+    !TEXT_CONTENT_TYPES.includes(mimeType)
+  ) {
+    await response.body?.cancel();
+    throw new Error(
+      `Unsupported content type: ${mimeType || "unknown"}. Only web pages and plain text can be imported from a URL.`
+    );
+  }
+
+  const body = await readLimitedBody(response, WEB_FETCH_LIMITS.maxBytes);
+  return {
+    page: {
+      url: target.toString(),
+      contentType,
+      body: decodeBody(body, contentType),
+    },
+  };
+}
+
+// ============================================
+// 提取器
+// ============================================
+
+/**
+ * 自行抓取并提取正文
+ */
+export const htmlExtractor: WebExtractor = {
+  name: "html",
+
+  async extract(url) {
+    const page = await fetchPage(url);
+    const mimeType = page.contentType.split(";")[0]?.trim().toLowerCase() ?? "";
+
+    let title: string | null = null;
+    let content = page.body.trim();
+    if (HTML_CONTENT_TYPES.includes(mimeType)) {
+      const extracted = extractMainContent(page.body, page.url);
+      title = extracted.title;
+      content = extracted.markdown;
+    }
+
+    if (content.length < 10) {
+      throw new Error("No readable content found at this URL");
+    }
+
+    return { url: page.url, title, content };
+  },
+};
+
+/**
+ * Jina Reader
+ *
+ * 由 Jina 抓取页面，返回 Markdown；设置 JINA_API_KEY 时带上授权头
+ */
+export const jinaExtractor: WebExtractor = {
+  name: "jina",
+
+  async extract(url) {
+    // 地址仍在本地校验，避免把内网地址交给第三方
+    const target = await assertPublicUrl(url);
+
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (process.env.JINA_API_KEY) {
+      headers.Authorization = `Bearer ${process.env.JINA_API_KEY}`;
+    }
+
+    const response = await fetch(`https://r.jina.ai/${target.toString()}`, {
+      headers,
+      signal: AbortSignal.timeout(WEB_FETCH_LIMITS.timeoutMs * 2),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch URL content: ${response.statusText}`);
+    }
+
+    const result = (await response.json()) as {
+      data?: { url?: string; title?: string; content?: string };
+    };
+    const content = result.data?.content?.trim() ?? "";
+    if (content.length < 10) {
+      throw new Error("No readable content found at this URL");
+    }
+
+    return {
+      url: result.data?.url ?? target.toString(),
+      title: result.data?.title || null,
+      content,
+    };
+  },
+};
+
+/** 已注册的提取器 */
+const WEB_EXTRACTORS: Record<string, WebExtractor> = {
+  html: htmlExtractor,
+  jina: jinaExtractor,
+};
+
+/**
+ * 获取当前配置的网页提取器（WEB_EXTRACTOR，默认 html）
+ */
+export function getWebExtractor(): WebExtractor {
+  const name = process.env.WEB_EXTRACTOR || "html";
+  const extractor = WEB_EXTRACTORS[name];
+  if (!extractor) {
+    throw new Error(`Unknown web extractor: ${name}`);
+  }
+  return extractor;
+}
+
+/**
+ * 提取网页正文
+ *
+ * @param url - 网页地址
+ * @param extractor - 提取器（默认按 WEB_EXTRACTOR 配置）
+ */
+export async function extractWebContent(
+  url: string,
+  extractor: WebExtractor = getWebExtractor()
+): Promise<WebContent> {
+  return extractor.extract(url);
+}
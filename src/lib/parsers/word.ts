@@ -1,4 +1,14 @@
 import mammoth from "mammoth";
+import { createFigureCollector } from "./figures";
+import { convertHtmlToMarkdown, decodeEntities } from "./html";
+import { parseMarkdownDocument } from "./markdown";
+import {
+  cleanText,
+  locateHeadings,
+  type ParsedDocument,
+  type ParseOptions,
+} from "./structure";
+import { parseXmlAttributes } from "./xml";
 
 /**
  * 从 Word 文档 Buffer 中提取文本
@@ -9,14 +19,33 @@ import mammoth from "mammoth";
  * @returns 提取的纯文本内容
  */
 export async function parseWord(buffer: Buffer): Promise<string> {
+  return (await parseWordDocument(buffer)).text;
+}
+
+/**
+ * 从 Word 文档 Buffer 中提取文本并保留标题层级
+ *
+ * 标题层级来自 HTML 转换结果中的 h1-h6（对应 Word 的标题样式），
+ * 再按顺序在纯文本中定位；
+ * 指定 imageBaseUrl 时改为把 HTML 转换为 Markdown，图片引用保留在原位置
+ *
+ * @param buffer - Word 文件的 Buffer
+ * @param options - 解析选项
+ * @returns 结构化解析结果
+ */
+export async function parseWordDocument(
+  buffer: Buffer,
+  options: ParseOptions = {}
+): Promise<ParsedDocument> {
   try {
+    if (options.imageBaseUrl) {
+      return await parseWordWithImages(buffer, options.imageBaseUrl);
+    }
+
     const result = await mammoth.extractRawText({ buffer });
 
     // 清理提取的文本
-    const text = result.value
-      .replace(/\r\n/g, "\n")
-      .replace(/\n{3,}/g, "\n\n")
-      .trim();
+    const text = cleanText(result.value);
 
     if (!text || text.length < 10) {
       throw new Error("Word document contains no readable text content");
@@ -27,7 +56,19 @@ export async function parseWord(buffer: Buffer): Promise<string> {
       console.warn("Word parsing warnings:", result.messages);
     }
 
-    return text;
+    const html = await parseWordToHtml(buffer);
+    const headings = [...html.matchAll(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/g)]
+      .map((match) => ({
+        level: Number(match[1]),
+        title: decodeEntities((match[2] ?? "").replace(/<[^>]+>/g, "")).trim(),
+      }))
+      .filter((heading) => heading.title);
+
+    return {
+      text,
+      headings: locateHeadings(text, headings),
+      pageOffsets: null,
+    };
   } catch (error) {
     if (error instanceof Error) {
       throw new Error(`Failed to parse Word document: ${error.message}`);
@@ -36,6 +77,54 @@ export async function parseWord(buffer: Buffer): Promise<string> {
   }
 }
 
+/**
+ * 提取 Word 文档中的图片，文本为带图片引用的 Markdown
+ *
+ * mammoth 转换时先以占位地址输出 <img>，再替换为图片引用文本
+ */
+async function parseWordWithImages(
+  buffer: Buffer,
+  imageBaseUrl: string
+): Promise<ParsedDocument> {
+  const figures = createFigureCollector(imageBaseUrl);
+  const references = new Map<string, string>();
+
+  const result = await mammoth.convertToHtml(
+    { buffer },
+    {
+      convertImage: mammoth.images.imgElement(async (image) => {
+        const altText = "altText" in image ? String(image.altText ?? "") : "";
+        const reference = figures.add(
+          await image.readAsBuffer(),
+          image.contentType,
+          altText
+        );
+        if (!reference) return { src: "" };
+
+        const placeholder = `figure-placeholder-${references.size}`;
+        references.set(placeholder, reference);
+        return { src: placeholder };
+      }),
+    }
+  );
+
+  const html = result.value.replace(/<img\b[^>]*>/g, (tag) => {
+    const reference = references.get(parseXmlAttributes(tag).src ?? "");
+    return reference
+      ? ` ${reference.replace(/&/g, "&amp;").replace(/</g, "&lt;")} `
+      : "";
+  });
+
+  try {
+    return {
+      ...parseMarkdownDocument(convertHtmlToMarkdown(html)),
+      images: figures.images,
+    };
+  } catch {
+    throw new Error("Word document contains no readable text content");
+  }
+}
+
 /**
  * 从 Word 文档提取 HTML（保留格式）
  *
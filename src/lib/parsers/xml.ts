@@ -0,0 +1,73 @@
+import { decodeEntities } from "./html";
+
+/**
+ * 压缩包内 XML 文档（EPUB / PPTX）的读取工具
+ *
+ * 只处理这些格式用到的简单结构：按标签名查找属性、提取文本、解析包内路径
+ */
+
+/**
+ * 解析标签属性（保留属性名大小写，值解码实体）
+ */
+export function parseXmlAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(
+    /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  )) {
+    const [, name, doubleQuoted, singleQuoted] = match;
+    if (name) attrs[name] = decodeEntities(doubleQuoted ?? singleQuoted ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * 按顺序查找指定名称的标签（开始标签或自闭合标签），返回其属性
+ *
+ * @param xml - XML 文档
+ * @param name - 标签名（含命名空间前缀，如 "p:sldId"）
+ */
+export function findXmlTags(
+  xml: string,
+  name: string
+): Record<string, string>[] {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = new RegExp(`<${escaped}(\\s[^>]*)?/?>`, "g");
+  return [...xml.matchAll(pattern)].map((match) =>
+    parseXmlAttributes(match[1] ?? "")
+  );
+}
+
+/**
+ * 去除标签并解码实体，合并空白
+ */
+export function xmlText(xml: string): string {
+  return decodeEntities(xml.replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 解析包内相对路径
+ *
+ * @param baseFile - 引用所在文件的包内路径
+ * @param href - 相对路径（可含 #片段 和 URL 编码）
+ * @returns 规范化后的包内路径（不含片段）
+ */
+export function resolveArchivePath(baseFile: string, href: string): string {
+  const [path = ""] = href.split("#");
+  let decoded = path;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    // 编码无效时按原样使用
+  }
+
+  const segments = decoded.startsWith("/")
+    ? []
+    : baseFile.split("/").slice(0, -1);
+  for (const segment of decoded.split("/")) {
+    if (segment === "..") segments.pop();
+    else if (segment && segment !== ".") segments.push(segment);
+  }
+  return segments.join("/");
+}
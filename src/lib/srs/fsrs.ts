@@ -0,0 +1,527 @@
+/**
+ * FSRS 间隔重复调度器
+ *
+ * 基于 FSRS-5 (Free Spaced Repetition Scheduler) 算法
+ * 参考: https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
+ *
+ * 纯函数实现，不依赖数据库，便于在 Server Action 和测试中复用
+ */
+
+// ============================================
+// 类型定义
+// ============================================
+
+/**
+ * 评分等级
+ * - 1 Again: 完全忘记
+ * - 2 Hard: 想起来但很吃力
+ * - 3 Good: 正常想起
+ * - 4 Easy: 轻松想起
+ */
+export type Grade = 1 | 2 | 3 | 4;
+
+/**
+ * 评分名称（与数据库枚举一致）
+ */
+export type GradeName = "again" | "hard" | "good" | "easy";
+
+/**
+ * 评分名称与数值映射
+ */
+export const GRADES: Record<GradeName, Grade> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
+/**
+ * 卡片学习状态
+ * - new: 从未学习
+ * - learning: 初次学习中（短间隔步骤）
+ * - review: 已进入长期复习
+ * - relearning: 遗忘后重新学习中
+ */
+export type CardState = "new" | "learning" | "review" | "relearning";
+
+/**
+ * 卡片调度状态
+ */
+export interface SchedulingState {
+  /** 学习状态 */
+  state: CardState;
+  /** 记忆稳定性（天），R 降到 90% 所需的时间 */
+  stability: number;
+  /** 记忆难度（1-10） */
+  difficulty: number;
+  /** 下次复习时间 */
+  due: Date;
+  /** 上次复习时间 */
+  lastReview: Date | null;
+  /** 距上次复习的天数 */
+  elapsedDays: number;
+  /** 本次安排的间隔天数 */
+  scheduledDays: number;
+  /** 复习次数 */
+  reps: number;
+  /** 遗忘次数 */
+  lapses: number;
+}
+
+/**
+ * FSRS 参数
+ */
+export interface FsrsParameters {
+  /** 模型权重（19 个） */
+  w: readonly number[];
+  /** 目标记忆保持率（0-1） */
+  requestRetention: number;
+  /** 最大间隔天数 */
+  maximumInterval: number;
+  /** 新卡学习步骤（分钟） */
+  learningSteps: readonly number[];
+  /** 遗忘后重学步骤（分钟） */
+  relearningSteps: readonly number[];
+}
+
+/**
+ * 单次调度结果
+ */
+export interface SchedulingResult {
+  /** 评分后的新状态 */
+  next: SchedulingState;
+  /** 评分前距上次复习的天数 */
+  elapsedDays: number;
+  /** 评分前的间隔天数 */
+  previousScheduledDays: number;
+  /** 评分时的记忆可提取率（新卡为 null） */
+  retrievability: number | null;
+}
+
+// ============================================
+// 默认参数
+// ============================================
+
+/**
+ * FSRS-5 默认权重
+ */
+export const DEFAULT_WEIGHTS = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575,
+  0.1192, 1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655,
+  0.6621,
+] as const;
+
+/**
+ * 默认调度参数
+ */
+export const DEFAULT_FSRS_PARAMETERS: FsrsParameters = {
+  w: DEFAULT_WEIGHTS,
+  requestRetention: 0.9,
+  maximumInterval: 36500,
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+};
+
+const DECAY = -0.5;
+const FACTOR = 0.9 ** (1 / DECAY) - 1; // 19/81
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ============================================
+// 内部工具函数
+// ============================================
+
+function weight(params: FsrsParameters, index: number): number {
+  const value = params.w[index];
+  if (value === undefined) {
+    throw new Error(`FSRS weight w[${index}] is missing`);
+  }
+  return value;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * MINUTE_MS);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * 计算两个时间之间的完整天数
+ */
+function daysBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.floor((to.getTime() - from.getTime()) / DAY_MS));
+}
+
+function initStability(params: FsrsParameters, grade: Grade): number {
+  return Math.max(weight(params, grade - 1), 0.1);
+}
+
+function initDifficulty(params: FsrsParameters, grade: Grade): number {
+  const d =
+    weight(params, 4) - Math.exp(weight(params, 5) * (grade - 1)) + 1;
+  return clamp(d, 1, 10);
+}
+
+function nextDifficulty(
+  params: FsrsParameters,
+  difficulty: number,
+  grade: Grade
+): number {
+  const delta = -weight(params, 6) * (grade - 3);
+  // 线性阻尼：难度越接近 10 变化越小
+  const damped = difficulty + (delta * (10 - difficulty)) / 9;
+  // 均值回归到 Easy 的初始难度
+  const reverted =
+    weight(params, 7) * initDifficulty(params, 4) +
+    (1 - weight(params, 7)) * damped;
+  return clamp(reverted, 1, 10);
+}
+
+function nextRecallStability(
+  params: FsrsParameters,
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  grade: Grade
+): number {
+  const hardPenalty = grade === 2 ? weight(params, 15) : 1;
+  const easyBonus = grade === 4 ? weight(params, 16) : 1;
+  return (
+    stability *
+    (1 +
+      Math.exp(weight(params, 8)) *
+        (11 - difficulty) *
+        stability ** -weight(params, 9) *
+        (Math.exp((1 - retrievability) * weight(params, 10)) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+}
+
+function nextForgetStability(
+  params: FsrsParameters,
+  difficulty: number,
+  stability: number,
+  retrievability: number
+): number {
+  const longTerm =
+    weight(params, 11) *
+    difficulty ** -weight(params, 12) *
+    ((stability + 1) ** weight(params, 13) - 1) *
+    Math.exp((1 - retrievability) * weight(params, 14));
+  // 遗忘后的稳定性不应高于短期稳定性上限
+  const shortTermCap =
+    stability / Math.exp(weight(params, 17) * weight(params, 18));
+  return Math.max(Math.min(longTerm, shortTermCap), 0.1);
+}
+
+function nextShortTermStability(
+  params: FsrsParameters,
+  stability: number,
+  grade: Grade
+): number {
+  return Math.max(
+    stability * Math.exp(weight(params, 17) * (grade - 3 + weight(params, 18))),
+    0.1
+  );
+}
+
+// ============================================
+// 公开函数
+// ============================================
+
+/**
+ * 计算记忆可提取率（遗忘曲线）
+ *
+ * @param elapsedDays - 距上次复习的天数
+ * @param stability - 记忆稳定性
+ * @returns 0-1 之间的回忆概率
+ */
+export function forgettingCurve(elapsedDays: number, stability: number): number {
+  return (1 + (FACTOR * elapsedDays) / stability) ** DECAY;
+}
+
+/**
+ * 根据稳定性计算下次间隔天数
+ *
+ * @param stability - 记忆稳定性
+ * @param params - 调度参数
+ * @returns 间隔天数（至少 1 天）
+ */
+export function nextInterval(
+  stability: number,
+  params: FsrsParameters = DEFAULT_FSRS_PARAMETERS
+): number {
+  const interval =
+    (stability / FACTOR) * (params.requestRetention ** (1 / DECAY) - 1);
+  return clamp(Math.round(interval), 1, params.maximumInterval);
+}
+
+/**
+ * 创建新卡片的初始调度状态
+ *
+ * @param now - 当前时间
+ */
+export function createEmptySchedulingState(now: Date = new Date()): SchedulingState {
+  return {
+    state: "new",
+    stability: 0,
+    difficulty: 0,
+    due: now,
+    lastReview: null,
+    elapsedDays: 0,
+    scheduledDays: 0,
+    reps: 0,
+    lapses: 0,
+  };
+}
+
+/**
+ * 计算卡片在某一时间点的记忆可提取率
+ *
+ * 新卡返回 null
+ */
+export function getRetrievability(
+  current: SchedulingState,
+  now: Date = new Date()
+): number | null {
+  if (current.state === "new" || !current.lastReview) {
+    return null;
+  }
+  return forgettingCurve(daysBetween(current.lastReview, now), current.stability);
+}
+
+/**
+ * 对卡片评分并计算新的调度状态
+ *
+ * @param current - 当前调度状态
+ * @param grade - 评分（1-4）
+ * @param now - 评分时间
+ * @param params - 调度参数
+ * @returns 调度结果
+ */
+export function scheduleCard(
+  current: SchedulingState,
+  grade: Grade,
+  now: Date = new Date(),
+  params: FsrsParameters = DEFAULT_FSRS_PARAMETERS
+): SchedulingResult {
+  const elapsedDays = current.lastReview
+    ? daysBetween(current.lastReview, now)
+    : 0;
+  const retrievability = getRetrievability(current, now);
+
+  const base = {
+    lastReview: now,
+    elapsedDays,
+    reps: current.reps + 1,
+    lapses: current.lapses,
+  };
+
+  let next: SchedulingState;
+
+  switch (current.state) {
+    case "new": {
+      const stability = initStability(params, grade);
+      const difficulty = initDifficulty(params, grade);
+      next = scheduleLearningStep(
+        { ...base, stability, difficulty },
+        grade,
+        now,
+        params,
+        "learning",
+        params.learningSteps,
+        true
+      );
+      break;
+    }
+
+    case "learning":
+    case "relearning": {
+      const stability = nextShortTermStability(params, current.stability, grade);
+      const difficulty = nextDifficulty(params, current.difficulty, grade);
+      next = scheduleLearningStep(
+        { ...base, stability, difficulty },
+        grade,
+        now,
+        params,
+        current.state,
+        current.state === "learning"
+          ? params.learningSteps
+          : params.relearningSteps,
+        false
+      );
+      break;
+    }
+
+    case "review": {
+      const r = retrievability ?? 1;
+      const difficulty = nextDifficulty(params, current.difficulty, grade);
+
+      if (grade === 1) {
+        const stability = nextForgetStability(
+          params,
+          current.difficulty,
+          current.stability,
+          r
+        );
+        const step = params.relearningSteps[0];
+        next = {
+          ...base,
+          lapses: current.lapses + 1,
+          stability,
+          difficulty,
+          state: step !== undefined ? "relearning" : "review",
+          scheduledDays: step !== undefined ? 0 : nextInterval(stability, params),
+          due:
+            step !== undefined
+              ? addMinutes(now, step)
+              : addDays(now, nextInterval(stability, params)),
+        };
+        break;
+      }
+
+      // 分别计算 Hard/Good/Easy 的间隔，保证 Hard <= Good < Easy
+      const hardStability = nextRecallStability(
+        params,
+        current.difficulty,
+        current.stability,
+        r,
+        2
+      );
+      const goodStability = nextRecallStability(
+        params,
+        current.difficulty,
+        current.stability,
+        r,
+        3
+      );
+      const easyStability = nextRecallStability(
+        params,
+        current.difficulty,
+        current.stability,
+        r,
+        4
+      );
+
+      let hardInterval = nextInterval(hardStability, params);
+      let goodInterval = nextInterval(goodStability, params);
+      hardInterval = Math.min(hardInterval, goodInterval);
+      goodInterval = Math.max(goodInterval, hardInterval + 1);
+      const easyInterval = Math.max(
+        nextInterval(easyStability, params),
+        goodInterval + 1
+      );
+
+      const stability =
+        grade === 2 ? hardStability : grade === 3 ? goodStability : easyStability;
+      const interval =
+        grade === 2 ? hardInterval : grade === 3 ? goodInterval : easyInterval;
+
+      next = {
+        ...base,
+        stability,
+        difficulty,
+        state: "review",
+        scheduledDays: interval,
+        due: addDays(now, interval),
+      };
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown card state: ${current.state satisfies never}`);
+  }
+
+  return {
+    next,
+    elapsedDays,
+    previousScheduledDays: current.scheduledDays,
+    retrievability,
+  };
+}
+
+/**
+ * 学习/重学阶段的步骤调度
+ *
+ * - Again: 回到第一个步骤
+ * - Hard: 停留在当前步骤（取前两步的平均）
+ * - Good: 新卡进入下一步骤，否则毕业进入 review
+ * - Easy: 直接毕业
+ */
+function scheduleLearningStep(
+  partial: Pick<
+    SchedulingState,
+    "lastReview" | "elapsedDays" | "reps" | "lapses" | "stability" | "difficulty"
+  >,
+  grade: Grade,
+  now: Date,
+  params: FsrsParameters,
+  learningState: "learning" | "relearning",
+  steps: readonly number[],
+  isNew: boolean
+): SchedulingState {
+  const graduate = (stability: number): SchedulingState => {
+    const interval = nextInterval(stability, params);
+    return {
+      ...partial,
+      stability,
+      state: "review",
+      scheduledDays: interval,
+      due: addDays(now, interval),
+    };
+  };
+
+  const stay = (minutes: number): SchedulingState => ({
+    ...partial,
+    state: learningState,
+    scheduledDays: 0,
+    due: addMinutes(now, minutes),
+  });
+
+  const firstStep = steps[0];
+  if (firstStep === undefined || grade === 4) {
+    return graduate(partial.stability);
+  }
+
+  if (grade === 1) {
+    return stay(firstStep);
+  }
+
+  if (grade === 2) {
+    const secondStep = steps[1] ?? firstStep * 1.5;
+    return stay(Math.round((firstStep + secondStep) / 2));
+  }
+
+  // Good: 新卡进入第二个步骤，学习中的卡片直接毕业
+  const nextStep = steps[1];
+  if (isNew && nextStep !== undefined) {
+    return stay(nextStep);
+  }
+  return graduate(partial.stability);
+}
+
+/**
+ * 预览四种评分分别会产生的调度结果
+ *
+ * 用于在评分按钮上显示下次间隔
+ */
+export function previewSchedule(
+  current: SchedulingState,
+  now: Date = new Date(),
+  params: FsrsParameters = DEFAULT_FSRS_PARAMETERS
+): Record<GradeName, SchedulingState> {
+  return {
+    again: scheduleCard(current, 1, now, params).next,
+    hard: scheduleCard(current, 2, now, params).next,
+    good: scheduleCard(current, 3, now, params).next,
+    easy: scheduleCard(current, 4, now, params).next,
+  };
+}
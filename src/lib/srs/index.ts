@@ -0,0 +1,26 @@
+export {
+  type CardState,
+  createEmptySchedulingState,
+  DEFAULT_FSRS_PARAMETERS,
+  DEFAULT_WEIGHTS,
+  type FsrsParameters,
+  forgettingCurve,
+  type Grade,
+  type GradeName,
+  GRADES,
+  getRetrievability,
+  nextInterval,
+  previewSchedule,
+  type SchedulingResult,
+  type SchedulingState,
+  scheduleCard,
+} from "./fsrs";
+export {
+  buildDueForecast,
+  buildReviewHeatmap,
+  computeRetention,
+  type DailyCount,
+  type RetentionStats,
+  type ReviewLogEntry,
+  toDateKey,
+} from "./stats";
@@ -0,0 +1,128 @@
+/**
+ * 学习统计计算
+ *
+ * 纯函数，基于 review_log 和 card_schedule 数据计算：
+ * - 保持率 (retention)
+ * - 每日复习数（热力图）
+ * - 未来到期预测
+ *
+ * 日期统一按 UTC 自然日分桶
+ */
+
+import type { CardState, GradeName } from "./fsrs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 统计用的复习记录
+ */
+export interface ReviewLogEntry {
+  rating: GradeName;
+  /** 评分前的学习状态 */
+  state: CardState;
+  reviewedAt: Date;
+}
+
+/**
+ * 每日计数
+ */
+export interface DailyCount {
+  /** 日期 (YYYY-MM-DD, UTC) */
+  date: string;
+  count: number;
+}
+
+/**
+ * 保持率统计
+ */
+export interface RetentionStats {
+  /** 统计的复习次数 */
+  total: number;
+  /** 记住的次数（非 Again） */
+  passed: number;
+  /** 保持率 0-1，无数据时为 null */
+  rate: number | null;
+}
+
+/**
+ * 日期转换为 UTC 日期键 (YYYY-MM-DD)
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 获取 UTC 当天零点
+ */
+function startOfDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+/**
+ * 计算保持率
+ *
+ * 只统计复习状态 (review) 下的评分，学习阶段的评分不反映长期记忆
+ */
+export function computeRetention(logs: ReviewLogEntry[]): RetentionStats {
+  const reviews = logs.filter((log) => log.state === "review");
+  const passed = reviews.filter((log) => log.rating !== "again").length;
+
+  return {
+    total: reviews.length,
+    passed,
+    rate: reviews.length > 0 ? passed / reviews.length : null,
+  };
+}
+
+/**
+ * 构建最近 N 天的每日复习数（含今天，按日期升序）
+ */
+export function buildReviewHeatmap(
+  logs: Pick<ReviewLogEntry, "reviewedAt">[],
+  days: number,
+  now: Date = new Date()
+): DailyCount[] {
+  const counts = new Map<string, number>();
+  for (const log of logs) {
+    const key = toDateKey(log.reviewedAt);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const today = startOfDay(now).getTime();
+  const result: DailyCount[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const key = toDateKey(new Date(today - i * DAY_MS));
+    result.push({ date: key, count: counts.get(key) ?? 0 });
+  }
+  return result;
+}
+
+/**
+ * 构建未来 N 天的到期预测（含今天，已逾期的卡片计入今天）
+ *
+ * 新卡不参与预测
+ */
+export function buildDueForecast(
+  schedules: { state: CardState; due: Date }[],
+  days: number,
+  now: Date = new Date()
+): DailyCount[] {
+  const today = startOfDay(now).getTime();
+  const buckets = new Array<number>(days).fill(0);
+
+  for (const schedule of schedules) {
+    if (schedule.state === "new") continue;
+    const offset = Math.max(
+      0,
+      Math.floor((schedule.due.getTime() - today) / DAY_MS)
+    );
+    if (offset < days) {
+      buckets[offset] = (buckets[offset] ?? 0) + 1;
+    }
+  }
+
+  return buckets.map((count, i) => ({
+    date: toDateKey(new Date(today + i * DAY_MS)),
+    count,
+  }));
+}
@@ -0,0 +1,143 @@
+/**
+ * 字幕文件解析（WebVTT / SRT）
+ *
+ * 两种格式的 cue 结构相同（时间行 "start --> end" + 文本行），
+ * 统一按 cue 块解析，时间支持 "." 和 "," 毫秒分隔符
+ */
+
+// ============================================
+// 类型定义
+// ============================================
+
+/**
+ * 字幕条目
+ *
+ * @field start - 开始时间（秒）
+ * @field end - 结束时间（秒）
+ * @field text - 纯文本内容（已去除样式标签）
+ */
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** 支持的字幕文件扩展名 */
+export const CAPTION_EXTENSIONS = [".vtt", ".srt"];
+
+/**
+ * 判断文件名是否为字幕文件
+ */
+export function isCaptionFilename(filename: string): boolean {
+  return /\.(vtt|srt)$/i.test(filename);
+}
+
+// ============================================
+// 解析
+// ============================================
+
+const TIME_PATTERN = String.raw`(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?`;
+const CUE_TIMING = new RegExp(`^\\s*${TIME_PATTERN}\\s*-->\\s*${TIME_PATTERN}`);
+
+/**
+ * 将时间码各部分转换为秒
+ */
+function toSeconds(
+  hours: string | undefined,
+  minutes: string | undefined,
+  seconds: string | undefined,
+  millis: string | undefined
+): number {
+  return (
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Number(seconds ?? 0) +
+    Number((millis ?? "0").padEnd(3, "0")) / 1000
+  );
+}
+
+/**
+ * 清理 cue 文本行：去除 <c>、<v>、行内时间戳等标签并解码常见实体
+ */
+function cleanCueLine(line: string): string {
+  return line
+    .replace(/<[^>]+>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 解析 WebVTT 或 SRT 字幕
+ *
+ * - 跳过 WEBVTT 头、NOTE / STYLE / REGION 块和 SRT 序号行
+ * - 合并自动字幕的滚动重复（与上一条 cue 相同的行只保留一次）
+ *
+ * @param content - 字幕文件内容
+ * @returns 按开始时间排序的字幕条目
+ */
+export function parseCaptions(content: string): TranscriptCue[] {
+  const blocks = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/);
+
+  const cues: Array<{ start: number; end: number; lines: string[] }> = [];
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    const match = lines[timingIndex]?.match(CUE_TIMING);
+    if (!match) continue;
+
+    const textLines = lines
+      .slice(timingIndex + 1)
+      .map(cleanCueLine)
+      .filter(Boolean);
+    if (textLines.length === 0) continue;
+
+    cues.push({
+      start: toSeconds(match[1], match[2], match[3], match[4]),
+      end: toSeconds(match[5], match[6], match[7], match[8]),
+      lines: textLines,
+    });
+  }
+
+  cues.sort((a, b) => a.start - b.start);
+  return mergeRollingCues(cues);
+}
+
+/**
+ * 合并滚动字幕
+ *
+ * YouTube 自动字幕的每个 cue 会重复上一条的最后一行再追加新行，
+ * 去掉与上一条 cue 相同的行；没有新内容的 cue 只延长上一条的结束时间
+ */
+function mergeRollingCues(
+  cues: Array<{ start: number; end: number; lines: string[] }>
+): TranscriptCue[] {
+  const merged: TranscriptCue[] = [];
+  let previousLines: string[] = [];
+
+  for (const cue of cues) {
+    const newLines = cue.lines.filter((line) => !previousLines.includes(line));
+    previousLines = cue.lines;
+
+    const previous = merged.at(-1);
+    if (newLines.length === 0) {
+      if (previous) {
+        previous.end = Math.max(previous.end, cue.end);
+      }
+      continue;
+    }
+
+    merged.push({ start: cue.start, end: cue.end, text: newLines.join(" ") });
+  }
+
+  return merged;
+}
@@ -0,0 +1,28 @@
+export {
+  CAPTION_EXTENSIONS,
+  isCaptionFilename,
+  parseCaptions,
+  type TranscriptCue,
+} from "./captions";
+export {
+  captionFileProvider,
+  fetchTranscript,
+  isYouTubeCaptionUrl,
+  TRANSCRIPT_PROVIDERS,
+  type Transcript,
+  type TranscriptProvider,
+  type TranscriptSource,
+  YOUTUBE_FETCH_TIMEOUT_MS,
+  youtubeCaptionProvider,
+} from "./providers";
+export {
+  locateTimestamp,
+  type SegmentOptions,
+  segmentTranscript,
+  type TranscriptSegment,
+} from "./segments";
+export {
+  buildTimestampUrl,
+  formatTimestamp,
+  parseYouTubeVideoId,
+} from "./video-url";
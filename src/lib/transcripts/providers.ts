@@ -0,0 +1,312 @@
+/**
+ * 字幕提供者
+ *
+ * 按顺序尝试：
+ * 1. 上传的字幕文件（.vtt / .srt）
+ * 2. YouTube 字幕轨道（优先人工字幕，其次自动字幕）
+ */
+
+import { getStorageProvider } from "@/features/storage/providers";
+
+import { parseCaptions, type TranscriptCue } from "./captions";
+import { parseYouTubeVideoId } from "./video-url";
+
+// ============================================
+// 类型定义
+// ============================================
+
+/**
+ * 字幕来源
+ *
+ * @field videoUrl - 视频链接（卡片时间戳跳转到此链接）
+ * @field captionFile - 上传的字幕文件
+ * @field language - 优先的字幕语言代码（如 "en"）
+ */
+export interface TranscriptSource {
+  videoUrl: string | null;
+  captionFile: { fileKey: string; bucket: string; filename: string } | null;
+  language?: string | undefined;
+}
+
+/**
+ * 字幕
+ *
+ * @field cues - 字幕条目
+ * @field title - 视频标题（可获取时）
+ * @field language - 字幕语言代码
+ * @field provider - 提供者名称
+ */
+export interface Transcript {
+  cues: TranscriptCue[];
+  title: string | null;
+  language: string | null;
+  provider: string;
+}
+
+/**
+ * 字幕提供者接口
+ */
+export interface TranscriptProvider {
+  /** 提供者名称 */
+  name: string;
+
+  /**
+   * 是否能处理该来源
+   */
+  canHandle(source: TranscriptSource): boolean;
+
+  /**
+   * 获取字幕
+   *
+   * @throws 无可用字幕时抛出错误
+   */
+  fetchTranscript(source: TranscriptSource): Promise<Transcript>;
+}
+
+// ============================================
+// 字幕文件
+// ============================================
+
+/**
+ * 上传的字幕文件
+ */
+export const captionFileProvider: TranscriptProvider = {
+  name: "caption-file",
+
+  canHandle(source) {
+    return source.captionFile !== null;
+  },
+
+  async fetchTranscript(source) {
+    if (!source.captionFile) {
+      throw new Error("No caption file provided");
+    }
+    const { fileKey, bucket, filename } = source.captionFile;
+
+    const buffer = await getStorageProvider().getObject(fileKey, bucket);
+    const cues = parseCaptions(buffer.toString("utf-8"));
+    if (cues.length === 0) {
+      throw new Error(`No captions found in ${filename}`);
+    }
+
+    return {
+      cues,
+      title: filename.replace(/\.[^.]+$/, ""),
+      language: null,
+      provider: "caption-file",
+    };
+  },
+};
+
+// ============================================
+// YouTube
+// ============================================
+
+/** 请求 YouTube 的超时（毫秒），避免单个请求卡住后台任务 */
+export const YOUTUBE_FETCH_TIMEOUT_MS = 15_000;
+
+/**
+ * YouTube 播放器响应中的字幕轨道
+ */
+interface YouTubeCaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  /** 自动字幕为 "asr" */
+  kind?: string;
+}
+
+/**
+ * 从 HTML 中提取赋值给指定变量的 JSON 对象
+ *
+ * 按括号配对截取，忽略字符串中的括号
+ */
+function extractJsonAssignment(html: string, variable: string): unknown {
+  const marker = html.indexOf(`${variable} = `);
+  const start = marker < 0 ? -1 : html.indexOf("{", marker);
+  if (start < 0) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < html.length; i++) {
+    const char = html[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}" && --depth === 0) {
+      try {
+        return JSON.parse(html.slice(start, i + 1));
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 字幕轨道地址是否为 YouTube 的 https 地址
+ *
+ * 轨道地址来自页面内容，下载前校验，避免请求到其他主机
+ */
+export function isYouTubeCaptionUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return (
+      protocol === "https:" &&
+      (hostname === "youtube.com" || hostname.endsWith(".youtube.com"))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 请求 YouTube（带超时）
+ */
+async function fetchYouTube(
+  url: string | URL,
+  init: RequestInit = {}
+): Promise<Response> {
+  try {
+    return await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(YOUTUBE_FETCH_TIMEOUT_MS),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new Error("Timed out fetching from YouTube");
+    }
+    throw error;
+  }
+}
+
+/**
+ * 选择字幕轨道：优先指定语言，人工字幕优先于自动字幕
+ */
+function pickCaptionTrack(
+  tracks: YouTubeCaptionTrack[],
+  language: string | undefined
+): YouTubeCaptionTrack | undefined {
+  const rank = (track: YouTubeCaptionTrack) =>
+    (language && track.languageCode.startsWith(language) ? 0 : 2) +
+    (track.kind === "asr" ? 1 : 0);
+  return [...tracks].sort((a, b) => rank(a) - rank(b))[0];
+}
+
+/**
+ * YouTube 字幕轨道
+ *
+ * 从视频页面的 ytInitialPlayerResponse 读取字幕轨道列表，下载 WebVTT 格式字幕
+ */
+export const youtubeCaptionProvider: TranscriptProvider = {
+  name: "youtube",
+
+  canHandle(source) {
+    return (
+      source.videoUrl !== null && parseYouTubeVideoId(source.videoUrl) !== null
+    );
+  },
+
+  async fetchTranscript(source) {
+    const videoId = source.videoUrl
+      ? parseYouTubeVideoId(source.videoUrl)
+      : null;
+    if (!videoId) {
+      throw new Error("Not a YouTube video URL");
+    }
+
+    const pageResponse = await fetchYouTube(
+      `https://www.youtube.com/watch?v=${videoId}&hl=en`,
+      { headers: { "Accept-Language": "en-US,en;q=0.9" } }
+    );
+    if (!pageResponse.ok) {
+      throw new Error(
+        `Failed to fetch YouTube video: ${pageResponse.statusText}`
+      );
+    }
+
+    const playerResponse = extractJsonAssignment(
+      await pageResponse.text(),
+      "ytInitialPlayerResponse"
+    ) as {
+      videoDetails?: { title?: string };
+      captions?: {
+        playerCaptionsTracklistRenderer?: {
+          captionTracks?: YouTubeCaptionTrack[];
+        };
+      };
+    } | null;
+
+    const tracks =
+      playerResponse?.captions?.playerCaptionsTracklistRenderer
+        ?.captionTracks ?? [];
+    const track = pickCaptionTrack(tracks, source.language);
+    if (!track) {
+      throw new Error(
+        "This video has no captions. Upload a caption file (.vtt or .srt) instead."
+      );
+    }
+
+    if (!isYouTubeCaptionUrl(track.baseUrl)) {
+      throw new Error("YouTube returned an unexpected caption URL");
+    }
+    const captionUrl = new URL(track.baseUrl);
+    captionUrl.searchParams.set("fmt", "vtt");
+    const captionResponse = await fetchYouTube(captionUrl);
+    if (!captionResponse.ok) {
+      throw new Error(
+        `Failed to fetch YouTube captions: ${captionResponse.statusText}`
+      );
+    }
+
+    const cues = parseCaptions(await captionResponse.text());
+    if (cues.length === 0) {
+      throw new Error("YouTube returned empty captions for this video");
+    }
+
+    return {
+      cues,
+      title: playerResponse?.videoDetails?.title ?? null,
+      language: track.languageCode,
+      provider: "youtube",
+    };
+  },
+};
+
+// ============================================
+// 入口
+// ============================================
+
+/** 默认提供者（按优先级排列） */
+export const TRANSCRIPT_PROVIDERS: TranscriptProvider[] = [
+  captionFileProvider,
+  youtubeCaptionProvider,
+];
+
+/**
+ * 获取字幕
+ *
+ * 使用第一个能处理该来源的提供者
+ *
+ * @param source - 字幕来源
+ * @param providers - 提供者列表（默认 TRANSCRIPT_PROVIDERS）
+ */
+export async function fetchTranscript(
+  source: TranscriptSource,
+  providers: TranscriptProvider[] = TRANSCRIPT_PROVIDERS
+): Promise<Transcript> {
+  const provider = providers.find((p) => p.canHandle(source));
+  if (!provider) {
+    throw new Error(
+      "No transcript available: provide a YouTube link or upload a caption file (.vtt or .srt)"
+    );
+  }
+  return provider.fetchTranscript(source);
+}
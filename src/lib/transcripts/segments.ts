@@ -0,0 +1,179 @@
+/**
+ * 字幕分段与时间戳定位
+ *
+ * - 按时间窗口（和 token 上限）把字幕切分为生成片段
+ * - 根据卡片内容在片段内定位最相关的字幕时间
+ */
+
+import { countTokens } from "@/lib/ai/tokenizer";
+
+import type { TranscriptCue } from "./captions";
+
+// ============================================
+// 类型定义
+// ============================================
+
+/**
+ * 字幕片段（一次 LLM 生成的输入）
+ *
+ * @field start - 开始时间（秒）
+ * @field end - 结束时间（秒）
+ * @field text - 片段文本
+ * @field tokenCount - Token 数量
+ * @field cues - 片段内的字幕条目（用于定位卡片时间戳）
+ */
+export interface TranscriptSegment {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+  tokenCount: number;
+  cues: TranscriptCue[];
+}
+
+export interface SegmentOptions {
+  /** 时间窗口（秒，默认 300） */
+  windowSeconds?: number;
+  /** 每段最大 token 数（默认 3500） */
+  maxTokens?: number;
+}
+
+const DEFAULT_WINDOW_SECONDS = 300;
+const DEFAULT_MAX_TOKENS = 3500;
+
+// ============================================
+// 分段
+// ============================================
+
+/**
+ * 将字幕按时间窗口切分
+ *
+ * 在 cue 边界切分；超过时间窗口或 token 上限时开始新片段
+ */
+export function segmentTranscript(
+  cues: TranscriptCue[],
+  options: SegmentOptions = {}
+): TranscriptSegment[] {
+  const {
+    windowSeconds = DEFAULT_WINDOW_SECONDS,
+    maxTokens = DEFAULT_MAX_TOKENS,
+  } = options;
+
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptCue[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    const first = current[0];
+    const last = current.at(-1);
+    if (!first || !last) return;
+    segments.push({
+      index: segments.length,
+      start: first.start,
+      end: last.end,
+      text: current.map((cue) => cue.text).join(" "),
+      tokenCount: currentTokens,
+      cues: current,
+    });
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const cue of cues) {
+    const tokens = countTokens(cue.text) + 1;
+    const first = current[0];
+    if (
+      first &&
+      (cue.end - first.start > windowSeconds ||
+        currentTokens + tokens > maxTokens)
+    ) {
+      flush();
+    }
+    current.push(cue);
+    currentTokens += tokens;
+  }
+  flush();
+
+  return segments;
+}
+
+// ============================================
+// 时间戳
+// ============================================
+
+/** 中日韩文字（无空格分词，按双字切分） */
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+/**
+ * 提取用于匹配的词
+ *
+ * 拉丁文字取长度 ≥ 3 的词；中日韩文字按相邻双字切分
+ */
+export function extractTerms(text: string): Set<string> {
+  const terms = new Set<string>();
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    if (CJK_PATTERN.test(word)) {
+      for (let i = 0; i < word.length - 1; i++) {
+        terms.add(word.slice(i, i + 2));
+      }
+    } else if (word.length >= 3) {
+      terms.add(word);
+    }
+  }
+  return terms;
+}
+
+/** 定位时合并的相邻 cue 数（一句话常跨多个 cue） */
+const LOCATE_WINDOW = 3;
+
+/**
+ * 在字幕中定位与卡片内容最相关的时间
+ *
+ * 以每个 cue 开始、连续 LOCATE_WINDOW 个 cue 为窗口，
+ * 取与卡片词重合最多的窗口（并列时取起始 cue 自身重合更多的）；
+ * 无重合时返回首个 cue 的时间
+ *
+ * @param text - 卡片正面和背面
+ * @param cues - 候选字幕（通常为生成该卡片的片段）
+ * @returns 开始时间（秒），无字幕时返回 null
+ */
+export function locateTimestamp(
+  text: string,
+  cues: TranscriptCue[]
+): number | null {
+  const first = cues[0];
+  if (!first) return null;
+
+  const cardTerms = extractTerms(text);
+  const overlap = (cueText: string) => {
+    let score = 0;
+    for (const term of extractTerms(cueText)) {
+      if (cardTerms.has(term)) score++;
+    }
+    return score;
+  };
+
+  let bestStart = first.start;
+  let bestScore = 0;
+  let bestOwnScore = 0;
+
+  for (const [i, cue] of cues.entries()) {
+    const score = overlap(
+      cues
+        .slice(i, i + LOCATE_WINDOW)
+        .map((c) => c.text)
+        .join(" ")
+    );
+    const ownScore = overlap(cue.text);
+    if (
+      score > bestScore ||
+      (score === bestScore && score > 0 && ownScore > bestOwnScore)
+    ) {
+      bestScore = score;
+      bestOwnScore = ownScore;
+      bestStart = cue.start;
+    }
+  }
+
+  return bestStart;
+}
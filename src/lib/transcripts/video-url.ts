@@ -0,0 +1,76 @@
+/**
+ * 视频链接工具（客户端可用）
+ *
+ * - 识别 YouTube 链接并提取视频 ID
+ * - 生成跳转到指定时间的链接
+ */
+
+const YOUTUBE_HOSTS = new Set([
+  "youtube.com",
+  "www.youtube.com",
+  "m.youtube.com",
+  "music.youtube.com",
+  "youtu.be",
+  "www.youtube-nocookie.com",
+]);
+
+const VIDEO_ID_PATTERN = /^[\w-]{11}$/;
+
+/**
+ * 从 YouTube 链接中提取视频 ID
+ *
+ * 支持 watch?v=、youtu.be/、/shorts/、/embed/、/live/ 形式
+ *
+ * @returns 视频 ID，非 YouTube 链接返回 null
+ */
+export function parseYouTubeVideoId(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (!YOUTUBE_HOSTS.has(parsed.hostname)) {
+    return null;
+  }
+
+  const id =
+    parsed.hostname === "youtu.be"
+      ? parsed.pathname.split("/")[1]
+      : (parsed.searchParams.get("v") ??
+        parsed.pathname.match(/^\/(?:shorts|embed|live)\/([^/?]+)/)?.[1]);
+
+  return id && VIDEO_ID_PATTERN.test(id) ? id : null;
+}
+
+/**
+ * 生成跳转到指定时间的视频链接
+ *
+ * YouTube 使用 t 参数，其他链接使用媒体片段 #t=
+ *
+ * @param videoUrl - 视频链接
+ * @param seconds - 时间（秒）
+ */
+export function buildTimestampUrl(videoUrl: string, seconds: number): string {
+  const time = Math.max(0, Math.floor(seconds));
+  const videoId = parseYouTubeVideoId(videoUrl);
+  if (videoId) {
+    return `https://www.youtube.com/watch?v=${videoId}&t=${time}s`;
+  }
+
+  const url = new URL(videoUrl);
+  url.hash = `t=${time}`;
+  return url.toString();
+}
+
+/**
+ * 格式化时间戳（m:ss 或 h:mm:ss）
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
@@ -0,0 +1,150 @@
+/**
+ * 聊天模型回退单元测试
+ *
+ * 测试范围：
+ * - createFallbackChatModel: 开始输出前失败时切换到下一个提供商，开始输出后不再切换
+ *
+ * 注意：使用桩模型，不访问网络
+ */
+
+import { APICallError, simulateReadableStream } from "ai";
+import { describe, expect, it } from "vitest";
+
+import {
+	type ChatModelCandidate,
+	createFallbackChatModel,
+} from "@/features/ai/models/chat";
+import type { LLMProviderConfig } from "@/lib/ai/providers";
+
+type ChatModel = ChatModelCandidate["model"];
+type StreamResult = Awaited<ReturnType<ChatModel["doStream"]>>;
+type StreamPart =
+	StreamResult["stream"] extends ReadableStream<infer Part> ? Part : never;
+
+function provider(id: string): LLMProviderConfig {
+	return {
+		id,
+		name: id,
+		baseURL: null,
+		apiKey: null,
+		model: id,
+		contextLimit: 8192,
+		pricing: null,
+		structuredOutputs: false,
+	};
+}
+
+function candidate(
+	id: string,
+	doStream: () => PromiseLike<StreamResult>,
+): ChatModelCandidate {
+	return {
+		provider: provider(id),
+		model: {
+			specificationVersion: "v3",
+			provider: id,
+			modelId: id,
+			supportedUrls: {},
+			doGenerate: async () => {
+				throw new Error("not used");
+			},
+			doStream,
+		},
+	};
+}
+
+function streamOf(parts: StreamPart[]): StreamResult {
+	return {
+		stream: simulateReadableStream({
+			chunks: parts,
+			initialDelayInMs: null,
+			chunkDelayInMs: null,
+		}),
+	};
+}
+
+function text(delta: string): StreamPart {
+	return { type: "text-delta", id: "1", delta };
+}
+
+const START: StreamPart = { type: "stream-start", warnings: [] };
+
+async function readText(model: ChatModel): Promise<string> {
+	const { stream } = await model.doStream({ prompt: [] });
+	let output = "";
+	const reader = stream.getReader();
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) return output;
+		if (value.type === "text-delta") output += value.delta;
+		if (value.type === "error") output += "[error]";
+	}
+}
+
+function rateLimited(): APICallError {
+	return new APICallError({
+		message: "rate limited",
+		url: "http://localhost/v1/chat/completions",
+		requestBodyValues: {},
+		statusCode: 429,
+	});
+}
+
+describe("createFallbackChatModel", () => {
+	it("请求失败时应该改用下一个提供商", async () => {
+		const model = createFallbackChatModel([
+			candidate("first", async () => {
+				throw rateLimited();
+			}),
+			candidate("second", async () => streamOf([START, text("hello")])),
+		]);
+
+		expect(await readText(model)).toBe("hello");
+	});
+
+	it("输出前收到错误片段时应该改用下一个提供商", async () => {
+		const model = createFallbackChatModel([
+			candidate("first", async () =>
+				streamOf([START, { type: "error", error: rateLimited() }]),
+			),
+			candidate("second", async () => streamOf([START, text("hello")])),
+		]);
+
+		expect(await readText(model)).toBe("hello");
+	});
+
+	it("开始输出后的错误不应该切换提供商", async () => {
+		let secondCalls = 0;
+		const model = createFallbackChatModel([
+			candidate("first", async () =>
+				streamOf([
+					START,
+					text("partial"),
+					{ type: "error", error: rateLimited() },
+				]),
+			),
+			candidate("second", async () => {
+				secondCalls++;
+				return streamOf([START, text("hello")]);
+			}),
+		]);
+
+		expect(await readText(model)).toBe("partial[error]");
+		expect(secondCalls).toBe(0);
+	});
+
+	it("全部失败时应该抛出最后一个错误", async () => {
+		const model = createFallbackChatModel([
+			candidate("first", async () => {
+				throw new Error("first failed");
+			}),
+			candidate("second", async () => {
+				throw new Error("second failed");
+			}),
+		]);
+
+		await expect(model.doStream({ prompt: [] })).rejects.toThrow(
+			"second failed",
+		);
+	});
+});
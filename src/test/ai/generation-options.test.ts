@@ -0,0 +1,113 @@
+/**
+ * 生成选项单元测试
+ *
+ * 测试范围：
+ * - resolveGenerationOptions: 合并默认值、忽略非法值
+ * - resolveCardTarget: 固定数量 / 密度 / 自动模式
+ * - distributeCardTarget: 按分块 tokens 分配目标卡片数
+ * - buildFlashcardSystemPrompt: 选项写入 Prompt
+ *
+ * 注意：纯函数测试，不访问数据库和 LLM
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+	buildFlashcardSystemPrompt,
+	DEFAULT_GENERATION_OPTIONS,
+	distributeCardTarget,
+	GENERATION_LIMITS,
+	type GenerationOptions,
+	resolveCardTarget,
+	resolveGenerationOptions,
+} from "@/lib/ai";
+
+describe("resolveGenerationOptions", () => {
+	it("无选项时应返回默认值", () => {
+		expect(resolveGenerationOptions(null)).toEqual(DEFAULT_GENERATION_OPTIONS);
+		expect(resolveGenerationOptions(undefined)).toEqual(
+			DEFAULT_GENERATION_OPTIONS,
+		);
+	});
+
+	it("应忽略非法值并限制数值范围", () => {
+		const resolved = resolveGenerationOptions({
+			countMode: "bogus" as GenerationOptions["countMode"],
+			cardCount: 10_000,
+			density: 0,
+			cardTypes: ["cloze", "nope" as "basic", "cloze"],
+			language: "  ",
+			customInstructions: "  Be concise.  ",
+		});
+
+		expect(resolved.countMode).toBe("auto");
+		expect(resolved.cardCount).toBe(GENERATION_LIMITS.maxCardCount);
+		expect(resolved.density).toBe(GENERATION_LIMITS.minDensity);
+		expect(resolved.cardTypes).toEqual(["cloze"]);
+		expect(resolved.language).toBe("auto");
+		expect(resolved.customInstructions).toBe("Be concise.");
+	});
+});
+
+describe("resolveCardTarget", () => {
+	it("自动模式应返回 null", () => {
+		expect(resolveCardTarget(DEFAULT_GENERATION_OPTIONS, 5000)).toBeNull();
+	});
+
+	it("固定数量模式应返回卡片数", () => {
+		const options = {
+			...DEFAULT_GENERATION_OPTIONS,
+			countMode: "count" as const,
+			cardCount: 42,
+		};
+		expect(resolveCardTarget(options, 100)).toBe(42);
+	});
+
+	it("密度模式应按 tokens 计算并至少为 1", () => {
+		const options = {
+			...DEFAULT_GENERATION_OPTIONS,
+			countMode: "density" as const,
+			density: 2,
+		};
+		expect(resolveCardTarget(options, 5000)).toBe(10);
+		expect(resolveCardTarget(options, 10)).toBe(1);
+	});
+});
+
+describe("distributeCardTarget", () => {
+	it("分配结果总和应等于目标", () => {
+		const counts = distributeCardTarget(10, [1000, 2000, 3000]);
+		expect(counts.reduce((sum, c) => sum + c, 0)).toBe(10);
+		expect(counts).toEqual([2, 3, 5]);
+	});
+
+	it("单块不应超过单次请求上限", () => {
+		const counts = distributeCardTarget(200, [1000, 1]);
+		expect(counts[0]).toBe(GENERATION_LIMITS.maxCardsPerRequest);
+	});
+
+	it("空分块应返回空数组", () => {
+		expect(distributeCardTarget(10, [])).toEqual([]);
+	});
+});
+
+describe("buildFlashcardSystemPrompt", () => {
+	it("应包含目标数量、语言和自定义指令", () => {
+		const prompt = buildFlashcardSystemPrompt(
+			{
+				...DEFAULT_GENERATION_OPTIONS,
+				countMode: "count",
+				cardCount: 15,
+				language: "Japanese",
+				cardTypes: ["basic", "cloze"],
+				customInstructions: "Use kanji with furigana.",
+			},
+			15,
+		);
+
+		expect(prompt).toContain("15");
+		expect(prompt).toContain("Japanese");
+		expect(prompt).toContain("cloze");
+		expect(prompt).toContain("Use kanji with furigana.");
+	});
+});
@@ -0,0 +1,162 @@
+/**
+ * 卡片来源定位单元测试
+ *
+ * 测试范围：
+ * - locatePassage: 精确匹配、忽略空白和大小写、按词重合回退
+ * - extractSelectedChapters: 选定章节在合并文本和原文中的位置
+ * - groundFlashcards: 分块位置映射回原文、章节和页码（估算或真实分页）
+ *
+ * 注意：纯函数测试，不访问数据库和 LLM
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+	type Flashcard,
+	groundFlashcards,
+	locatePassage,
+	wholeDocumentSegments,
+} from "@/lib/ai";
+import { type DocumentOutline, extractSelectedChapters } from "@/lib/ai/outline";
+
+const TEXT =
+	"Cells are the basic unit of life. The mitochondria is the powerhouse of the cell.\nPhotosynthesis takes place in the chloroplasts of plant cells.";
+
+function card(sourceQuote: string | null, front = "Q?", back = "A"): Flashcard {
+	return { cardType: "basic", front, back, sourceQuote };
+}
+
+describe("locatePassage", () => {
+	it("应该精确匹配引用", () => {
+		const quote = "The mitochondria is the powerhouse of the cell.";
+		const range = locatePassage(TEXT, card(quote));
+		expect(range && TEXT.slice(range.start, range.end)).toBe(quote);
+	});
+
+	it("应该忽略大小写和空白差异", () => {
+		const range = locatePassage(
+			TEXT,
+			card("the  mitochondria is the\npowerhouse"),
+		);
+		expect(range && TEXT.slice(range.start, range.end)).toBe(
+			"The mitochondria is the powerhouse",
+		);
+	});
+
+	it("引用无法匹配时应该取词重合最多的句子", () => {
+		const range = locatePassage(
+			TEXT,
+			card(null, "Where does photosynthesis occur?", "In chloroplasts"),
+		);
+		expect(range && TEXT.slice(range.start, range.end)).toBe(
+			"Photosynthesis takes place in the chloroplasts of plant cells.",
+		);
+	});
+
+	it("没有任何重合时应该返回 null", () => {
+		expect(locatePassage(TEXT, card(null, "Xyz?", "Qwv"))).toBeNull();
+	});
+});
+
+describe("groundFlashcards", () => {
+	it("整篇文档应该记录原文位置和估算页码", () => {
+		const quote = "Photosynthesis takes place in the chloroplasts";
+		const [grounded] = groundFlashcards([card(quote)], TEXT, 0, {
+			taskId: "task-1",
+			text: TEXT,
+			segments: wholeDocumentSegments(TEXT.length),
+			charsPerPage: 50,
+		});
+
+		const start = TEXT.indexOf(quote);
+		expect(grounded?.sourceRef).toEqual({
+			taskId: "task-1",
+			chapterIndex: null,
+			chapterTitle: null,
+			start,
+			end: start + quote.length,
+			page: Math.floor(start / 50) + 1,
+			snippet: quote,
+		});
+	});
+
+	it("有分页信息时应该使用真实页码", () => {
+		const quote = "Photosynthesis takes place in the chloroplasts";
+		const start = TEXT.indexOf(quote);
+		const [grounded] = groundFlashcards([card(quote)], TEXT, 0, {
+			taskId: "task-1",
+			text: TEXT,
+			segments: wholeDocumentSegments(TEXT.length),
+			charsPerPage: 50,
+			pageOffsets: [0, start - 1, start + 1],
+		});
+
+		expect(grounded?.sourceRef?.page).toBe(2);
+	});
+
+	it("应该把选定章节中的位置映射回原文", () => {
+		const document = `Intro text here.\n\nChapter A body.\n\n${TEXT}`;
+		const chapterStart = document.indexOf("Cells are");
+		const outline: DocumentOutline = {
+			totalPages: 1,
+			totalTokens: 100,
+			chapters: [
+				{
+					index: 0,
+					title: "Intro",
+					summary: "",
+					startPage: 1,
+					endPage: 1,
+					estimatedTokens: 10,
+					textRange: { start: 0, end: 33 },
+				},
+				{
+					index: 1,
+					title: "Biology",
+					summary: "",
+					startPage: 1,
+					endPage: 1,
+					estimatedTokens: 50,
+					textRange: { start: chapterStart, end: document.length },
+				},
+			],
+		};
+		const selection = extractSelectedChapters(document, outline, [0, 1]);
+		const quote = "The mitochondria is the powerhouse of the cell.";
+
+		// 分块偏移只是近似位置
+		const chunkText = TEXT;
+		const [grounded] = groundFlashcards(
+			[card(quote)],
+			chunkText,
+			selection.text.indexOf(chunkText) - 5,
+			{
+				taskId: "task-2",
+				text: selection.text,
+				segments: selection.segments,
+				charsPerPage: null,
+			},
+		);
+
+		const ref = grounded?.sourceRef;
+		expect(ref?.chapterIndex).toBe(1);
+		expect(ref?.chapterTitle).toBe("Biology");
+		expect(ref?.page).toBeNull();
+		expect(ref && document.slice(ref.start, ref.end)).toBe(quote);
+	});
+
+	it("无法定位时 sourceRef 应该为 null", () => {
+		const [grounded] = groundFlashcards(
+			[card(null, "Xyz?", "Qwv")],
+			TEXT,
+			0,
+			{
+				taskId: "task-3",
+				text: TEXT,
+				segments: wholeDocumentSegments(TEXT.length),
+				charsPerPage: null,
+			},
+		);
+		expect(grounded?.sourceRef).toBeNull();
+	});
+});
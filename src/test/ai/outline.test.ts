@@ -0,0 +1,362 @@
+/**
+ * 文档大纲单元测试
+ *
+ * 测试范围：
+ * - planOutlineWindows: 短文档只有一个窗口，长文档切分为多个窗口
+ * - analyzeOutlineWindow: 通过假提供商定位章节和小节在原文中的位置
+ * - mergeOutlineWindows: 去掉窗口重叠处的重复章节、合并跨窗口的同名章节、小节覆盖章节范围
+ * - buildOutlineFromHeadings: 按文档标题结构生成大纲、真实页码、结构不足时返回 null
+ * - getSelectableChapters / extractSelectedChapters / calculateSelectedTokens: 按小节选择
+ * - parsePageRanges / extractSelectedPages / calculateSelectedTokens / getChaptersInPages: 按页码范围选择
+ *
+ * 注意：使用假提供商，不访问网络
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { clearProviderCache, setFakeResponder } from "@/lib/ai";
+import type { DocumentHeading } from "@/lib/parsers";
+import {
+	analyzeOutlineWindow,
+	buildOutlineFromHeadings,
+	calculateSelectedTokens,
+	extractSelectedChapters,
+	extractSelectedPages,
+	getChaptersInPages,
+	getSelectableChapters,
+	mergeOutlineWindows,
+	OUTLINE_WINDOW_TOKENS,
+	type OutlineEntry,
+	parsePageRanges,
+	planOutlineWindows,
+} from "@/lib/ai/outline";
+
+const DOCUMENT = [
+	"Chapter 1 Cells",
+	"Cells are the basic unit of life.",
+	"1.1 Structure",
+	"The membrane surrounds every cell.",
+	"1.2 Energy",
+	"The mitochondria is the powerhouse of the cell.",
+	"Chapter 2 Plants",
+	"Photosynthesis takes place in the chloroplasts of plant cells.",
+].join("\n\n");
+
+function entry(
+	title: string,
+	marker: string,
+	sections: string[] = [],
+): OutlineEntry {
+	return {
+		title,
+		summary: `About ${title}`,
+		start: DOCUMENT.indexOf(marker),
+		sections: sections.map((section) => ({
+			title: section,
+			summary: "",
+			start: DOCUMENT.indexOf(section),
+		})),
+	};
+}
+
+describe("planOutlineWindows", () => {
+	it("短文档应该只有一个窗口", () => {
+		const windows = planOutlineWindows(DOCUMENT);
+		expect(windows).toHaveLength(1);
+		expect(windows[0]?.text).toBe(DOCUMENT);
+	});
+
+	it("超过窗口大小的文档应该切分为多个窗口", () => {
+		const paragraph = "The quick brown fox jumps over the lazy dog. ".repeat(200);
+		const text = Array.from({ length: 60 }, () => paragraph).join("\n\n");
+
+		const windows = planOutlineWindows(text);
+
+		expect(windows.length).toBeGreaterThan(1);
+		for (const window of windows) {
+			expect(window.tokenCount).toBeLessThanOrEqual(OUTLINE_WINDOW_TOKENS);
+		}
+	});
+});
+
+describe("mergeOutlineWindows", () => {
+	it("应该为章节和小节按文档顺序编号，小节覆盖整个章节", () => {
+		const outline = mergeOutlineWindows(DOCUMENT, [
+			[
+				entry("Cells", "Chapter 1", ["1.1 Structure", "1.2 Energy"]),
+				entry("Plants", "Chapter 2"),
+			],
+		]);
+
+		const [cells, plants] = outline.chapters;
+		expect(cells?.index).toBe(0);
+		expect(cells?.sections?.map((s) => [s.index, s.title])).toEqual([
+			[1, "1.1 Structure"],
+			[2, "1.2 Energy"],
+		]);
+		expect(plants?.index).toBe(3);
+
+		// 第一个小节从章节开头算起，最后一个小节到章节末尾
+		expect(cells?.sections?.[0]?.textRange.start).toBe(cells?.textRange.start);
+		expect(cells?.sections?.[1]?.textRange.end).toBe(cells?.textRange.end);
+		expect(cells?.textRange.end).toBe(DOCUMENT.indexOf("Chapter 2"));
+	});
+
+	it("应该去掉窗口重叠处重复识别的章节，并合并跨窗口的同名章节", () => {
+		const outline = mergeOutlineWindows(DOCUMENT, [
+			[entry("Cells", "Chapter 1", ["1.1 Structure"])],
+			[
+				// 窗口从章节中间开始，模型再次列出同一章节
+				{ ...entry("Cells", "1.2 Energy", ["1.2 Energy"]) },
+				entry("Plants", "Chapter 2"),
+			],
+			[entry("Plants", "Chapter 2")],
+		]);
+
+		expect(outline.chapters.map((ch) => ch.title)).toEqual(["Cells", "Plants"]);
+		expect(outline.chapters[0]?.sections?.map((s) => s.title)).toEqual([
+			"1.1 Structure",
+			"1.2 Energy",
+		]);
+	});
+
+	it("只有一个小节的章节不展开小节", () => {
+		const outline = mergeOutlineWindows(DOCUMENT, [
+			[entry("Cells", "Chapter 1", ["1.1 Structure"])],
+		]);
+
+		expect(outline.chapters[0]?.sections).toBeUndefined();
+	});
+
+	it("没有定位到章节时应该返回整篇文档", () => {
+		const outline = mergeOutlineWindows(DOCUMENT, [[]]);
+
+		expect(outline.chapters).toHaveLength(1);
+		expect(outline.chapters[0]?.textRange).toEqual({
+			start: 0,
+			end: DOCUMENT.length,
+		});
+	});
+});
+
+describe("buildOutlineFromHeadings", () => {
+	function heading(level: number, title: string): DocumentHeading {
+		return { level, title, offset: DOCUMENT.indexOf(title) };
+	}
+
+	it("应该以最高层级为章节、下一层级为小节，第一章从文档开头算起", () => {
+		const outline = buildOutlineFromHeadings(DOCUMENT, [
+			heading(1, "Chapter 1 Cells"),
+			heading(2, "1.1 Structure"),
+			heading(2, "1.2 Energy"),
+			heading(1, "Chapter 2 Plants"),
+		]);
+
+		expect(outline?.chapters.map((ch) => ch.title)).toEqual([
+			"Chapter 1 Cells",
+			"Chapter 2 Plants",
+		]);
+		expect(outline?.chapters[0]?.textRange.start).toBe(0);
+		expect(outline?.chapters[0]?.sections?.map((s) => s.title)).toEqual([
+			"1.1 Structure",
+			"1.2 Energy",
+		]);
+		expect(outline?.chapters[0]?.summary).toBe("");
+	});
+
+	it("只有一个最高级标题时视为文档标题，用下一层级划分章节", () => {
+		const outline = buildOutlineFromHeadings(DOCUMENT, [
+			heading(1, "Chapter 1 Cells"),
+			heading(2, "1.1 Structure"),
+			heading(2, "1.2 Energy"),
+		]);
+
+		expect(outline?.chapters.map((ch) => ch.title)).toEqual([
+			"1.1 Structure",
+			"1.2 Energy",
+		]);
+	});
+
+	it("有分页信息时应该使用真实页码", () => {
+		const pageOffsets = [
+			0,
+			DOCUMENT.indexOf("1.2 Energy"),
+			DOCUMENT.indexOf("Chapter 2"),
+		];
+
+		const outline = buildOutlineFromHeadings(
+			DOCUMENT,
+			[heading(1, "Chapter 1 Cells"), heading(1, "Chapter 2 Plants")],
+			{ pageOffsets },
+		);
+
+		expect(outline?.totalPages).toBe(3);
+		expect(
+			outline?.chapters.map((ch) => [ch.startPage, ch.endPage]),
+		).toEqual([
+			[1, 2],
+			[3, 3],
+		]);
+	});
+
+	it("章节标题不足两个时应该返回 null", () => {
+		expect(buildOutlineFromHeadings(DOCUMENT, [])).toBeNull();
+		expect(
+			buildOutlineFromHeadings(DOCUMENT, [heading(1, "Chapter 1 Cells")]),
+		).toBeNull();
+	});
+});
+
+describe("按小节选择", () => {
+	const outline = mergeOutlineWindows(DOCUMENT, [
+		[
+			entry("Cells", "Chapter 1", ["1.1 Structure", "1.2 Energy"]),
+			entry("Plants", "Chapter 2"),
+		],
+	]);
+
+	it("可选择的单元应该是小节和没有小节的章节", () => {
+		expect(getSelectableChapters(outline).map((ch) => ch.index)).toEqual([
+			1, 2, 3,
+		]);
+	});
+
+	it("提取小节文本时标题应该带上所属章节", () => {
+		const selection = extractSelectedChapters(DOCUMENT, outline, [2]);
+
+		expect(selection.text).toContain("powerhouse");
+		expect(selection.text).not.toContain("membrane");
+		expect(selection.segments[0]?.chapterTitle).toBe("Cells › 1.2 Energy");
+	});
+
+	it("应该只统计可选择单元的 token 数", () => {
+		const sections = outline.chapters[0]?.sections ?? [];
+		expect(calculateSelectedTokens(outline, [0])).toBe(0);
+		expect(calculateSelectedTokens(outline, [1, 2])).toBe(
+			sections.reduce((sum, s) => sum + s.estimatedTokens, 0),
+		);
+	});
+});
+
+describe("按页码范围选择", () => {
+	const pageOffsets = [
+		0,
+		DOCUMENT.indexOf("1.2 Energy"),
+		DOCUMENT.indexOf("Chapter 2"),
+	];
+	const outline = mergeOutlineWindows(
+		DOCUMENT,
+		[[entry("Cells", "Chapter 1"), entry("Plants", "Chapter 2")]],
+		{ pageOffsets },
+	);
+
+	it("parsePageRanges 应该合并重叠范围，格式错误或超出页数时返回 null", () => {
+		expect(parsePageRanges("3, 1-2", 3)).toEqual([{ start: 1, end: 3 }]);
+		expect(parsePageRanges("1 – 1, 3", 3)).toEqual([
+			{ start: 1, end: 1 },
+			{ start: 3, end: 3 },
+		]);
+		expect(parsePageRanges("2-4", 3)).toBeNull();
+		expect(parsePageRanges("3-1", 3)).toBeNull();
+		expect(parsePageRanges("first", 3)).toBeNull();
+		expect(parsePageRanges(" ", 3)).toBeNull();
+	});
+
+	it("有分页信息时大纲应该记录每页的范围", () => {
+		expect(outline.pages?.map((page) => page.textRange.start)).toEqual(
+			pageOffsets,
+		);
+		expect(outline.pages?.at(-1)?.textRange.end).toBe(DOCUMENT.length);
+	});
+
+	it("应该按页提取文本，每个连续范围作为一段", () => {
+		const selection = extractSelectedPages(DOCUMENT, outline, [
+			{ start: 3, end: 3 },
+			{ start: 1, end: 1 },
+		]);
+
+		expect(selection.text).toContain("membrane");
+		expect(selection.text).not.toContain("powerhouse");
+		expect(selection.text).toContain("Photosynthesis");
+		expect(selection.segments.map((s) => s.chapterTitle)).toEqual([
+			"Page 1",
+			"Page 3",
+		]);
+		expect(selection.segments[1]?.docStart).toBe(pageOffsets[2]);
+	});
+
+	it("按页计算 token 数，超出文档的页码不计", () => {
+		const pages = outline.pages ?? [];
+		expect(calculateSelectedTokens(outline, [], [{ start: 2, end: 9 }])).toBe(
+			(pages[1]?.estimatedTokens ?? 0) + (pages[2]?.estimatedTokens ?? 0),
+		);
+		expect(calculateSelectedTokens(outline, [], [])).toBe(0);
+	});
+
+	it("所选页覆盖过半的章节应该视为已生成", () => {
+		expect(getChaptersInPages(outline, [{ start: 1, end: 1 }])).toEqual([0]);
+		expect(getChaptersInPages(outline, [{ start: 2, end: 3 }])).toEqual([1]);
+		expect(getChaptersInPages(outline, [{ start: 1, end: 3 }])).toEqual([
+			0, 1,
+		]);
+		expect(getChaptersInPages(outline, [])).toEqual([]);
+	});
+});
+
+describe("analyzeOutlineWindow", () => {
+	beforeEach(() => {
+		vi.stubEnv("AI_PROVIDER_ORDER", "fake");
+		clearProviderCache();
+	});
+
+	afterEach(() => {
+		setFakeResponder(null);
+		vi.unstubAllEnvs();
+		clearProviderCache();
+	});
+
+	it("应该在原文中定位章节和小节", async () => {
+		setFakeResponder(() =>
+			JSON.stringify({
+				chapters: [
+					{
+						title: "Cells",
+						summary: "Cell basics",
+						startMarker: "Chapter 1 Cells",
+						sections: [
+							{
+								title: "Energy",
+								summary: "",
+								// 空白与原文不同（分块规范化后的段落分隔）
+								startMarker: "1.2 Energy The mitochondria",
+							},
+						],
+					},
+					{ title: "Missing", summary: "", startMarker: "Not in the text" },
+				],
+			}),
+		);
+		const [window] = planOutlineWindows(DOCUMENT);
+		if (!window) throw new Error("expected a window");
+
+		const entries = await analyzeOutlineWindow(DOCUMENT, window, 1);
+
+		expect(entries).toHaveLength(1);
+		expect(entries[0]?.start).toBe(0);
+		expect(entries[0]?.sections[0]?.start).toBe(DOCUMENT.indexOf("1.2 Energy"));
+	});
+
+	it("多个窗口时应该告知模型当前是第几部分", async () => {
+		let prompt = "";
+		setFakeResponder((request) => {
+			prompt = String(request.messages[1]?.content ?? "");
+			return JSON.stringify({ chapters: [] });
+		});
+		const [window] = planOutlineWindows(DOCUMENT);
+		if (!window) throw new Error("expected a window");
+
+		await analyzeOutlineWindow(DOCUMENT, window, 3);
+
+		expect(prompt).toContain("part 1 of 3");
+	});
+});
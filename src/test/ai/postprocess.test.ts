@@ -0,0 +1,181 @@
+/**
+ * 生成卡片后处理单元测试
+ *
+ * 测试范围：
+ * - minHashSignature / estimateSimilarity: 近似重复文本的相似度估计
+ * - scoreFlashcard: 原子性、答案长度、歧义评分
+ * - postprocessFlashcards: 合并重复、丢弃低分、标记待复核、去掉与已有卡片重复的卡片
+ *
+ * 注意：纯函数测试，不访问数据库和 LLM
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+	estimateSimilarity,
+	type Flashcard,
+	minHashSignature,
+	postprocessFlashcards,
+	QUALITY_REVIEW_TAG,
+	scoreFlashcard,
+} from "@/lib/ai";
+
+function basic(front: string, back: string): Flashcard {
+	return { cardType: "basic", front, back, options: null };
+}
+
+describe("estimateSimilarity", () => {
+	it("措辞略有不同的卡片应该高度相似", () => {
+		const a = minHashSignature(
+			"What organelle is the powerhouse of the cell? The mitochondria",
+		);
+		const b = minHashSignature(
+			"Which organelle is the powerhouse of the cell? Mitochondria",
+		);
+		expect(estimateSimilarity(a, b)).toBeGreaterThanOrEqual(0.7);
+	});
+
+	it("不同内容的卡片相似度应该很低", () => {
+		const a = minHashSignature("What is the capital of France? Paris");
+		const b = minHashSignature(
+			"Which gas do plants absorb during photosynthesis? Carbon dioxide",
+		);
+		expect(estimateSimilarity(a, b)).toBeLessThan(0.3);
+	});
+
+	it("应该忽略大小写、标点和填空语法", () => {
+		expect(
+			estimateSimilarity(
+				minHashSignature("The capital of France is {{c1::Paris}}."),
+				minHashSignature("the capital of france is paris"),
+			),
+		).toBe(1);
+	});
+});
+
+describe("scoreFlashcard", () => {
+	it("原子的问答卡应该满分", () => {
+		expect(
+			scoreFlashcard(basic("What is the capital of France?", "Paris")),
+		).toEqual({ score: 1, issues: [] });
+	});
+
+	it("应该识别多个问题和列表答案", () => {
+		const { issues } = scoreFlashcard(
+			basic(
+				"What is TCP? How does it differ from UDP?",
+				"- Reliable\n- Ordered\n- Connection-oriented",
+			),
+		);
+		expect(issues).toEqual(["multiple_questions", "list_answer"]);
+	});
+
+	it("应该识别依赖原文的指代", () => {
+		expect(
+			scoreFlashcard(basic("What does the author argue?", "Free trade"))
+				.issues,
+		).toEqual(["vague_reference"]);
+		expect(
+			scoreFlashcard(basic("本文的主要观点是什么？", "自由贸易")).issues,
+		).toEqual(["vague_reference"]);
+	});
+
+	it("应该识别问题中包含答案", () => {
+		expect(
+			scoreFlashcard(basic("Is Paris the capital of France?", "Paris"))
+				.issues,
+		).toEqual(["answer_in_question"]);
+	});
+
+	it("填空卡不检查答案是否出现在正面", () => {
+		expect(
+			scoreFlashcard({
+				cardType: "cloze",
+				front: "The capital of France is {{c1::Paris}}.",
+				back: "Paris",
+			}).issues,
+		).toEqual([]);
+	});
+
+	it("应该识别过长的答案", () => {
+		const longAnswer = Array.from(
+			{ length: 30 },
+			(_, i) => `clause number ${i}`,
+		).join(" and ");
+		expect(scoreFlashcard(basic("Explain it all?", longAnswer)).issues).toContain(
+			"long_answer",
+		);
+	});
+});
+
+describe("postprocessFlashcards", () => {
+	it("应该合并近似重复的卡片并保留分数最高的一张", () => {
+		const result = postprocessFlashcards([
+			basic("What is the capital of France?", "Paris"),
+			basic(
+				"What is the powerhouse of the cell? Why?",
+				"The mitochondria",
+			),
+			basic("What is the powerhouse of the cell?", "The mitochondria"),
+		]);
+
+		expect(result.merged).toBe(1);
+		expect(result.cards.map((c) => c.front)).toEqual([
+			"What is the capital of France?",
+			"What is the powerhouse of the cell?",
+		]);
+	});
+
+	it("应该丢弃低分卡片并标记待复核卡片", () => {
+		const result = postprocessFlashcards([
+			basic("What is the capital of France?", "Paris"),
+			basic("Is Berlin, says the author, the capital of Germany?", "Berlin"),
+			basic("What does the author argue?", "Free trade"),
+		]);
+
+		expect(result.dropped).toBe(1);
+		expect(result.flagged).toBe(1);
+		expect(result.cards).toHaveLength(2);
+		expect(result.cards[0]?.tags).toBeUndefined();
+		expect(result.cards[1]?.tags).toEqual([QUALITY_REVIEW_TAG]);
+	});
+
+	it("全部低分时应该保留并标记", () => {
+		const result = postprocessFlashcards([
+			basic("Is Berlin the capital of Germany?", "Berlin"),
+		]);
+
+		expect(result.dropped).toBe(0);
+		expect(result.cards[0]?.tags).toEqual([QUALITY_REVIEW_TAG]);
+	});
+
+	it("应该支持自定义相似度", () => {
+		const result = postprocessFlashcards(
+			[basic("Q1?", "A"), basic("Q2?", "B"), basic("Q3?", "C")],
+			{ similarity: () => 1 },
+		);
+
+		expect(result.merged).toBe(2);
+		expect(result.cards).toHaveLength(1);
+	});
+
+	it("应该去掉与牌组已有卡片重复的卡片", () => {
+		const result = postprocessFlashcards(
+			[
+				basic("What is the powerhouse of the cell?", "The mitochondria"),
+				basic("What is the capital of France?", "Paris"),
+			],
+			{
+				existingCards: [
+					basic("What is the powerhouse of the cell?", "Mitochondria"),
+				],
+			},
+		);
+
+		expect(result.duplicates).toBe(1);
+		expect(result.merged).toBe(0);
+		expect(result.cards.map((c) => c.front)).toEqual([
+			"What is the capital of France?",
+		]);
+	});
+});
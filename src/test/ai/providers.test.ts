@@ -0,0 +1,71 @@
+/**
+ * LLM 提供商注册表单元测试
+ *
+ * 测试范围：
+ * - isTransientProviderError: 限流、服务端错误、连接失败时进入冷却
+ * - isAllowedApiKeyEnv: 数据库提供商只能读取 *_API_KEY 环境变量
+ *
+ * 注意：纯函数测试，不访问数据库和 LLM
+ */
+
+import { APICallError } from "ai";
+import OpenAI from "openai";
+import { describe, expect, it } from "vitest";
+
+import {
+	isAllowedApiKeyEnv,
+	isTransientProviderError,
+} from "@/lib/ai/providers";
+
+function openAIError(status: number) {
+	return OpenAI.APIError.generate(status, undefined, "error", new Headers());
+}
+
+function sdkError(statusCode: number | undefined, isRetryable = false) {
+	return new APICallError({
+		message: "error",
+		url: "http://localhost:11434/v1/chat/completions",
+		requestBodyValues: {},
+		...(statusCode !== undefined && { statusCode }),
+		isRetryable,
+	});
+}
+
+describe("isTransientProviderError", () => {
+	it("限流和服务端错误应该视为暂时性故障", () => {
+		expect(isTransientProviderError(openAIError(429))).toBe(true);
+		expect(isTransientProviderError(openAIError(503))).toBe(true);
+		expect(
+			isTransientProviderError(
+				new OpenAI.APIConnectionError({ message: "ECONNREFUSED" })
+			)
+		).toBe(true);
+	});
+
+	it("请求错误和鉴权失败不应该视为暂时性故障", () => {
+		expect(isTransientProviderError(openAIError(400))).toBe(false);
+		expect(isTransientProviderError(openAIError(401))).toBe(false);
+		expect(isTransientProviderError(new Error("parse failed"))).toBe(false);
+	});
+
+	it("应该识别 AI SDK 的调用错误", () => {
+		expect(isTransientProviderError(sdkError(429))).toBe(true);
+		expect(isTransientProviderError(sdkError(404))).toBe(false);
+		expect(isTransientProviderError(sdkError(undefined, true))).toBe(true);
+	});
+});
+
+describe("isAllowedApiKeyEnv", () => {
+	it("应该允许 API Key 环境变量", () => {
+		expect(isAllowedApiKeyEnv("OPENAI_API_KEY")).toBe(true);
+		expect(isAllowedApiKeyEnv("MY_LOCAL_LLM_API_KEY")).toBe(true);
+	});
+
+	it("应该拒绝其他环境变量", () => {
+		expect(isAllowedApiKeyEnv("DATABASE_URL")).toBe(false);
+		expect(isAllowedApiKeyEnv("BETTER_AUTH_SECRET")).toBe(false);
+		expect(isAllowedApiKeyEnv("STORAGE_SECRET_ACCESS_KEY")).toBe(false);
+		expect(isAllowedApiKeyEnv("openai_api_key")).toBe(false);
+		expect(isAllowedApiKeyEnv("OPENAI_API_KEY_BACKUP")).toBe(false);
+	});
+});
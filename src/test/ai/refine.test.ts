@@ -0,0 +1,219 @@
+/**
+ * 单卡 AI 改写单元测试
+ *
+ * 测试范围：
+ * - buildRefinementMessages: 各改写操作的提示词（卡片类型、数量、语言、来源段落）
+ * - refineFlashcard: 通过假提供商测试候选卡片数量限制和参数校验
+ * - calculateCardRefinementCost: 改写与扩展生成的计费
+ * - signRefinementResult / verifyRefinementResult: 改写结果凭证的签名、篡改和过期
+ *
+ * 注意：使用假提供商，不访问网络
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+	CARD_REFINEMENT_COST,
+	calculateCardRefinementCost,
+} from "@/config/pricing";
+import {
+	buildRefinementMessages,
+	clearProviderCache,
+	MAX_SPLIT_CARDS,
+	refineFlashcard,
+	refinementReplacesCard,
+	setFakeResponder,
+} from "@/lib/ai";
+import {
+	signRefinementResult,
+	verifyRefinementResult,
+} from "@/features/decks/refinement-token";
+import type { CardContent } from "@/lib/cards";
+
+const CARD: CardContent = {
+	cardType: "basic",
+	front: "What are the three states of matter?",
+	back: "Solid; liquid; gas",
+	options: null,
+};
+
+const PASSAGE =
+	"Matter exists as solid, liquid or gas. Heating a solid melts it into a liquid.";
+
+function fakeCards(count: number, cardType = "basic"): string {
+	return JSON.stringify({
+		cards: Array.from({ length: count }, (_, index) => ({
+			cardType,
+			front: cardType === "cloze" ? `Fact {{c1::${index}}}` : `Q${index}`,
+			back: cardType === "cloze" ? "" : `A${index}`,
+			options: null,
+			sourceQuote: "",
+		})),
+	});
+}
+
+describe("buildRefinementMessages", () => {
+	it("转填空时应该只允许 cloze 类型", () => {
+		const [system] = buildRefinementMessages(CARD, "cloze");
+		expect(system?.content).toContain('"cloze":');
+		expect(system?.content).not.toContain('"basic":');
+		expect(system?.content).toContain("Respond with exactly 1 card");
+	});
+
+	it("翻译时应该指定目标语言", () => {
+		const [system] = buildRefinementMessages(CARD, "translate", {
+			language: "Japanese",
+		});
+		expect(system?.content).toContain("Write the result in Japanese");
+	});
+
+	it("扩展生成应该包含来源段落和卡片数", () => {
+		const [system, user] = buildRefinementMessages(CARD, "expand", {
+			count: 4,
+			sourcePassage: PASSAGE,
+		});
+		expect(system?.content).toContain("Generate 4 new cards");
+		expect(user?.content).toContain(`Source passage:\n${PASSAGE}`);
+		expect(user?.content).toContain(CARD.front);
+	});
+
+	it("扩展卡片数应该限制在上限内", () => {
+		const [system] = buildRefinementMessages(CARD, "expand", {
+			count: 100,
+			sourcePassage: PASSAGE,
+		});
+		expect(system?.content).toContain("Generate 10 new cards");
+	});
+});
+
+describe("refinementReplacesCard", () => {
+	it("只有扩展生成不替换原卡片", () => {
+		expect(refinementReplacesCard("rewrite")).toBe(true);
+		expect(refinementReplacesCard("split")).toBe(true);
+		expect(refinementReplacesCard("expand")).toBe(false);
+	});
+});
+
+describe("refineFlashcard", () => {
+	beforeEach(() => {
+		vi.stubEnv("AI_PROVIDER_ORDER", "fake");
+		clearProviderCache();
+	});
+
+	afterEach(() => {
+		setFakeResponder(null);
+		vi.unstubAllEnvs();
+		clearProviderCache();
+	});
+
+	it("改写应该只返回一张卡片", async () => {
+		setFakeResponder(() => fakeCards(3));
+
+		const cards = await refineFlashcard(CARD, "rewrite");
+
+		expect(cards).toHaveLength(1);
+		expect(cards[0]).toMatchObject({ front: "Q0", back: "A0" });
+	});
+
+	it("拆分最多返回 MAX_SPLIT_CARDS 张卡片", async () => {
+		setFakeResponder(() => fakeCards(MAX_SPLIT_CARDS + 2));
+
+		const cards = await refineFlashcard(CARD, "split");
+
+		expect(cards).toHaveLength(MAX_SPLIT_CARDS);
+	});
+
+	it("转填空应该返回填空卡片", async () => {
+		setFakeResponder(() => fakeCards(1, "cloze"));
+
+		const cards = await refineFlashcard(CARD, "cloze");
+
+		expect(cards[0]).toMatchObject({
+			cardType: "cloze",
+			front: "Fact {{c1::0}}",
+		});
+	});
+
+	it("没有合法填空卡片时应该报错", async () => {
+		// 缺少填空语法的 cloze 卡会降级为 basic
+		setFakeResponder(() => fakeCards(1, "basic"));
+
+		await expect(refineFlashcard(CARD, "cloze")).rejects.toThrow(
+			"did not produce a valid cloze card",
+		);
+	});
+
+	it("缺少翻译语言时应该报错且不调用模型", async () => {
+		const responder = vi.fn(() => fakeCards(1));
+		setFakeResponder(responder);
+
+		await expect(refineFlashcard(CARD, "translate")).rejects.toThrow(
+			"Target language is required",
+		);
+		expect(responder).not.toHaveBeenCalled();
+	});
+
+	it("没有来源段落时不能扩展生成", async () => {
+		await expect(
+			refineFlashcard(CARD, "expand", { sourcePassage: null }),
+		).rejects.toThrow("no source passage");
+	});
+});
+
+describe("calculateCardRefinementCost", () => {
+	it("改写按固定费用计费", () => {
+		expect(calculateCardRefinementCost()).toBe(CARD_REFINEMENT_COST);
+	});
+
+	it("扩展生成按卡片数计费，不低于固定费用", () => {
+		expect(calculateCardRefinementCost(10)).toBe(0.5);
+		expect(calculateCardRefinementCost(1)).toBe(CARD_REFINEMENT_COST);
+	});
+});
+
+describe("改写结果凭证", () => {
+	const NOW = Date.UTC(2026, 0, 15);
+	const RESULT = {
+		cardId: "card-1",
+		userId: "user-1",
+		cardUpdatedAt: Date.UTC(2026, 0, 14),
+		reference: "card-refinement:abc",
+		replacesCard: true,
+		proposals: [CARD],
+	};
+
+	beforeEach(() => {
+		vi.stubEnv("BETTER_AUTH_SECRET", "test-secret");
+	});
+
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	it("应该还原签名的改写结果", () => {
+		const token = signRefinementResult(RESULT, NOW);
+
+		expect(verifyRefinementResult(token, NOW)).toMatchObject(RESULT);
+	});
+
+	it("篡改候选卡片或签名时应该拒绝", () => {
+		const [payload, signature] = signRefinementResult(RESULT, NOW).split(".");
+		const forged = Buffer.from(
+			JSON.stringify({
+				...RESULT,
+				proposals: [{ ...CARD, back: "Plasma" }],
+				expiresAt: NOW + 1000,
+			})
+		).toString("base64url");
+
+		expect(verifyRefinementResult(`${forged}.${signature}`, NOW)).toBeNull();
+		expect(verifyRefinementResult(`${payload}.x${signature}`, NOW)).toBeNull();
+		expect(verifyRefinementResult("not-a-token", NOW)).toBeNull();
+	});
+
+	it("过期后应该拒绝", () => {
+		const token = signRefinementResult(RESULT, NOW);
+
+		expect(verifyRefinementResult(token, NOW + 2 * 60 * 60 * 1000)).toBeNull();
+	});
+});
@@ -0,0 +1,313 @@
+/**
+ * 结构化输出与闪卡生成单元测试
+ *
+ * 测试范围：
+ * - salvageTruncatedJson / parseJsonResponse: 代码块包裹、截断修复
+ * - validateFlashcards: 逐张校验、类型降级、错误信息、卡片图片
+ * - generateFlashcardsFromText: 通过假提供商测试结构化输出、修正重试、部分保留、插图引用和小上下文窗口截断
+ *
+ * 注意：使用假提供商，不访问网络
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+	clearProviderCache,
+	DEFAULT_GENERATION_OPTIONS,
+	type FakeCompletion,
+	fakeResponseSequence,
+	generateFlashcardsFromText,
+	type LLMUsage,
+	parseJsonResponse,
+	salvageTruncatedJson,
+	setFakeResponder,
+	validateFlashcards,
+} from "@/lib/ai";
+import { countTokens } from "@/lib/ai/tokenizer";
+
+const CARD = { cardType: "basic", front: "Q1", back: "A1", options: null };
+
+describe("salvageTruncatedJson", () => {
+	it("应该保留截断前完整的卡片", () => {
+		const text = `{"cards": [${JSON.stringify(CARD)}, {"cardType": "basic", "front": "Q2", "ba`;
+		expect(salvageTruncatedJson(text)).toEqual({ cards: [CARD] });
+	});
+
+	it("第一张卡片不完整时应该得到空数组", () => {
+		expect(
+			salvageTruncatedJson(`{"cards": [{"front": "Q1", "options": ["a`),
+		).toEqual({ cards: [] });
+	});
+
+	it("字符串中的括号不应该影响修复", () => {
+		const card = { ...CARD, front: "What is f(x) = [1, {2}]?" };
+		const text = `{"cards": [${JSON.stringify(card)}, {"front": "}]`;
+		expect(salvageTruncatedJson(text)).toEqual({ cards: [card] });
+	});
+
+	it("不含数组时应该返回 null", () => {
+		expect(salvageTruncatedJson(`{"cards": `)).toBeNull();
+	});
+});
+
+describe("parseJsonResponse", () => {
+	it("应该去除 markdown 代码块包裹", () => {
+		const result = parseJsonResponse(
+			`\`\`\`json\n${JSON.stringify({ cards: [CARD] })}\n\`\`\``,
+		);
+		expect(result).toEqual({ value: { cards: [CARD] }, truncated: false });
+	});
+
+	it("截断的 JSON 应该标记为 truncated", () => {
+		const result = parseJsonResponse(
+			`{"cards": [${JSON.stringify(CARD)}, {"front": "Q2`,
+		);
+		expect(result).toEqual({ value: { cards: [CARD] }, truncated: true });
+	});
+
+	it("无法修复时应该抛出 SyntaxError", () => {
+		expect(() => parseJsonResponse("not json")).toThrow(SyntaxError);
+	});
+});
+
+describe("validateFlashcards", () => {
+	it("应该保留合法卡片并报告不合法卡片", () => {
+		const result = validateFlashcards(
+			{
+				cards: [
+					CARD,
+					{ cardType: "basic", front: "", back: "A" },
+					{ cardType: "basic", front: "Q3" },
+				],
+			},
+			["basic"],
+		);
+
+		expect(result.cards).toEqual([
+			{
+				cardType: "basic",
+				front: "Q1",
+				back: "A1",
+				options: null,
+				sourceQuote: null,
+			},
+		]);
+		expect(result.errors).toEqual([
+			"cards[1].front: must be a non-empty string",
+			"cards[2]: Back content is required",
+		]);
+	});
+
+	it("不允许的类型应该降级为 basic", () => {
+		const result = validateFlashcards(
+			[{ cardType: "cloze", front: "Q", back: "A" }],
+			["basic"],
+		);
+		expect(result.cards[0]?.cardType).toBe("basic");
+		expect(result.errors).toEqual([]);
+	});
+
+	it("格式不对的图片应该忽略而不丢弃卡片", () => {
+		const result = validateFlashcards(
+			{
+				cards: [
+					{ ...CARD, image: { src: "/image-proxy/b/figures/f.png", side: "back" } },
+					{ ...CARD, front: "Q2", image: { side: "front" } },
+				],
+			},
+			["basic"],
+		);
+
+		expect(result.cards[0]?.image).toEqual({
+			src: "/image-proxy/b/figures/f.png",
+			alt: "",
+			side: "back",
+		});
+		expect(result.cards[1]?.front).toBe("Q2");
+		expect(result.cards[1]?.image).toBeUndefined();
+	});
+
+	it("缺少 cards 数组时应该报告结构错误", () => {
+		const result = validateFlashcards({ items: [] }, ["basic"]);
+		expect(result.cards).toEqual([]);
+		expect(result.errors).toHaveLength(1);
+	});
+});
+
+describe("generateFlashcardsFromText", () => {
+	beforeEach(() => {
+		vi.stubEnv("AI_PROVIDER_ORDER", "fake");
+		clearProviderCache();
+	});
+
+	afterEach(() => {
+		setFakeResponder(null);
+		vi.unstubAllEnvs();
+		clearProviderCache();
+	});
+
+	it("默认假响应应该把每个句子转换为卡片", async () => {
+		const cards = await generateFlashcardsFromText(
+			"The mitochondria is the powerhouse of the cell. Photosynthesis happens in chloroplasts.",
+			20,
+		);
+
+		expect(cards).toHaveLength(2);
+		expect(cards[0]?.back).toBe(
+			"The mitochondria is the powerhouse of the cell.",
+		);
+	});
+
+	it("支持结构化输出时应该使用 JSON Schema", async () => {
+		let responseFormat: unknown;
+		setFakeResponder((request) => {
+			responseFormat = request.response_format;
+			return JSON.stringify({ cards: [CARD] });
+		});
+
+		await generateFlashcardsFromText("content", 5, {
+			...DEFAULT_GENERATION_OPTIONS,
+			cardTypes: ["basic", "cloze"],
+		});
+
+		expect(responseFormat).toMatchObject({
+			type: "json_schema",
+			json_schema: { name: "flashcards", strict: true },
+		});
+	});
+
+	it("没有合法卡片时应该反馈错误并重试", async () => {
+		const requests: string[] = [];
+		const responses = fakeResponseSequence([
+			"Sorry, here are your cards:",
+			JSON.stringify({ cards: [CARD] }),
+		]);
+		setFakeResponder((request) => {
+			const last = request.messages[request.messages.length - 1];
+			requests.push(typeof last?.content === "string" ? last.content : "");
+			return responses(request);
+		});
+
+		const cards = await generateFlashcardsFromText("content", 5);
+
+		expect(cards).toHaveLength(1);
+		expect(requests).toHaveLength(2);
+		expect(requests[1]).toContain("Response is not valid JSON");
+	});
+
+	it("截断的响应应该保留已完整的卡片而不重试", async () => {
+		const truncated: FakeCompletion = {
+			content: `{"cards": [${JSON.stringify(CARD)}, {"cardType": "basic", "front": "Q2`,
+			finishReason: "length",
+		};
+		let calls = 0;
+		setFakeResponder(() => {
+			calls++;
+			return truncated;
+		});
+
+		const cards = await generateFlashcardsFromText("content", 5);
+
+		expect(cards).toEqual([
+			{
+				cardType: "basic",
+				front: "Q1",
+				back: "A1",
+				options: null,
+				sourceQuote: null,
+			},
+		]);
+		expect(calls).toBe(1);
+	});
+
+	it("多次修正仍无合法卡片时应该抛出错误", async () => {
+		let calls = 0;
+		setFakeResponder(() => {
+			calls++;
+			return JSON.stringify({ cards: [{ cardType: "basic", front: "" }] });
+		});
+
+		await expect(generateFlashcardsFromText("content", 5)).rejects.toThrow(
+			"No valid flashcards generated by Fake",
+		);
+		expect(calls).toBe(3);
+	});
+
+	it("应该上报每次调用的用量", async () => {
+		const usages: LLMUsage[] = [];
+		setFakeResponder(
+			fakeResponseSequence(["{}", JSON.stringify({ cards: [CARD] })]),
+		);
+
+		await generateFlashcardsFromText(
+			"content",
+			5,
+			DEFAULT_GENERATION_OPTIONS,
+			null,
+			(usage) => {
+				usages.push(usage);
+			},
+		);
+
+		expect(usages).toHaveLength(2);
+		expect(usages[0]).toMatchObject({ provider: "fake", costUsd: 0 });
+		expect(usages[1]?.promptTokens).toBeGreaterThan(
+			usages[0]?.promptTokens ?? 0,
+		);
+	});
+
+	it("上下文窗口较小时应该截断输入并保留输出空间", async () => {
+		vi.stubEnv("FAKE_CONTEXT_LIMIT", "4096");
+		clearProviderCache();
+		let inputTokens = 0;
+		let maxTokens: number | null | undefined;
+		setFakeResponder((request) => {
+			inputTokens = countTokens(
+				request.messages.map((m) => m.content).join("\n"),
+			);
+			maxTokens = request.max_tokens;
+			return JSON.stringify({ cards: [CARD] });
+		});
+
+		const cards = await generateFlashcardsFromText(
+			"The cell membrane controls what enters the cell. ".repeat(2000),
+			20,
+		);
+
+		expect(cards).toHaveLength(1);
+		expect(maxTokens).toBeGreaterThan(0);
+		expect(inputTokens + (maxTokens ?? 0)).toBeLessThanOrEqual(4096);
+	});
+
+	it("应该只保留引用了内容中插图的卡片图片", async () => {
+		const figure = "/image-proxy/uploads/figures/u1/t1/figure-1.png";
+		let systemPrompt = "";
+		setFakeResponder((request) => {
+			const first = request.messages[0];
+			systemPrompt = typeof first?.content === "string" ? first.content : "";
+			return JSON.stringify({
+				cards: [
+					{ ...CARD, image: { src: figure, side: "front" } },
+					{
+						...CARD,
+						front: "Q2",
+						image: { src: "/image-proxy/uploads/figures/other.png", side: "back" },
+					},
+				],
+			});
+		});
+
+		const cards = await generateFlashcardsFromText(
+			`The heart has four chambers.\n![Figure 1 (page 2)](${figure})`,
+			5,
+		);
+
+		expect(systemPrompt).toContain('"image"');
+		expect(cards[0]?.image).toEqual({
+			src: figure,
+			alt: "Figure 1 (page 2)",
+			side: "front",
+		});
+		expect(cards[1]?.image).toBeNull();
+	});
+});
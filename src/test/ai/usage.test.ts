@@ -0,0 +1,95 @@
+/**
+ * LLM 用量单元测试
+ *
+ * 测试范围：
+ * - calculateLLMCost: 按模型价格计算供应商成本
+ * - extractUsage: 从响应中提取用量，按提供商价格计算成本
+ *
+ * 注意：纯函数测试，不访问数据库和 LLM
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { calculateLLMCost, LLM_MODEL_PRICES } from "@/config/pricing";
+import { extractUsage } from "@/lib/ai";
+
+describe("calculateLLMCost", () => {
+	it("应该按输入和输出价格分别计算", () => {
+		const price = LLM_MODEL_PRICES["gpt-4o-mini"];
+		expect(price).toBeDefined();
+
+		const cost = calculateLLMCost("gpt-4o-mini", 1_000_000, 500_000);
+		expect(cost).toBeCloseTo(
+			(price?.inputPer1M ?? 0) + (price?.outputPer1M ?? 0) / 2
+		);
+	});
+
+	it("未定价的模型应该返回 null", () => {
+		expect(calculateLLMCost("unknown-model", 1000, 1000)).toBeNull();
+	});
+});
+
+describe("extractUsage", () => {
+	it("应该提取 tokens 并计算成本", () => {
+		const usage = extractUsage(
+			{
+				usage: {
+					prompt_tokens: 1200,
+					completion_tokens: 300,
+					total_tokens: 1500,
+				},
+			},
+			{
+				id: "openai",
+				model: "gpt-4o-mini",
+				pricing: LLM_MODEL_PRICES["gpt-4o-mini"] ?? null,
+			}
+		);
+
+		expect(usage).toEqual({
+			provider: "openai",
+			model: "gpt-4o-mini",
+			promptTokens: 1200,
+			completionTokens: 300,
+			totalTokens: 1500,
+			costUsd: calculateLLMCost("gpt-4o-mini", 1200, 300),
+		});
+	});
+
+	it("响应没有 usage 时应该返回 null", () => {
+		expect(
+			extractUsage({}, { id: "deepseek", model: "deepseek-chat", pricing: null })
+		).toBeNull();
+	});
+
+	it("应该使用提供商配置的价格（本地模型免费）", () => {
+		const usage = extractUsage(
+			{
+				usage: {
+					prompt_tokens: 5000,
+					completion_tokens: 1000,
+					total_tokens: 6000,
+				},
+			},
+			{
+				id: "ollama",
+				model: "llama3.1",
+				pricing: { inputPer1M: 0, outputPer1M: 0 },
+			}
+		);
+
+		expect(usage?.provider).toBe("ollama");
+		expect(usage?.costUsd).toBe(0);
+	});
+
+	it("提供商未定价时成本应该为 null", () => {
+		const usage = extractUsage(
+			{
+				usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 },
+			},
+			{ id: "custom", model: "my-model", pricing: null }
+		);
+
+		expect(usage?.costUsd).toBeNull();
+	});
+});
@@ -0,0 +1,236 @@
+/**
+ * Anki .apkg 写入器单元测试
+ *
+ * 测试范围：
+ * - writeApkg: 解包后校验 collection.anki2 的表结构、col 元数据、笔记和卡片
+ * - 笔记模板: Basic / 双向 / 填空生成的卡片数量和序号
+ * - 稳定 GUID: 重复导出 GUID 和模板 ID 不变
+ * - 标签、子牌组和媒体清单
+ * - 媒体引用替换、纯文本导出的图片地址改写
+ *
+ * 注意：纯函数测试，不访问数据库
+ */
+
+import JSZip from "jszip";
+import initSqlJs, { type Database } from "sql.js";
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+	ANKI_MODELS,
+	type ApkgInput,
+	ankiGuid,
+	cardToApkgNote,
+	extractImageSources,
+	replaceImageSources,
+	rewriteImageSources,
+	writeApkg,
+} from "@/lib/anki";
+
+const NOW = new Date("2026-01-15T08:00:00Z");
+
+const CARDS = [
+	{ id: "card-basic", cardType: "basic" as const, front: "2 + 2?", back: "4" },
+	{
+		id: "card-reverse",
+		cardType: "basic_reverse" as const,
+		front: "cat",
+		back: "猫",
+	},
+	{
+		id: "card-cloze",
+		cardType: "cloze" as const,
+		front: "{{c1::Paris}} is the capital of {{c2::France}}.",
+		back: "",
+	},
+];
+
+const openDatabases: Database[] = [];
+
+afterEach(() => {
+	for (const db of openDatabases.splice(0)) {
+		db.close();
+	}
+});
+
+/**
+ * 解包 .apkg，返回 zip 和打开的 SQLite 数据库
+ */
+async function unpack(buffer: Buffer) {
+	const zip = await JSZip.loadAsync(buffer);
+	const collection = await zip.file("collection.anki2")?.async("uint8array");
+	expect(collection).toBeDefined();
+
+	const SQL = await initSqlJs();
+	const db = new SQL.Database(collection);
+	openDatabases.push(db);
+	return { zip, db };
+}
+
+function rows(db: Database, sql: string): Record<string, unknown>[] {
+	const stmt = db.prepare(sql);
+	const result: Record<string, unknown>[] = [];
+	while (stmt.step()) {
+		result.push(stmt.getAsObject());
+	}
+	stmt.free();
+	return result;
+}
+
+function buildInput(deck = "Geography"): ApkgInput {
+	return {
+		notes: CARDS.map((c) =>
+			cardToApkgNote(c, deck, ["ankigenix", "world map"])
+		),
+		now: NOW,
+	};
+}
+
+describe("writeApkg", () => {
+	it("应生成符合 Anki schema v11 的集合", async () => {
+		const { zip, db } = await unpack(await writeApkg(buildInput()));
+
+		const tables = rows(
+			db,
+			"SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name"
+		).map((r) => r.name);
+		expect(tables).toEqual(["cards", "col", "graves", "notes", "revlog"]);
+
+		const [col] = rows(db, "SELECT * FROM col");
+		expect(col?.ver).toBe(11);
+		expect(col?.mod).toBe(NOW.getTime());
+
+		const models = JSON.parse(String(col?.models));
+		expect(Object.keys(models).sort()).toEqual(
+			[
+				ANKI_MODELS.Basic.id,
+				ANKI_MODELS["Basic (and reversed card)"].id,
+				ANKI_MODELS.Cloze.id,
+			]
+				.map(String)
+				.sort()
+		);
+		expect(models[ANKI_MODELS.Cloze.id].type).toBe(1);
+
+		expect(await zip.file("media")?.async("string")).toBe("{}");
+	});
+
+	it("应按笔记模板生成卡片", async () => {
+		const { db } = await unpack(await writeApkg(buildInput()));
+
+		const cards = rows(
+			db,
+			"SELECT n.guid, c.ord FROM cards c JOIN notes n ON n.id = c.nid ORDER BY c.id"
+		);
+		const ordsByGuid = (id: string) =>
+			cards.filter((c) => c.guid === ankiGuid(id)).map((c) => c.ord);
+
+		expect(ordsByGuid("card-basic")).toEqual([0]);
+		expect(ordsByGuid("card-reverse")).toEqual([0, 1]);
+		expect(ordsByGuid("card-cloze")).toEqual([0, 1]);
+	});
+
+	it("重复导出时 GUID 应保持不变", async () => {
+		const first = await unpack(await writeApkg(buildInput()));
+		const second = await unpack(
+			await writeApkg({
+				...buildInput(),
+				now: new Date("2026-02-01T00:00:00Z"),
+			})
+		);
+
+		const guids = (db: Database) =>
+			rows(db, "SELECT guid FROM notes ORDER BY guid").map((r) => r.guid);
+		expect(guids(second.db)).toEqual(guids(first.db));
+		expect(new Set(guids(first.db)).size).toBe(CARDS.length);
+	});
+
+	it("应写入标签和子牌组", async () => {
+		const { db } = await unpack(
+			await writeApkg(buildInput("Geography::Europe"))
+		);
+
+		const [note] = rows(db, "SELECT tags FROM notes LIMIT 1");
+		expect(note?.tags).toBe(" ankigenix world_map ");
+
+		const [col] = rows(db, "SELECT decks, tags FROM col");
+		const deckNames = Object.values(JSON.parse(String(col?.decks))).map(
+			(d) => (d as { name: string }).name
+		);
+		expect(deckNames.sort()).toEqual([
+			"Default",
+			"Geography",
+			"Geography::Europe",
+		]);
+		expect(Object.keys(JSON.parse(String(col?.tags))).sort()).toEqual([
+			"ankigenix",
+			"world_map",
+		]);
+
+		const decks = JSON.parse(String(col?.decks));
+		const europeId = Object.values(decks).find(
+			(d) => (d as { name: string }).name === "Geography::Europe"
+		) as { id: number };
+		const dids = rows(db, "SELECT DISTINCT did FROM cards").map((r) => r.did);
+		expect(dids).toEqual([europeId.id]);
+	});
+
+	it("应打包媒体文件和清单", async () => {
+		const input = buildInput();
+		const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+		const { zip } = await unpack(
+			await writeApkg({
+				...input,
+				media: [{ filename: "diagram.png", data: image }],
+			})
+		);
+
+		expect(
+			JSON.parse((await zip.file("media")?.async("string")) ?? "")
+		).toEqual({
+			0: "diagram.png",
+		});
+		expect(await zip.file("0")?.async("uint8array")).toEqual(image);
+	});
+
+	it("非法媒体文件名应抛出错误", async () => {
+		await expect(
+			writeApkg({
+				...buildInput(),
+				media: [{ filename: "../evil.png", data: new Uint8Array() }],
+			})
+		).rejects.toThrow("Invalid media filename");
+	});
+});
+
+describe("media references", () => {
+	it("应提取并替换 <img> src", () => {
+		const html =
+			'Label this: <img src="/image-proxy/media/a.png"> and <img src="https://x.test/b.png">';
+
+		expect(extractImageSources(html)).toEqual([
+			"/image-proxy/media/a.png",
+			"https://x.test/b.png",
+		]);
+		expect(
+			replaceImageSources(
+				html,
+				new Map([["/image-proxy/media/a.png", "a.png"]])
+			)
+		).toBe(
+			'Label this: <img src="a.png"> and <img src="https://x.test/b.png">'
+		);
+	});
+
+	it("应改写或移除 <img>", () => {
+		const html =
+			'Cell<br><img src="/image-proxy/avatars/a.png" alt="A"><br><img alt="B" src="/image-proxy/uploads/figures/u/t/figure-1.png">';
+
+		expect(
+			rewriteImageSources(html, (src) =>
+				src.includes("/figures/") ? null : `https://app.test${src}`
+			)
+		).toBe(
+			'Cell<br><img src="https://app.test/image-proxy/avatars/a.png" alt="A"><br>'
+		);
+	});
+});
@@ -0,0 +1,255 @@
+/**
+ * Anki .apkg 导入单元测试
+ *
+ * 测试范围：
+ * - readAnkiPackage: 读取 writeApkg 生成的包（往返）、拒绝压缩炸弹
+ * - convertAnkiNote: 按笔记模板推断卡片类型、额外字段、跳过原因
+ * - convertAnkiSchedule / convertAnkiRevlog: 调度和复习记录转换
+ * - planAnkiImport: 按牌组分组、跳过报告
+ *
+ * 注意：纯函数测试，不访问数据库
+ */
+
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+
+import {
+	type AnkiPackage,
+	ankiHtmlToText,
+	cardToApkgNote,
+	convertAnkiNote,
+	convertAnkiRevlog,
+	convertAnkiSchedule,
+	factorToDifficulty,
+	isAnkiPackageFilename,
+	planAnkiImport,
+	readAnkiPackage,
+	writeApkg,
+} from "@/lib/anki";
+import { MAX_ARCHIVE_ENTRY_BYTES } from "@/lib/parsers/archive";
+
+const NOW = new Date("2026-01-15T08:00:00Z");
+const CREATED_AT = Math.floor(NOW.getTime() / 1000);
+
+const BASIC_MODEL = {
+	id: 1,
+	name: "Basic",
+	type: 0,
+	fields: ["Front", "Back", "Notes"],
+	templates: [
+		{ name: "Card 1", qfmt: "{{Front}}", afmt: "{{FrontSide}}<hr>{{Back}}" },
+	],
+};
+
+async function buildPackage(): Promise<AnkiPackage> {
+	const cards = [
+		{ id: "a", cardType: "basic" as const, front: "2 + 2?", back: "4" },
+		{
+			id: "b",
+			cardType: "basic_reverse" as const,
+			front: "cat",
+			back: "猫",
+		},
+		{
+			id: "c",
+			cardType: "cloze" as const,
+			front: "{{c1::Paris}} is the capital of France.",
+			back: "",
+		},
+		{
+			id: "d",
+			cardType: "type_answer" as const,
+			front: "Chemical symbol for gold?",
+			back: "Au",
+		},
+	];
+
+	const buffer = await writeApkg({
+		notes: cards.map((c, i) =>
+			cardToApkgNote(c, i < 2 ? "Lang::Words" : "Facts", ["tag_a"])
+		),
+		now: NOW,
+	});
+	return readAnkiPackage(buffer);
+}
+
+describe("readAnkiPackage", () => {
+	it("应读取 writeApkg 生成的包", async () => {
+		const pkg = await buildPackage();
+
+		expect(pkg.notes).toHaveLength(4);
+		expect(pkg.cards).toHaveLength(5);
+		expect(pkg.mediaCount).toBe(0);
+		expect([...pkg.decks.values()]).toContain("Lang::Words");
+		expect(pkg.notes[0]?.tags).toEqual(["tag_a"]);
+	});
+
+	it("缺少集合时应抛出错误", async () => {
+		const zip = new JSZip();
+		zip.file("collection.anki21b", new Uint8Array([1, 2, 3]));
+		const data = await zip.generateAsync({ type: "uint8array" });
+
+		await expect(readAnkiPackage(data)).rejects.toThrow(
+			"Support older Anki versions"
+		);
+	});
+
+	it("解压后过大的集合应在解压前拒绝", async () => {
+		const zip = new JSZip();
+		zip.file("collection.anki2", Buffer.alloc(MAX_ARCHIVE_ENTRY_BYTES + 1));
+		const data = await zip.generateAsync({
+			type: "uint8array",
+			compression: "DEFLATE",
+		});
+
+		await expect(readAnkiPackage(data)).rejects.toThrow(
+			"Archive is too large when uncompressed"
+		);
+	});
+
+	it("应识别 Anki 包文件名", () => {
+		expect(isAnkiPackageFilename("Deck.APKG")).toBe(true);
+		expect(isAnkiPackageFilename("backup.colpkg")).toBe(true);
+		expect(isAnkiPackageFilename("notes.txt")).toBe(false);
+	});
+});
+
+describe("planAnkiImport", () => {
+	it("往返后应还原卡片类型和牌组", async () => {
+		const plan = planAnkiImport(await buildPackage(), false);
+
+		const byDeck = Object.fromEntries(
+			plan.decks.map((d) => [
+				d.name,
+				d.items.map((item) => item.content.cardType),
+			])
+		);
+		expect(byDeck).toEqual({
+			"Lang::Words": ["basic", "basic_reverse"],
+			Facts: ["cloze", "type_answer"],
+		});
+		expect(plan.skippedCount).toBe(0);
+		expect(plan.decks[0]?.items[0]?.schedule).toBeNull();
+	});
+
+	it("应记录跳过的笔记和不支持的模板", async () => {
+		const pkg = await buildPackage();
+		const firstNote = pkg.notes[0];
+		if (!firstNote) throw new Error("missing note");
+		firstNote.fields = ['<img src="a.png">', "answer"];
+
+		const plan = planAnkiImport(pkg, false);
+
+		expect(plan.skippedCount).toBe(1);
+		expect(plan.skipped[0]?.reason).toBe(
+			"Image-only fields are not supported yet"
+		);
+		expect(plan.unsupportedModels).toEqual([
+			{ name: "Basic (Ankigenix)", count: 1 },
+		]);
+	});
+});
+
+describe("convertAnkiNote", () => {
+	it("未被模板引用的字段应追加到背面", () => {
+		const result = convertAnkiNote(
+			{ fields: ["Q<br>line 2", "A &amp; B", "extra"] },
+			BASIC_MODEL
+		);
+
+		expect(result).toEqual({
+			content: {
+				cardType: "basic",
+				front: "Q\nline 2",
+				back: "A & B\n\nextra",
+				options: null,
+			},
+		});
+	});
+
+	it("背面为空时应跳过", () => {
+		expect(convertAnkiNote({ fields: ["Q", "", ""] }, BASIC_MODEL)).toEqual({
+			reason: "Back content is required",
+		});
+	});
+
+	it("应去除音频引用和 HTML", () => {
+		expect(ankiHtmlToText("<b>hi</b>[sound:a.mp3]&nbsp;there&#33;")).toBe(
+			"hi there!"
+		);
+	});
+});
+
+describe("scheduling", () => {
+	const baseCard = {
+		id: 100,
+		noteId: 1,
+		deckId: 1,
+		ord: 0,
+		type: 2,
+		queue: 2,
+		due: 10,
+		ivl: 7,
+		factor: 2500,
+		reps: 5,
+		lapses: 1,
+		data: "",
+	};
+
+	it("新卡片不保留调度", () => {
+		expect(
+			convertAnkiSchedule({ ...baseCard, type: 0 }, CREATED_AT, null)
+		).toBeNull();
+	});
+
+	it("复习卡的 due 应相对集合创建日计算", () => {
+		const schedule = convertAnkiSchedule(baseCard, CREATED_AT, null);
+
+		expect(schedule?.state).toBe("review");
+		expect(schedule?.due).toEqual(new Date("2026-01-25T08:00:00Z"));
+		expect(schedule?.lastReview).toEqual(new Date("2026-01-18T08:00:00Z"));
+		expect(schedule?.stability).toBe(7);
+		expect(schedule?.difficulty).toBe(5);
+	});
+
+	it("应优先使用卡片中的 FSRS 记忆状态", () => {
+		const schedule = convertAnkiSchedule(
+			{ ...baseCard, data: '{"s":12.5,"d":3.2}' },
+			CREATED_AT,
+			null
+		);
+
+		expect(schedule?.stability).toBe(12.5);
+		expect(schedule?.difficulty).toBe(3.2);
+	});
+
+	it("应转换复习记录并忽略手动改期", () => {
+		const entry = {
+			id: NOW.getTime(),
+			cardId: 100,
+			ease: 3,
+			ivl: 4,
+			lastIvl: -600,
+			factor: 2300,
+			time: 5000,
+			type: 1,
+		};
+
+		expect(convertAnkiRevlog(entry)).toMatchObject({
+			rating: "good",
+			state: "review",
+			scheduledDays: 4,
+			lastScheduledDays: 0,
+			durationMs: 5000,
+			reviewedAt: NOW,
+		});
+		expect(convertAnkiRevlog({ ...entry, type: 4 })).toBeNull();
+		expect(convertAnkiRevlog({ ...entry, ease: 0 })).toBeNull();
+	});
+
+	it("难度系数应映射到 1-10", () => {
+		expect(factorToDifficulty(1300)).toBe(10);
+		expect(factorToDifficulty(4000)).toBe(1);
+		expect(factorToDifficulty(0)).toBe(5);
+	});
+});
@@ -0,0 +1,191 @@
+/**
+ * 分隔文本导入单元测试
+ *
+ * 测试范围：
+ * - parseDelimitedText: Anki 文件头、引号字段、分隔符检测、表头行
+ * - guessColumnMapping: 按文件头和列名猜测映射
+ * - mapRowsToCards: 笔记模板 → 卡片类型、标签、重复检测、错误行、多选题往返
+ *
+ * 注意：纯函数测试，不访问数据库
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+	detectSeparator,
+	guessColumnMapping,
+	mapRowsToCards,
+	parseDelimitedText,
+} from "@/lib/anki/text";
+import { type CardContent, toAnkiNote } from "@/lib/cards";
+
+/** 与 /api/export/apkg?format=tsv 输出格式一致 */
+const ANKI_EXPORT = [
+	"#separator:tab",
+	"#html:true",
+	"#notetype column:3",
+	"#tags column:4",
+	"#columns:Front\tBack\tNotetype\tTags",
+	"2 + 2?\t4\tBasic\tmath",
+	"cat\t猫<br>(noun)\tBasic (and reversed card)\tlang animals",
+	"{{c1::Paris}} is in France.\t\tCloze\t",
+	"Symbol for gold?\tAu\tBasic (type in the answer)\tchem",
+].join("\n");
+
+describe("parseDelimitedText", () => {
+	it("应读取 Anki 文件头", () => {
+		const parsed = parseDelimitedText(ANKI_EXPORT);
+
+		expect(parsed.separator).toBe("tab");
+		expect(parsed.html).toBe(true);
+		expect(parsed.columns).toEqual(["Front", "Back", "Notetype", "Tags"]);
+		expect(parsed.notetypeColumn).toBe(2);
+		expect(parsed.tagsColumn).toBe(3);
+		expect(parsed.rows).toHaveLength(4);
+	});
+
+	it("应解析带引号的 CSV 字段", () => {
+		const parsed = parseDelimitedText(
+			'"Hello, world"\t"He said ""hi"""\n"multi\nline"\tback',
+			{ separator: "tab" }
+		);
+
+		expect(parsed.rows).toEqual([
+			["Hello, world", 'He said "hi"'],
+			["multi\nline", "back"],
+		]);
+	});
+
+	it("应自动检测分隔符", () => {
+		expect(detectSeparator("a,b\nc,d")).toBe("comma");
+		expect(detectSeparator("a;b,c\nd;e")).toBe("semicolon");
+		expect(detectSeparator("term\tdefinition, with comma")).toBe("tab");
+	});
+
+	it("应识别表头行", () => {
+		const parsed = parseDelimitedText("Term,Definition\nchien,dog\n");
+
+		expect(parsed.columns).toEqual(["Term", "Definition"]);
+		expect(parsed.rows).toEqual([["chien", "dog"]]);
+		expect(
+			parseDelimitedText("Term,Definition\nchien,dog", {
+				hasHeaderRow: false,
+			}).rows
+		).toHaveLength(2);
+	});
+});
+
+describe("mapRowsToCards", () => {
+	it("Anki 文本导出应无损往返", () => {
+		const parsed = parseDelimitedText(ANKI_EXPORT);
+		const { cards, errors } = mapRowsToCards(
+			parsed,
+			guessColumnMapping(parsed)
+		);
+
+		expect(errors).toEqual([]);
+		expect(cards.map((c) => c.content)).toEqual([
+			{ cardType: "basic", front: "2 + 2?", back: "4", options: null },
+			{
+				cardType: "basic_reverse",
+				front: "cat",
+				back: "猫\n(noun)",
+				options: null,
+			},
+			{
+				cardType: "cloze",
+				front: "{{c1::Paris}} is in France.",
+				back: "",
+				options: null,
+			},
+			{
+				cardType: "type_answer",
+				front: "Symbol for gold?",
+				back: "Au",
+				options: null,
+			},
+		]);
+		expect(cards[1]?.tags).toEqual(["lang", "animals"]);
+	});
+
+	it("多选题导出为 Basic 笔记后应还原选项", () => {
+		const choice: CardContent = {
+			cardType: "multiple_choice",
+			front: "Largest planet?",
+			back: "Jupiter",
+			options: ["Earth", "Mars"],
+		};
+		const note = toAnkiNote(choice);
+		const parsed = parseDelimitedText(
+			[
+				...ANKI_EXPORT.split("\n").slice(0, 5),
+				`${note.fields.join("\t")}\t${note.model}\tastro`,
+				'Pick one<ol type="A"><li>x</li><li>y</li></ol>\tz\tBasic\t',
+			].join("\n")
+		);
+
+		const { cards, errors } = mapRowsToCards(
+			parsed,
+			guessColumnMapping(parsed),
+			["largest planet?"]
+		);
+
+		expect(errors).toEqual([]);
+		expect(cards[0]?.content).toEqual(choice);
+		expect(cards[0]?.duplicate).toBe("existing");
+		// 背面不是列表中的选项时按普通问答卡导入
+		expect(cards[1]?.content.cardType).toBe("basic");
+	});
+
+	it("多选题选项中的 HTML 字符应转义并在导入时还原", () => {
+		const choice: CardContent = {
+			cardType: "multiple_choice",
+			front: "Which comparison holds for a = 1, b = 2?",
+			back: "a < b",
+			options: ["</li>", "a & b are equal", "a > b"],
+		};
+		const note = toAnkiNote(choice);
+		const parsed = parseDelimitedText(
+			[
+				...ANKI_EXPORT.split("\n").slice(0, 5),
+				`${note.fields.join("\t")}\t${note.model}\t`,
+			].join("\n")
+		);
+
+		const { cards, errors } = mapRowsToCards(
+			parsed,
+			guessColumnMapping(parsed),
+			[]
+		);
+
+		expect(note.fields[0]).toContain("<li>a &lt; b</li>");
+		expect(note.fields[0]).toContain("<li>&lt;/li&gt;</li>");
+		expect(errors).toEqual([]);
+		expect(cards[0]?.content).toEqual(choice);
+	});
+
+	it("应按列映射导入并检测重复", () => {
+		const parsed = parseDelimitedText(
+			"dog\tchien\nCat\tchat\ndog\tchien (m)\n\tempty"
+		);
+		const { cards, errors } = mapRowsToCards(
+			parsed,
+			{ front: 1, back: 0, tags: null, notetype: null },
+			["<b>chat</b>"]
+		);
+
+		expect(cards.map((c) => [c.content.front, c.duplicate])).toEqual([
+			["chien", null],
+			["chat", "existing"],
+			["chien (m)", null],
+		]);
+		expect(errors).toEqual([{ row: 4, reason: "Back content is required" }]);
+	});
+
+	it("文件内重复的行应标记为 file", () => {
+		const parsed = parseDelimitedText("a,1\nA ,2");
+		const { cards } = mapRowsToCards(parsed, guessColumnMapping(parsed));
+
+		expect(cards.map((c) => c.duplicate)).toEqual([null, "file"]);
+	});
+});
@@ -0,0 +1,176 @@
+/**
+ * 卡片类型单元测试
+ *
+ * 测试范围：
+ * - parseClozeSegments / getClozeOrdinals / renderCloze: 填空语法解析与渲染
+ * - normalizeCardContent: AI 输出规范化与类型降级
+ * - validateCardContent: 按类型校验
+ * - toAnkiNote / toBasicPairs: Anki 模板映射、卡片图片
+ * - getStudyVariant: 双向卡和多填空卡轮换
+ *
+ * 注意：纯函数测试，不访问数据库
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+	getClozeOrdinals,
+	getStudyVariant,
+	normalizeCardContent,
+	parseClozeSegments,
+	renderCloze,
+	toAnkiNote,
+	toBasicPairs,
+	validateCardContent,
+} from "@/lib/cards";
+
+const CLOZE_TEXT = "{{c1::Paris}} is the capital of {{c2::France::country}}.";
+
+describe("cloze", () => {
+	it("应解析填空片段和提示", () => {
+		const segments = parseClozeSegments(CLOZE_TEXT);
+
+		expect(segments).toHaveLength(4);
+		expect(segments[2]).toEqual({
+			type: "cloze",
+			ordinal: 2,
+			answer: "France",
+			hint: "country",
+		});
+		expect(getClozeOrdinals(CLOZE_TEXT)).toEqual([1, 2]);
+	});
+
+	it("问题面只遮挡当前编号，答案面显示全部", () => {
+		expect(renderCloze(CLOZE_TEXT, 1, false)).toBe(
+			"[...] is the capital of France."
+		);
+		expect(renderCloze(CLOZE_TEXT, 2, false)).toBe(
+			"Paris is the capital of [country]."
+		);
+		expect(renderCloze(CLOZE_TEXT, null, false)).toBe(
+			"[...] is the capital of [country]."
+		);
+		expect(renderCloze(CLOZE_TEXT, 1, true)).toBe(
+			"Paris is the capital of France."
+		);
+	});
+});
+
+describe("normalizeCardContent", () => {
+	it("未知类型和缺少填空语法的 cloze 应降级为 basic", () => {
+		expect(
+			normalizeCardContent({ cardType: "unknown", front: "Q", back: "A" })
+				?.cardType
+		).toBe("basic");
+		expect(
+			normalizeCardContent({ cardType: "cloze", front: "Q", back: "A" })
+				?.cardType
+		).toBe("basic");
+	});
+
+	it("不在允许列表中的类型应降级为 basic", () => {
+		const card = normalizeCardContent(
+			{ cardType: "type_answer", front: "Q", back: "A" },
+			["basic", "cloze"]
+		);
+		expect(card?.cardType).toBe("basic");
+	});
+
+	it("选择题应去除与答案重复的干扰项", () => {
+		const card = normalizeCardContent({
+			cardType: "multiple_choice",
+			front: "2 + 2 = ?",
+			back: "4",
+			options: ["3", "4", " 5 ", 6],
+		});
+
+		expect(card?.cardType).toBe("multiple_choice");
+		expect(card?.options).toEqual(["3", "5"]);
+	});
+
+	it("填空卡允许背面为空，其他类型缺少背面时丢弃", () => {
+		expect(
+			normalizeCardContent({ cardType: "cloze", front: CLOZE_TEXT })
+		).not.toBeNull();
+		expect(normalizeCardContent({ cardType: "basic", front: "Q" })).toBeNull();
+	});
+});
+
+describe("validateCardContent", () => {
+	it("选择题缺少干扰项应报错", () => {
+		expect(
+			validateCardContent({
+				cardType: "multiple_choice",
+				front: "Q",
+				back: "A",
+				options: [" "],
+			})
+		).not.toBeNull();
+	});
+});
+
+describe("Anki 映射", () => {
+	it("各类型应映射到对应的 Anki 模板", () => {
+		expect(
+			toAnkiNote({ cardType: "basic_reverse", front: "a", back: "b" }).model
+		).toBe("Basic (and reversed card)");
+		expect(
+			toAnkiNote({ cardType: "cloze", front: CLOZE_TEXT, back: "" }).model
+		).toBe("Cloze");
+		expect(
+			toAnkiNote({ cardType: "type_answer", front: "a", back: "b" }).model
+		).toBe("Basic (type in the answer)");
+	});
+
+	it("卡片图片应该追加到所在一面的字段", () => {
+		const image = {
+			src: "/image-proxy/uploads/figures/u1/t1/figure-1.png",
+			alt: 'The "heart"',
+		};
+
+		expect(
+			toAnkiNote({
+				cardType: "basic",
+				front: "Label the chamber",
+				back: "Left ventricle",
+				image: { ...image, side: "front" },
+			}).fields,
+		).toEqual([
+			'Label the chamber<br><img src="/image-proxy/uploads/figures/u1/t1/figure-1.png" alt="The &quot;heart&quot;">',
+			"Left ventricle",
+		]);
+		expect(
+			toAnkiNote({
+				cardType: "cloze",
+				front: CLOZE_TEXT,
+				back: "",
+				image: { ...image, side: "back" },
+			}).fields[1],
+		).toMatch(/^<img src=/);
+	});
+
+	it("展开为问答对时双向卡生成两张，填空卡按编号生成", () => {
+		expect(
+			toBasicPairs({ cardType: "basic_reverse", front: "a", back: "b" })
+		).toEqual([
+			{ front: "a", back: "b" },
+			{ front: "b", back: "a" },
+		]);
+		expect(
+			toBasicPairs({ cardType: "cloze", front: CLOZE_TEXT, back: "" })
+		).toHaveLength(2);
+	});
+});
+
+describe("getStudyVariant", () => {
+	it("双向卡按复习次数交替方向，多填空卡轮换编号", () => {
+		const reverse = { cardType: "basic_reverse" as const, front: "a" };
+		expect(getStudyVariant(reverse, 0).reversed).toBe(false);
+		expect(getStudyVariant(reverse, 1).reversed).toBe(true);
+
+		const cloze = { cardType: "cloze" as const, front: CLOZE_TEXT };
+		expect(getStudyVariant(cloze, 0).clozeOrdinal).toBe(1);
+		expect(getStudyVariant(cloze, 1).clozeOrdinal).toBe(2);
+		expect(getStudyVariant(cloze, 2).clozeOrdinal).toBe(1);
+	});
+});
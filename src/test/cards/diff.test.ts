@@ -0,0 +1,63 @@
+/**
+ * 卡片文本对比单元测试
+ *
+ * 测试范围：
+ * - diffText: 逐词差异、片段合并、可还原原文和新文本
+ *
+ * 注意：纯函数测试，不访问数据库
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { diffText, type TextDiffSegment } from "@/lib/cards";
+
+function rebuild(
+	segments: TextDiffSegment[],
+	side: "before" | "after",
+): string {
+	const skip = side === "before" ? "added" : "removed";
+	return segments
+		.filter((segment) => segment.type !== skip)
+		.map((segment) => segment.text)
+		.join("");
+}
+
+describe("diffText", () => {
+	it("相同文本应该只有一个未变化片段", () => {
+		expect(diffText("The cell", "The cell")).toEqual([
+			{ type: "equal", text: "The cell" },
+		]);
+	});
+
+	it("应该标出替换的词", () => {
+		expect(diffText("The big cat", "The small cat")).toEqual([
+			{ type: "equal", text: "The " },
+			{ type: "removed", text: "big" },
+			{ type: "added", text: "small" },
+			{ type: "equal", text: " cat" },
+		]);
+	});
+
+	it("应该合并相邻的同类片段", () => {
+		const segments = diffText("a", "a b c d");
+		expect(segments).toEqual([
+			{ type: "equal", text: "a" },
+			{ type: "added", text: " b c d" },
+		]);
+	});
+
+	it("片段应该能还原原文和新文本", () => {
+		const before = "Mitochondria produce ATP for the cell.";
+		const after = "The mitochondria produce most of the cell's ATP.";
+		const segments = diffText(before, after);
+
+		expect(rebuild(segments, "before")).toBe(before);
+		expect(rebuild(segments, "after")).toBe(after);
+	});
+
+	it("空文本应该全部为新增或删除", () => {
+		expect(diffText("", "new")).toEqual([{ type: "added", text: "new" }]);
+		expect(diffText("old", "")).toEqual([{ type: "removed", text: "old" }]);
+		expect(diffText("", "")).toEqual([]);
+	});
+});
@@ -0,0 +1,216 @@
+/**
+ * 积分预扣（生成任务计费）集成测试
+ *
+ * 测试范围：
+ * - reserveCredits: 预扣积分（FIFO 扣除，按引用幂等）
+ * - captureCredits: 确认预扣
+ * - releaseCredits: 退回预扣（恢复批次和余额，记录退款交易）
+ */
+
+import { afterAll, describe, expect, it } from "vitest";
+import {
+	cleanupTestUsers,
+	createTestUserWithCredits,
+	daysFromNow,
+	generateTestId,
+	getUserCreditsState,
+} from "../utils";
+
+import {
+	captureCredits,
+	InsufficientCreditsError,
+	releaseCredits,
+	reserveCredits,
+} from "@/features/credits/core";
+
+// 收集测试中创建的用户 ID，用于清理
+const createdUserIds: string[] = [];
+
+// 测试后清理
+afterAll(async () => {
+	await cleanupTestUsers(createdUserIds);
+});
+
+// ============================================
+// reserveCredits 测试
+// ============================================
+
+describe("reserveCredits", () => {
+	it("应该扣除余额并记录消费交易", async () => {
+		const { user } = await createTestUserWithCredits({
+			initialCredits: 100,
+		});
+		createdUserIds.push(user.id);
+
+		const hold = await reserveCredits({
+			userId: user.id,
+			amount: 30,
+			serviceName: "flashcard_generation",
+			reference: generateTestId("hold"),
+		});
+
+		expect(hold.status).toBe("held");
+		expect(hold.amount).toBe(30);
+
+		const state = await getUserCreditsState(user.id);
+		expect(state.balance?.balance).toBe(70);
+		expect(state.balance?.totalSpent).toBe(30);
+		expect(state.batches[0]?.remaining).toBe(70);
+
+		const consumption = state.transactions.find(
+			(t) => t.id === hold.transactionId
+		);
+		expect(consumption?.type).toBe("consumption");
+		expect(consumption?.creditAccount).toBe("SERVICE:flashcard_generation");
+	});
+
+	it("同一引用重复预扣时应该只扣一次", async () => {
+		const { user } = await createTestUserWithCredits({
+			initialCredits: 100,
+		});
+		createdUserIds.push(user.id);
+
+		const reference = generateTestId("hold");
+		const params = {
+			userId: user.id,
+			amount: 40,
+			serviceName: "flashcard_generation",
+			reference,
+		};
+
+		const first = await reserveCredits(params);
+		const second = await reserveCredits(params);
+
+		expect(second.holdId).toBe(first.holdId);
+
+		const state = await getUserCreditsState(user.id);
+		expect(state.balance?.balance).toBe(60);
+		expect(
+			state.transactions.filter((t) => t.type === "consumption")
+		).toHaveLength(1);
+	});
+
+	it("余额不足时应该抛出错误且不创建预扣", async () => {
+		const { user } = await createTestUserWithCredits({
+			initialCredits: 10,
+		});
+		createdUserIds.push(user.id);
+
+		const reference = generateTestId("hold");
+		await expect(
+			reserveCredits({
+				userId: user.id,
+				amount: 50,
+				serviceName: "flashcard_generation",
+				reference,
+			})
+		).rejects.toThrow(InsufficientCreditsError);
+
+		expect(await releaseCredits(reference)).toBeNull();
+
+		const state = await getUserCreditsState(user.id);
+		expect(state.balance?.balance).toBe(10);
+	});
+});
+
+// ============================================
+// captureCredits 测试
+// ============================================
+
+describe("captureCredits", () => {
+	it("确认后不能再退回", async () => {
+		const { user } = await createTestUserWithCredits({
+			initialCredits: 100,
+		});
+		createdUserIds.push(user.id);
+
+		const reference = generateTestId("hold");
+		await reserveCredits({
+			userId: user.id,
+			amount: 25,
+			serviceName: "flashcard_generation",
+			reference,
+		});
+
+		expect(await captureCredits(reference)).toBe(true);
+		expect(await captureCredits(reference)).toBe(false);
+		expect(await releaseCredits(reference)).toBeNull();
+
+		const state = await getUserCreditsState(user.id);
+		expect(state.balance?.balance).toBe(75);
+	});
+});
+
+// ============================================
+// releaseCredits 测试
+// ============================================
+
+describe("releaseCredits", () => {
+	it("应该退回原批次并记录退款交易", async () => {
+		const { user, batches } = await createTestUserWithCredits({
+			creditBatches: [
+				{ amount: 20, expiresAt: daysFromNow(10) },
+				{ amount: 100, expiresAt: daysFromNow(60) },
+			],
+		});
+		createdUserIds.push(user.id);
+
+		const reference = generateTestId("hold");
+		const hold = await reserveCredits({
+			userId: user.id,
+			amount: 50,
+			serviceName: "flashcard_generation",
+			reference,
+			metadata: { taskId: "task_1" },
+		});
+
+		const refundId = await releaseCredits(reference, "No flashcards");
+		expect(refundId).toBeTruthy();
+
+		const state = await getUserCreditsState(user.id);
+		expect(state.balance?.balance).toBe(120);
+		expect(state.balance?.totalSpent).toBe(0);
+
+		// 批次恢复为预扣前的剩余量
+		for (const batch of batches) {
+			const restored = state.batches.find((b) => b.id === batch.id);
+			expect(restored?.remaining).toBe(batch.amount);
+			expect(restored?.status).toBe("active");
+		}
+
+		const refund = state.transactions.find((t) => t.id === refundId);
+		expect(refund?.type).toBe("refund");
+		expect(refund?.amount).toBe(50);
+		expect(refund?.debitAccount).toBe("SERVICE:flashcard_generation");
+		expect(refund?.creditAccount).toBe(`WALLET:${user.id}`);
+		expect(refund?.metadata).toMatchObject({
+			taskId: "task_1",
+			holdReference: reference,
+			refundedTransactionId: hold.transactionId,
+		});
+	});
+
+	it("重复退回时应该只退一次", async () => {
+		const { user } = await createTestUserWithCredits({
+			initialCredits: 100,
+		});
+		createdUserIds.push(user.id);
+
+		const reference = generateTestId("hold");
+		await reserveCredits({
+			userId: user.id,
+			amount: 30,
+			serviceName: "flashcard_generation",
+			reference,
+		});
+
+		expect(await releaseCredits(reference)).toBeTruthy();
+		expect(await releaseCredits(reference)).toBeNull();
+
+		const state = await getUserCreditsState(user.id);
+		expect(state.balance?.balance).toBe(100);
+		expect(state.transactions.filter((t) => t.type === "refund")).toHaveLength(
+			1
+		);
+	});
+});
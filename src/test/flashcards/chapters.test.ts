@@ -0,0 +1,130 @@
+/**
+ * 文档章节生成记录集成测试
+ *
+ * 测试范围：
+ * - getGeneratedChapters: 汇总原任务和追加子任务的章节、忽略失败子任务、
+ *   按页码范围生成的原任务换算为所覆盖的章节
+ */
+
+import { afterAll, describe, expect, it } from "vitest";
+
+import { generationTask } from "@/db/schema";
+import { getGeneratedChapters } from "@/features/flashcards/chapters";
+import type { DocumentOutline, PageRange } from "@/lib/ai/outline";
+import {
+	cleanupTestUsers,
+	createTestUser,
+	generateTestId,
+	testDb,
+} from "../utils";
+
+// 收集测试中创建的用户 ID，用于清理
+const createdUserIds: string[] = [];
+
+afterAll(async () => {
+	await cleanupTestUsers(createdUserIds);
+});
+
+/**
+ * 创建测试任务
+ */
+async function createTestTask(
+	userId: string,
+	options: {
+		status: "completed" | "generating" | "failed";
+		selectedChapters: number[];
+		selectedPages?: PageRange[];
+		documentOutline?: DocumentOutline;
+		parentTaskId?: string;
+	},
+) {
+	const id = generateTestId("task");
+	await testDb.insert(generationTask).values({
+		id,
+		userId,
+		status: options.status,
+		sourceType: "file",
+		creditsCost: 5,
+		selectedChapters: options.selectedChapters,
+		selectedPages: options.selectedPages ?? null,
+		documentOutline: options.documentOutline ?? null,
+		parentTaskId: options.parentTaskId ?? null,
+	});
+	return id;
+}
+
+describe("getGeneratedChapters", () => {
+	it("汇总原任务和追加子任务的章节，并按索引排序", async () => {
+		const owner = await createTestUser();
+		createdUserIds.push(owner.id);
+		const rootId = await createTestTask(owner.id, {
+			status: "completed",
+			selectedChapters: [2, 0],
+		});
+		await createTestTask(owner.id, {
+			status: "generating",
+			selectedChapters: [3, 1],
+			parentTaskId: rootId,
+		});
+
+		const chapters = await getGeneratedChapters([rootId]);
+
+		expect(chapters.get(rootId)).toEqual([0, 1, 2, 3]);
+	});
+
+	it("失败的追加子任务的章节可以重新选择", async () => {
+		const owner = await createTestUser();
+		createdUserIds.push(owner.id);
+		const rootId = await createTestTask(owner.id, {
+			status: "completed",
+			selectedChapters: [0],
+		});
+		await createTestTask(owner.id, {
+			status: "failed",
+			selectedChapters: [1],
+			parentTaskId: rootId,
+		});
+
+		const chapters = await getGeneratedChapters([rootId]);
+
+		expect(chapters.get(rootId)).toEqual([0]);
+	});
+
+	it("按页码范围生成的原任务应该换算为所选页覆盖的章节", async () => {
+		const owner = await createTestUser();
+		createdUserIds.push(owner.id);
+		// 三章各占一页
+		const range = (start: number) => ({ start, end: start + 100 });
+		const outline: DocumentOutline = {
+			totalPages: 3,
+			totalTokens: 75,
+			chapters: [0, 1, 2].map((index) => ({
+				index,
+				title: `Chapter ${index + 1}`,
+				summary: "",
+				startPage: index + 1,
+				endPage: index + 1,
+				estimatedTokens: 25,
+				textRange: range(index * 100),
+			})),
+			pages: [0, 1, 2].map((index) => ({
+				estimatedTokens: 25,
+				textRange: range(index * 100),
+			})),
+		};
+		const rootId = await createTestTask(owner.id, {
+			status: "completed",
+			selectedChapters: [],
+			selectedPages: [{ start: 1, end: 2 }],
+			documentOutline: outline,
+		});
+
+		const chapters = await getGeneratedChapters([rootId]);
+
+		expect(chapters.get(rootId)).toEqual([0, 1]);
+	});
+
+	it("没有任务 ID 时返回空结果", async () => {
+		expect((await getGeneratedChapters([])).size).toBe(0);
+	});
+});
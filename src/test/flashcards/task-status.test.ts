@@ -0,0 +1,208 @@
+/**
+ * 生成任务状态集成测试
+ *
+ * 测试范围：
+ * - getUserTask: 只能查询自己的任务
+ * - getChunkPreviews: 分块预览截取、跳过已推送分块、重试成功的分块重新推送
+ * - updateChunkProgress: 按分块记录统计进度、重复调用结果一致
+ */
+
+import { eq } from "drizzle-orm";
+import { afterAll, describe, expect, it } from "vitest";
+
+import { generationChunk, generationTask } from "@/db/schema";
+import {
+	CHUNK_PREVIEW_CARD_COUNT,
+	getChunkPreviews,
+	getUserTask,
+	updateChunkProgress,
+} from "@/features/flashcards/task-status";
+import {
+	cleanupTestUsers,
+	createTestUser,
+	generateTestId,
+	testDb,
+} from "../utils";
+
+// 收集测试中创建的用户 ID，用于清理
+const createdUserIds: string[] = [];
+
+afterAll(async () => {
+	await cleanupTestUsers(createdUserIds);
+});
+
+/**
+ * 创建测试任务
+ */
+async function createTestTask(userId: string) {
+	const id = generateTestId("task");
+	await testDb.insert(generationTask).values({
+		id,
+		userId,
+		status: "generating",
+		sourceType: "file",
+		creditsCost: 5,
+		totalChunks: 3,
+		completedChunks: 2,
+	});
+	return id;
+}
+
+describe("getUserTask", () => {
+	it("任务所有者可以查询", async () => {
+		const owner = await createTestUser();
+		createdUserIds.push(owner.id);
+		const taskId = await createTestTask(owner.id);
+
+		const task = await getUserTask(taskId, owner.id);
+
+		expect(task?.id).toBe(taskId);
+	});
+
+	it("其他用户查询时按不存在处理", async () => {
+		const owner = await createTestUser();
+		const other = await createTestUser();
+		createdUserIds.push(owner.id, other.id);
+		const taskId = await createTestTask(owner.id);
+
+		expect(await getUserTask(taskId, other.id)).toBeUndefined();
+	});
+});
+
+describe("getChunkPreviews", () => {
+	it("按分块顺序返回预览，并截取前几张卡片", async () => {
+		const owner = await createTestUser();
+		createdUserIds.push(owner.id);
+		const taskId = await createTestTask(owner.id);
+
+		const cards = Array.from({ length: 5 }, (_, i) => ({
+			cardType: "basic" as const,
+			front: `Question ${i}`,
+			back: `Answer ${i}`,
+		}));
+		await testDb.insert(generationChunk).values([
+			{
+				id: generateTestId("chunk"),
+				taskId,
+				chunkIndex: 1,
+				status: "failed",
+				errorMessage: "Rate limited",
+			},
+			{
+				id: generateTestId("chunk"),
+				taskId,
+				chunkIndex: 0,
+				status: "completed",
+				cardCount: cards.length,
+				cards,
+			},
+		]);
+
+		const previews = await getChunkPreviews(taskId);
+
+		expect(previews.map((p) => p.chunkIndex)).toEqual([0, 1]);
+		expect(previews[0]?.cardCount).toBe(5);
+		expect(previews[0]?.cards).toHaveLength(CHUNK_PREVIEW_CARD_COUNT);
+		expect(previews[1]).toMatchObject({
+			status: "failed",
+			cardCount: 0,
+			cards: [],
+			errorMessage: "Rate limited",
+		});
+
+		const remaining = await getChunkPreviews(
+			taskId,
+			new Map([[0, "completed"]]),
+		);
+		expect(remaining.map((p) => p.chunkIndex)).toEqual([1]);
+	});
+
+	it("失败分块重试成功后应该再次返回", async () => {
+		const owner = await createTestUser();
+		createdUserIds.push(owner.id);
+		const taskId = await createTestTask(owner.id);
+
+		await testDb.insert(generationChunk).values({
+			id: generateTestId("chunk"),
+			taskId,
+			chunkIndex: 0,
+			status: "failed",
+			errorMessage: "Rate limited",
+		});
+		const sent = new Map([[0, "failed" as const]]);
+		expect(await getChunkPreviews(taskId, sent)).toEqual([]);
+
+		await testDb
+			.update(generationChunk)
+			.set({
+				status: "completed",
+				cardCount: 1,
+				cards: [{ cardType: "basic", front: "Q", back: "A" }],
+				errorMessage: null,
+			})
+			.where(eq(generationChunk.taskId, taskId));
+
+		const previews = await getChunkPreviews(taskId, sent);
+		expect(previews).toMatchObject([
+			{ chunkIndex: 0, status: "completed", cardCount: 1 },
+		]);
+	});
+});
+
+describe("updateChunkProgress", () => {
+	it("按分块记录统计已完成和失败的分块数", async () => {
+		const owner = await createTestUser();
+		createdUserIds.push(owner.id);
+		const taskId = await createTestTask(owner.id);
+
+		await testDb.insert(generationChunk).values([
+			{
+				id: generateTestId("chunk"),
+				taskId,
+				chunkIndex: 0,
+				status: "completed",
+				cards: [],
+			},
+			{
+				id: generateTestId("chunk"),
+				taskId,
+				chunkIndex: 2,
+				status: "failed",
+				errorMessage: "Rate limited",
+			},
+		]);
+
+		// 重复调用（分块步骤重试）不会重复计数
+		await updateChunkProgress(taskId);
+		const progress = await updateChunkProgress(taskId);
+
+		expect(progress).toEqual({ completedChunks: 1, failedChunks: 1 });
+		const task = await testDb.query.generationTask.findFirst({
+			where: eq(generationTask.id, taskId),
+		});
+		expect(task).toMatchObject({ completedChunks: 1, failedChunks: 1 });
+	});
+
+	it("失败分块重新生成成功后不再计为失败", async () => {
+		const owner = await createTestUser();
+		createdUserIds.push(owner.id);
+		const taskId = await createTestTask(owner.id);
+
+		await testDb.insert(generationChunk).values({
+			id: generateTestId("chunk"),
+			taskId,
+			chunkIndex: 0,
+			status: "failed",
+			errorMessage: "Rate limited",
+		});
+		await testDb
+			.update(generationChunk)
+			.set({ status: "completed", errorMessage: null })
+			.where(eq(generationChunk.taskId, taskId));
+
+		expect(await updateChunkProgress(taskId)).toEqual({
+			completedChunks: 1,
+			failedChunks: 0,
+		});
+	});
+});
@@ -0,0 +1,371 @@
+/**
+ * 其他文档格式解析单元测试
+ *
+ * 测试范围：
+ * - parseEpubDocument: 按 spine 顺序拼接章节、目录标题层级和位置
+ * - parsePptxDocument: 幻灯片顺序、标题、演讲者备注、每页一个分页
+ * - openArchive: 解压后大小超过上限的压缩包（压缩炸弹）
+ * - parseHtmlDocument: 提取正文、页面标题作为一级标题
+ * - parseSubtitleDocument: 去掉时间轴、按停顿合并段落
+ * - file-types: 扩展名 / MIME 类型识别、上传 Content-Type
+ * - 文档插图: 幻灯片图片提取、图片收集器的类型和数量限制、插图引用查找、PNG 编码
+ */
+
+import { inflateSync } from "node:zlib";
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+
+import { MAX_ARCHIVE_ENTRY_BYTES } from "@/lib/parsers/archive";
+import { parseEpubDocument } from "@/lib/parsers/epub";
+import {
+	getFileTypeFromMime,
+	getFileTypeFromName,
+	getFileTypeLabel,
+	resolveUploadContentType,
+} from "@/lib/parsers/file-types";
+import {
+	createFigureCollector,
+	findFigureReferences,
+	MAX_DOCUMENT_IMAGES,
+} from "@/lib/parsers/figures";
+import { parseHtmlDocument } from "@/lib/parsers/html";
+import { encodePng } from "@/lib/parsers/png";
+import { parsePptxDocument } from "@/lib/parsers/pptx";
+import { parseSubtitleDocument } from "@/lib/parsers/subtitles";
+
+function xhtml(body: string): string {
+	return `<?xml version="1.0" encoding="UTF-8"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>Book</title></head><body>${body}</body></html>`;
+}
+
+async function buildEpub(): Promise<Buffer> {
+	const zip = new JSZip();
+	zip.file("mimetype", "application/epub+zip");
+	zip.file(
+		"META-INF/container.xml",
+		'<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>',
+	);
+	zip.file(
+		"OEBPS/content.opf",
+		[
+			"<package><manifest>",
+			'<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+			'<item id="cover" href="text/cover.xhtml" media-type="application/xhtml+xml"/>',
+			'<item id="ch1" href="text/chapter%201.xhtml" media-type="application/xhtml+xml"/>',
+			'<item id="ch2" href="text/chapter2.xhtml" media-type="application/xhtml+xml"/>',
+			"</manifest><spine>",
+			'<itemref idref="cover" linear="no"/>',
+			'<itemref idref="ch2"/>',
+			'<itemref idref="ch1"/>',
+			"</spine></package>",
+		].join(""),
+	);
+	zip.file(
+		"OEBPS/nav.xhtml",
+		xhtml(
+			[
+				'<nav epub:type="toc"><ol>',
+				'<li><a href="text/chapter2.xhtml">Cells</a>',
+				'<ol><li><a href="text/chapter2.xhtml#membrane">The Membrane</a></li></ol></li>',
+				'<li><a href="text/chapter%201.xhtml">Plants</a></li>',
+				"</ol></nav>",
+			].join(""),
+		),
+	);
+	zip.file("OEBPS/text/cover.xhtml", xhtml("<p>Cover page text</p>"));
+	zip.file(
+		"OEBPS/text/chapter2.xhtml",
+		xhtml(
+			"<h1>Cells</h1><p>Cells are the basic unit of life.</p><h2 id=\"membrane\">The Membrane</h2><p>The membrane protects the cell.</p>",
+		),
+	);
+	zip.file(
+		"OEBPS/text/chapter 1.xhtml",
+		xhtml("<h1>Plants</h1><p>Plants make food from sunlight.</p>"),
+	);
+	return zip.generateAsync({ type: "nodebuffer" });
+}
+
+const PIXEL_PNG = encodePng(new Uint8Array([255, 0, 0, 255]), 1, 1, 4);
+
+function slide(title: string, body: string[], pictures = ""): string {
+	return [
+		"<p:sld><p:cSld><p:spTree>",
+		`<p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>${title}</a:t></a:r></a:p></p:txBody></p:sp>`,
+		`<p:sp><p:nvSpPr><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr><p:txBody>${body.map((line) => `<a:p><a:r><a:t>${line}</a:t></a:r></a:p>`).join("")}</p:txBody></p:sp>`,
+		pictures,
+		"</p:spTree></p:cSld></p:sld>",
+	].join("");
+}
+
+function picture(relationshipId: string, description: string): string {
+	return `<p:pic><p:nvPicPr><p:cNvPr id="4" name="Picture 3" descr="${description}"/></p:nvPicPr><p:blipFill><a:blip r:embed="${relationshipId}"/></p:blipFill></p:pic>`;
+}
+
+async function buildPptx(): Promise<Buffer> {
+	const zip = new JSZip();
+	zip.file(
+		"ppt/presentation.xml",
+		'<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/></p:sldIdLst></p:presentation>',
+	);
+	zip.file(
+		"ppt/_rels/presentation.xml.rels",
+		[
+			"<Relationships>",
+			'<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide1.xml"/>',
+			'<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide2.xml"/>',
+			"</Relationships>",
+		].join(""),
+	);
+	zip.file(
+		"ppt/slides/slide2.xml",
+		slide(
+			"Photosynthesis",
+			["Light reactions", "Calvin cycle &amp; sugars"],
+			picture("rId2", "Chloroplast diagram") + picture("rId3", "Legacy clip art"),
+		),
+	);
+	zip.file(
+		"ppt/slides/_rels/slide2.xml.rels",
+		[
+			"<Relationships>",
+			'<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide" Target="../notesSlides/notesSlide1.xml"/>',
+			'<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="../media/image1.png"/>',
+			'<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="../media/image2.emf"/>',
+			"</Relationships>",
+		].join(""),
+	);
+	zip.file("ppt/media/image1.png", PIXEL_PNG);
+	zip.file("ppt/media/image2.emf", "not an image browsers can show");
+	zip.file(
+		"ppt/notesSlides/notesSlide1.xml",
+		[
+			"<p:notes><p:cSld><p:spTree>",
+			'<p:sp><p:nvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>Mention chlorophyll.</a:t></a:r></a:p></p:txBody></p:sp>',
+			'<p:sp><p:nvSpPr><p:nvPr><p:ph type="sldNum" idx="5"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>1</a:t></a:r></a:p></p:txBody></p:sp>',
+			"</p:spTree></p:cSld></p:notes>",
+		].join(""),
+	);
+	zip.file("ppt/slides/slide1.xml", slide("Respiration", ["Glycolysis"]));
+	return zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("parseEpubDocument", () => {
+	it("应该按 spine 顺序拼接章节并跳过非线性内容", async () => {
+		const { text } = await parseEpubDocument(await buildEpub());
+
+		expect(text).not.toContain("Cover page text");
+		expect(text.indexOf("# Cells")).toBeLessThan(text.indexOf("# Plants"));
+		expect(text).toContain("Plants make food from sunlight.");
+	});
+
+	it("应该使用目录中的标题层级并定位到正文", async () => {
+		const { text, headings, pageOffsets } = await parseEpubDocument(
+			await buildEpub(),
+		);
+
+		expect(headings.map((h) => [h.level, h.title])).toEqual([
+			[1, "Cells"],
+			[2, "The Membrane"],
+			[1, "Plants"],
+		]);
+		for (const heading of headings) {
+			expect(text.slice(heading.offset, heading.offset + 40)).toContain(
+				heading.title,
+			);
+		}
+		expect(pageOffsets).toBeNull();
+	});
+
+	it("不是 EPUB 时应该报错", async () => {
+		const zip = new JSZip();
+		zip.file("readme.txt", "hello");
+		const buffer = await zip.generateAsync({ type: "nodebuffer" });
+
+		await expect(parseEpubDocument(buffer)).rejects.toThrow(
+			"Failed to parse EPUB",
+		);
+	});
+});
+
+describe("parsePptxDocument", () => {
+	it("应该按演示文稿顺序提取幻灯片和演讲者备注", async () => {
+		const { text, headings, pageOffsets } = await parsePptxDocument(
+			await buildPptx(),
+		);
+
+		expect(headings.map((h) => h.title)).toEqual([
+			"Slide 1: Photosynthesis",
+			"Slide 2: Respiration",
+		]);
+		expect(text).toContain("Calvin cycle & sugars");
+		expect(text).toContain("Speaker notes: Mention chlorophyll.");
+		// 页码占位符不算备注
+		expect(text).not.toMatch(/Speaker notes:.*\b1\b/);
+		expect(pageOffsets).toEqual(headings.map((h) => h.offset));
+		expect(text.slice(pageOffsets?.[1])).toMatch(/^Slide 2: Respiration/);
+	});
+});
+
+describe("openArchive", () => {
+	it("解压后过大的文件应该在解压前拒绝", async () => {
+		const zip = new JSZip();
+		zip.file("META-INF/container.xml", "<container/>");
+		zip.file("bomb.xhtml", Buffer.alloc(MAX_ARCHIVE_ENTRY_BYTES + 1));
+		const buffer = await zip.generateAsync({
+			type: "nodebuffer",
+			compression: "DEFLATE",
+		});
+
+		expect(buffer.byteLength).toBeLessThan(1024 * 1024);
+		await expect(parseEpubDocument(buffer)).rejects.toThrow(
+			"Archive is too large when uncompressed",
+		);
+		await expect(parsePptxDocument(buffer)).rejects.toThrow(
+			"Archive is too large when uncompressed",
+		);
+	});
+});
+
+describe("parseHtmlDocument", () => {
+	it("应该提取正文并把页面标题作为一级标题", () => {
+		const html = [
+			"<html><head><title>Study Notes</title></head><body>",
+			"<nav><a href='/'>Home</a></nav>",
+			"<main><p>The mitochondria is the powerhouse of the cell and produces ATP.</p>",
+			"<h2>Enzymes</h2><p>Enzymes speed up chemical reactions in the body.</p></main>",
+			"</body></html>",
+		].join("");
+
+		const { text, headings } = parseHtmlDocument(html);
+
+		expect(text.startsWith("# Study Notes")).toBe(true);
+		expect(text).not.toContain("Home");
+		expect(headings.map((h) => [h.level, h.title])).toEqual([
+			[1, "Study Notes"],
+			[2, "Enzymes"],
+		]);
+	});
+});
+
+describe("parseSubtitleDocument", () => {
+	it("应该去掉时间轴并按停顿合并段落", () => {
+		const srt = [
+			"1",
+			"00:00:01,000 --> 00:00:02,000",
+			"Welcome to the lecture.",
+			"",
+			"2",
+			"00:00:02,500 --> 00:00:04,000",
+			"Today we cover cells.",
+			"",
+			"3",
+			"00:00:10,000 --> 00:00:12,000",
+			"Next, the membrane.",
+		].join("\n");
+
+		const { text, headings } = parseSubtitleDocument(srt);
+
+		expect(text).toBe(
+			"Welcome to the lecture. Today we cover cells.\n\nNext, the membrane.",
+		);
+		expect(headings).toEqual([]);
+	});
+
+	it("没有字幕条目时应该报错", () => {
+		expect(() => parseSubtitleDocument("WEBVTT\n\nNOTE empty")).toThrow(
+			"no readable cues",
+		);
+	});
+});
+
+describe("file-types", () => {
+	it("应该根据扩展名和 MIME 类型识别文件类型", () => {
+		expect(getFileTypeFromName("Slides.PPTX")).toBe("pptx");
+		expect(getFileTypeFromName("book.epub")).toBe("epub");
+		expect(getFileTypeFromName("page.htm")).toBe("html");
+		expect(getFileTypeFromName("talk.vtt")).toBe("vtt");
+		expect(getFileTypeFromName("archive.zip")).toBeNull();
+		expect(getFileTypeFromMime("text/html; charset=utf-8")).toBe("html");
+		expect(getFileTypeLabel("notes.markdown")).toBe("Markdown");
+	});
+
+	it("浏览器类型缺失或不一致时应该使用默认 Content-Type", () => {
+		expect(resolveUploadContentType("book.epub", "")).toBe(
+			"application/epub+zip",
+		);
+		expect(resolveUploadContentType("talk.srt", "application/octet-stream")).toBe(
+			"application/x-subrip",
+		);
+		expect(resolveUploadContentType("page.html", "text/html")).toBe(
+			"text/html",
+		);
+		expect(resolveUploadContentType("deck.apkg", "")).toBe(
+			"application/octet-stream",
+		);
+	});
+});
+
+describe("文档插图", () => {
+	it("指定图片地址前缀时应该提取幻灯片图片并在正文后插入引用", async () => {
+		const base = "/image-proxy/uploads/figures/u1/t1";
+		const { text, images } = await parsePptxDocument(await buildPptx(), {
+			imageBaseUrl: base,
+		});
+
+		// 浏览器无法显示的 EMF 不提取
+		expect(images?.map((image) => [image.name, image.alt])).toEqual([
+			["figure-1.png", "Chloroplast diagram"],
+		]);
+		expect(text).toContain(`Calvin cycle & sugars\n![Chloroplast diagram](${base}/figure-1.png)`);
+		expect(findFigureReferences(text)).toEqual([
+			{ src: `${base}/figure-1.png`, alt: "Chloroplast diagram" },
+		]);
+	});
+
+	it("不指定图片地址前缀时只提取文本", async () => {
+		const { text, images } = await parsePptxDocument(await buildPptx());
+
+		expect(images).toBeUndefined();
+		expect(text).not.toContain("![");
+	});
+
+	it("图片收集器应该限制类型和数量", () => {
+		const figures = createFigureCollector("/image-proxy/b/figures/x/");
+
+		expect(figures.add(PIXEL_PNG, "image/x-emf")).toBeNull();
+		expect(figures.add(PIXEL_PNG, "image/png", "A [labelled]\ndiagram")).toBe(
+			"![A labelled diagram](/image-proxy/b/figures/x/figure-1.png)",
+		);
+		for (let i = 1; i < MAX_DOCUMENT_IMAGES; i++) {
+			figures.add(PIXEL_PNG, "image/jpeg");
+		}
+		expect(figures.images).toHaveLength(MAX_DOCUMENT_IMAGES);
+		expect(figures.images[1]?.name).toBe("figure-2.jpg");
+		expect(figures.add(PIXEL_PNG, "image/png")).toBeNull();
+	});
+
+	it("只把存储中的图片识别为插图引用", () => {
+		const text = [
+			"![Logo](https://example.com/logo.png)",
+			"![Figure 1](/image-proxy/b/figures/f1.png) and again ![Figure 1](/image-proxy/b/figures/f1.png)",
+		].join("\n");
+
+		expect(findFigureReferences(text)).toEqual([
+			{ src: "/image-proxy/b/figures/f1.png", alt: "Figure 1" },
+		]);
+	});
+
+	it("PNG 编码应该写入尺寸并按行加过滤字节", () => {
+		const pixels = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+		const png = encodePng(pixels, 2, 2, 3);
+
+		expect(png.subarray(1, 4).toString("ascii")).toBe("PNG");
+		expect(png.readUInt32BE(16)).toBe(2);
+		expect(png.readUInt32BE(20)).toBe(2);
+		expect(png[25]).toBe(2);
+
+		const idatLength = png.readUInt32BE(33);
+		const raw = inflateSync(png.subarray(41, 41 + idatLength));
+		expect([...raw]).toEqual([0, 1, 2, 3, 4, 5, 6, 0, 7, 8, 9, 10, 11, 12]);
+	});
+});
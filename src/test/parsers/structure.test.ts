@@ -0,0 +1,88 @@
+/**
+ * 文档结构解析单元测试
+ *
+ * 测试范围：
+ * - parseMarkdownDocument: `#` 标题层级和偏移、忽略代码块中的 `#` 行
+ * - locateHeadings: 按顺序定位标题、空白宽松匹配、丢弃找不到的标题
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { parseMarkdownDocument } from "@/lib/parsers/markdown";
+import { locateHeadings } from "@/lib/parsers/structure";
+
+describe("parseMarkdownDocument", () => {
+	it("应该保留标题层级和在文本中的位置", () => {
+		const content = [
+			"# Biology",
+			"",
+			"## Cells ##",
+			"Cells are the basic unit of life.",
+			"",
+			"## Plants",
+			"Plants make food.",
+		].join("\r\n");
+
+		const { text, headings, pageOffsets } = parseMarkdownDocument(content);
+
+		expect(headings.map((h) => [h.level, h.title])).toEqual([
+			[1, "Biology"],
+			[2, "Cells"],
+			[2, "Plants"],
+		]);
+		for (const heading of headings) {
+			expect(text.slice(heading.offset)).toMatch(/^#+ /);
+		}
+		expect(pageOffsets).toBeNull();
+	});
+
+	it("代码块中的 # 行不是标题", () => {
+		const content = [
+			"# Setup",
+			"```bash",
+			"# install dependencies",
+			"pnpm install",
+			"```",
+			"# Usage",
+			"Run the app with pnpm dev.",
+		].join("\n");
+
+		const { headings } = parseMarkdownDocument(content);
+
+		expect(headings.map((h) => h.title)).toEqual(["Setup", "Usage"]);
+	});
+});
+
+describe("locateHeadings", () => {
+	const text = [
+		"Introduction",
+		"Overview of the topic.",
+		"Chapter  1",
+		"Overview again.",
+	].join("\n\n");
+
+	it("应该按顺序定位标题，同名文本从上一个标题之后查找", () => {
+		const headings = locateHeadings(text, [
+			{ level: 1, title: "Introduction" },
+			{ level: 2, title: "Overview" },
+			{ level: 1, title: "chapter 1" },
+			{ level: 2, title: "Overview" },
+		]);
+
+		expect(headings.map((h) => h.offset)).toEqual([
+			0,
+			text.indexOf("Overview"),
+			text.indexOf("Chapter"),
+			text.lastIndexOf("Overview"),
+		]);
+	});
+
+	it("应该丢弃在文本中找不到的标题", () => {
+		const headings = locateHeadings(text, [
+			{ level: 1, title: "Appendix" },
+			{ level: 1, title: "Chapter 1" },
+		]);
+
+		expect(headings.map((h) => h.title)).toEqual(["Chapter 1"]);
+	});
+});
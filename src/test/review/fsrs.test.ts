@@ -0,0 +1,110 @@
+/**
+ * FSRS 调度器单元测试
+ *
+ * 测试范围：
+ * - createEmptySchedulingState: 新卡初始状态
+ * - scheduleCard: 新卡 / 学习中 / 复习 / 遗忘 各状态转换
+ * - previewSchedule: 四种评分的间隔顺序
+ * - forgettingCurve / nextInterval: 核心公式
+ *
+ * 注意：纯函数测试，不访问数据库
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+	createEmptySchedulingState,
+	forgettingCurve,
+	nextInterval,
+	previewSchedule,
+	scheduleCard,
+} from "@/lib/srs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-01-01T00:00:00Z");
+
+describe("forgettingCurve / nextInterval", () => {
+	it("经过 stability 天后可提取率应为 90%", () => {
+		expect(forgettingCurve(10, 10)).toBeCloseTo(0.9, 5);
+	});
+
+	it("默认保持率 0.9 时间隔约等于 stability", () => {
+		expect(nextInterval(10)).toBe(10);
+		expect(nextInterval(0.1)).toBe(1);
+	});
+});
+
+describe("scheduleCard - 新卡", () => {
+	it("Again/Hard/Good 应进入 learning 状态并安排分钟级间隔", () => {
+		const empty = createEmptySchedulingState(NOW);
+
+		const again = scheduleCard(empty, 1, NOW).next;
+		const good = scheduleCard(empty, 3, NOW).next;
+
+		expect(again.state).toBe("learning");
+		expect(again.due.getTime() - NOW.getTime()).toBe(60 * 1000);
+		expect(good.state).toBe("learning");
+		expect(good.due.getTime() - NOW.getTime()).toBe(10 * 60 * 1000);
+		expect(good.reps).toBe(1);
+	});
+
+	it("Easy 应直接毕业进入 review", () => {
+		const easy = scheduleCard(createEmptySchedulingState(NOW), 4, NOW).next;
+
+		expect(easy.state).toBe("review");
+		expect(easy.scheduledDays).toBeGreaterThanOrEqual(1);
+		expect(easy.difficulty).toBeGreaterThanOrEqual(1);
+		expect(easy.difficulty).toBeLessThanOrEqual(10);
+	});
+});
+
+describe("scheduleCard - 学习与复习", () => {
+	it("learning 状态下 Good 应毕业为 review", () => {
+		const learning = scheduleCard(createEmptySchedulingState(NOW), 3, NOW).next;
+		const later = new Date(NOW.getTime() + 10 * 60 * 1000);
+		const graduated = scheduleCard(learning, 3, later).next;
+
+		expect(graduated.state).toBe("review");
+		expect(graduated.scheduledDays).toBeGreaterThanOrEqual(1);
+	});
+
+	it("review 状态下 Again 应记录遗忘并进入 relearning", () => {
+		const review = scheduleCard(createEmptySchedulingState(NOW), 4, NOW).next;
+		const dueDate = review.due;
+		const result = scheduleCard(review, 1, dueDate);
+
+		expect(result.next.state).toBe("relearning");
+		expect(result.next.lapses).toBe(1);
+		expect(result.next.stability).toBeLessThan(review.stability);
+		expect(result.elapsedDays).toBe(review.scheduledDays);
+		expect(result.previousScheduledDays).toBe(review.scheduledDays);
+		expect(result.retrievability).not.toBeNull();
+	});
+
+	it("按时复习 Good 应增加稳定性和间隔", () => {
+		const review = scheduleCard(createEmptySchedulingState(NOW), 4, NOW).next;
+		const next = scheduleCard(review, 3, review.due).next;
+
+		expect(next.state).toBe("review");
+		expect(next.stability).toBeGreaterThan(review.stability);
+		expect(next.scheduledDays).toBeGreaterThan(review.scheduledDays);
+		expect(next.due.getTime()).toBe(
+			review.due.getTime() + next.scheduledDays * DAY_MS
+		);
+	});
+});
+
+describe("previewSchedule", () => {
+	it("review 卡片的间隔应满足 Hard <= Good < Easy", () => {
+		const review = scheduleCard(createEmptySchedulingState(NOW), 4, NOW).next;
+		const preview = previewSchedule(review, review.due);
+
+		expect(preview.hard.scheduledDays).toBeLessThanOrEqual(
+			preview.good.scheduledDays
+		);
+		expect(preview.good.scheduledDays).toBeLessThan(
+			preview.easy.scheduledDays
+		);
+		expect(preview.again.state).toBe("relearning");
+	});
+});
@@ -0,0 +1,83 @@
+/**
+ * 学习统计单元测试
+ *
+ * 测试范围：
+ * - computeRetention: 只统计 review 状态的评分
+ * - buildReviewHeatmap: 按 UTC 日期分桶、补齐空白日期
+ * - buildDueForecast: 逾期计入今天、忽略新卡和超出范围的卡片
+ *
+ * 注意：纯函数测试，不访问数据库
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+	buildDueForecast,
+	buildReviewHeatmap,
+	computeRetention,
+	type ReviewLogEntry,
+} from "@/lib/srs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-01-10T12:00:00Z");
+
+describe("computeRetention", () => {
+	it("应只统计复习状态下的评分", () => {
+		const logs: ReviewLogEntry[] = [
+			{ rating: "good", state: "review", reviewedAt: NOW },
+			{ rating: "again", state: "review", reviewedAt: NOW },
+			{ rating: "easy", state: "review", reviewedAt: NOW },
+			{ rating: "again", state: "learning", reviewedAt: NOW },
+			{ rating: "good", state: "new", reviewedAt: NOW },
+		];
+
+		const retention = computeRetention(logs);
+
+		expect(retention.total).toBe(3);
+		expect(retention.passed).toBe(2);
+		expect(retention.rate).toBeCloseTo(2 / 3, 5);
+	});
+
+	it("无复习记录时保持率为 null", () => {
+		expect(computeRetention([]).rate).toBeNull();
+	});
+});
+
+describe("buildReviewHeatmap", () => {
+	it("应按日期分桶并补齐空白日期", () => {
+		const heatmap = buildReviewHeatmap(
+			[
+				{ reviewedAt: NOW },
+				{ reviewedAt: new Date(NOW.getTime() - 60 * 1000) },
+				{ reviewedAt: new Date(NOW.getTime() - 2 * DAY_MS) },
+			],
+			3,
+			NOW
+		);
+
+		expect(heatmap).toEqual([
+			{ date: "2026-01-08", count: 1 },
+			{ date: "2026-01-09", count: 0 },
+			{ date: "2026-01-10", count: 2 },
+		]);
+	});
+});
+
+describe("buildDueForecast", () => {
+	it("逾期卡片计入今天，忽略新卡和超出范围的卡片", () => {
+		const forecast = buildDueForecast(
+			[
+				{ state: "review", due: new Date(NOW.getTime() - 3 * DAY_MS) },
+				{ state: "learning", due: NOW },
+				{ state: "review", due: new Date(NOW.getTime() + DAY_MS) },
+				{ state: "new", due: NOW },
+				{ state: "review", due: new Date(NOW.getTime() + 10 * DAY_MS) },
+			],
+			3,
+			NOW
+		);
+
+		expect(forecast.map((d) => d.count)).toEqual([2, 1, 0]);
+		expect(forecast[0]?.date).toBe("2026-01-10");
+	});
+});
@@ -6,12 +6,20 @@
  * - 用户文件隔离（只能操作自己的文件）
  * - 文件键名合法性验证
  * - ContentType 验证
+ * - 文档插图访问控制（只有所有者可以通过 image-proxy 访问）
+ * - 上传文档归属（只能解析自己上传的文档）
  *
  * 注意：这些测试验证安全逻辑，不实际调用 S3
  */
 
 import { afterAll, describe, expect, it } from "vitest";
 
+import {
+	getFigureLocation,
+	getFiguresBucket,
+	isProxyableImage,
+} from "@/features/storage/figures";
+import { isUserUploadKey } from "@/features/storage/utils";
 import { cleanupTestUsers, createTestUser } from "../utils";
 
 // 收集测试中创建的用户 ID，用于清理
@@ -435,3 +443,49 @@ describe("Storage Security Attack Vectors", () => {
 		expect(deleteResult.error).toContain("无权删除此文件");
 	});
 });
+
+// ============================================
+// 文档插图访问控制测试
+// ============================================
+
+describe("Figure Access Control", () => {
+	const bucket = getFiguresBucket();
+
+	it("所有者应该能访问自己的插图", () => {
+		const { keyPrefix } = getFigureLocation("owner-1", "task-1");
+
+		expect(isProxyableImage(bucket, `${keyPrefix}/figure-1.png`, "owner-1")).toBe(true);
+	});
+
+	it("未登录或其他用户不应该能访问插图", () => {
+		const { keyPrefix } = getFigureLocation("owner-1", "task-1");
+		const key = `${keyPrefix}/figure-1.png`;
+
+		expect(isProxyableImage(bucket, key, null)).toBe(false);
+		expect(isProxyableImage(bucket, key, "attacker")).toBe(false);
+		// 用户 ID 前缀相同也不能越权
+		expect(isProxyableImage(bucket, key, "owner")).toBe(false);
+	});
+
+	it("不应该开放上传的原始文档和路径遍历", () => {
+		expect(isProxyableImage(bucket, "uploads/owner-1/notes.pdf", "owner-1")).toBe(false);
+		expect(
+			isProxyableImage(bucket, "figures/owner-1/../owner-2/t/figure-1.png", "owner-1")
+		).toBe(false);
+	});
+});
+
+describe("Upload Ownership", () => {
+	it("应该接受自己上传的文档", () => {
+		expect(isUserUploadKey("uploads/owner-1/abc.pdf", "owner-1")).toBe(true);
+	});
+
+	it("应该拒绝其他用户上传的文档", () => {
+		expect(isUserUploadKey("uploads/owner-2/abc.pdf", "owner-1")).toBe(false);
+		// 用户 ID 前缀相同也不能越权
+		expect(isUserUploadKey("uploads/owner-10/abc.pdf", "owner-1")).toBe(false);
+		expect(isUserUploadKey("figures/owner-1/t/figure-1.png", "owner-1")).toBe(
+			false,
+		);
+	});
+});
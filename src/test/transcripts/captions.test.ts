@@ -0,0 +1,253 @@
+/**
+ * 视频字幕单元测试
+ *
+ * 测试范围：
+ * - parseCaptions: WebVTT / SRT 解析、样式标签、滚动字幕合并
+ * - segmentTranscript: 按时间窗口和 token 上限分段
+ * - locateTimestamp: 按卡片内容定位字幕时间
+ * - 视频链接: YouTube ID 提取、时间戳链接、时间格式化
+ * - youtubeCaptionProvider: 请求超时、字幕轨道地址校验
+ *
+ * 注意：fetch 使用桩函数，不访问网络
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { parseCaptions } from "@/lib/transcripts/captions";
+import {
+	isYouTubeCaptionUrl,
+	youtubeCaptionProvider,
+} from "@/lib/transcripts/providers";
+import { locateTimestamp, segmentTranscript } from "@/lib/transcripts/segments";
+import {
+	buildTimestampUrl,
+	formatTimestamp,
+	parseYouTubeVideoId,
+} from "@/lib/transcripts/video-url";
+
+describe("parseCaptions", () => {
+	it("解析 WebVTT，跳过头部和 NOTE 块并去除样式标签", () => {
+		const vtt = [
+			"WEBVTT",
+			"Kind: captions",
+			"",
+			"NOTE this is a comment",
+			"",
+			"intro",
+			"00:00:01.500 --> 00:00:04.000 align:start",
+			"<v Speaker>Hello &amp; <b>welcome</b></v>",
+			"",
+			"00:05.000 --> 00:07.250",
+			"to the course",
+		].join("\n");
+
+		expect(parseCaptions(vtt)).toEqual([
+			{ start: 1.5, end: 4, text: "Hello & welcome" },
+			{ start: 5, end: 7.25, text: "to the course" },
+		]);
+	});
+
+	it("解析 SRT 序号行和逗号毫秒", () => {
+		const srt = "1\r\n00:01:02,100 --> 00:01:03,000\r\nFirst line\r\nsecond line\r\n\r\n2\r\n01:00:00,000 --> 01:00:02,000\r\nLater\r\n";
+
+		expect(parseCaptions(srt)).toEqual([
+			{ start: 62.1, end: 63, text: "First line second line" },
+			{ start: 3600, end: 3602, text: "Later" },
+		]);
+	});
+
+	it("合并 YouTube 自动字幕的滚动重复", () => {
+		const vtt = [
+			"WEBVTT",
+			"",
+			"00:00:00.000 --> 00:00:02.000",
+			"the mitochondria",
+			"",
+			"00:00:02.000 --> 00:00:02.010",
+			"the mitochondria",
+			"",
+			"00:00:02.010 --> 00:00:04.000",
+			"the mitochondria",
+			"is the powerhouse",
+		].join("\n");
+
+		expect(parseCaptions(vtt)).toEqual([
+			{ start: 0, end: 2.01, text: "the mitochondria" },
+			{ start: 2.01, end: 4, text: "is the powerhouse" },
+		]);
+	});
+
+	it("无时间行的内容返回空数组", () => {
+		expect(parseCaptions("just some text")).toEqual([]);
+	});
+});
+
+describe("segmentTranscript", () => {
+	const cues = Array.from({ length: 10 }, (_, i) => ({
+		start: i * 60,
+		end: i * 60 + 50,
+		text: `sentence number ${i}`,
+	}));
+
+	it("按时间窗口切分并保留时间范围", () => {
+		const segments = segmentTranscript(cues, { windowSeconds: 180 });
+
+		expect(segments.map((s) => [s.start, s.end])).toEqual([
+			[0, 170],
+			[180, 350],
+			[360, 530],
+			[540, 590],
+		]);
+		expect(segments[0]?.text).toBe(
+			"sentence number 0 sentence number 1 sentence number 2",
+		);
+		expect(segments.map((s) => s.index)).toEqual([0, 1, 2, 3]);
+	});
+
+	it("超过 token 上限时提前切分", () => {
+		const segments = segmentTranscript(cues, {
+			windowSeconds: 3600,
+			maxTokens: 12,
+		});
+
+		expect(segments.length).toBeGreaterThan(1);
+		expect(segments.flatMap((s) => s.cues)).toEqual(cues);
+	});
+});
+
+describe("locateTimestamp", () => {
+	const cues = [
+		{ start: 0, end: 5, text: "Welcome to this lecture" },
+		{ start: 5, end: 10, text: "today we talk about cells" },
+		{ start: 10, end: 15, text: "first some history" },
+		{ start: 15, end: 20, text: "more background" },
+		{ start: 20, end: 25, text: "photosynthesis converts light" },
+		{ start: 25, end: 30, text: "into chemical energy" },
+	];
+
+	it("定位到词重合最多的字幕", () => {
+		expect(
+			locateTimestamp(
+				"What does photosynthesis convert light into?\nChemical energy",
+				cues,
+			),
+		).toBe(20);
+	});
+
+	it("无重合时返回首条字幕时间，无字幕时返回 null", () => {
+		expect(locateTimestamp("quantum", cues)).toBe(0);
+		expect(locateTimestamp("anything", [])).toBeNull();
+	});
+
+	it("中文内容按双字匹配", () => {
+		const zh = [
+			{ start: 0, end: 5, text: "今天我们讲细胞" },
+			{ start: 5, end: 10, text: "首先介绍历史" },
+			{ start: 10, end: 15, text: "然后介绍背景" },
+			{ start: 15, end: 20, text: "再看一些例子" },
+			{ start: 20, end: 25, text: "光合作用把光能转化为化学能" },
+		];
+
+		expect(locateTimestamp("光合作用的产物是什么？化学能", zh)).toBe(20);
+	});
+});
+
+describe("视频链接", () => {
+	it("提取各种形式的 YouTube 视频 ID", () => {
+		const id = "dQw4w9WgXcQ";
+		expect(parseYouTubeVideoId(`https://www.youtube.com/watch?v=${id}`)).toBe(
+			id,
+		);
+		expect(parseYouTubeVideoId(`https://youtu.be/${id}?si=abc`)).toBe(id);
+		expect(parseYouTubeVideoId(`https://youtube.com/shorts/${id}`)).toBe(id);
+		expect(parseYouTubeVideoId(`https://www.youtube.com/embed/${id}`)).toBe(
+			id,
+		);
+		expect(parseYouTubeVideoId("https://vimeo.com/12345")).toBeNull();
+		expect(parseYouTubeVideoId("not a url")).toBeNull();
+	});
+
+	it("生成时间戳链接", () => {
+		expect(
+			buildTimestampUrl("https://youtu.be/dQw4w9WgXcQ", 83.7),
+		).toBe("https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=83s");
+		expect(buildTimestampUrl("https://example.com/lecture.mp4", 42)).toBe(
+			"https://example.com/lecture.mp4#t=42",
+		);
+	});
+
+	it("格式化时间戳", () => {
+		expect(formatTimestamp(5)).toBe("0:05");
+		expect(formatTimestamp(83.7)).toBe("1:23");
+		expect(formatTimestamp(3725)).toBe("1:02:05");
+	});
+});
+
+describe("youtubeCaptionProvider", () => {
+	const SOURCE = {
+		videoUrl: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+		captionFile: null,
+	};
+
+	function watchPage(baseUrl: string): Response {
+		const player = {
+			videoDetails: { title: "Demo" },
+			captions: {
+				playerCaptionsTracklistRenderer: {
+					captionTracks: [{ baseUrl, languageCode: "en" }],
+				},
+			},
+		};
+		return new Response(
+			`<script>var ytInitialPlayerResponse = ${JSON.stringify(player)};</script>`,
+		);
+	}
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("只下载 YouTube 的 https 字幕地址", () => {
+		expect(
+			isYouTubeCaptionUrl("https://www.youtube.com/api/timedtext?v=x"),
+		).toBe(true);
+		expect(isYouTubeCaptionUrl("http://www.youtube.com/api/timedtext")).toBe(
+			false,
+		);
+		expect(isYouTubeCaptionUrl("https://youtube.com.evil.test/x")).toBe(false);
+		expect(isYouTubeCaptionUrl("https://169.254.169.254/latest")).toBe(false);
+		expect(isYouTubeCaptionUrl("not a url")).toBe(false);
+	});
+
+	it("每个请求都应该带超时，并下载 WebVTT 字幕", async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(
+				watchPage("https://www.youtube.com/api/timedtext?v=dQw4w9WgXcQ"),
+			)
+			.mockResolvedValueOnce(
+				new Response("WEBVTT\n\n00:00:01.000 --> 00:00:03.000\nHello"),
+			);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const transcript = await youtubeCaptionProvider.fetchTranscript(SOURCE);
+
+		expect(transcript.cues).toHaveLength(1);
+		expect(String(fetchMock.mock.calls[1]?.[0])).toContain("fmt=vtt");
+		for (const [, init] of fetchMock.mock.calls) {
+			expect(init?.signal).toBeInstanceOf(AbortSignal);
+		}
+	});
+
+	it("页面中的字幕地址不是 YouTube 时应该拒绝", async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(watchPage("http://169.254.169.254/latest"));
+		vi.stubGlobal("fetch", fetchMock);
+
+		await expect(
+			youtubeCaptionProvider.fetchTranscript(SOURCE),
+		).rejects.toThrow("unexpected caption URL");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+});